@@ -1,6 +1,15 @@
 import type { Handler } from "@netlify/functions";
-
-type OpenAIResponse = any;
+import { completeLlm, LlmError, llmConfigFromEnv, llmErrorStatus, llmTimeLeft, logLlmUsage, type LlmResponse, type LlmUsage } from "../lib/llmProvider";
+import {
+  COACH_AI_JSON_SCHEMA,
+  formatCoachAiText,
+  parseCoachAiText,
+  type CoachAiFlag,
+  type CoachAiLiftSuggestion,
+  type CoachAiPayload,
+  type CoachAiPriority,
+  type CoachAiSource,
+} from "../../src/lib/coachAiContract";
 
 type QuickLogRow = {
   day_date?: string;
@@ -335,6 +344,96 @@ function deriveSignals(body: any) {
     oneThingToLogTomorrow,
   };
 }
+type DerivedSignals = ReturnType<typeof deriveSignals>;
+
+const PATTERN_LIFTS: Array<{ key: "push" | "lower" | "hinge" | "pull"; lift: string; step: number }> = [
+  { key: "push", lift: "Bench / overhead press", step: 5 },
+  { key: "lower", lift: "Squat pattern", step: 10 },
+  { key: "hinge", lift: "Deadlift / RDL", step: 10 },
+  { key: "pull", lift: "Rows / pulldowns", step: 5 },
+];
+
+// The readout the server can stand behind without a model: governor, deload and flags as computed.
+function coachFromSignals(signals: DerivedSignals): CoachAiPayload {
+  const { quickLog, training, flags, governor, deload, recoveryBudget } = signals;
+  const deloadScope = deload.pattern.full ? "FULL" : deload.pattern.lower ? "LOWER" : deload.pattern.push ? "PUSH" : null;
+  const headline = deload.active
+    ? `DELOAD ${deloadScope ?? "FULL"}: 7 days at ${Math.round(deload.percent * 100)}% while recovery catches up.`
+    : recoveryBudget === "GREEN"
+      ? `Green light: progress where the last work was clean, cap effort at RPE ${governor.rpeCap}.`
+      : recoveryBudget === "YELLOW"
+        ? `Yellow: hold loads, keep effort at RPE ${governor.rpeCap} or below.`
+        : `Red: trim volume and keep effort at RPE ${governor.rpeCap} or below.`;
+
+  const priorities: CoachAiPriority[] = [];
+  const addPriority = (category: CoachAiPriority["category"], title: string, detail: string) => {
+    priorities.push({ id: `priority-${priorities.length + 1}`, category, title, detail });
+  };
+  if (deload.active) addPriority("training", "Run the deload as written", `Deload loads are ${Math.round(deload.percent * 100)}% of the last top sets for the affected patterns.`);
+  if (quickLog.avgSleep3 != null && quickLog.avgSleep3 < 6.5) addPriority("recovery", "Get sleep back above 6.5 h", `3-day average is ${quickLog.avgSleep3.toFixed(1)} h.`);
+  if (quickLog.avgProtein3 != null && quickLog.avgProtein3 < quickLog.proteinTarget3) {
+    addPriority("nutrition", `Hit ${Math.round(quickLog.proteinTarget3)} g protein`, `3-day average is ${Math.round(quickLog.avgProtein3)} g.`);
+  }
+  if (quickLog.basicsDays7 < 4) addPriority("logging", "Log sleep and protein daily", `Only ${quickLog.basicsDays7} of the last 7 days have both.`);
+  if (!priorities.length) addPriority("training", governor.allowLoadIncrease ? "Add load on clean lifts" : "Hold loads and own the reps", `Recovery budget is ${recoveryBudget}.`);
+
+  const liftSuggestions: CoachAiLiftSuggestion[] = [];
+  for (const pattern of PATTERN_LIFTS) {
+    const top = training.patternTopSetLbs[pattern.key];
+    if (top == null) continue;
+    const deloaded = deload.pattern.full || (pattern.key === "push" ? deload.pattern.push : pattern.key === "pull" ? deload.pattern.pull : deload.pattern.lower);
+    const action: CoachAiLiftSuggestion["action"] = deloaded ? "deload" : governor.allowLoadIncrease ? "increase" : "hold";
+    liftSuggestions.push({
+      id: `lift-${liftSuggestions.length + 1}`,
+      lift: pattern.lift,
+      action,
+      loadLbs: deloaded ? deload.loadsLbs[pattern.key] : action === "increase" ? top + pattern.step : top,
+      reps: null,
+      rpeCap: governor.rpeCap,
+      note: deloaded ? "Pattern is in deload." : action === "increase" ? `Last top set ${top} lb went in clean enough to add ${pattern.step}.` : `Repeat ${top} lb until the governor opens.`,
+    });
+  }
+
+  const nutritionFlags: CoachAiFlag[] = [];
+  if (quickLog.avgProtein3 != null) {
+    const short = quickLog.avgProtein3 < quickLog.proteinTarget3;
+    nutritionFlags.push({ id: "nutrition-1", level: short ? "act" : "ok", message: `Protein ${Math.round(quickLog.avgProtein3)} g vs ${Math.round(quickLog.proteinTarget3)} g target (3-day).` });
+  }
+  if (quickLog.wtPct14 != null && quickLog.wtPct14 <= -2) {
+    nutritionFlags.push({ id: `nutrition-${nutritionFlags.length + 1}`, level: "watch", message: `Bodyweight down ${Math.abs(quickLog.wtPct14).toFixed(1)}% in 14 days.` });
+  }
+
+  const recoveryFlags: CoachAiFlag[] = [];
+  const addRecovery = (level: CoachAiFlag["level"], message: string) => {
+    recoveryFlags.push({ id: `recovery-${recoveryFlags.length + 1}`, level, message });
+  };
+  if (quickLog.avgSleep3 != null) addRecovery(quickLog.avgSleep3 < 5.5 ? "act" : quickLog.avgSleep3 < 6.5 ? "watch" : "ok", `Sleep ${quickLog.avgSleep3.toFixed(1)} h (3-day).`);
+  const joints = (["knee", "back", "shoulder"] as const).filter((joint) => flags[joint]);
+  if (joints.length) addRecovery("act", `Joint flag: ${joints.join(", ")}.`);
+  if (flags.pain || flags.fatigue) addRecovery("watch", `Notes mention ${[flags.pain ? "pain" : null, flags.fatigue ? "fatigue" : null].filter(Boolean).join(" and ")}.`);
+  if (training.spikePctApprox != null && training.spikePctApprox > 25) addRecovery("watch", `Tonnage up ~${Math.round(training.spikePctApprox)}% on the previous sessions.`);
+
+  return {
+    headline,
+    confidence: signals.confidence === "HIGH" ? "high" : signals.confidence === "MEDIUM" ? "medium" : "low",
+    priorities: priorities.slice(0, 3),
+    liftSuggestions,
+    nutritionFlags: nutritionFlags.slice(0, 4),
+    recoveryFlags: recoveryFlags.slice(0, 4),
+    doNot: `Push past RPE ${governor.rpeCap}${governor.allowVolumeIncrease ? "" : " or add sets"}.`,
+    logTomorrow: signals.oneThingToLogTomorrow,
+  };
+}
+
+function addUsage(total: LlmUsage | null, next: LlmUsage): LlmUsage {
+  if (!total) return next;
+  return {
+    inputTokens: total.inputTokens + next.inputTokens,
+    outputTokens: total.outputTokens + next.outputTokens,
+    costUsd: total.costUsd == null || next.costUsd == null ? null : total.costUsd + next.costUsd,
+  };
+}
+
 function pickSummary(body: any): string {
   if (!body) return "";
   // Accept multiple client payload shapes (to avoid front-end mismatch).
@@ -453,6 +552,8 @@ function buildPrompt(body: any): string {
   ].join("\n");
 }
 
+// A schema repair is a full second reply; below this it would only be cut off by the deadline.
+const MIN_REPAIR_MS = 3_000;
 
 export const handler: Handler = async (event) => {
   try {
@@ -464,8 +565,8 @@ export const handler: Handler = async (event) => {
       };
     }
 
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
+    const llmConfig = llmConfigFromEnv(process.env);
+    if (llmConfig.provider === "openai" && !llmConfig.apiKey) {
       return {
         statusCode: 500,
         headers: { "content-type": "application/json" },
@@ -480,6 +581,7 @@ export const handler: Handler = async (event) => {
       body = null;
     }
     const summary = buildPrompt(body) || pickSummary(body);
+    const signals = deriveSignals(body);
 
     if (!summary) {
       return {
@@ -502,80 +604,98 @@ export const handler: Handler = async (event) => {
       "- Obey governor + deload objects from DERIVED SIGNALS. If deload.active is true, you MUST prescribe a deload (full or pattern) with the computed loads and substitutions.",
       "- Keep it punchy. No long lectures. No endless 'Missing:' lists.",
       "- No medical claims. If warning symptoms appear, advise clinician.",
-      "Output format (MUST follow exactly):",
-      "1) REALITY CHECK",
-      "   - First line must be a one-sentence headline. If DERIVED SIGNALS.deload.active is true, the headline MUST start with 'DELOAD' and specify FULL / LOWER / PUSH.",
-      "   - Then give 4-6 bullets covering entries (7d/14d), basics days (7d), sleep avg (3d + 7d if available), protein avg (3d + target), bodyweight trend (14d % if available), Zone 2 (days + minutes in 7d), joint signal summary, and latest note (or 'no note').",
-      "2) WHAT IMPROVED",
-      "   - Give exactly 2 bullets on training snapshot wins or stable positives (sessions/tonnage/sets, best lifts if present, useful compliance). If nothing improved, say so plainly.",
-      "3) WHAT NEEDS TIGHTENING",
-      "   - Give exactly 3 bullets covering governor impact, data confidence, and recovery budget. You MUST explicitly name the Quick Log signals driving the call (sleep/protein/joints/BW/Z2).",
-      "4) NEXT MOVE",
-      "   - Give max 3 bullets for next session targets. Must obey governor/deload. At least one bullet must be directly tied to Quick Log/governor.",
-      "   - Then add exactly 1 bullet labeled 'Do not do:' and exactly 1 bullet labeled 'Log tomorrow:'",
+      "Output: ONE JSON object matching the provided schema, nothing else.",
+      "- headline: one sentence. If DERIVED SIGNALS.deload.active is true it MUST start with 'DELOAD' and name FULL / LOWER / PUSH.",
+      "- confidence: high / medium / low, following DERIVED SIGNALS.confidence.",
+      "- priorities: 1-3 items, most important first. Each names the Quick Log or training signal driving it.",
+      "- liftSuggestions: next-session calls per lift or pattern. Must obey governor/deload; use computed deload loads when deload is active. loadLbs null when no load is known.",
+      "- nutritionFlags / recoveryFlags: level ok (a stable positive), watch or act, with the number behind it (sleep, protein, bodyweight, joints, Zone 2).",
+      "- doNot: the one thing not to do. logTomorrow: the one thing to log tomorrow.",
       "Style: direct, encouraging, slightly profane. Traditional training mindset. No fluff. Same coach readout voice used across the app.",
     ].join("\n");
 
     const userPrompt = [
       "Here is a structured training + quick log snapshot from the app.",
-      "Make it actionable, conservative, specific, and consistent with the coach readout voice. Keep it punchy.",
+      "Make it actionable, conservative, specific, and consistent with the coach readout voice. Keep it punchy. Reply with the JSON object only.",
       "",
       summary,
     ].join("\n");
 
-    const resp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        "content-type": "application/json",
-        authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-5.2",
-        input: [
-          { role: "system", content: [{ type: "input_text", text: system }] },
-          { role: "user", content: [{ type: "input_text", text: userPrompt }] },
-        ],
-        // Keep responses reasonably sized; user wants twice/day.
-        max_output_tokens: 900,
-      }),
-    });
-
-    const data: OpenAIResponse = await resp.json();
-
-    if (!resp.ok) {
-      return {
-        statusCode: resp.status,
-        headers: { "content-type": "application/json" },
-        body: JSON.stringify({
-          error: "OpenAI request failed",
-          details: data,
-        }),
-      };
-    }
-
-    // Extract output text (Responses API returns an array of output items).
-    let text = "";
-    const output = data?.output;
-    if (Array.isArray(output)) {
-      for (const item of output) {
-        if (item?.type === "output_text" && typeof item?.text === "string") {
-          text += item.text;
-        } else if (item?.content && Array.isArray(item.content)) {
-          for (const c of item.content) {
-            if (c?.type === "output_text" && typeof c?.text === "string") text += c.text;
-            if (c?.type === "summary_text" && typeof c?.text === "string" && !text) text += c.text;
-          }
-        }
+    const messages = [
+      { role: "system" as const, content: system },
+      { role: "user" as const, content: userPrompt },
+    ];
+    let coach: CoachAiPayload | null = null;
+    let source: CoachAiSource = "fallback";
+    let fallbackReason: string | null = null;
+    let model: string | null = null;
+    let usage: LlmUsage | null = null;
+    let lastText = "";
+    // Both calls share one budget so the deterministic readout still goes out inside the function limit.
+    const deadline = Date.now() + llmConfig.budgetMs;
+    // One corrective retry for output that will not validate, then the deterministic readout.
+    for (let attempt = 0; attempt < 2 && !coach; attempt += 1) {
+      if (attempt > 0 && llmTimeLeft(deadline) < MIN_REPAIR_MS) {
+        fallbackReason = `${fallbackReason ?? "Invalid model reply"} (no time left to repair it)`;
+        break;
+      }
+      let result: LlmResponse;
+      try {
+        result = await completeLlm(llmConfig, {
+          task: "coach",
+          messages: attempt === 0
+            ? messages
+            : [
+                ...messages,
+                {
+                  role: "user",
+                  content: [
+                    "Your previous reply did not match the schema:",
+                    ...(fallbackReason ? [fallbackReason] : []),
+                    "Previous reply:",
+                    lastText.slice(0, 4000),
+                    "Return the corrected JSON object only.",
+                  ].join("\n"),
+                },
+              ],
+          // Keep responses reasonably sized; user wants twice/day.
+          maxOutputTokens: 1200,
+          json: { name: "coach_readout", schema: COACH_AI_JSON_SCHEMA },
+          deadline,
+        });
+      } catch (err) {
+        if (!(err instanceof LlmError) || err.kind === "config") throw err;
+        fallbackReason = `Model request failed (${llmErrorStatus(err)}): ${err.message}`;
+        break;
       }
+      logLlmUsage("coach-ai", result);
+      model = result.model;
+      usage = addUsage(usage, result.usage);
+      lastText = result.text;
+      const parsed = parseCoachAiText(result.text);
+      if (parsed.payload) {
+        coach = parsed.payload;
+        source = parsed.repaired || attempt > 0 ? "repaired" : "model";
+        fallbackReason = null;
+      } else {
+        fallbackReason = parsed.errors.join("; ");
+      }
+    }
+    if (!coach) {
+      coach = coachFromSignals(signals);
+      source = "fallback";
     }
-    if (!text && typeof data?.output_text === "string") text = data.output_text;
 
     return {
       statusCode: 200,
       headers: { "content-type": "application/json" },
       body: JSON.stringify({
-        text: text || "(No text returned.)",
-        model: data?.model ?? "gpt-5.2",
+        text: formatCoachAiText(coach),
+        coach,
+        source,
+        fallbackReason,
+        model: source === "fallback" ? "deterministic" : model,
+        usage,
         ts: Date.now(),
         timestamp: new Date().toISOString(),
       }),
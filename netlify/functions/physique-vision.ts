@@ -1,4 +1,5 @@
 import type { Handler } from "@netlify/functions";
+import { completeLlm, LlmError, llmConfigFromEnv, llmErrorStatus, logLlmUsage } from "../lib/llmProvider";
 
 type ReqBody = {
   pose?: string; // front | quarter | side | back
@@ -9,29 +10,14 @@ type ReqBody = {
   imageB: string; // signed URL
 };
 
-function extractOutputText(data: any): string {
-  if (!data) return "";
-  if (typeof data.output_text === "string" && data.output_text.trim()) return data.output_text;
-
-  const chunks: string[] = [];
-  const out = Array.isArray(data.output) ? data.output : [];
-  for (const item of out) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const c of content) {
-      if (c?.type === "output_text" && typeof c?.text === "string") chunks.push(c.text);
-    }
-  }
-  return chunks.join("\n").trim();
-}
-
 export const handler: Handler = async (event) => {
   try {
     if (event.httpMethod !== "POST") {
       return { statusCode: 405, body: JSON.stringify({ message: "Method not allowed" }) };
     }
 
-    const apiKey = process.env.OPENAI_API_KEY || process.env.OPENAI_KEY;
-    if (!apiKey) {
+    const llmConfig = llmConfigFromEnv(process.env);
+    if (llmConfig.provider === "openai" && !llmConfig.apiKey) {
       return { statusCode: 400, body: JSON.stringify({ message: "No OpenAI API key configured" }) };
     }
 
@@ -100,45 +86,40 @@ export const handler: Handler = async (event) => {
       "2) Training: <one concrete lever>\n" +
       "3) Photo: <one concrete tip to improve next comparison>\n";
 
-    const resp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        "content-type": "application/json",
-        authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4.1",
-        input: [
-          { role: "system", content: [{ type: "input_text", text: system }] },
+    let result;
+    try {
+      result = await completeLlm(llmConfig, {
+        task: "vision",
+        messages: [
+          { role: "system", content: system },
           {
             role: "user",
             content: [
-              { type: "input_text", text: userText },
-              { type: "input_text", text: `IMAGE: ${labelA}` },
-              { type: "input_image", image_url: body.imageA },
-              { type: "input_text", text: `IMAGE: ${labelB}` },
-              { type: "input_image", image_url: body.imageB },
+              { type: "text", text: userText },
+              { type: "text", text: `IMAGE: ${labelA}` },
+              { type: "image", url: body.imageA },
+              { type: "text", text: `IMAGE: ${labelB}` },
+              { type: "image", url: body.imageB },
             ],
           },
         ],
-        max_output_tokens: 900,
-      }),
-    });
-
-    const data = await resp.json();
-    if (!resp.ok) {
+        maxOutputTokens: 900,
+      });
+    } catch (err) {
+      if (!(err instanceof LlmError) || err.kind === "config") throw err;
       return {
-        statusCode: resp.status,
-        body: JSON.stringify({ message: data?.error?.message ?? "OpenAI error", raw: data }),
+        statusCode: llmErrorStatus(err),
+        body: JSON.stringify({ message: err.message || "OpenAI error", raw: err.details }),
       };
     }
+    logLlmUsage("physique-vision", result);
 
-    const text = extractOutputText(data);
+    const text = result.text;
     if (!text.trim()) {
-      return { statusCode: 502, body: JSON.stringify({ message: "OpenAI returned no text output.", raw: data }) };
+      return { statusCode: 502, body: JSON.stringify({ message: "OpenAI returned no text output.", raw: { model: result.model, usage: result.usage } }) };
     }
 
-    return { statusCode: 200, body: JSON.stringify({ text }) };
+    return { statusCode: 200, body: JSON.stringify({ text, model: result.model, usage: result.usage }) };
   } catch (e: any) {
     return { statusCode: 500, body: JSON.stringify({ message: e?.message ?? String(e) }) };
   }
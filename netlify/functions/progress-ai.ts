@@ -1,4 +1,5 @@
 import type { Handler } from "@netlify/functions";
+import { completeLlm, LlmError, llmConfigFromEnv, llmErrorStatus, logLlmUsage, type LlmContentPart } from "../lib/llmProvider";
 
 type ReqBody = {
   month?: string;
@@ -16,42 +17,14 @@ type ReqBody = {
   images?: { label: string; url: string }[];
 };
 
-type OpenAIResponse = any;
-
-function extractOutputText(data: any): string {
-  if (!data) return "";
-  if (typeof data.output_text === "string" && data.output_text.trim()) return data.output_text;
-
-  const chunks: string[] = [];
-  const out = Array.isArray(data.output) ? data.output : [];
-  for (const item of out) {
-    const content = Array.isArray(item?.content) ? item.content : [];
-    for (const c of content) {
-      if (typeof c?.text !== "string") continue;
-      if (c?.type === "output_text") {
-        chunks.push(c.text);
-        continue;
-      }
-      const t = String(c?.type ?? "");
-      if (t && t.includes("text")) chunks.push(c.text);
-    }
-  }
-
-  const joined = chunks.join("\n").trim();
-  if (joined) return joined;
-  if (typeof data?.text === "string") return data.text;
-  if (typeof data?.output === "string") return data.output;
-  return "";
-}
-
 export const handler: Handler = async (event) => {
   try {
     if (event.httpMethod !== "POST") {
       return { statusCode: 405, body: JSON.stringify({ message: "Method not allowed" }) };
     }
 
-    const apiKey = process.env.OPENAI_API_KEY || process.env.OPENAI_KEY;
-    if (!apiKey) {
+    const llmConfig = llmConfigFromEnv(process.env);
+    if (llmConfig.provider === "openai" && !llmConfig.apiKey) {
       return { statusCode: 400, body: JSON.stringify({ message: "No OpenAI API key configured" }) };
     }
 
@@ -88,45 +61,40 @@ export const handler: Handler = async (event) => {
       .filter(Boolean)
       .join("\n");
 
-    const content: any[] = [{ type: "input_text", text: userText }];
+    const content: LlmContentPart[] = [{ type: "text", text: userText }];
     for (const img of images) {
-      content.push({ type: "input_text", text: `IMAGE: ${img.label}` });
-      content.push({ type: "input_image", image_url: img.url });
+      content.push({ type: "text", text: `IMAGE: ${img.label}` });
+      content.push({ type: "image", url: img.url });
     }
 
-    const resp = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        "content-type": "application/json",
-        authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-5.2-2025-12-11",
-        input: [
-          { role: "system", content: [{ type: "input_text", text: system }] },
+    let result;
+    try {
+      result = await completeLlm(llmConfig, {
+        task: "progress",
+        messages: [
+          { role: "system", content: system },
           { role: "user", content },
         ],
-        max_output_tokens: 600,
-      }),
-    });
-
-    const data: OpenAIResponse = await resp.json();
-    if (!resp.ok) {
+        maxOutputTokens: 600,
+      });
+    } catch (err) {
+      if (!(err instanceof LlmError) || err.kind === "config") throw err;
       return {
-        statusCode: resp.status,
-        body: JSON.stringify({ message: data?.error?.message ?? "OpenAI error", raw: data }),
+        statusCode: llmErrorStatus(err),
+        body: JSON.stringify({ message: err.message || "OpenAI error", raw: err.details }),
       };
     }
+    logLlmUsage("progress-ai", result);
 
-    const text = extractOutputText(data);
+    const text = result.text;
     if (!text.trim()) {
       return {
         statusCode: 502,
-        body: JSON.stringify({ message: "OpenAI returned no text output.", raw: data }),
+        body: JSON.stringify({ message: "OpenAI returned no text output.", raw: { model: result.model, usage: result.usage } }),
       };
     }
 
-    return { statusCode: 200, body: JSON.stringify({ text }) };
+    return { statusCode: 200, body: JSON.stringify({ text, model: result.model, usage: result.usage }) };
   } catch (e: any) {
     return { statusCode: 500, body: JSON.stringify({ message: e?.message ?? String(e) }) };
   }
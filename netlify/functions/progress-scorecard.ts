@@ -7,6 +7,11 @@ type ProgressSignals = {
   anchorCompleteness?: number | null;
   weightDelta?: number | null;
   waistDelta?: number | null;
+  weightTrendLbs?: number | null;
+  bodyFatPct?: number | null;
+  bodyFatMethod?: "navy" | "skinfold" | null;
+  bodyFatDelta?: number | null;
+  leanMassDelta?: number | null;
   avgSleep?: number | null;
   avgProtein?: number | null;
   avgZone2Minutes?: number | null;
@@ -98,6 +103,7 @@ function scoreConditioning(s: ProgressSignals): number {
   const zone2 = num(s.avgZone2Minutes);
   const sleep = num(s.avgSleep);
   const waistDelta = num(s.waistDelta);
+  const bodyFatDelta = num(s.bodyFatDelta);
   const adherence = num(s.adherenceScore);
   let score = 4.8;
   if (zone2 != null) {
@@ -114,6 +120,11 @@ function scoreConditioning(s: ProgressSignals): number {
     if (waistDelta <= -0.5) score += 0.9;
     else if (waistDelta >= 0.5) score -= 0.8;
   }
+  if (bodyFatDelta != null) {
+    if (bodyFatDelta <= -1.0) score += 0.8;
+    else if (bodyFatDelta <= -0.4) score += 0.4;
+    else if (bodyFatDelta >= 1.0) score -= 0.6;
+  }
   if (adherence != null) score += (adherence - 0.5) * 1.2;
   return clampScore(score);
 }
@@ -126,6 +137,7 @@ function scoreMuscularity(s: ProgressSignals): number {
   const compoundShare = num(s.compoundSetShare);
   const protein = num(s.avgProtein);
   const visionSupport = num(s.visionSupport);
+  const leanMassDelta = num(s.leanMassDelta);
   const hardSetsPerExpectedWorkout = hardSets / expectedWorkouts;
   const progressionRate = progressionOpps > 0 ? progressionHits / progressionOpps : null;
   let score = 4.6;
@@ -140,6 +152,11 @@ function scoreMuscularity(s: ProgressSignals): number {
     else if (protein < 110) score -= 0.5;
   }
   if (visionSupport != null) score += (visionSupport - 0.5) * 1.2;
+  if (leanMassDelta != null) {
+    if (leanMassDelta >= 1.0) score += 0.6;
+    else if (leanMassDelta >= 0.3) score += 0.3;
+    else if (leanMassDelta <= -1.5) score -= 0.5;
+  }
   return clampScore(score);
 }
 
@@ -182,6 +199,9 @@ signals: ProgressSignals): string {
   const progressionHits = num(signals.progressionHits) ?? 0;
   const progressionOpps = num(signals.progressionOpportunities) ?? 0;
   const waistDelta = num(signals.waistDelta);
+  const weightDelta = num(signals.weightDelta);
+  const bodyFatDelta = num(signals.bodyFatDelta);
+  const leanMassDelta = num(signals.leanMassDelta);
 
   if (scorecard.consistency >= 7) bits.push(`Consistency is carrying the month: ${workouts}/${expected || 0} workouts landed with ${hardSets} hard sets logged.`);
   else if (scorecard.consistency <= 5.5) bits.push(`Consistency is the drag right now: only ${workouts}/${expected || 0} expected workouts are showing up cleanly.`);
@@ -194,6 +214,13 @@ signals: ProgressSignals): string {
     else if (waistDelta >= 0.3) bits.push(`Waist control is slipping a bit, up ${waistDelta.toFixed(1)} inches in the current month window.`);
   }
 
+  if (bodyFatDelta != null && leanMassDelta != null && Math.abs(bodyFatDelta) >= 0.5) {
+    const method = signals.bodyFatMethod === "skinfold" ? "skinfold" : "tape";
+    bits.push(`Body fat (${method} estimate) moved ${bodyFatDelta > 0 ? "+" : ""}${bodyFatDelta.toFixed(1)} points with lean mass ${leanMassDelta >= 0 ? "up" : "down"} ${Math.abs(leanMassDelta).toFixed(1)} lbs.`);
+  } else if (weightDelta != null && Math.abs(weightDelta) >= 1) {
+    bits.push(`Trend weight is ${weightDelta > 0 ? "up" : "down"} ${Math.abs(weightDelta).toFixed(1)} lbs for the month.`);
+  }
+
   if (!bits.length) bits.push(`This month reads as ${scorecard.momentum} momentum overall, with the scorecard staying grounded in logged training, measurements, and anchor coverage.`);
   return bits.slice(0, 3).join(" ");
 }
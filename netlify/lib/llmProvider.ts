@@ -0,0 +1,430 @@
+/**
+ * One LLM call path for the Netlify coach functions:
+ * - functions describe a call as a task (coach / progress / vision), chat messages and an output
+ *   cap; the provider, the model for each task, timeouts and retries come from config
+ * - config is read from the environment the function passes in, so this module never touches
+ *   process and the mock can run anywhere:
+ *     LLM_PROVIDER            openai (default) | mock
+ *     OPENAI_API_KEY          also accepts OPENAI_KEY
+ *     LLM_MODEL_COACH         default gpt-5.2
+ *     LLM_MODEL_PROGRESS      default gpt-5.2-2025-12-11
+ *     LLM_MODEL_VISION        default gpt-4.1
+ *     LLM_TIMEOUT_MS          per attempt, default 8000
+ *     LLM_MAX_RETRIES         extra attempts after the first, default 1
+ *     LLM_BUDGET_MS           whole call, retries and backoff included, default 9000 so a call
+ *                             ends inside Netlify's 10 s synchronous function limit; raise both
+ *                             together when the site runs functions with a longer limit
+ *     LLM_PRICING             JSON {"model": {"input": usd, "output": usd}} per million tokens,
+ *                             merged over the built-in table
+ * - timeouts, network failures, 429 and 5xx are retried with exponential backoff; any other
+ *   upstream status fails on the first attempt
+ * - no attempt runs past the call's budget or the caller's deadline, whichever is sooner; a retry
+ *   that would not get MIN_ATTEMPT_MS is skipped, so the caller gets the error while it still has
+ *   time to answer with its fallback
+ * - every response carries token usage and, when the model has a price, its cost in USD; a model
+ *   without a price reports cost null rather than a guess
+ * - the mock provider never touches the network and answers the same request with the same text,
+ *   shaped like each task's real output so the client renders it as it would a live reply; a JSON
+ *   request gets the smallest object its schema allows
+ */
+
+export type LlmTask = "coach" | "progress" | "vision";
+
+export type LlmProviderName = "openai" | "mock";
+
+export type LlmContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; url: string };
+
+export type LlmMessage = {
+  role: "system" | "user";
+  content: string | LlmContentPart[];
+};
+
+export type LlmRequest = {
+  task: LlmTask;
+  messages: LlmMessage[];
+  maxOutputTokens: number;
+  json?: { name: string; schema: Record<string, unknown> }; // ask for one JSON object matching schema
+  deadline?: number; // epoch ms the call must finish by, when several calls share one budget
+};
+
+export type LlmUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number | null;
+};
+
+export type LlmResponse = {
+  text: string;
+  provider: LlmProviderName;
+  model: string;
+  usage: LlmUsage;
+  attempts: number;
+  latencyMs: number;
+};
+
+export type LlmPrice = {
+  input: number; // USD per million input tokens
+  output: number; // USD per million output tokens
+};
+
+export type LlmConfig = {
+  provider: LlmProviderName;
+  apiKey: string | null;
+  models: Record<LlmTask, string>;
+  timeoutMs: number;
+  maxRetries: number;
+  budgetMs: number;
+  pricing: Record<string, LlmPrice>;
+};
+
+export type LlmErrorKind = "config" | "timeout" | "network" | "upstream";
+
+export class LlmError extends Error {
+  readonly kind: LlmErrorKind;
+  readonly status: number | null; // upstream HTTP status, when there was one
+  readonly details: unknown;
+  readonly attempts: number;
+
+  constructor(kind: LlmErrorKind, message: string, opts: { status?: number | null; details?: unknown; attempts?: number } = {}) {
+    super(message);
+    this.name = "LlmError";
+    this.kind = kind;
+    this.status = opts.status ?? null;
+    this.details = opts.details ?? null;
+    this.attempts = opts.attempts ?? 0;
+  }
+
+  get retryable(): boolean {
+    if (this.kind === "timeout" || this.kind === "network") return true;
+    return this.kind === "upstream" && this.status != null && (this.status === 429 || this.status >= 500);
+  }
+}
+
+/** HTTP status a function should answer with: the upstream one, else gateway timeout / bad gateway. */
+export function llmErrorStatus(err: LlmError): number {
+  if (err.status != null) return err.status;
+  return err.kind === "timeout" ? 504 : 502;
+}
+
+type ProviderResult = {
+  text: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+};
+
+type Provider = (request: LlmRequest, model: string, config: LlmConfig, signal: AbortSignal) => Promise<ProviderResult>;
+
+const DEFAULT_MODELS: Record<LlmTask, string> = {
+  coach: "gpt-5.2",
+  progress: "gpt-5.2-2025-12-11",
+  vision: "gpt-4.1",
+};
+
+// Every default model has a row, so the default config always reports a cost.
+const DEFAULT_PRICING: Record<string, LlmPrice> = {
+  "gpt-5.2": { input: 1.75, output: 14 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  mock: { input: 0, output: 0 },
+};
+
+const DEFAULT_TIMEOUT_MS = 8_000;
+const DEFAULT_MAX_RETRIES = 1;
+const DEFAULT_BUDGET_MS = 9_000;
+const MIN_ATTEMPT_MS = 1_000;
+const RETRY_BASE_DELAY_MS = 500;
+const OPENAI_RESPONSES_URL = "https://api.openai.com/v1/responses";
+
+function envInt(value: string | undefined, fallback: number, min: number): number {
+  const n = value == null || value.trim() === "" ? NaN : Number(value);
+  return Number.isFinite(n) ? Math.max(min, Math.round(n)) : fallback;
+}
+
+function parsePricing(raw: string | undefined): Record<string, LlmPrice> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    const out: Record<string, LlmPrice> = {};
+    for (const [model, price] of Object.entries(parsed ?? {})) {
+      const input = Number((price as any)?.input);
+      const output = Number((price as any)?.output);
+      if (Number.isFinite(input) && Number.isFinite(output)) out[model] = { input, output };
+    }
+    return out;
+  } catch {
+    return {};
+  }
+}
+
+export function llmConfigFromEnv(env: Record<string, string | undefined>): LlmConfig {
+  const provider: LlmProviderName = env.LLM_PROVIDER?.trim().toLowerCase() === "mock" ? "mock" : "openai";
+  return {
+    provider,
+    apiKey: env.OPENAI_API_KEY || env.OPENAI_KEY || null,
+    models: {
+      coach: env.LLM_MODEL_COACH?.trim() || DEFAULT_MODELS.coach,
+      progress: env.LLM_MODEL_PROGRESS?.trim() || DEFAULT_MODELS.progress,
+      vision: env.LLM_MODEL_VISION?.trim() || DEFAULT_MODELS.vision,
+    },
+    timeoutMs: envInt(env.LLM_TIMEOUT_MS, DEFAULT_TIMEOUT_MS, 1000),
+    maxRetries: envInt(env.LLM_MAX_RETRIES, DEFAULT_MAX_RETRIES, 0),
+    budgetMs: envInt(env.LLM_BUDGET_MS, DEFAULT_BUDGET_MS, 1000),
+    pricing: { ...DEFAULT_PRICING, ...parsePricing(env.LLM_PRICING) },
+  };
+}
+
+/** Cost of one call; an exact model match wins, then a dated snapshot falls back to its base model. */
+export function llmCostUsd(pricing: Record<string, LlmPrice>, model: string, inputTokens: number, outputTokens: number): number | null {
+  const price = pricing[model] ?? pricing[model.replace(/-\d{4}-\d{2}-\d{2}$/, "")];
+  if (!price) return null;
+  return Math.round(((inputTokens * price.input + outputTokens * price.output) / 1_000_000) * 1_000_000) / 1_000_000;
+}
+
+/** Text from a Responses API payload: output_text first, then every text-like content part. */
+export function extractOutputText(data: any): string {
+  if (!data) return "";
+  if (typeof data.output_text === "string" && data.output_text.trim()) return data.output_text;
+
+  const chunks: string[] = [];
+  let summary = "";
+  const out = Array.isArray(data.output) ? data.output : [];
+  for (const item of out) {
+    if (item?.type === "output_text" && typeof item?.text === "string") {
+      chunks.push(item.text);
+      continue;
+    }
+    const content = Array.isArray(item?.content) ? item.content : [];
+    for (const c of content) {
+      if (typeof c?.text !== "string") continue;
+      const type = String(c?.type ?? "");
+      if (type === "summary_text") {
+        if (!summary) summary = c.text;
+        continue;
+      }
+      if (type.includes("text")) chunks.push(c.text);
+    }
+  }
+
+  const joined = chunks.join("\n").trim();
+  if (joined) return joined;
+  if (summary) return summary;
+  if (typeof data.text === "string") return data.text;
+  if (typeof data.output === "string") return data.output;
+  return "";
+}
+
+function toOpenAiContent(content: LlmMessage["content"]): any[] {
+  const parts = typeof content === "string" ? [{ type: "text" as const, text: content }] : content;
+  return parts.map((part) => (part.type === "text" ? { type: "input_text", text: part.text } : { type: "input_image", image_url: part.url }));
+}
+
+const openAiProvider: Provider = async (request, model, config, signal) => {
+  if (!config.apiKey) throw new LlmError("config", "Missing OPENAI_API_KEY environment variable.");
+  let resp: Response;
+  try {
+    resp = await fetch(OPENAI_RESPONSES_URL, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        authorization: `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        input: request.messages.map((message) => ({ role: message.role, content: toOpenAiContent(message.content) })),
+        max_output_tokens: request.maxOutputTokens,
+        ...(request.json ? { text: { format: { type: "json_schema", name: request.json.name, schema: request.json.schema } } } : {}),
+      }),
+      signal,
+    });
+  } catch (e: any) {
+    if (signal.aborted) throw new LlmError("timeout", `OpenAI request timed out after ${config.timeoutMs} ms`);
+    throw new LlmError("network", `OpenAI request failed: ${e?.message ?? String(e)}`);
+  }
+
+  let data: any = null;
+  try {
+    data = await resp.json();
+  } catch {
+    data = null;
+  }
+  if (!resp.ok) {
+    throw new LlmError("upstream", data?.error?.message ?? `OpenAI error ${resp.status}`, { status: resp.status, details: data });
+  }
+  return {
+    text: extractOutputText(data),
+    model: typeof data?.model === "string" ? data.model : model,
+    inputTokens: Number(data?.usage?.input_tokens) || 0,
+    outputTokens: Number(data?.usage?.output_tokens) || 0,
+  };
+};
+
+// Rough token count for the mock: about four characters a token.
+function approxTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// FNV-1a, so the same request always gets the same reply.
+function digest(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function messageText(message: LlmMessage): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content.map((part) => (part.type === "text" ? part.text : `[image ${part.url}]`)).join("\n");
+}
+
+function mockText(task: LlmTask, id: string, imageCount: number): string {
+  const tag = `[mock ${id}]`;
+  if (task === "vision") {
+    return [
+      "## FRAME CHECK",
+      "- Feet/ankles visible: YES",
+      "- Full body visible (head-to-feet): YES",
+      "- Camera height/angle issues: none (mock)",
+      "- Distance/zoom drift: none (mock)",
+      "- Lighting drift: none (mock)",
+      `- Confidence: LOW (mock provider, ${imageCount} image${imageCount === 1 ? "" : "s"} not analysed)`,
+      "",
+      "## LOWER BODY SCORES (0–10)",
+      "- Quads: 5.0 — mock",
+      "- Adductors: 5.0 — mock",
+      "- Hamstrings: 5.0 — mock",
+      "- Glutes: 5.0 — mock",
+      "- Calves: N/A — mock",
+      "- Lower symmetry: 5.0 — mock",
+      "",
+      "## UPPER BODY SCORES (0–10)",
+      "- Delts: 5.0 — mock",
+      "- Chest: 5.0 — mock",
+      "- Back width/density: 5.0 — mock",
+      "- Arms: 5.0 — mock",
+      "- Upper symmetry/posture: 5.0 — mock",
+      "",
+      "## WAIST & CONDITIONING",
+      "- Waist control/taper: 5.0 — mock",
+      "- Conditioning trend: 5.0 — mock",
+      "",
+      "## CHANGE DETECTION",
+      "- Improved: none (mock)",
+      "- Regressed: none (mock)",
+      "- Unchanged: everything (mock)",
+      "",
+      "## NEXT 7 DAYS (ACTION)",
+      "1) Training: keep the plan (mock)",
+      "2) Training: keep the plan (mock)",
+      `3) Photo: same spot, same light ${tag}`,
+    ].join("\n");
+  }
+  const headings = task === "coach"
+    ? ["1) REALITY CHECK", "2) WHAT IMPROVED", "3) WHAT NEEDS TIGHTENING", "4) NEXT MOVE"]
+    : ["Reality Check", "What Improved", "What Needs Tightening", "Next Move"];
+  return headings
+    .map((heading, idx) => `${heading}\n- Mock ${task} readout, section ${idx + 1} ${tag}`)
+    .join("\n\n");
+}
+
+// Smallest value the schema allows: first enum option, null where allowed, one item per array.
+function mockFromSchema(schema: any, tag: string): unknown {
+  if (Array.isArray(schema?.enum) && schema.enum.length) return schema.enum[0];
+  const types: string[] = Array.isArray(schema?.type) ? schema.type : [schema?.type];
+  if (types.includes("object")) {
+    const out: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(schema?.properties ?? {})) out[key] = mockFromSchema(child, `${tag} ${key}`);
+    return out;
+  }
+  if (types.includes("array")) return [mockFromSchema(schema?.items, tag)];
+  if (types.includes("null")) return null;
+  if (types.includes("string")) return `Mock ${tag}`;
+  if (types.includes("number") || types.includes("integer")) return 0;
+  if (types.includes("boolean")) return false;
+  return null;
+}
+
+const mockProvider: Provider = async (request, _model, _config, signal) => {
+  if (signal.aborted) throw new LlmError("timeout", "Mock request aborted");
+  const prompt = request.messages.map(messageText).join("\n\n");
+  const imageCount = request.messages.reduce(
+    (sum, message) => sum + (typeof message.content === "string" ? 0 : message.content.filter((part) => part.type === "image").length),
+    0
+  );
+  const id = digest(`${request.task}\n${prompt}`);
+  const text = request.json ? JSON.stringify(mockFromSchema(request.json.schema, `[mock ${id}]`)) : mockText(request.task, id, imageCount);
+  return {
+    text,
+    model: "mock",
+    inputTokens: approxTokens(prompt),
+    outputTokens: Math.min(request.maxOutputTokens, approxTokens(text)),
+  };
+};
+
+const PROVIDERS: Record<LlmProviderName, Provider> = {
+  openai: openAiProvider,
+  mock: mockProvider,
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Time left before `deadline`, for callers deciding whether another call still fits. */
+export function llmTimeLeft(deadline: number, now = Date.now()): number {
+  return Math.max(0, deadline - now);
+}
+
+/** Runs one request against the configured provider, retrying transient failures within its budget. */
+export async function completeLlm(config: LlmConfig, request: LlmRequest): Promise<LlmResponse> {
+  const provider = PROVIDERS[config.provider];
+  const model = config.provider === "mock" ? "mock" : config.models[request.task];
+  const started = Date.now();
+  const deadline = Math.min(started + config.budgetMs, request.deadline ?? Infinity);
+  let attempts = 0;
+  for (;;) {
+    const timeoutMs = Math.min(config.timeoutMs, llmTimeLeft(deadline));
+    if (timeoutMs < MIN_ATTEMPT_MS) {
+      throw new LlmError("timeout", `No time left for an LLM attempt (${Date.now() - started} ms spent)`, { attempts });
+    }
+    attempts += 1;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const result = await provider(request, model, { ...config, timeoutMs }, controller.signal);
+      return {
+        text: result.text,
+        provider: config.provider,
+        model: result.model,
+        usage: {
+          inputTokens: result.inputTokens,
+          outputTokens: result.outputTokens,
+          costUsd: llmCostUsd(config.pricing, result.model, result.inputTokens, result.outputTokens),
+        },
+        attempts,
+        latencyMs: Date.now() - started,
+      };
+    } catch (e: any) {
+      const err = e instanceof LlmError ? e : new LlmError("network", e?.message ?? String(e));
+      const backoffMs = RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+      if (!err.retryable || attempts > config.maxRetries || llmTimeLeft(deadline) - backoffMs < MIN_ATTEMPT_MS) {
+        throw new LlmError(err.kind, err.message, { status: err.status, details: err.details, attempts });
+      }
+      await sleep(backoffMs);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/** One log line per call, so function logs add up to a cost ledger. */
+export function logLlmUsage(fn: string, response: LlmResponse): void {
+  const cost = response.usage.costUsd == null ? "n/a" : `$${response.usage.costUsd.toFixed(6)}`;
+  console.info(
+    `[llm] ${fn} ${response.provider}/${response.model} in=${response.usage.inputTokens} out=${response.usage.outputTokens} cost=${cost} attempts=${response.attempts} ${response.latencyMs}ms`
+  );
+}
@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+// Golden-snapshot regression suite for the coaching pipeline.
+// Usage:
+//   npm run golden                               check every fixture against its snapshot
+//   npm run golden -- --update [--only name]     re-record snapshots after an intended change
+//   npm run golden -- --capture consistent --day 40 [--seed 60] [--name consistent-day40]
+//                                                record a new fixture from the simulator
+process.env.TZ = "UTC";
+
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadTsModule } from "./loadTsModule.mjs";
+
+const goldenDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../src/golden");
+const fixturesDir = path.join(goldenDir, "fixtures");
+const snapshotsDir = path.join(goldenDir, "snapshots");
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const next = argv[i + 1];
+    if (next == null || next.startsWith("--")) args[arg.slice(2)] = true;
+    else {
+      args[arg.slice(2)] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+async function readJson(file) {
+  try {
+    return JSON.parse(await readFile(file, "utf8"));
+  } catch (err) {
+    if (err && err.code === "ENOENT") return null;
+    throw new Error(`${path.relative(process.cwd(), file)}: ${err.message}`);
+  }
+}
+
+const writeJson = (file, value) => writeFile(file, JSON.stringify(value, null, 2) + "\n");
+
+const args = parseArgs(process.argv.slice(2));
+const golden = await loadTsModule("src/golden/index.ts");
+await mkdir(fixturesDir, { recursive: true });
+await mkdir(snapshotsDir, { recursive: true });
+
+if (typeof args.capture === "string") {
+  const options = { dayOffset: Number(args.day ?? 28) };
+  if (args.seed != null) options.seed = Number(args.seed);
+  if (typeof args.name === "string") options.name = args.name;
+  const fixture = golden.captureFixtureFromSimulation(args.capture, options);
+  await writeJson(path.join(fixturesDir, `${fixture.name}.json`), fixture);
+  await writeJson(path.join(snapshotsDir, `${fixture.name}.json`), golden.runGoldenPipeline(fixture));
+  console.log(`Captured ${fixture.name} (${fixture.asOf}).`);
+  process.exit(0);
+}
+
+const files = (await readdir(fixturesDir)).filter((file) => file.endsWith(".json")).sort();
+const entries = [];
+for (const file of files) {
+  const fixture = await readJson(path.join(fixturesDir, file));
+  if (typeof args.only === "string" && fixture.name !== args.only) continue;
+  entries.push({ fixture, expected: args.update ? null : await readJson(path.join(snapshotsDir, file)) });
+}
+if (!entries.length) {
+  console.error("No golden fixtures found.");
+  process.exit(1);
+}
+
+const check = golden.checkGoldenFixtures(entries);
+if (args.update) {
+  for (const { fixture } of entries) await writeJson(path.join(snapshotsDir, `${fixture.name}.json`), check.outputs[fixture.name]);
+  console.log(`Updated ${entries.length} snapshot${entries.length === 1 ? "" : "s"}.`);
+  process.exit(0);
+}
+
+console.log(check.report);
+process.exit(check.results.every((result) => result.status === "pass") ? 0 : 1);
@@ -0,0 +1,32 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { build } from "vite";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+/**
+ * Bundles one TypeScript entry from src/ for Node with the app's own vite toolchain and
+ * imports it. The lib modules are browser-free, so the bundle runs without a DOM.
+ */
+export async function loadTsModule(entry) {
+  const outDir = await mkdtemp(path.join(tmpdir(), "rebuild60-"));
+  try {
+    await build({
+      root,
+      configFile: false,
+      logLevel: "error",
+      build: {
+        ssr: path.resolve(root, entry),
+        outDir,
+        emptyOutDir: true,
+        minify: false,
+        rollupOptions: { output: { format: "es", entryFileNames: "entry.mjs" } },
+      },
+    });
+    return await import(pathToFileURL(path.join(outDir, "entry.mjs")).href);
+  } finally {
+    await rm(outDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+// Recalibration scenario runner.
+// Usage:
+//   npm run scenarios                          replay every scenario in src/recal/scenarios and check its assertions
+//   npm run scenarios -- --only prediction-drift [--json] [--out report.md]
+process.env.TZ = "UTC";
+
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadTsModule } from "./loadTsModule.mjs";
+
+const scenariosDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../src/recal/scenarios");
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const next = argv[i + 1];
+    if (next == null || next.startsWith("--")) args[arg.slice(2)] = true;
+    else {
+      args[arg.slice(2)] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const entries = [];
+for (const file of (await readdir(scenariosDir)).filter((name) => name.endsWith(".json")).sort()) {
+  const source = path.join("src/recal/scenarios", file);
+  let raw;
+  try {
+    raw = JSON.parse(await readFile(path.join(scenariosDir, file), "utf8"));
+  } catch (err) {
+    console.error(`${source}: ${err.message}`);
+    process.exit(1);
+  }
+  if (typeof args.only === "string" && raw?.name !== args.only) continue;
+  entries.push({ source, raw });
+}
+if (!entries.length) {
+  console.error("No recalibration scenarios found.");
+  process.exit(1);
+}
+
+const recal = await loadTsModule("src/recal/index.ts");
+let suite;
+try {
+  suite = recal.runScenarioSuite(entries);
+} catch (err) {
+  console.error(err.message);
+  process.exit(1);
+}
+
+const output = args.json ? JSON.stringify(suite.results, null, 2) : suite.report;
+if (typeof args.out === "string") {
+  await writeFile(args.out, output + "\n");
+  console.log(`Wrote ${args.out}.`);
+} else {
+  console.log(output);
+}
+process.exit(suite.results.every((result) => result.passed) ? 0 : 1);
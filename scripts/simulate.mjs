@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+// Headless brain-engine simulator.
+// Usage: npm run simulate -- [--persona consistent,band_only] [--weeks 12] [--seed 60] [--start 2026-01-05] [--json] [--out report.md]
+import { writeFile } from "node:fs/promises";
+import { loadTsModule } from "./loadTsModule.mjs";
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const name = arg.slice(2);
+    const next = argv[i + 1];
+    if (next == null || next.startsWith("--")) args[name] = true;
+    else {
+      args[name] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const sim = await loadTsModule("src/sim/index.ts");
+
+const personas = typeof args.persona === "string" ? args.persona.split(",").map((p) => p.trim()).filter(Boolean) : sim.PERSONA_NAMES;
+const options = {};
+if (args.weeks != null) options.weeks = Number(args.weeks);
+if (args.seed != null) options.seed = Number(args.seed);
+if (typeof args.start === "string") options.startDate = args.start;
+if ((options.weeks != null && !(options.weeks > 0)) || (options.seed != null && !Number.isFinite(options.seed))) {
+  console.error("--weeks must be a positive number and --seed a number.");
+  process.exit(1);
+}
+
+let run;
+try {
+  run = sim.runSimulation(personas, options);
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
+
+const output = args.json ? JSON.stringify({ summaries: run.summaries, results: run.results }, null, 2) : run.report;
+if (typeof args.out === "string") {
+  await writeFile(args.out, output + "\n");
+  console.log(`Wrote ${args.out} (${run.results.length} personas).`);
+} else {
+  console.log(output);
+}
@@ -1,10 +1,26 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "./supabase";
-import { clearQuarantinedOps, enqueue, getPendingOpCounts, getSyncHealthReport, listQuarantinedOps, runSyncPass, startAutoSync } from "./sync";
+import {
+  buildPendingOpChains,
+  clearQuarantinedOps,
+  collapseOrphanedOps,
+  discardPendingOp,
+  enqueue,
+  getPendingOpCounts,
+  getSyncHealthReport,
+  requeuePendingOp,
+  resolvePendingOpConflict,
+  runSyncPass,
+  startAutoSync,
+  suggestPendingOpRepair,
+  type PendingOpChainEntry
+} from "./sync";
+import { listOpenSyncConflicts, nextLocalRevision, resolveSyncConflict, withLocalRevision } from "./syncConflicts";
 import { pullSync } from "./pullSync";
 import {
   localdb,
   type LocalMilestone,
+  type LocalSyncConflict,
   type LocalWorkoutExercise,
   type LocalWorkoutSession,
   type LocalWorkoutSet,
@@ -13,33 +29,136 @@ import {
 } from "./localdb";
 import { emptyPref } from "./lib/exercisePreferenceMemory";
 import { emptyExerciseControl, type ExerciseControlRec } from "./lib/exerciseControl";
-import { exportFullBackup, importBackup, validateBackupEnvelope, type ImportMode } from "./utils/backup";
+import {
+  exportFullBackup,
+  formatBackupImportPlan,
+  importBackup,
+  planBackupImport,
+  validateBackupEnvelope,
+  type BackupConflictChoice,
+  type ImportMode
+} from "./utils/backup";
 import DashboardView from "./components/DashboardView";
 import QuickLogView from "./components/QuickLogView";
 import WorkoutLoggerView from "./components/WorkoutLoggerView";
 import ProgressView from "./components/ProgressView";
 import ErrorBoundary from "./components/ErrorBoundary";
-import { computeBrainSnapshot, type BrainSnapshot, type BrainFocus, type FocusCounts, type ExerciseHistory, type TrainingSplitConfig } from "./lib/brainEngine";
+import SyncConflictsPanel from "./components/SyncConflictsPanel";
+import QuarantineTriagePanel from "./components/QuarantineTriagePanel";
+import InjuryLogPanel, { type InjuryDraft } from "./components/InjuryLogPanel";
+import ExerciseLibraryEditor from "./components/ExerciseLibraryEditor";
+import EquipmentProfilesPanel from "./components/EquipmentProfilesPanel";
+import { computeBrainSnapshot, resolveTrainingSplit, type BrainInput, type BrainSnapshot, type BrainFocus, type FocusCounts, type ExerciseHistory, type TrainingSplitConfig } from "./lib/brainEngine";
+import {
+  normalizeProgramCalendar,
+  planProgramCalendar,
+  selectNextPlannedSession,
+  type ActualProgramSession,
+  type ProgramCalendar
+} from "./lib/programBuilder";
+import type { ReadinessContext } from "./lib/readinessTypes";
 import { derivePreferenceSignals, type PreferenceHistoryEntry } from "./lib/preferenceLearning";
 import { deriveBehaviorFingerprint, buildPredictionScaffold, type BehaviorFingerprint, type PredictionScaffold } from "./lib/behaviorFingerprint";
 import { buildPredictionReview, summarizePredictionReviews, type PredictionAccuracySummary, type PredictionReviewEntry } from "./lib/predictionReview";
 import { loadLoopMemoryArtifacts, persistLoopMemoryArtifacts, rebuildLoopMemoryFromPreferenceHistory } from "./lib/loopMemory";
 import { applyAdaptationToPreferenceSignals, deriveAdaptationLayer, type AdaptationWeights, type MutationLedgerEntry, type RecalibrationState } from "./lib/adaptationWeights";
 import { evaluateRecalibrationState } from "./lib/recalibrationPolicy";
-import { applyPredictionRecalibrationToScaffold, executePredictionRecalibration, shouldExecutePredictionRecalibration, stepRecalibrationActionProbation, type RecalibrationAction } from "./lib/recalibrationActions";
+import { restoreLedgerState, snapshotLoopState, stampLedgerSnapshots, stepLoopRestorePoint, type LedgerStateSide, type LoopRestorePoint } from "./lib/mutationLedger";
+import type { WhatIfBaseline } from "./lib/whatIfPlanner";
+import {
+  applyGroupUpdates,
+  exerciseBlocks,
+  groupRestAfterSet,
+  nextGroupMemberId,
+  planGroupRetype,
+  planGroupWithNext,
+  planUngroup,
+  type ExerciseGroupFields,
+  type ExerciseGroupType,
+  type ExerciseGroupUpdate,
+} from "./lib/exerciseGroups";
+import {
+  childSetIds,
+  countsTowardE1rm,
+  countsTowardTonnage,
+  hardSetCredit,
+  resolveParentSetId,
+  SET_TYPE_TAGS,
+  setTypeOf,
+  type SetType,
+  type SetTypeFields,
+  type SetTypePrescription,
+} from "./lib/setTypes";
+import { normalizeSessionBudget } from "./lib/sessionBudget";
+import { validateCoachAiPayload, type CoachAiPayload, type CoachAiSource } from "./lib/coachAiContract";
+import {
+  applyAdaptationRecalibrationToWeights,
+  applyPredictionRecalibrationToScaffold,
+  applyRecalibrationToHistory,
+  executePredictionRecalibration,
+  executeScopedRecalibration,
+  fingerprintHistoryFor,
+  recalibrationLedgerEntry,
+  shouldExecutePredictionRecalibration,
+  stepRecalibrationActionProbation,
+  undoRecalibrationAction,
+  type RecalibrationAction,
+} from "./lib/recalibrationActions";
 import { buildSandboxScenarioPreset, type SandboxScenarioName } from "./lib/recalibrationScenarioPresets";
 import { loadRecalibrationSandboxSnapshot, persistRecalibrationSandboxSnapshot, seedRecalibrationSandboxSnapshot, type RecalibrationSandboxSnapshot } from "./lib/recalibrationSandbox";
 import { classifySessionOutcome, computeSessionFidelity, daysBetweenDayStrings, derivePrimaryOutcome, isoToDayString, type SessionFidelityBreakdown } from "./lib/recommendationFeedback";
 import { focusFromExerciseKey } from "./lib/exerciseFocusMap";
-import { buildFrictionProfile, type FrictionProfile } from "./lib/frictionEngine";
+import { buildFrictionProfile, frictionReadinessFromRecovery, type FrictionInput, type FrictionProfile } from "./lib/frictionEngine";
 import { canonicalExerciseName, resolveExerciseKey } from "./lib/exerciseCompat";
-import { getExerciseById, getExerciseByKey } from "./lib/exerciseRegistry";
+import { getExerciseById, getExerciseByKey, setProgressionModelChoices } from "./lib/exerciseRegistry";
 import { getCanonicalExerciseIdentity } from "./lib/exerciseIdentity";
-import { getExerciseControlRecord, setExerciseControlRecord } from "./lib/exerciseControlService";
+import {
+  getExerciseControlRecord,
+  progressionModelChoicesFrom,
+  setExerciseControlRecord,
+  setExerciseProgressionModelRecord
+} from "./lib/exerciseControlService";
 import { normalizeWorkoutForFeedback } from "./lib/sessionIntegrity";
 import { DEFAULT_EQUIPMENT_PROFILE, normalizeEquipmentProfile } from "./lib/equipmentRegistry";
-import { setActiveEquipmentProfile, setActiveExerciseControls, setActivePreferenceMemory } from "./lib/slotEngine";
-import type { EquipmentProfile } from "./lib/equipmentTypes";
+import {
+  DEFAULT_EQUIPMENT_PROFILE_SET,
+  getActiveNamedProfile,
+  normalizeEquipmentProfileSet,
+  selectEquipmentProfile,
+  summarizeSessionsByLocation,
+  type LocationSessionCount,
+} from "./lib/equipmentProfiles";
+import { getActiveEquipmentProfile, setActiveEquipmentProfile, setActiveExerciseControls, setActiveInjuries, setActivePreferenceMemory } from "./lib/slotEngine";
+import { normalizeInjuryRecord, type InjuryRecord } from "./lib/injuryLog";
+import { applyCustomExercises, normalizeCustomExercise, type CustomExerciseRec } from "./lib/customExercises";
+import {
+  DEFAULT_LOADING_INVENTORY,
+  bandEquivalentLbs,
+  normalizeLoadingInventory,
+  planRecommendedLoad,
+  type LoadingInventory,
+  type LoadingPlan
+} from "./lib/loadingCalculator";
+import {
+  alertRestComplete,
+  completeRestTimer,
+  createRestTimerState,
+  getRestTimerRemainingSecs,
+  isRestTimerDue,
+  loadRestTimerState,
+  markRestTimerSetLogged,
+  measureRestTakenSecs,
+  pauseRestTimer,
+  persistRestTimerState,
+  recommendRestForExercise,
+  requestRestAlertPermission,
+  resumeRestTimer,
+  setRestTimerRemaining,
+  startRestTimer,
+  type RestTimerState
+} from "./lib/restTimer";
+import type { EquipmentProfile, EquipmentProfileSet } from "./lib/equipmentTypes";
+import type { ProgressionModel } from "./lib/exerciseTypes";
 
 function todayISO(): string {
   const d = new Date();
@@ -328,7 +447,7 @@ function isDeadliftName(name: string): boolean {
   return k === "deadlift" || k === "romanian_deadlift";
 }
 
-type SetLite = {
+type SetLite = SetTypeFields & {
   load_type?: "weight" | "band" | "bodyweight" | null;
   weight_lbs: number | null;
   band_level?: number | null;
@@ -357,6 +476,7 @@ type ExerciseDraft = {
   reps: string;
   rpe: string;
   warmup: boolean;
+  setType?: SetType; // non-warmup type for the next set; warmup stays on its own toggle
 };
 
 
@@ -444,7 +564,7 @@ function buildSyntheticPreferenceHistoryFromSessions(params: {
     for (const ex of exercises) {
       const key = storedExerciseKey(ex);
       counts[focusFromExerciseKey(key)] += 1;
-      const workSets = (setsByExerciseId.get(ex.id) ?? []).filter((setRow) => !setRow.is_warmup);
+      const workSets = (setsByExerciseId.get(ex.id) ?? []).filter((setRow) => hardSetCredit(setRow) > 0);
       prescribedSets += workSets.length;
       completedSets += workSets.length;
       exerciseFidelity.push({
@@ -498,6 +618,7 @@ type CoachSessionExerciseSeed = {
   load: string;
   loadBasis: string;
   note: string;
+  setPlan?: SetTypePrescription[];
 };
 
 type CoachSessionSeed = {
@@ -515,6 +636,9 @@ type SessionSplitMeta = {
   plannedDayId?: string | null;
   plannedDayName?: string | null;
   splitPreset?: TrainingSplitConfig["preset"] | null;
+  programSessionId?: string | null;
+  locationId?: string | null;
+  locationName?: string | null;
 };
 
 const SESSION_META_PREFIX = "\n\n<!--R60_META:";
@@ -522,7 +646,7 @@ const SESSION_META_SUFFIX = ":R60_META-->";
 
 function appendSessionSplitMeta(notes: string | null | undefined, meta: SessionSplitMeta | null | undefined): string | null {
   const clean = stripSessionSplitMeta(notes);
-  if (!meta || (!meta.plannedDayId && !meta.plannedDayName && !meta.splitPreset)) {
+  if (!meta || (!meta.plannedDayId && !meta.plannedDayName && !meta.splitPreset && !meta.programSessionId && !meta.locationId)) {
     return clean || null;
   }
   const payload = JSON.stringify(meta);
@@ -543,6 +667,9 @@ function parseSessionSplitMeta(notes: string | null | undefined): SessionSplitMe
       plannedDayId: typeof (parsed as any).plannedDayId === "string" ? (parsed as any).plannedDayId : null,
       plannedDayName: typeof (parsed as any).plannedDayName === "string" ? (parsed as any).plannedDayName : null,
       splitPreset: typeof (parsed as any).splitPreset === "string" ? (parsed as any).splitPreset : null,
+      programSessionId: typeof (parsed as any).programSessionId === "string" ? (parsed as any).programSessionId : null,
+      locationId: typeof (parsed as any).locationId === "string" ? (parsed as any).locationId : null,
+      locationName: typeof (parsed as any).locationName === "string" ? (parsed as any).locationName : null,
     };
   } catch {
     return null;
@@ -568,6 +695,11 @@ function firstNumberFromText(value: string | null | undefined): number | null {
 function parseRecommendedSetCount(value: string | null | undefined): number | null {
   const text = String(value || "").trim();
   if (!text) return null;
+  if (text.includes("+")) {
+    // Top set + back-off sets, e.g. "1 + 3".
+    const parts = text.split("+").map((x) => Number(x.trim())).filter((n) => Number.isFinite(n));
+    return parts.length ? parts.reduce((acc, n) => acc + n, 0) : null;
+  }
   if (text.includes("-")) {
     const parts = text.split("-").map((x) => Number(x.trim())).filter((n) => Number.isFinite(n));
     if (parts.length === 2) return Math.round((parts[0] + parts[1]) / 2);
@@ -577,7 +709,8 @@ function parseRecommendedSetCount(value: string | null | undefined): number | nu
 }
 
 function parseRecommendedRepTarget(value: string | null | undefined): string {
-  const text = String(value || "").trim();
+  // "5 @RPE8 / 6-8" targets the top set.
+  const text = String(value || "").split("/")[0].replace(/@\s*RPE\s*[\d.]+/i, "").trim();
   if (!text) return "";
   if (text.includes("-")) {
     const parts = text
@@ -648,7 +781,7 @@ function compareRecommendationToSession(params: {
     const key = storedExerciseKey(ex);
     const focus = focusFromExerciseKey(key);
     actualCounts[focus] += 1;
-    const workSets = sessionSets.filter((s) => s.exercise_id === ex.id && !s.is_warmup);
+    const workSets = sessionSets.filter((s) => s.exercise_id === ex.id && hardSetCredit(s) > 0);
     let topLoad: number | null = null;
     let topReps: number | null = null;
     for (const st of workSets) {
@@ -858,23 +991,14 @@ function estimateBandLoad(
 
   if (!primaryLevel || primaryLevel < 1 || primaryLevel > 5) return null;
 
-  const primary = bandMap[String(primaryLevel)];
-  if (typeof primary !== "number" || !Number.isFinite(primary)) return null;
-
   const parsed = parseBandConfig(config);
-  if (parsed.mode === "doubled") return Math.round(primary * 2);
-  if (parsed.mode === "combined" && parsed.secondaryLevel != null) {
-    const secondary = bandMap[String(parsed.secondaryLevel)];
-    if (typeof secondary === "number" && Number.isFinite(secondary)) {
-      return Math.round((primary + secondary) * comboFactor);
-    }
-  }
-  return Math.round(primary);
+  return bandEquivalentLbs(primaryLevel, parsed.mode, parsed.secondaryLevel, bandMap, comboFactor);
 }
 
 function formatSet(s: SetLite) {
   const r = s.reps ?? "—";
-  const wu = s.is_warmup ? " WU" : "";
+  const tag = SET_TYPE_TAGS[setTypeOf(s)];
+  const wu = tag ? ` ${tag}` : "";
   const rpe = s.rpe != null ? ` @${s.rpe}` : "";
 
   const lt = (s.load_type ?? "weight") as "weight" | "band" | "bodyweight";
@@ -970,6 +1094,11 @@ export default function App() {
   const [status, setStatus] = useState("…");
   const [isOnline, setIsOnline] = useState<boolean>(() => navigator.onLine);
   const [lastSyncedAt, setLastSyncedAt] = useState("");
+  const [syncConflicts, setSyncConflicts] = useState<LocalSyncConflict[]>([]);
+  const [conflictBusyId, setConflictBusyId] = useState<string | null>(null);
+  const [triageOpen, setTriageOpen] = useState(false);
+  const [triageEntries, setTriageEntries] = useState<PendingOpChainEntry[]>([]);
+  const [triageBusy, setTriageBusy] = useState(false);
   const [tab, setTab] = useState<"quick" | "workout" | "dash" | "progress">("quick");
 
   // Auth
@@ -992,9 +1121,11 @@ export default function App() {
   const [z2Minutes, setZ2Minutes] = useState("");
   const [notes, setNotes] = useState("");
 
-  // Rest timer
-  const [timerOn, setTimerOn] = useState(false);
-  const [secs, setSecs] = useState(90);
+  // Rest timer (wall-clock anchored, persisted per user)
+  const [restTimer, setRestTimer] = useState<RestTimerState>(() => createRestTimerState());
+  const [restNow, setRestNow] = useState(() => Date.now());
+  const timerOn = restTimer.running;
+  const secs = getRestTimerRemainingSecs(restTimer, restNow);
 
   // Workout: local-first state
   const [sessions, setSessions] = useState<LocalWorkoutSession[]>([]);
@@ -1089,6 +1220,98 @@ async function saveBandEquiv(next: Record<string, number>, comboFactorOverride?:
   }
 }
 
+// Plate / dumbbell inventory for the loading calculator (user editable)
+const [loadingInventory, setLoadingInventory] = useState<LoadingInventory>(DEFAULT_LOADING_INVENTORY);
+
+async function loadLoadingInventory() {
+  if (!userId) return;
+  const row = await localdb.localSettings.get([userId, "loading_inventory_v1"]);
+  if (!row?.value) {
+    setLoadingInventory(DEFAULT_LOADING_INVENTORY);
+    return;
+  }
+  try {
+    setLoadingInventory(normalizeLoadingInventory(JSON.parse(row.value)));
+  } catch {
+    setLoadingInventory(DEFAULT_LOADING_INVENTORY);
+  }
+}
+
+async function saveLoadingInventory(next: LoadingInventory) {
+  if (!userId) return;
+  const normalized = normalizeLoadingInventory(next);
+  await localdb.localSettings.put({
+    user_id: userId,
+    key: "loading_inventory_v1",
+    value: JSON.stringify(normalized),
+    updatedAt: Date.now()
+  });
+  setLoadingInventory(normalized);
+}
+
+// Minutes available for the next session; the brain trims the recommendation to fit
+const [sessionBudgetMin, setSessionBudgetMin] = useState<number | null>(null);
+
+async function loadSessionBudget(): Promise<number | null> {
+  if (!userId) return null;
+  const row = await localdb.localSettings.get([userId, "session_budget_v1"]);
+  let budget: number | null = null;
+  try {
+    budget = row?.value ? normalizeSessionBudget(JSON.parse(row.value)) : null;
+  } catch {
+    budget = null;
+  }
+  setSessionBudgetMin(budget);
+  return budget;
+}
+
+async function saveSessionBudget(next: number | null) {
+  if (!userId) return;
+  const normalized = normalizeSessionBudget(next);
+  await localdb.localSettings.put({
+    user_id: userId,
+    key: "session_budget_v1",
+    value: JSON.stringify(normalized),
+    updatedAt: Date.now()
+  });
+  setSessionBudgetMin(normalized);
+  await refreshDashboard();
+}
+
+async function saveEquipmentProfileSet(next: EquipmentProfileSet) {
+  if (!userId) return;
+  const normalized = normalizeEquipmentProfileSet(next);
+  await localdb.localSettings.put({
+    user_id: userId,
+    key: "equipment_profiles_v1",
+    value: JSON.stringify(normalized),
+    updatedAt: Date.now()
+  });
+  setEquipmentProfileSet(normalized);
+  setActiveEquipmentProfile(getActiveNamedProfile(normalized));
+  // Bumping the nonce re-runs the dashboard refresh, which regenerates the session for this location.
+  setEquipmentProfileNonce(Date.now());
+}
+
+async function selectEquipmentLocation(profileId: string) {
+  if (profileId === equipmentProfileSet.activeId) return;
+  await saveEquipmentProfileSet(selectEquipmentProfile(equipmentProfileSet, profileId));
+}
+
+function currentLocationMeta(): SessionSplitMeta {
+  const profile = getActiveNamedProfile(equipmentProfileSet);
+  return { locationId: profile.id, locationName: profile.name };
+}
+
+function planLoadingFor(exercise: { name: string; load: string }): LoadingPlan | null {
+  return planRecommendedLoad(exercise, {
+    profile: getActiveEquipmentProfile(),
+    inventory: loadingInventory,
+    bandMap: bandEquivMap,
+    bandComboFactor
+  });
+}
+
 useEffect(() => {
   // load persisted band equivalence map for this user
   loadBandEquiv();
@@ -1150,9 +1373,17 @@ useEffect(() => {
   const [frictionProfile, setFrictionProfile] = useState<FrictionProfile | null>(null);
   const [splitConfig, setSplitConfig] = useState<TrainingSplitConfig | null>(null);
   const splitConfigRef = useRef<TrainingSplitConfig | null>(null);
+  const [programCalendar, setProgramCalendar] = useState<ProgramCalendar | null>(null);
+  const [programActuals, setProgramActuals] = useState<ActualProgramSession[]>([]);
+  const [programBusy, setProgramBusy] = useState(false);
+  // Inputs of the last brain pass, reused when building a program block on demand.
+  const [whatIfBaseline, setWhatIfBaseline] = useState<WhatIfBaseline | null>(null);
+  const lastBrainInputRef = useRef<{ recentFocusCounts: FocusCounts; trainingDays28: number; weeklyCoach: NonNullable<BrainInput["weeklyCoach"]> } | null>(null);
   const refreshLocalUiFromDexieRef = useRef<null | (() => Promise<void>)>(null);
   const [equipmentProfileReady, setEquipmentProfileReady] = useState(false);
   const [equipmentProfileNonce, setEquipmentProfileNonce] = useState(0);
+  const [equipmentProfileSet, setEquipmentProfileSet] = useState<EquipmentProfileSet>(DEFAULT_EQUIPMENT_PROFILE_SET);
+  const [locationSummary, setLocationSummary] = useState<LocationSessionCount[]>([]);
   const [recommendationFingerprint, setRecommendationFingerprint] = useState<RecommendationFingerprint | null>(null);
   const [recommendationComparison, setRecommendationComparison] = useState<RecommendationComparison | null>(null);
   const [preferenceHistory, setPreferenceHistory] = useState<PreferenceHistoryEntry[]>([]);
@@ -1164,10 +1395,15 @@ useEffect(() => {
   const [mutationLedger, setMutationLedger] = useState<MutationLedgerEntry[]>([]);
   const [recalibrationState, setRecalibrationState] = useState<RecalibrationState | null>(null);
   const [recalibrationAction, setRecalibrationAction] = useState<RecalibrationAction | null>(null);
+  const [loopRestorePoint, setLoopRestorePoint] = useState<LoopRestorePoint | null>(null);
   const [recalibrationSandboxEnabled, setRecalibrationSandboxEnabled] = useState(false);
   const [recalibrationSandboxScenario, setRecalibrationSandboxScenario] = useState<string | null>(null);
   const [coachSessionSeed, setCoachSessionSeed] = useState<CoachSessionSeed | null>(null);
   const [exerciseControlRows, setExerciseControlRows] = useState<ExerciseControlRec[]>([]);
+  const [injuries, setInjuries] = useState<InjuryRecord[]>([]);
+  const [injuryBusy, setInjuryBusy] = useState(false);
+  const [customExerciseRows, setCustomExerciseRows] = useState<CustomExerciseRec[]>([]);
+  const [customExerciseBusy, setCustomExerciseBusy] = useState(false);
   const [lastCompletedSplitDayName, setLastCompletedSplitDayName] = useState<string | null>(null);
   const dashboardRefreshSeqRef = useRef(0);
 
@@ -1177,6 +1413,7 @@ useEffect(() => {
     if (!userId) {
       setActiveEquipmentProfile(DEFAULT_EQUIPMENT_PROFILE);
       if (!cancelled) {
+        setEquipmentProfileSet(DEFAULT_EQUIPMENT_PROFILE_SET);
         setEquipmentProfileReady(false);
         setEquipmentProfileNonce(0);
       }
@@ -1184,32 +1421,33 @@ useEffect(() => {
     }
 
     try {
-      const row = await localdb.localSettings.get([userId, "equipment_profile_v1"]);
-      const parsed = row?.value ? normalizeEquipmentProfile(JSON.parse(row.value)) as EquipmentProfile : DEFAULT_EQUIPMENT_PROFILE;
+      const row = await localdb.localSettings.get([userId, "equipment_profiles_v1"]);
+      let parsed: EquipmentProfileSet;
+      if (row?.value) {
+        parsed = normalizeEquipmentProfileSet(JSON.parse(row.value));
+      } else {
+        const legacyRow = await localdb.localSettings.get([userId, "equipment_profile_v1"]);
+        const legacy = legacyRow?.value ? normalizeEquipmentProfile(JSON.parse(legacyRow.value)) as EquipmentProfile : null;
+        parsed = normalizeEquipmentProfileSet(null, legacy);
+      }
       if (!row || row.value !== JSON.stringify(parsed)) {
         await localdb.localSettings.put({
           user_id: userId,
-          key: "equipment_profile_v1",
+          key: "equipment_profiles_v1",
           value: JSON.stringify(parsed),
           updatedAt: Date.now(),
         });
       }
-      setActiveEquipmentProfile(parsed);
+      setActiveEquipmentProfile(getActiveNamedProfile(parsed));
       if (!cancelled) {
+        setEquipmentProfileSet(parsed);
         setEquipmentProfileReady(true);
         setEquipmentProfileNonce(Date.now());
       }
     } catch {
       setActiveEquipmentProfile(DEFAULT_EQUIPMENT_PROFILE);
-      try {
-        await localdb.localSettings.put({
-          user_id: userId,
-          key: "equipment_profile_v1",
-          value: JSON.stringify(DEFAULT_EQUIPMENT_PROFILE),
-          updatedAt: Date.now(),
-        });
-      } catch {}
       if (!cancelled) {
+        setEquipmentProfileSet(DEFAULT_EQUIPMENT_PROFILE_SET);
         setEquipmentProfileReady(true);
         setEquipmentProfileNonce(Date.now());
       }
@@ -1265,7 +1503,62 @@ async function saveTrainingSplitConfig(next: TrainingSplitConfig) {
   setSplitConfig(next);
 }
 
-  type AiCoach = { text: string; ts: number; model: string };
+async function loadProgramCalendar(targetUserId: string): Promise<ProgramCalendar | null> {
+  const row = await localdb.localSettings.get([targetUserId, "program_calendar_v1"]);
+  if (!row?.value) return null;
+  try {
+    return normalizeProgramCalendar(JSON.parse(row.value));
+  } catch {
+    return null;
+  }
+}
+
+async function buildProgramCalendarNow(readiness: ReadinessContext) {
+  const inputs = lastBrainInputRef.current;
+  if (!userId || !brainSnapshot || !inputs || programBusy) return;
+  setProgramBusy(true);
+  try {
+    const previous = await loadProgramCalendar(userId);
+    const calendar = planProgramCalendar({
+      readiness,
+      brainSnapshot,
+      recentFocusCounts: inputs.recentFocusCounts,
+      trainingDays28: inputs.trainingDays28,
+      weeklyCoach: inputs.weeklyCoach,
+      split: resolveTrainingSplit(splitConfigRef.current),
+      startDate: todayISO(),
+      previousBlockPlan: previous?.blockPlan ?? null,
+    });
+    await localdb.localSettings.put({
+      user_id: userId,
+      key: "program_calendar_v1",
+      value: JSON.stringify(calendar),
+      updatedAt: Date.now(),
+    });
+    setProgramCalendar(calendar);
+    await refreshDashboard();
+  } catch (e: any) {
+    setStatus(`Program build failed: ${e?.message ?? String(e)}`);
+  } finally {
+    setProgramBusy(false);
+  }
+}
+
+async function clearProgramCalendar() {
+  if (!userId) return;
+  await localdb.localSettings.delete([userId, "program_calendar_v1"]);
+  setProgramCalendar(null);
+  await refreshDashboard();
+}
+
+  type AiCoach = {
+    text: string;
+    ts: number;
+    model: string;
+    coach?: CoachAiPayload | null; // absent on readouts cached before the structured contract
+    source?: CoachAiSource;
+    doneIds?: string[];
+  };
   const [aiCoach, setAiCoach] = useState<AiCoach | null>(null);
   const [aiCoachBusy, setAiCoachBusy] = useState(false);
   const [aiCoachErr, setAiCoachErr] = useState<string | null>(null);
@@ -1339,6 +1632,7 @@ async function saveTrainingSplitConfig(next: TrainingSplitConfig) {
   useEffect(() => {
     if (!userId) return;
     void loadBandEquiv();
+    void loadLoadingInventory();
   }, [userId]);
 
 
@@ -1353,21 +1647,60 @@ async function saveTrainingSplitConfig(next: TrainingSplitConfig) {
         return;
       }
       const parsed = JSON.parse(raw);
-      if (parsed && typeof parsed.text === "string") setAiCoach(parsed);
-      else setAiCoach(null);
+      if (parsed && typeof parsed.text === "string") {
+        setAiCoach({ ...parsed, coach: validateCoachAiPayload(parsed.coach).payload });
+      } else {
+        setAiCoach(null);
+      }
     } catch {
       setAiCoach(null);
     }
   }, [userId, weeklyCoach?.thisWeekStart]);
 
 
-  // Timer tick
+  // Rest timer: restore per user, tick while running, alert once when due
+  useEffect(() => {
+    setRestTimer(loadRestTimerState(userId));
+    setRestNow(Date.now());
+  }, [userId]);
+
   useEffect(() => {
     if (!timerOn) return;
-    const t = window.setInterval(() => setSecs((s) => (s > 0 ? s - 1 : 0)), 1000);
+    const t = window.setInterval(() => setRestNow(Date.now()), 1000);
     return () => window.clearInterval(t);
   }, [timerOn]);
 
+  useEffect(() => {
+    if (!isRestTimerDue(restTimer, restNow)) return;
+    alertRestComplete(restTimer);
+    updateRestTimer((prev) => completeRestTimer(prev));
+  }, [restTimer, restNow]);
+
+  function updateRestTimer(updater: (prev: RestTimerState) => RestTimerState) {
+    setRestTimer((prev) => {
+      const next = updater(prev);
+      persistRestTimerState(userIdRef.current, next);
+      return next;
+    });
+    setRestNow(Date.now());
+  }
+
+  function setSecs(value: number | ((prev: number) => number)) {
+    updateRestTimer((prev) => {
+      const now = Date.now();
+      const next = typeof value === "function" ? value(getRestTimerRemainingSecs(prev, now)) : value;
+      return setRestTimerRemaining(prev, next, now);
+    });
+  }
+
+  function setTimerOn(value: boolean | ((prev: boolean) => boolean)) {
+    updateRestTimer((prev) => {
+      const now = Date.now();
+      const next = typeof value === "function" ? value(prev.running) : value;
+      return next ? resumeRestTimer(prev, now) : pauseRestTimer(prev, now);
+    });
+  }
+
 
   async function resetPassword() {
     const cleanEmail = email.trim();
@@ -1440,7 +1773,7 @@ async function saveTrainingSplitConfig(next: TrainingSplitConfig) {
     try {
       setBackupBusy(true);
 
-      const envelope = await exportFullBackup(localdb);
+      const envelope = await exportFullBackup(localdb, userId);
 
       const blob = new Blob([JSON.stringify(envelope, null, 2)], { type: "application/json" });
       const url = URL.createObjectURL(blob);
@@ -1467,7 +1800,7 @@ async function saveTrainingSplitConfig(next: TrainingSplitConfig) {
       setBackupBusy(true);
 
       const text = await file.text();
-      const parsed = validateBackupEnvelope(JSON.parse(text));
+      const parsed = validateBackupEnvelope(JSON.parse(text), localdb.verno);
 
       const modeRaw = (prompt(
         "Import mode:\n\n• Type MERGE (recommended) to safely merge into this device.\n• Type REPLACE to WIPE this device and restore from backup.\n\nMode:",
@@ -1483,7 +1816,7 @@ async function saveTrainingSplitConfig(next: TrainingSplitConfig) {
 
       if (mode === "REPLACE") {
         const ok = confirm(
-          "REPLACE will DELETE your local data on this device, then restore from the backup.\n\nIf you're not 100% sure, hit Cancel.\n\nContinue?"
+          "REPLACE will DELETE your local data for this account on this device, then restore from the backup.\n\nIf you're not 100% sure, hit Cancel.\n\nContinue?"
         );
         if (!ok) return;
 
@@ -1494,7 +1827,27 @@ async function saveTrainingSplitConfig(next: TrainingSplitConfig) {
         }
       }
 
-      const result = await importBackup(localdb, parsed, mode);
+      const plan = await planBackupImport(localdb, parsed, mode, userId);
+      const proceed = confirm(`Dry run (${mode}) — nothing has been changed yet.\n\n${formatBackupImportPlan(plan)}\n\nApply this import?`);
+      if (!proceed) {
+        alert("Import cancelled.");
+        return;
+      }
+
+      let conflicts: BackupConflictChoice = "keep_local";
+      if (plan.totals.conflict > 0) {
+        const side = (prompt(
+          `${plan.totals.conflict} row(s) differ between this device and the backup, with no timestamp to decide which is newer.\n\n• Type LOCAL to keep this device's version.\n• Type BACKUP to restore the backup's version.\n\nKeep:`,
+          "LOCAL"
+        ) || "").trim().toUpperCase();
+        if (side !== "LOCAL" && side !== "BACKUP") {
+          alert("Import cancelled.");
+          return;
+        }
+        conflicts = side === "BACKUP" ? "use_backup" : "keep_local";
+      }
+
+      const result = await importBackup(localdb, parsed, mode, userId, conflicts);
 
       setLastByExerciseName({});
       setDraftByExerciseId({});
@@ -1604,7 +1957,7 @@ async function saveTrainingSplitConfig(next: TrainingSplitConfig) {
         const exSummaries: any[] = [];
         for (const e of (ex || []).slice(0, 12)) {
           const ss = await localdb.localSets.where({ exercise_id: e.id }).sortBy("set_number");
-          const work = (ss || []).filter((x) => !x.is_warmup && typeof x.reps === "number" && (x.reps as any) > 0);
+          const work = (ss || []).filter((x) => countsTowardE1rm(x) && typeof x.reps === "number" && (x.reps as any) > 0);
           // pick best set by Epley 1RM using est load
           let best: any = null;
           for (const st of work) {
@@ -1672,7 +2025,15 @@ async function saveTrainingSplitConfig(next: TrainingSplitConfig) {
         throw new Error(data?.error || `AI coach error (${resp.status})`);
       }
 
-      const ai: AiCoach = { text: String(data.text || ""), ts: Number(data.ts || Date.now()), model: String(data.model || "gpt-5.2") };
+      const coach = validateCoachAiPayload(data.coach).payload;
+      const ai: AiCoach = {
+        text: String(data.text || ""),
+        ts: Number(data.ts || Date.now()),
+        model: String(data.model || "gpt-5.2"),
+        coach,
+        source: coach ? (data.source === "fallback" || data.source === "repaired" ? data.source : "model") : undefined,
+        doneIds: [],
+      };
       setAiCoach(ai);
       localStorage.setItem(key, JSON.stringify(ai));
       localStorage.setItem(lastKey, String(now));
@@ -1684,6 +2045,18 @@ async function saveTrainingSplitConfig(next: TrainingSplitConfig) {
   }
 
 
+  // Check an AI coach item off (or back on); the cached readout carries the list
+  function toggleAiCoachItem(id: string) {
+    if (!userId || !weeklyCoach || !aiCoach) return;
+    const done = new Set(aiCoach.doneIds ?? []);
+    if (done.has(id)) done.delete(id);
+    else done.add(id);
+    const next: AiCoach = { ...aiCoach, doneIds: [...done] };
+    setAiCoach(next);
+    localStorage.setItem(`aiCoach:${userId}:${weeklyCoach.thisWeekStart}`, JSON.stringify(next));
+  }
+
+
 async function saveQuickLog() {
     if (!userId) return;
 
@@ -1987,12 +2360,12 @@ async function saveQuickLog() {
         day_date: targetDayDate,
         started_at,
         title: "Week 1 Day 1",
-        notes: null
+        notes: appendSessionSplitMeta(null, currentLocationMeta())
       };
 
       await forgetDeletedSessionId(id);
 
-      await localdb.localSessions.put(local);
+      await localdb.localSessions.put(withLocalRevision(local));
 
       await enqueue("create_workout", {
         id,
@@ -2000,7 +2373,7 @@ async function saveQuickLog() {
         day_date: targetDayDate,
         started_at,
         title: local.title,
-        notes: null
+        notes: local.notes
       });
 
       await loadSessionsForDay(targetDayDate);
@@ -2025,6 +2398,8 @@ async function saveQuickLog() {
         plannedDayId: brainSnapshot.recommendedSession.plannedDayId ?? null,
         plannedDayName: brainSnapshot.recommendedSession.plannedDayName ?? null,
         splitPreset: splitConfig?.preset ?? null,
+        programSessionId: brainSnapshot.recommendedSession.programSessionId ?? null,
+        ...currentLocationMeta(),
       };
 
       const local: LocalWorkoutSession = {
@@ -2036,7 +2411,7 @@ async function saveQuickLog() {
         notes: appendSessionSplitMeta(`Created from coach recommendation • ${brainSnapshot.recommendedSession.bias}`, sessionSplitMeta)
       };
 
-      await localdb.localSessions.put(local);
+      await localdb.localSessions.put(withLocalRevision(local));
 
       await enqueue("create_workout", {
         id,
@@ -2049,12 +2424,22 @@ async function saveQuickLog() {
 
       const nextDrafts: Record<string, ExerciseDraft> = {};
       const coachExercises: CoachSessionExerciseSeed[] = [];
+      // Recommended group ids are only unique within the snapshot; the session gets fresh ones.
+      const sessionGroupIds = new Map<string, string>();
+      const sessionGroups = new Map<string, { type: ExerciseGroupType; members: Array<{ id: string; order: number }> }>();
 
       for (let i = 0; i < brainSnapshot.recommendedSession.exercises.length; i += 1) {
       const ex = brainSnapshot.recommendedSession.exercises[i];
       const exerciseId = uuid();
       const identity = resolveExerciseIdentity(ex.name);
       const canonicalName = identity.canonicalName;
+      const groupId = ex.group ? (sessionGroupIds.get(ex.group.id) ?? uuid()) : null;
+      if (ex.group && groupId) {
+        sessionGroupIds.set(ex.group.id, groupId);
+        const group = sessionGroups.get(groupId) ?? { type: ex.group.type, members: [] };
+        group.members.push({ id: exerciseId, order: ex.group.order });
+        sessionGroups.set(groupId, group);
+      }
 
       const localExercise: LocalWorkoutExercise = {
         id: exerciseId,
@@ -2063,9 +2448,12 @@ async function saveQuickLog() {
         sort_order: i,
         exercise_library_id: identity.exerciseLibraryId,
         exercise_family_id: identity.exerciseFamilyId,
+        group_id: groupId,
+        group_type: ex.group?.type ?? null,
+        group_order: ex.group?.order ?? null,
       };
 
-      await localdb.localExercises.put(localExercise);
+      await localdb.localExercises.put(withLocalRevision(localExercise));
 
       await enqueue("insert_exercise", {
         id: exerciseId,
@@ -2079,16 +2467,19 @@ async function saveQuickLog() {
 
       const suggestedWeight = firstNumberFromText(ex.load);
       const repsTarget = parseRecommendedRepTarget(ex.reps);
-      const loadType = inferRecommendedLoadType(ex.load);
+      const loadingPlan = planLoadingFor(ex);
+      const bandSetup = loadingPlan?.implement === "band" ? loadingPlan.bands[0] ?? null : null;
+      const loadType = bandSetup ? "band" : inferRecommendedLoadType(ex.load);
+      const achievableWeight = loadingPlan && loadingPlan.implement !== "band" ? loadingPlan.achievableLbs : suggestedWeight;
 
       nextDrafts[exerciseId] = {
         loadType,
-        weight: loadType === "weight" && suggestedWeight != null ? String(suggestedWeight) : "",
-        bandLevel: "3",
-        bandLevel2: "",
+        weight: loadType === "weight" && achievableWeight != null ? String(achievableWeight) : "",
+        bandLevel: bandSetup ? String(bandSetup.primaryLevel) : "3",
+        bandLevel2: bandSetup?.secondaryLevel != null ? String(bandSetup.secondaryLevel) : "",
         bandMode: "resist",
-        bandConfig: "single",
-        bandEst: loadType === "band" && suggestedWeight != null ? String(suggestedWeight) : "",
+        bandConfig: bandSetup?.mode ?? "single",
+        bandEst: loadType === "band" && !bandSetup && suggestedWeight != null ? String(suggestedWeight) : "",
         reps: repsTarget,
         rpe: "",
         warmup: false
@@ -2102,7 +2493,16 @@ async function saveQuickLog() {
         reps: ex.reps,
         load: ex.load,
         loadBasis: ex.loadBasis,
-        note: ex.note
+        note: ex.note,
+        setPlan: ex.setPlan
+      });
+    }
+
+    for (const [groupId, group] of sessionGroups) {
+      await enqueue("set_exercise_group", {
+        exercise_ids: group.members.sort((a, b) => a.order - b.order).map((member) => member.id),
+        group_id: groupId,
+        group_type: group.type
       });
     }
 
@@ -2152,11 +2552,119 @@ async function saveQuickLog() {
     const uid = targetUserId ?? userIdRef.current;
     if (!uid) {
       setActiveExerciseControls([]);
+      setProgressionModelChoices({});
       return;
     }
     const rows = await localdb.exerciseControls.where("user_id").equals(uid).toArray();
     setExerciseControlRows(rows);
     setActiveExerciseControls(rows);
+    setProgressionModelChoices(progressionModelChoicesFrom(rows));
+  }
+
+  async function refreshInjuryCache(targetUserId?: string | null) {
+    const uid = targetUserId ?? userIdRef.current;
+    if (!uid) {
+      setInjuries([]);
+      setActiveInjuries([]);
+      return;
+    }
+    const rows = await localdb.injuries.where("user_id").equals(uid).toArray();
+    setInjuries(rows);
+    setActiveInjuries(rows, todayISO());
+  }
+
+  async function runInjuryChange(fn: () => Promise<void>) {
+    if (!userIdRef.current || injuryBusy) return;
+    setInjuryBusy(true);
+    try {
+      await fn();
+      await refreshInjuryCache();
+      await refreshDashboard();
+    } catch (e: any) {
+      setStatus(e?.message ?? String(e));
+    } finally {
+      setInjuryBusy(false);
+    }
+  }
+
+  async function addInjury(draft: InjuryDraft) {
+    const uid = userIdRef.current;
+    if (!uid) return;
+    const row = normalizeInjuryRecord({
+      ...draft,
+      id: uuid(),
+      user_id: uid,
+      return_started_on: null,
+      resolved_on: null,
+      updatedAt: Date.now(),
+    });
+    if (!row) {
+      setStatus("Injury needs a region and a start date.");
+      return;
+    }
+    await runInjuryChange(async () => {
+      await localdb.injuries.put(row);
+    });
+  }
+
+  async function updateInjury(id: string, patch: Partial<InjuryRecord>) {
+    await runInjuryChange(async () => {
+      const current = await localdb.injuries.get(id);
+      const next = current ? normalizeInjuryRecord({ ...current, ...patch, updatedAt: Date.now() }) : null;
+      if (next) await localdb.injuries.put(next);
+    });
+  }
+
+  async function deleteInjury(id: string) {
+    await runInjuryChange(async () => {
+      await localdb.injuries.delete(id);
+    });
+  }
+
+  async function refreshCustomExerciseCache(targetUserId?: string | null) {
+    const uid = targetUserId ?? userIdRef.current;
+    const rows = uid ? await localdb.customExercises.where("user_id").equals(uid).toArray() : [];
+    setCustomExerciseRows(rows);
+    applyCustomExercises(rows);
+    // Eligible keys are cached per profile, so re-derive them now that the registry changed.
+    setActiveEquipmentProfile(getActiveEquipmentProfile());
+  }
+
+  async function writeCustomExercise(row: CustomExerciseRec) {
+    await localdb.customExercises.put(row);
+    await enqueue("upsert_custom_exercise", row);
+  }
+
+  async function runCustomExerciseChange(fn: () => Promise<void>) {
+    if (!userIdRef.current || customExerciseBusy) return;
+    setCustomExerciseBusy(true);
+    try {
+      await fn();
+      await refreshCustomExerciseCache();
+      await refreshDashboard();
+    } catch (e: any) {
+      setStatus(e?.message ?? String(e));
+    } finally {
+      setCustomExerciseBusy(false);
+    }
+  }
+
+  async function saveCustomExercise(draft: CustomExerciseRec) {
+    const uid = userIdRef.current;
+    if (!uid) return;
+    const row = normalizeCustomExercise({ ...draft, id: draft.id || uuid(), user_id: uid, updated_at: new Date().toISOString() });
+    if (!row) {
+      setStatus("Custom exercise could not be saved.");
+      return;
+    }
+    await runCustomExerciseChange(() => writeCustomExercise(row));
+  }
+
+  async function deleteCustomExercise(id: string) {
+    await runCustomExerciseChange(async () => {
+      const current = await localdb.customExercises.get(id);
+      if (current) await writeCustomExercise({ ...current, deleted: true, updated_at: new Date().toISOString() });
+    });
   }
 
   async function setExerciseControl(
@@ -2173,6 +2681,20 @@ async function saveQuickLog() {
     });
   }
 
+  async function setExerciseProgressionModel(
+    exercise: StoredExerciseIdentityLike | string | null | undefined,
+    model: ProgressionModel | null
+  ) {
+    await setExerciseProgressionModelRecord(exercise, model, {
+      userId: userIdRef.current,
+      exerciseControlRows,
+      getByKey: (key) => localdb.exerciseControls.get(key),
+      put: (row) => localdb.exerciseControls.put(row),
+      refresh: () => refreshExerciseControlCache(),
+      refreshDashboard: () => refreshDashboard(),
+    });
+  }
+
   function getExerciseControl(exercise: StoredExerciseIdentityLike | string | null | undefined): ExerciseControlRec | null {
     return getExerciseControlRecord(exercise, exerciseControlRows);
   }
@@ -2216,7 +2738,7 @@ async function saveQuickLog() {
       exercise_family_id: identity.exerciseFamilyId,
     };
 
-    await localdb.localExercises.put(local);
+    await localdb.localExercises.put(withLocalRevision(local));
 
     await enqueue("insert_exercise", {
       id,
@@ -2298,6 +2820,10 @@ async function addSet(exerciseId: string) {
 
   const existing = await localdb.localSets.where({ exercise_id: exerciseId }).toArray();
   const nextSetNumber = (existing?.length ?? 0) + 1;
+  const savedAt = Date.now();
+  const rest_secs_before = measureRestTakenSecs(restTimer, openSessionId, savedAt);
+  const set_type: SetType = advanced && d.warmup ? "warmup" : advanced && d.setType ? d.setType : "working";
+  const parent_set_id = resolveParentSetId(existing, set_type);
 
   const id = uuid();
   const local: LocalWorkoutSet = {
@@ -2312,10 +2838,13 @@ async function addSet(exerciseId: string) {
     band_est_lbs,
     reps,
     rpe: advanced && d.rpe ? Number(d.rpe) : null,
-    is_warmup: advanced ? !!d.warmup : false
+    is_warmup: set_type === "warmup",
+    set_type,
+    parent_set_id,
+    rest_secs_before
   };
 
-  await localdb.localSets.put(local);
+  await localdb.localSets.put(withLocalRevision(local));
   setSets((prev) => [...prev, local].sort((a, b) => a.set_number - b.set_number));
 
   await enqueue("insert_set", {
@@ -2330,7 +2859,10 @@ async function addSet(exerciseId: string) {
     band_est_lbs,
     reps,
     rpe: advanced && d.rpe ? Number(d.rpe) : null,
-    is_warmup: advanced ? !!d.warmup : false
+    is_warmup: set_type === "warmup",
+    set_type,
+    parent_set_id,
+    ...(rest_secs_before != null ? { rest_secs_before } : {})
   });
 
   updateDraft(exerciseId, {
@@ -2338,13 +2870,39 @@ async function addSet(exerciseId: string) {
     bandEst: loadType === "band" ? "" : d.bandEst,
     reps: "",
     rpe: "",
-    warmup: false
+    warmup: false,
+    setType: "working"
   });
 
-  setSecs(90);
-  setTimerOn(true);
-
   const ex = exercises.find((e) => e.id === exerciseId);
+  const exerciseRest = recommendRestForExercise(ex ?? null, local);
+  // Inside a superset / circuit the timer only bridges to the next member until the round closes.
+  const groupBlock = ex?.group_id && hardSetCredit(local) > 0 ? exerciseBlocks(exercises).find((block) => block.groupId === ex.group_id) ?? null : null;
+  const rest = groupBlock?.type
+    ? (() => {
+        const memberIds = groupBlock.members.map((member) => member.id);
+        const workingSets = Object.fromEntries(memberIds.map((id) => [id, [...sets, local].filter((s) => s.exercise_id === id && hardSetCredit(s) > 0).length]));
+        const nextId = nextGroupMemberId(memberIds, workingSets);
+        const nextExercise = groupBlock.members.find((member) => member.id === nextId) ?? null;
+        return groupRestAfterSet({
+          type: groupBlock.type,
+          roundComplete: new Set(memberIds.map((id) => workingSets[id])).size === 1,
+          nextName: nextExercise ? displayStoredExerciseName(nextExercise) : null,
+          fullRest: exerciseRest,
+        });
+      })()
+    : exerciseRest;
+  requestRestAlertPermission();
+  updateRestTimer((prev) =>
+    startRestTimer(markRestTimerSetLogged(prev, openSessionId, savedAt), {
+      durationSecs: rest.durationSecs,
+      exerciseId,
+      exerciseName: ex ? displayStoredExerciseName(ex) : null,
+      reason: rest.reason,
+      now: savedAt
+    })
+  );
+
   if (ex) {
     setLastByExerciseName((prev) => {
       const k = storedExerciseKey(ex);
@@ -2358,7 +2916,9 @@ async function addSet(exerciseId: string) {
         band_est_lbs,
         reps: reps ?? null,
         rpe: advanced && d.rpe ? Number(d.rpe) : null,
-        is_warmup: advanced ? !!d.warmup : false
+        is_warmup: set_type === "warmup",
+        set_type,
+        parent_set_id
       };
       return {
         ...prev,
@@ -2382,27 +2942,32 @@ async function addSet(exerciseId: string) {
 async function deleteSet(exerciseId: string, setId: string) {
   const target = sets.find((s) => s.id === setId && s.exercise_id === exerciseId) ?? null;
   if (!target) return;
+  // Drops and cluster mini-sets can't stand without the set they continue.
+  const doomedIds = [setId, ...childSetIds(sets, setId)];
 
   try {
     const remainingForExercise = await localdb.transaction("rw", localdb.localSets, localdb.pendingOps, async () => {
-      await localdb.localSets.delete(setId);
+      await localdb.localSets.bulkDelete(doomedIds);
       const remaining = await localdb.localSets.where({ exercise_id: exerciseId }).sortBy("set_number");
       for (let i = 0; i < remaining.length; i++) {
         const desired = i + 1;
         if (remaining[i].set_number !== desired) {
-          await localdb.localSets.update(remaining[i].id, { set_number: desired });
+          await localdb.localSets.update(remaining[i].id, { set_number: desired, ...nextLocalRevision(remaining[i]) });
           remaining[i] = { ...remaining[i], set_number: desired };
         }
       }
 
+      const createdAt = Date.now();
+      for (let i = 0; i < doomedIds.length; i++) {
+        await localdb.pendingOps.add({
+          createdAt: createdAt + i,
+          op: "delete_set",
+          payload: { set_id: doomedIds[i] },
+          status: "queued"
+        });
+      }
       await localdb.pendingOps.add({
-        createdAt: Date.now(),
-        op: "delete_set",
-        payload: { set_id: setId },
-        status: "queued"
-      });
-      await localdb.pendingOps.add({
-        createdAt: Date.now(),
+        createdAt: createdAt + doomedIds.length,
         op: "renumber_sets",
         payload: { ordered_set_ids: remaining.map((s) => s.id) },
         status: "queued"
@@ -2412,7 +2977,7 @@ async function deleteSet(exerciseId: string, setId: string) {
     });
 
     setSets((prev) => {
-      const survivors = prev.filter((s) => s.id !== setId);
+      const survivors = prev.filter((s) => !doomedIds.includes(s.id));
       return survivors.map((s) => {
         if (s.exercise_id !== exerciseId) return s;
         const idx = remainingForExercise.findIndex((r) => r.id === s.id);
@@ -2448,7 +3013,7 @@ This removes it locally immediately and queues a cloud delete.`
 
       for (let i = 0; i < remaining.length; i++) {
         if (remaining[i].sort_order !== i) {
-          await localdb.localExercises.update(remaining[i].id, { sort_order: i });
+          await localdb.localExercises.update(remaining[i].id, { sort_order: i, ...nextLocalRevision(remaining[i]) });
           remaining[i] = { ...remaining[i], sort_order: i };
         }
       }
@@ -2470,6 +3035,10 @@ This removes it locally immediately and queues a cloud delete.`
     });
 
     setExercises(remainingExercises);
+    const groupUpdates = planUngroup(exercises, exerciseId)
+      .map((update) => ({ ...update, ids: update.ids.filter((id) => id !== exerciseId) }))
+      .filter((update) => update.ids.length > 0);
+    await saveSessionGrouping(remainingExercises, groupUpdates);
     setSets((prev) => prev.filter((s) => s.exercise_id !== exerciseId));
     setDraftByExerciseId((prev) => {
       const next = { ...prev };
@@ -2486,6 +3055,67 @@ This removes it locally immediately and queues a cloud delete.`
 }
 
 
+function groupFieldsChanged(prev: ExerciseGroupFields & { sort_order: number }, next: ExerciseGroupFields & { sort_order: number }) {
+  return prev.sort_order !== next.sort_order
+    || (prev.group_id ?? null) !== (next.group_id ?? null)
+    || (prev.group_type ?? null) !== (next.group_type ?? null)
+    || (prev.group_order ?? null) !== (next.group_order ?? null);
+}
+
+async function saveSessionGrouping(rows: LocalWorkoutExercise[], updates: ExerciseGroupUpdate[]) {
+  if (!openSessionId || !updates.length) return;
+  const next = applyGroupUpdates(rows, updates);
+  const prevById = new Map(rows.map((row) => [row.id, row]));
+  const reordered = next.some((row) => prevById.get(row.id)?.sort_order !== row.sort_order);
+  const createdAt = Date.now();
+
+  await localdb.transaction("rw", localdb.localExercises, localdb.pendingOps, async () => {
+    for (const row of next) {
+      const prev = prevById.get(row.id);
+      if (!prev || !groupFieldsChanged(prev, row)) continue;
+      await localdb.localExercises.update(row.id, {
+        sort_order: row.sort_order,
+        group_id: row.group_id ?? null,
+        group_type: row.group_type ?? null,
+        group_order: row.group_order ?? null,
+        ...nextLocalRevision(prev)
+      });
+    }
+    for (let i = 0; i < updates.length; i++) {
+      await localdb.pendingOps.add({
+        createdAt: createdAt + i,
+        op: "set_exercise_group",
+        payload: { exercise_ids: updates[i].ids, group_id: updates[i].plan?.groupId ?? null, group_type: updates[i].plan?.type ?? null },
+        status: "queued"
+      });
+    }
+    if (reordered) {
+      await localdb.pendingOps.add({
+        createdAt: createdAt + updates.length,
+        op: "reorder_exercises",
+        payload: { ordered_exercise_ids: next.map((row) => row.id) },
+        status: "queued"
+      });
+    }
+  });
+
+  setExercises(next);
+}
+
+async function groupExerciseWithNext(exerciseId: string) {
+  const plan = planGroupWithNext(exercises, exerciseId, uuid);
+  if (plan) await saveSessionGrouping(exercises, [{ ids: plan.memberIds, plan }]);
+}
+
+async function ungroupExercise(exerciseId: string) {
+  await saveSessionGrouping(exercises, planUngroup(exercises, exerciseId));
+}
+
+async function setExerciseGroupEmom(groupId: string, emom: boolean) {
+  const plan = planGroupRetype(exercises, groupId, emom);
+  if (plan) await saveSessionGrouping(exercises, [{ ids: plan.memberIds, plan }]);
+}
+
 // -----------------------------
   // Delete Session (local now + cloud queued)
   // -----------------------------
@@ -2713,6 +3343,10 @@ async function deleteTemplateExercise(templateExerciseId: string) {
   });
 
   setTemplateExercises(remaining);
+  const groupUpdates = planUngroup(templateExercises, templateExerciseId)
+    .map((update) => ({ ...update, ids: update.ids.filter((id) => id !== templateExerciseId) }))
+    .filter((update) => update.ids.length > 0);
+  await saveTemplateGrouping(remaining, groupUpdates);
 }
 
 async function moveTemplateExercise(templateExerciseId: string, direction: -1 | 1) {
@@ -2739,6 +3373,53 @@ async function moveTemplateExercise(templateExerciseId: string, direction: -1 |
   });
 }
 
+async function saveTemplateGrouping(rows: LocalWorkoutTemplateExercise[], updates: ExerciseGroupUpdate[]) {
+  if (!openTemplateId || !updates.length) return;
+  const next = applyGroupUpdates(rows, updates);
+  const prevById = new Map(rows.map((row) => [row.id, row]));
+  const reordered = next.some((row) => prevById.get(row.id)?.sort_order !== row.sort_order);
+  const createdAt = Date.now();
+
+  await localdb.transaction("rw", localdb.localTemplateExercises, localdb.pendingOps, async () => {
+    for (const row of next) {
+      const prev = prevById.get(row.id);
+      if (prev && groupFieldsChanged(prev, row)) await localdb.localTemplateExercises.put(row);
+    }
+    for (let i = 0; i < updates.length; i++) {
+      await localdb.pendingOps.add({
+        createdAt: createdAt + i,
+        op: "set_template_exercise_group",
+        payload: { template_exercise_ids: updates[i].ids, group_id: updates[i].plan?.groupId ?? null, group_type: updates[i].plan?.type ?? null },
+        status: "queued"
+      });
+    }
+    if (reordered) {
+      await localdb.pendingOps.add({
+        createdAt: createdAt + updates.length,
+        op: "reorder_template_exercises",
+        payload: { ordered_template_exercise_ids: next.map((row) => row.id) },
+        status: "queued"
+      });
+    }
+  });
+
+  setTemplateExercises(next);
+}
+
+async function groupTemplateExerciseWithNext(templateExerciseId: string) {
+  const plan = planGroupWithNext(templateExercises, templateExerciseId, uuid);
+  if (plan) await saveTemplateGrouping(templateExercises, [{ ids: plan.memberIds, plan }]);
+}
+
+async function ungroupTemplateExercise(templateExerciseId: string) {
+  await saveTemplateGrouping(templateExercises, planUngroup(templateExercises, templateExerciseId));
+}
+
+async function setTemplateGroupEmom(groupId: string, emom: boolean) {
+  const plan = planGroupRetype(templateExercises, groupId, emom);
+  if (plan) await saveTemplateGrouping(templateExercises, [{ ids: plan.memberIds, plan }]);
+}
+
   async function createTemplate() {
     if (!userId) return;
     const name = newTemplateName.trim();
@@ -2834,10 +3515,10 @@ async function moveTemplateExercise(templateExerciseId: string, direction: -1 |
       day_date: selectedDayDate,
       started_at,
       title: t.name,
-      notes: null
+      notes: appendSessionSplitMeta(null, currentLocationMeta())
     };
 
-    await localdb.localSessions.put(localSession);
+    await localdb.localSessions.put(withLocalRevision(localSession));
 
     await enqueue("create_workout", {
       id: sessionId,
@@ -2845,12 +3526,23 @@ async function moveTemplateExercise(templateExerciseId: string, direction: -1 |
       day_date: selectedDayDate,
       started_at,
       title: t.name,
-      notes: null
+      notes: localSession.notes
     });
 
+    // Each session gets its own group ids; members keep the template's round order.
+    const sessionGroupIds = new Map<string, string>();
+    const sessionGroups = new Map<string, { type: ExerciseGroupType | null; members: Array<{ id: string; order: number }> }>();
+
     for (let i = 0; i < ex.length; i++) {
       const te = ex[i];
       const exerciseId = uuid();
+      const groupId = te.group_id ? (sessionGroupIds.get(te.group_id) ?? uuid()) : null;
+      if (te.group_id && groupId) {
+        sessionGroupIds.set(te.group_id, groupId);
+        const group = sessionGroups.get(groupId) ?? { type: te.group_type ?? null, members: [] };
+        group.members.push({ id: exerciseId, order: te.group_order ?? i });
+        sessionGroups.set(groupId, group);
+      }
 
       const identity = te.exercise_library_id
         ? {
@@ -2868,9 +3560,12 @@ async function moveTemplateExercise(templateExerciseId: string, direction: -1 |
         sort_order: i,
         exercise_library_id: identity.exerciseLibraryId,
         exercise_family_id: identity.exerciseFamilyId,
+        group_id: groupId,
+        group_type: groupId ? te.group_type ?? null : null,
+        group_order: groupId ? te.group_order ?? null : null,
       };
 
-      await localdb.localExercises.put(localExercise);
+      await localdb.localExercises.put(withLocalRevision(localExercise));
 
       await enqueue("insert_exercise", {
         id: exerciseId,
@@ -2885,6 +3580,14 @@ async function moveTemplateExercise(templateExerciseId: string, direction: -1 |
       }));
     }
 
+    for (const [groupId, group] of sessionGroups) {
+      await enqueue("set_exercise_group", {
+        exercise_ids: group.members.sort((a, b) => a.order - b.order).map((member) => member.id),
+        group_id: groupId,
+        group_type: group.type
+      });
+    }
+
     await loadSessionsForDay(selectedDayDate);
     await openSession(sessionId);
     setTab("workout");
@@ -2920,7 +3623,9 @@ async function moveTemplateExercise(templateExerciseId: string, direction: -1 |
       band_est_lbs: (x as any).band_est_lbs ?? null,
       reps: x.reps ?? null,
       rpe: x.rpe ?? null,
-      is_warmup: !!x.is_warmup
+      is_warmup: !!x.is_warmup,
+      set_type: x.set_type ?? null,
+      parent_set_id: x.parent_set_id ?? null
     }));
 
     return { source: "local", started_at: best.started_at, sets: all };
@@ -2969,7 +3674,8 @@ async function moveTemplateExercise(templateExerciseId: string, direction: -1 |
 
     const { data: ss, error: ssErr } = await supabase
       .from("workout_sets")
-      .select("load_type, weight_lbs, band_level, band_mode, band_config, band_est_lbs, reps, rpe, is_warmup, set_number")
+      // "*" so projects without the set_type / parent_set_id columns still answer.
+      .select("*")
       .eq("exercise_id", best.id)
       .order("set_number", { ascending: true });
 
@@ -2984,7 +3690,9 @@ async function moveTemplateExercise(templateExerciseId: string, direction: -1 |
       band_est_lbs: x.band_est_lbs ?? null,
       reps: x.reps ?? null,
       rpe: x.rpe ?? null,
-      is_warmup: !!x.is_warmup
+      is_warmup: !!x.is_warmup,
+      set_type: x.set_type ?? null,
+      parent_set_id: x.parent_set_id ?? null
     }));
 
     return { source: "cloud", started_at, sets: all };
@@ -3013,7 +3721,7 @@ async function moveTemplateExercise(templateExerciseId: string, direction: -1 |
   }
 
   function pickFirstWorkSet(setsAll: SetLite[]): SetLite | null {
-    const work = setsAll.find((s) => !s.is_warmup && (s.reps ?? 0) > 0);
+    const work = setsAll.find((s) => countsTowardE1rm(s) && (s.reps ?? 0) > 0);
     return work ?? setsAll[0] ?? null;
   }
 
@@ -3262,14 +3970,15 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
         const day = sessionDay.get(info.session_id);
         if (!day) continue;
 
-        setsByDay.set(day, (setsByDay.get(day) ?? 0) + 1);
+        setsByDay.set(day, (setsByDay.get(day) ?? 0) + hardSetCredit(s));
 
         const effectiveLoad = Number(s.weight_lbs ?? s.band_est_lbs ?? 0);
         const r = s.reps ?? 0;
-        if (effectiveLoad > 0 && r > 0) {
+        if (effectiveLoad > 0 && r > 0 && countsTowardTonnage(s)) {
           tonnageByDay.set(day, (tonnageByDay.get(day) ?? 0) + effectiveLoad * r);
-
-          // e1RM (best per day) for bucketed names
+        }
+        if (effectiveLoad > 0 && r > 0 && countsTowardE1rm(s)) {
+          // e1RM (best per day) for bucketed names; drops and cluster sets would understate it
           const e1 = oneRmEpley(effectiveLoad, r);
 
           if (isBenchName(info.name)) bumpMax(bestBenchE1RM, day, e1);
@@ -3498,6 +4207,33 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
       if (isStale()) return;
       setLastCompletedSplitDayName(recentCompletedSplitDays.find((d) => d.dayName)?.dayName ?? null);
 
+      const programCalendarSnapshot = await loadProgramCalendar(userId);
+      const sessionBudgetSnapshot = await loadSessionBudget();
+      const programActualsSnapshot: ActualProgramSession[] = completedSessions.map((session) => {
+        const meta = parseSessionSplitMeta(session.notes ?? null);
+        const workingSets = (sessionExercisesMap.get(session.id) ?? [])
+          .reduce((acc, ex) => acc + (setsByExerciseId.get(ex.id) ?? []).filter((st) => !st.is_warmup).length, 0);
+        return {
+          id: session.id,
+          dayDate: session.day_date || isoToDay(session.started_at),
+          programSessionId: meta?.programSessionId ?? null,
+          plannedDayId: meta?.plannedDayId ?? null,
+          workingSets,
+        };
+      });
+
+      const locationCutoff = addDays(fmt(endDay), -27);
+      const locationSummarySnapshot = summarizeSessionsByLocation(
+        completedSessions
+          .filter((session) => (session.day_date || isoToDay(session.started_at)) >= locationCutoff)
+          .map((session) => {
+            const meta = parseSessionSplitMeta(session.notes ?? null);
+            return { locationId: meta?.locationId ?? null, locationName: meta?.locationName ?? null };
+          }),
+        equipmentProfileSet
+      );
+      const activeLocation = getActiveNamedProfile(equipmentProfileSet);
+
       const recentFocusCounts: FocusCounts = { Push: 0, Pull: 0, Lower: 0, Mixed: 0 };
       const recentFocusWindow = completedSessions.slice(0, 9);
       const exerciseHistoryMap = new Map<string, ExerciseHistory>();
@@ -3520,7 +4256,7 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
           const key = storedExerciseKey(ex);
           if (exerciseHistoryMap.has(key)) continue;
           const focus = focusFromExerciseKey(key);
-          const sets = (setsByExerciseId.get(ex.id) ?? []).filter((s) => !s.is_warmup);
+          const sets = (setsByExerciseId.get(ex.id) ?? []).filter((s) => countsTowardE1rm(s));
           let lastLoad: number | null = null;
           let lastReps: number | null = null;
           let bestE1: number | null = null;
@@ -3548,7 +4284,7 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
             let sessionRepCount = 0;
 
             for (const scanEx of scanExercises) {
-              const scanSets = (setsByExerciseId.get(scanEx.id) ?? []).filter((s) => !s.is_warmup);
+              const scanSets = (setsByExerciseId.get(scanEx.id) ?? []).filter((s) => countsTowardE1rm(s));
               for (const st of scanSets) {
                 const load = Number(st.weight_lbs ?? st.band_est_lbs ?? 0);
                 const reps = Number(st.reps ?? 0);
@@ -3610,13 +4346,14 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
             const key = storedExerciseKey(ex);
             const focus = focusFromExerciseKey(key);
             sessionFocusCounts[focus] += 1;
-            const sets = (setsByExerciseId.get(ex.id) ?? []).filter((s) => !s.is_warmup);
-            weekSets += sets.length;
+            const sets = (setsByExerciseId.get(ex.id) ?? []).filter((s) => countsTowardTonnage(s));
             for (const st of sets) {
+              weekSets += hardSetCredit(st);
               const load = Number(st.weight_lbs ?? st.band_est_lbs ?? 0);
               const reps = Number(st.reps ?? 0);
               if (load > 0 && reps > 0) {
                 weekTonnage += load * reps;
+                if (!countsTowardE1rm(st)) continue;
                 const e1 = oneRmEpley(load, reps);
                 if (e1 > topLiftScore) {
                   topLiftScore = e1;
@@ -3678,6 +4415,7 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
               predictionScaffold: sandboxSnapshot.predictionScaffold,
               predictionReviewHistory: sandboxSnapshot.predictionReviewHistory,
               predictionAccuracySummary: sandboxSnapshot.predictionAccuracySummary,
+              restorePoint: sandboxSnapshot.restorePoint ?? null,
             };
             prefHistory = sandboxSnapshot.preferenceHistory;
             persistedAdaptationWeights = sandboxSnapshot.adaptationWeights;
@@ -3743,6 +4481,7 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
             predictionScaffold: loopMemory?.predictionScaffold ?? null,
             predictionReviewHistory: rebuiltLoopMemory.predictionReviewHistory,
             predictionAccuracySummary: rebuiltLoopMemory.predictionAccuracySummary,
+            restorePoint: loopMemory?.restorePoint ?? null,
           };
         }
 
@@ -3774,16 +4513,10 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
       const lastWorkoutDays = completedSessions.length > 0
         ? daysBetweenISO(completedSessions[0].day_date || isoToDay(completedSessions[0].started_at), today)
         : null;
-      const readinessTrend = sleepAvg7 != null && proteinAvg7 != null && sleepAvg7 >= 6.5 && proteinAvg7 >= 170 ? "up" : sleepAvg7 != null && sleepAvg7 >= 5.5 ? "flat" : "down";
-      const sleepReadiness = sleepAvg7 != null ? Math.max(35, Math.min(100, Math.round(35 + sleepAvg7 * 9))) : 60;
-      const proteinReadiness = proteinAvg7 != null ? Math.max(35, Math.min(100, Math.round(30 + proteinAvg7 * 0.3))) : 60;
       const momentumTrend = tonPct >= 5 ? "up" : tonPct <= -5 ? "down" : "flat";
-      const friction = buildFrictionProfile({
+      const frictionInput: FrictionInput = {
         asOf: today,
-        readiness: {
-          score: Math.round((sleepReadiness + proteinReadiness) / 2),
-          trend: readinessTrend,
-        },
+        readiness: frictionReadinessFromRecovery(sleepAvg7, proteinAvg7),
         behavior: {
           fidelity: fidelityAvg,
           substitutionRate: substitutionAvg,
@@ -3798,7 +4531,8 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
         progress: {
           momentum: momentumTrend,
         },
-      });
+      };
+      const friction = buildFrictionProfile(frictionInput);
       if (isStale()) return;
       setFrictionProfile(friction);
       if (userId) {
@@ -3812,11 +4546,18 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
 
       const canDeriveLoopState = prefHistory.length > 0;
       const latestClosedReviewSessionId = predictionReviewSnapshot[0]?.sessionId ?? null;
+      const previousLoopState = snapshotLoopState({
+        adaptationWeights: persistedAdaptationWeights,
+        behaviorFingerprint: loopMemory?.behaviorFingerprint,
+        predictionScaffold: loopMemory?.predictionScaffold,
+      });
+      const restorePointSnapshot = stepLoopRestorePoint(loopMemory?.restorePoint ?? null, latestClosedReviewSessionId);
       let recalibrationActionSnapshot = stepRecalibrationActionProbation({
         action: persistedRecalibrationAction,
         latestClosedReviewSessionId,
       });
       const hasActiveRecalibrationAction = !!(recalibrationActionSnapshot && recalibrationActionSnapshot.status === "active");
+      const loopHistory = applyRecalibrationToHistory(prefHistory, recalibrationActionSnapshot);
       const previousRecalibrationStateForPolicy: RecalibrationState | null = (() => {
         if (!persistedRecalibrationState) return null;
         if (recalibrationActionSnapshot?.status === "active") {
@@ -3836,9 +4577,9 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
         return persistedRecalibrationState;
       })();
 
-      const behaviorFingerprintSnapshot = canDeriveLoopState
-        ? deriveBehaviorFingerprint(prefHistory, friction)
-        : (loopMemory?.behaviorFingerprint ?? deriveBehaviorFingerprint([], friction));
+      const behaviorFingerprintSnapshot = restorePointSnapshot?.state.behaviorFingerprint ?? (canDeriveLoopState
+        ? deriveBehaviorFingerprint(fingerprintHistoryFor(loopHistory, recalibrationActionSnapshot), friction)
+        : (loopMemory?.behaviorFingerprint ?? deriveBehaviorFingerprint([], friction)));
       if (isStale()) return;
       setBehaviorFingerprint(behaviorFingerprintSnapshot);
       if (userId && canDeriveLoopState) {
@@ -3848,7 +4589,7 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
       }
 
       const adaptationLayer = deriveAdaptationLayer({
-        history: prefHistory,
+        history: loopHistory,
         fingerprint: behaviorFingerprintSnapshot,
         predictionAccuracySummary: predictionAccuracySnapshot,
         predictionReviewHistory: predictionReviewSnapshot,
@@ -3858,8 +4599,10 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
         ? adaptationLayer.weights
         : (persistedAdaptationWeights ?? adaptationLayer.weights);
       let mutationLedgerSnapshot = persistedMutationLedger.slice();
-      if (adaptationFrozen) {
-        adaptationSnapshot = persistedAdaptationWeights ?? adaptationSnapshot;
+      if (restorePointSnapshot?.state.adaptationWeights) {
+        adaptationSnapshot = restorePointSnapshot.state.adaptationWeights;
+      } else if (adaptationFrozen) {
+        adaptationSnapshot = applyAdaptationRecalibrationToWeights(persistedAdaptationWeights ?? adaptationSnapshot, recalibrationActionSnapshot);
       } else if (adaptationLayer.ledgerEntry) {
         const latestKey = mutationLedgerSnapshot[0]?.generatedAt ?? "";
         if (latestKey !== adaptationLayer.ledgerEntry.generatedAt && mutationLedgerSnapshot[0]?.summary !== adaptationLayer.ledgerEntry.summary) {
@@ -3872,7 +4615,7 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
         behaviorFingerprint: behaviorFingerprintSnapshot,
         predictionAccuracySummary: predictionAccuracySnapshot,
         predictionReviewHistory: predictionReviewSnapshot,
-        preferenceHistory: prefHistory,
+        preferenceHistory: loopHistory,
         adaptationWeights: adaptationSnapshot,
         mutationLedger: mutationLedgerSnapshot,
         previousState: previousRecalibrationStateForPolicy,
@@ -3881,22 +4624,26 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
 
       await refreshPreferenceMemoryCache(userId);
       await refreshExerciseControlCache(userId);
+      await refreshInjuryCache(userId);
+      await refreshCustomExerciseCache(userId);
 
-      const brain = computeBrainSnapshot({
+      const brainWeeklyCoach = {
+        sessionsThis,
+        sessionsPrev,
+        tonnageThis: tonThis,
+        tonnagePrev: tonPrev,
+        setsThis,
+        setsPrev
+      };
+      const trainingDays28 = days.filter((d) => (setsByDay.get(d) ?? 0) > 0).length;
+      const brainInput: BrainInput = {
         splitConfig: splitOverride ?? splitConfigRef.current,
         recentSessionTitles: completedSessions.map((s) => s.title),
         recentCompletedSplitDays,
         sleepAvg7,
         proteinAvg7,
-        trainingDays28: days.filter((d) => (setsByDay.get(d) ?? 0) > 0).length,
-        weeklyCoach: {
-          sessionsThis,
-          sessionsPrev,
-          tonnageThis: tonThis,
-          tonnagePrev: tonPrev,
-          setsThis,
-          setsPrev
-        },
+        trainingDays28,
+        weeklyCoach: brainWeeklyCoach,
         recentFocusCounts,
         lastSessionFocus: recentFocusWindow.length > 0 ? (() => {
           const session = recentFocusWindow[0];
@@ -3908,12 +4655,21 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
         })() : null,
         exerciseHistory: [...exerciseHistoryMap.values()],
         preferenceSignals: adaptedPreferenceSignals,
-        frictionProfile: friction
-      });
+        frictionProfile: friction,
+        plannedSession: programCalendarSnapshot ? selectNextPlannedSession(programCalendarSnapshot, programActualsSnapshot, today) : null,
+        location: { id: activeLocation.id, name: activeLocation.name, equipmentCount: activeLocation.available.length },
+        sessionBudgetMin: sessionBudgetSnapshot
+      };
+      const brain = computeBrainSnapshot(brainInput);
 
       if (isStale()) return;
       setTimelineWeeks(timeline);
       setBrainSnapshot(brain);
+      setProgramCalendar(programCalendarSnapshot);
+      setProgramActuals(programActualsSnapshot);
+      setLocationSummary(locationSummarySnapshot);
+      lastBrainInputRef.current = { recentFocusCounts, trainingDays28, weeklyCoach: brainWeeklyCoach };
+      setWhatIfBaseline({ brainInput, frictionInput });
       if (userId) {
         await localdb.localSettings.put({
           user_id: userId,
@@ -3924,7 +4680,7 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
       }
       let predictionSnapshot = canDeriveLoopState
         ? buildPredictionScaffold({
-            history: prefHistory,
+            history: loopHistory,
             fingerprint: behaviorFingerprintSnapshot,
             brainSnapshot: brain,
             frictionProfile: friction,
@@ -3950,8 +4706,24 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
           });
         }
       }
-      if (hasActiveRecalibrationAction) {
+      const scopedRecalibration = hasActiveRecalibrationAction || restorePointSnapshot
+        ? null
+        : executeScopedRecalibration({
+            recalibrationState: recalibrationSnapshot,
+            adaptationWeights: adaptationSnapshot,
+            preferenceHistory: loopHistory,
+            latestClosedReviewSessionId,
+          });
+      if (restorePointSnapshot) {
+        // A hand restore outranks the executors until its hold runs out.
+        predictionSnapshot = restorePointSnapshot.state.predictionScaffold ?? predictionSnapshot;
+      } else if (hasActiveRecalibrationAction) {
         predictionSnapshot = applyPredictionRecalibrationToScaffold(predictionSnapshot, recalibrationActionSnapshot);
+      } else if (scopedRecalibration) {
+        recalibrationActionSnapshot = scopedRecalibration.action;
+        adaptationSnapshot = scopedRecalibration.adaptationWeights ?? adaptationSnapshot;
+        recalibrationSnapshot = scopedRecalibration.recalibrationState;
+        mutationLedgerSnapshot = [recalibrationLedgerEntry(scopedRecalibration.action, scopedRecalibration.recalibrationState), ...mutationLedgerSnapshot].slice(0, 12);
       } else if (shouldExecutePredictionRecalibration({
         recalibrationState: recalibrationSnapshot,
         predictionScaffold: predictionSnapshot,
@@ -3965,15 +4737,24 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
           recalibrationActionSnapshot = executed.action;
           predictionSnapshot = executed.predictionScaffold;
           recalibrationSnapshot = executed.recalibrationState;
+          mutationLedgerSnapshot = [recalibrationLedgerEntry(executed.action, executed.recalibrationState), ...mutationLedgerSnapshot].slice(0, 12);
         }
       }
 
+      mutationLedgerSnapshot = stampLedgerSnapshots(
+        mutationLedgerSnapshot,
+        persistedMutationLedger,
+        previousLoopState,
+        snapshotLoopState({ adaptationWeights: adaptationSnapshot, behaviorFingerprint: behaviorFingerprintSnapshot, predictionScaffold: predictionSnapshot }),
+      );
+
       if (isStale()) return;
       setPredictionScaffold(predictionSnapshot);
       setAdaptationWeights(adaptationSnapshot);
       setMutationLedger(mutationLedgerSnapshot);
       setRecalibrationState(recalibrationSnapshot);
       setRecalibrationAction(recalibrationActionSnapshot);
+      setLoopRestorePoint(restorePointSnapshot);
       if (userId) {
         if (recalibrationSandboxEnabled) {
           await persistRecalibrationSandboxSnapshot(userId, {
@@ -3987,8 +4768,12 @@ async function refreshDashboard(splitOverride?: TrainingSplitConfig | null) {
             predictionAccuracySummary: predictionAccuracySnapshot,
             preferenceHistory: prefHistory,
             scenarioName: recalibrationSandboxScenario,
+            restorePoint: restorePointSnapshot,
           });
         } else {
+          if (loopMemory?.restorePoint) {
+            await persistLoopMemoryArtifacts(userId, { restorePoint: restorePointSnapshot });
+          }
           const now = Date.now();
           await Promise.all([
             localdb.localSettings.put({ user_id: userId, key: "adaptation_weights_v1", value: JSON.stringify(adaptationSnapshot), updatedAt: now }),
@@ -4044,6 +4829,9 @@ async function refreshLocalUiFromDexie() {
 
   if (!currentUserId) return;
 
+  setSyncConflicts(await listOpenSyncConflicts(currentUserId));
+  await refreshCustomExerciseCache(currentUserId);
+
   // Don't clobber Quick Log inputs while the user is typing.
   // Those fields should reload on day changes and after explicit saves,
   // not every autosync pass.
@@ -4081,6 +4869,8 @@ useEffect(() => {
 useEffect(() => {
   void refreshPreferenceMemoryCache(userId);
   void refreshExerciseControlCache(userId);
+  void refreshInjuryCache(userId);
+  void refreshCustomExerciseCache(userId);
 }, [userId]);
 
 
@@ -4096,6 +4886,7 @@ function buildCurrentRecalibrationSnapshot(): RecalibrationSandboxSnapshot {
     recalibrationState,
     recalibrationAction,
     scenarioName: recalibrationSandboxScenario,
+    restorePoint: loopRestorePoint,
   };
 }
 
@@ -4121,6 +4912,64 @@ async function applyRecalibrationSandboxScenario(name: SandboxScenarioName) {
   await refreshDashboard();
 }
 
+async function undoRecalibrationActionNow() {
+  if (!userId || !recalibrationAction || recalibrationAction.status === "undone") return;
+  const undone = undoRecalibrationAction({ action: recalibrationAction, adaptationWeights });
+  const current = snapshotLoopState({ adaptationWeights, behaviorFingerprint, predictionScaffold });
+  const [ledgerEntry] = stampLedgerSnapshots([undone.ledgerEntry], [], current, { ...current, adaptationWeights: undone.adaptationWeights });
+  const nextLedger = [ledgerEntry, ...mutationLedger].slice(0, 12);
+  if (recalibrationSandboxEnabled) {
+    await persistRecalibrationSandboxSnapshot(userId, {
+      recalibrationAction: undone.action,
+      adaptationWeights: undone.adaptationWeights,
+      mutationLedger: nextLedger,
+    });
+  } else {
+    const now = Date.now();
+    await Promise.all([
+      localdb.localSettings.put({ user_id: userId, key: "adaptation_weights_v1", value: JSON.stringify(undone.adaptationWeights), updatedAt: now }),
+      localdb.localSettings.put({ user_id: userId, key: "mutation_ledger_v1", value: JSON.stringify(nextLedger), updatedAt: now }),
+      localdb.localSettings.put({ user_id: userId, key: "recalibration_action_v1", value: JSON.stringify(undone.action), updatedAt: now }),
+    ]);
+  }
+  await refreshDashboard();
+}
+
+async function restoreLedgerStateNow(entryKey: string, side: LedgerStateSide) {
+  const entry = mutationLedger.find((item) => (item.id ?? item.generatedAt) === entryKey);
+  if (!userId || !entry) return;
+  const restored = restoreLedgerState({
+    entry,
+    side,
+    current: snapshotLoopState({ adaptationWeights, behaviorFingerprint, predictionScaffold }),
+    latestClosedReviewSessionId: predictionReviewHistory[0]?.sessionId ?? null,
+  });
+  if (!restored) return;
+  const nextLedger = [restored.ledgerEntry, ...mutationLedger].slice(0, 12);
+  const { adaptationWeights: restoredWeights, behaviorFingerprint: restoredFingerprint, predictionScaffold: restoredScaffold } = restored.restorePoint.state;
+  if (recalibrationSandboxEnabled) {
+    await persistRecalibrationSandboxSnapshot(userId, {
+      restorePoint: restored.restorePoint,
+      mutationLedger: nextLedger,
+      ...(restoredWeights ? { adaptationWeights: restoredWeights } : {}),
+      ...(restoredFingerprint ? { behaviorFingerprint: restoredFingerprint } : {}),
+      ...(restoredScaffold ? { predictionScaffold: restoredScaffold } : {}),
+    });
+  } else {
+    await persistLoopMemoryArtifacts(userId, {
+      restorePoint: restored.restorePoint,
+      behaviorFingerprint: restoredFingerprint,
+      predictionScaffold: restoredScaffold,
+    });
+    const now = Date.now();
+    await Promise.all([
+      localdb.localSettings.put({ user_id: userId, key: "mutation_ledger_v1", value: JSON.stringify(nextLedger), updatedAt: now }),
+      ...(restoredWeights ? [localdb.localSettings.put({ user_id: userId, key: "adaptation_weights_v1", value: JSON.stringify(restoredWeights), updatedAt: now })] : []),
+    ]);
+  }
+  await refreshDashboard();
+}
+
 async function resetRecalibrationSandbox() {
   if (!userId) return;
   await seedRecalibrationSandboxSnapshot(userId, { ...buildCurrentRecalibrationSnapshot(), scenarioName: null });
@@ -4137,24 +4986,37 @@ async function syncNow() {
   }
 }
 
+async function resolveSyncConflictNow(conflictId: string, choice: "local" | "remote") {
+  setConflictBusyId(conflictId);
+  try {
+    await resolveSyncConflict(conflictId, choice);
+    await syncNow();
+    if (userId) setSyncConflicts(await listOpenSyncConflicts(userId));
+  } catch (e: any) {
+    console.error(e);
+    alert(`Resolve conflict failed: ${e?.message ?? String(e)}`);
+  } finally {
+    setConflictBusyId(null);
+  }
+}
+
 async function reviewQuarantinedNow() {
-  const items = await listQuarantinedOps();
-  if (items.length === 0) {
-    alert("No quarantined sync items found.");
-    return;
+  setTriageEntries(await buildPendingOpChains());
+  setTriageOpen(true);
+}
+
+async function runTriageAction(action: () => Promise<unknown>) {
+  setTriageBusy(true);
+  try {
+    await action();
+    await syncNow();
+    setTriageEntries(await buildPendingOpChains());
+  } catch (e: any) {
+    console.error(e);
+    alert(`Sync queue action failed: ${e?.message ?? String(e)}`);
+  } finally {
+    setTriageBusy(false);
   }
-  const summary = items
-    .slice(0, 20)
-    .map((item, idx) => {
-      const when = item.quarantinedAt ? new Date(item.quarantinedAt).toLocaleString() : "unknown time";
-      const payloadKeys = item.payload && typeof item.payload === "object" ? Object.keys(item.payload).slice(0, 8).join(", ") : "no payload keys";
-      return `${idx + 1}. ${item.op} — ${item.lastError || "No error message"}
-   quarantined: ${when}
-   payload keys: ${payloadKeys}`;
-    })
-    .join("\n\n");
-  const extra = items.length > 20 ? `\n\n…plus ${items.length - 20} more.` : "";
-  alert(`Quarantined sync items (${items.length})\n\n${summary}${extra}`);
 }
 
 async function reviewSyncHealthNow() {
@@ -4174,6 +5036,7 @@ async function reviewSyncHealthNow() {
     `Queued: ${report.counts.queued}\n` +
     `Retrying: ${report.counts.retrying}\n` +
     `Quarantined: ${report.counts.quarantined}\n` +
+    `Conflicts: ${report.counts.conflicts}\n` +
     `Total pending: ${report.counts.total}\n` +
     `Oldest pending: ${report.oldestOp ? `${report.oldestOp} (${report.oldestStatus}, ~${report.oldestAgeMinutes} min old)` : "none"}\n\n` +
     `Pending by op:\n${byOp}\n\n` +
@@ -4660,6 +5523,31 @@ async function clearQuarantinedNow() {
         </div>
       </div>
 
+      <SyncConflictsPanel conflicts={syncConflicts} busyId={conflictBusyId} resolveConflict={resolveSyncConflictNow} />
+
+      {triageOpen ? (
+        <QuarantineTriagePanel
+          entries={triageEntries}
+          busy={triageBusy}
+          suggestRepair={suggestPendingOpRepair}
+          requeueOp={(id, payload) => runTriageAction(() => requeuePendingOp(id, payload))}
+          resolveConflictOp={(id, choice) =>
+            runTriageAction(async () => {
+              await resolvePendingOpConflict(id, choice);
+              if (userId) setSyncConflicts(await listOpenSyncConflicts(userId));
+            })
+          }
+          discardOp={(id) => runTriageAction(() => discardPendingOp(id))}
+          collapseOrphans={() =>
+            runTriageAction(async () => {
+              const removed = await collapseOrphanedOps();
+              alert(`Collapsed ${removed} orphaned sync op(s).`);
+            })
+          }
+          onClose={() => setTriageOpen(false)}
+        />
+      ) : null}
+
       <div style={{ display: "flex", gap: 10, marginTop: 12, flexWrap: "wrap" }}>
         <button onClick={() => setTab("quick")} disabled={tab === "quick"}>
           Quick Log
@@ -4689,6 +5577,30 @@ async function clearQuarantinedNow() {
       <hr />
 
       
+      {tab === "dash" && userId ? (
+        <InjuryLogPanel
+          injuries={injuries}
+          today={todayISO()}
+          busy={injuryBusy}
+          addInjury={addInjury}
+          updateInjury={updateInjury}
+          deleteInjury={deleteInjury}
+        />
+      ) : null}
+
+      {tab === "dash" && userId ? (
+        <EquipmentProfilesPanel profileSet={equipmentProfileSet} saveProfileSet={saveEquipmentProfileSet} />
+      ) : null}
+
+      {tab === "dash" && userId ? (
+        <ExerciseLibraryEditor
+          rows={customExerciseRows}
+          busy={customExerciseBusy}
+          saveExercise={saveCustomExercise}
+          deleteExercise={deleteCustomExercise}
+        />
+      ) : null}
+
       {tab === "dash" && (
         <ErrorBoundary scope="Dashboard" onEmergencyExport={exportBackup}>
           <DashboardView
@@ -4703,6 +5615,11 @@ async function clearQuarantinedNow() {
           bandComboFactor={bandComboFactor}
           setBandComboFactor={setBandComboFactor}
           saveBandEquiv={saveBandEquiv}
+          loadingInventory={loadingInventory}
+          saveLoadingInventory={saveLoadingInventory}
+          sessionBudgetMin={sessionBudgetMin}
+          saveSessionBudget={saveSessionBudget}
+          planLoadingFor={planLoadingFor}
           weight={weight}
           setWeight={setWeight}
           waist={waist}
@@ -4734,6 +5651,7 @@ async function clearQuarantinedNow() {
           aiCoachBusy={aiCoachBusy}
           aiCoachErr={aiCoachErr}
           aiCoach={aiCoach}
+          toggleAiCoachItem={toggleAiCoachItem}
           milestones={milestones}
           preferenceHistory={preferenceHistory}
           behaviorFingerprint={behaviorFingerprint}
@@ -4749,10 +5667,19 @@ async function clearQuarantinedNow() {
           onToggleRecalibrationSandbox={toggleRecalibrationSandbox}
           onApplyRecalibrationSandboxScenario={applyRecalibrationSandboxScenario}
           onResetRecalibrationSandbox={resetRecalibrationSandbox}
+          onUndoRecalibrationAction={undoRecalibrationActionNow}
+          loopRestorePoint={loopRestorePoint}
+          onRestoreLedgerState={restoreLedgerStateNow}
           timelineWeeks={timelineWeeks}
           brainSnapshot={brainSnapshot}
+          whatIfBaseline={whatIfBaseline}
           frictionProfile={frictionProfile}
           splitConfig={splitConfig}
+          programCalendar={programCalendar}
+          programActuals={programActuals}
+          programBusy={programBusy}
+          buildProgramCalendar={buildProgramCalendarNow}
+          clearProgramCalendar={clearProgramCalendar}
           userEmail={email}
           syncStatus={status}
           lastSyncedAt={lastSyncedAt}
@@ -4761,6 +5688,9 @@ async function clearQuarantinedNow() {
           lastCompletedSplitDayName={lastCompletedSplitDayName}
           saveTrainingSplitConfig={saveTrainingSplitConfig}
           startSessionFromRecommendation={startSessionFromRecommendation}
+          equipmentProfileSet={equipmentProfileSet}
+          locationSummary={locationSummary}
+          selectEquipmentLocation={selectEquipmentLocation}
           timerOn={timerOn}
           setTimerOn={setTimerOn}
           secs={secs}
@@ -4828,11 +5758,15 @@ async function clearQuarantinedNow() {
             renameTemplateExercise={renameTemplateExercise}
             deleteTemplateExercise={deleteTemplateExercise}
             moveTemplateExercise={moveTemplateExercise}
+            groupTemplateExerciseWithNext={groupTemplateExerciseWithNext}
+            ungroupTemplateExercise={ungroupTemplateExercise}
+            setTemplateGroupEmom={setTemplateGroupEmom}
             startSessionFromTemplate={startSessionFromTemplate}
             displayExerciseName={displayExerciseName}
             displayStoredExerciseName={displayStoredExerciseName}
             exerciseControlFor={getExerciseControl}
             setExerciseControl={setExerciseControl}
+            setExerciseProgressionModel={setExerciseProgressionModel}
             sessions={sessions}
             openSessionId={openSessionId}
             openSession={openSession}
@@ -4848,6 +5782,9 @@ async function clearQuarantinedNow() {
             addSet={addSet}
             deleteSet={deleteSet}
             deleteExerciseFromSession={deleteExerciseFromSession}
+            groupExerciseWithNext={groupExerciseWithNext}
+            ungroupExercise={ungroupExercise}
+            setExerciseGroupEmom={setExerciseGroupEmom}
             advanced={advanced}
             setAdvanced={setAdvanced}
             coachEnabled={coachEnabled}
@@ -4861,6 +5798,8 @@ async function clearQuarantinedNow() {
             setTimerOn={setTimerOn}
             secs={secs}
             setSecs={setSecs}
+            restTimer={restTimer}
+            planLoadingFor={planLoadingFor}
             recommendationComparison={recommendationComparison}
             coachSessionSeed={coachSessionSeed}
           />
@@ -1,5 +1,6 @@
 import React from "react";
 import type { LocalWorkoutSet } from "./localdb";
+import { countsTowardE1rm } from "./lib/setTypes";
 
 type Props = {
   exerciseName: string;
@@ -24,8 +25,8 @@ function epley1RM(load: number, reps: number): number {
 }
 
 function bestWorkSet(sets: LocalWorkoutSet[]): { load: number; reps: number; rpe?: number | null; loadType: "weight" | "bodyweight" | "band"; bandLevel?: number | null; bandMode?: "assist" | "resist" | null; bandConfig?: "single" | "doubled" | null; bandEstLbs?: number | null } | null {
-  // Exclude warmups and any sets without reps/load.
-  const work = (sets ?? []).filter((s) => !s.is_warmup);
+  // Exclude warmups, drop / cluster continuations and any sets without reps/load.
+  const work = (sets ?? []).filter((s) => countsTowardE1rm(s));
 
   let best: { s: LocalWorkoutSet; load: number; reps: number; rpe?: number | null; score: number } | null = null;
 
@@ -0,0 +1,125 @@
+import { supabase } from "./supabase";
+import { localdb } from "./localdb";
+import {
+  TAPE_SITES,
+  normalizeBodyCompProfile,
+  type BodyCompProfile,
+  type BodyMeasurementRecord,
+  type SkinfoldSite,
+} from "./lib/bodyComposition";
+
+/**
+ * Local-first body measurements:
+ * - a save lands in bodyMeasurements and queues upsert_body_measurement (body_measurements,
+ *   one row per user and day), so the tape works offline like Quick Log does
+ * - skinfolds ride in a skinfolds_mm json column and are only sent when some were taken,
+ *   so tape-only users never touch it; a project without the column still gets the day's
+ *   weight and tape
+ * - the pull keeps days with a queued save; everything else takes the cloud copy
+ * - the body composition profile (sex, height, birth year, sites) is a device setting
+ */
+
+export const BODY_COMP_PROFILE_KEY = "body_comp_profile_v1";
+
+export type BodyMeasurementInput = Omit<BodyMeasurementRecord, "updatedAt">;
+
+function num(v: unknown): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function cleanSkinfolds(raw: any): Partial<Record<SkinfoldSite, number>> | null {
+  if (!raw || typeof raw !== "object") return null;
+  const out: Partial<Record<SkinfoldSite, number>> = {};
+  for (const [site, value] of Object.entries(raw)) {
+    const mm = num(value);
+    if (mm != null && mm > 0) out[site as SkinfoldSite] = mm;
+  }
+  return Object.keys(out).length ? out : null;
+}
+
+function toRecord(row: any, updatedAt: number): BodyMeasurementRecord {
+  const record: BodyMeasurementRecord = {
+    user_id: String(row.user_id),
+    taken_on: String(row.taken_on),
+    weight_lbs: num(row.weight_lbs),
+    waist_in: num(row.waist_in),
+    chest_in: null,
+    upper_arm_in: null,
+    forearm_in: null,
+    thigh_in: null,
+    calf_in: null,
+    hips_in: null,
+    neck_in: null,
+    skinfolds_mm: cleanSkinfolds(row.skinfolds_mm),
+    updatedAt,
+  };
+  for (const site of TAPE_SITES) record[site] = num(row[site]);
+  return record;
+}
+
+function cloudPayload(record: BodyMeasurementRecord) {
+  const { updatedAt: _updatedAt, skinfolds_mm, ...row } = record;
+  return skinfolds_mm ? { ...row, skinfolds_mm } : row;
+}
+
+export async function loadBodyCompProfile(userId: string): Promise<BodyCompProfile> {
+  const row = await localdb.localSettings.get([userId, BODY_COMP_PROFILE_KEY]);
+  try {
+    return normalizeBodyCompProfile(row?.value ? JSON.parse(row.value) : null);
+  } catch {
+    return normalizeBodyCompProfile(null);
+  }
+}
+
+export async function saveBodyCompProfile(userId: string, profile: BodyCompProfile): Promise<BodyCompProfile> {
+  const normalized = normalizeBodyCompProfile(profile);
+  await localdb.localSettings.put({
+    user_id: userId,
+    key: BODY_COMP_PROFILE_KEY,
+    value: JSON.stringify(normalized),
+    updatedAt: Date.now()
+  });
+  return normalized;
+}
+
+/** Oldest first, inclusive range. */
+export async function listBodyMeasurements(userId: string, fromYMD: string, toYMD: string): Promise<BodyMeasurementRecord[]> {
+  return localdb.bodyMeasurements
+    .where("[user_id+taken_on]")
+    .between([userId, fromYMD], [userId, toYMD], true, true)
+    .toArray();
+}
+
+export async function saveBodyMeasurement(input: BodyMeasurementInput): Promise<BodyMeasurementRecord> {
+  const record = toRecord(input, Date.now());
+  await localdb.transaction("rw", localdb.bodyMeasurements, localdb.pendingOps, async () => {
+    await localdb.bodyMeasurements.put(record);
+    await localdb.pendingOps.add({
+      createdAt: Date.now(),
+      op: "upsert_body_measurement",
+      payload: cloudPayload(record),
+      status: "queued"
+    });
+  });
+  return record;
+}
+
+/** Cloud -> bodyMeasurements. Days with a queued save keep the local set. */
+export async function pullBodyMeasurements(userId: string) {
+  const { data, error } = await supabase
+    .from("body_measurements")
+    .select("*")
+    .eq("user_id", userId)
+    .order("taken_on", { ascending: true });
+  if (error) throw error;
+
+  const pending = await localdb.pendingOps.where("op").equals("upsert_body_measurement").toArray();
+  const heldDays = new Set(
+    pending.filter((item) => item.payload?.user_id === userId).map((item) => String(item.payload?.taken_on ?? ""))
+  );
+  const now = Date.now();
+  const rows = ((data ?? []) as any[]).filter((row) => !heldDays.has(String(row.taken_on)));
+  await localdb.bodyMeasurements.bulkPut(rows.map((row) => toRecord(row, now)));
+}
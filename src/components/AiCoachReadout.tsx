@@ -0,0 +1,109 @@
+import { useState, type ReactNode } from "react";
+import { formatLiftSuggestion, type CoachAiFlag, type CoachAiPayload, type CoachAiSource } from "../lib/coachAiContract";
+import type { LoadingPlan } from "../lib/loadingCalculator";
+
+type Props = {
+  result: { ts: number; model?: string; source?: CoachAiSource; doneIds?: string[] };
+  coach: CoachAiPayload;
+  onToggle: (id: string) => void;
+  planLoadingFor: (exercise: { name: string; load: string }) => LoadingPlan | null;
+};
+
+const SOURCE_LABELS: Record<CoachAiSource, string> = {
+  model: "AI",
+  repaired: "AI (repaired)",
+  fallback: "Deterministic fallback",
+};
+
+const FLAG_TONES: Record<CoachAiFlag["level"], string> = {
+  ok: "#2e7d32",
+  watch: "#b26a00",
+  act: "#c62828",
+};
+
+function ItemCheck(props: { id: string; done: boolean; onToggle: (id: string) => void; children: ReactNode }) {
+  return (
+    <label style={{ display: "flex", gap: 6, alignItems: "flex-start", opacity: props.done ? 0.55 : 1 }}>
+      <input type="checkbox" checked={props.done} onChange={() => props.onToggle(props.id)} style={{ marginTop: 2 }} />
+      <span style={{ textDecoration: props.done ? "line-through" : undefined }}>{props.children}</span>
+    </label>
+  );
+}
+
+function FlagList(props: { label: string; flags: CoachAiFlag[]; done: Set<string>; onToggle: (id: string) => void }) {
+  if (!props.flags.length) return null;
+  return (
+    <div style={{ marginTop: 8 }}>
+      <div style={{ fontSize: 12, fontWeight: 700 }}>{props.label}</div>
+      {props.flags.map((flag) => (
+        <ItemCheck key={flag.id} id={flag.id} done={props.done.has(flag.id)} onToggle={props.onToggle}>
+          <span style={{ color: FLAG_TONES[flag.level], fontWeight: 700 }}>{flag.level.toUpperCase()}</span> {flag.message}
+        </ItemCheck>
+      ))}
+    </div>
+  );
+}
+
+export default function AiCoachReadout({ result, coach, onToggle, planLoadingFor }: Props) {
+  const [openLoadId, setOpenLoadId] = useState<string | null>(null);
+  const done = new Set(result.doneIds ?? []);
+  const source = result.source ?? "model";
+
+  return (
+    <div style={{ marginTop: 8, fontSize: 13, lineHeight: 1.35 }}>
+      <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 6 }}>
+        Last run: {new Date(result.ts).toLocaleString()} • {SOURCE_LABELS[source]}
+        {source === "fallback" ? "" : ` • Model: ${result.model ?? "unknown"}`} • Confidence: {coach.confidence}
+      </div>
+      <div style={{ fontWeight: 800 }}>{coach.headline}</div>
+
+      <div style={{ marginTop: 8 }}>
+        <div style={{ fontSize: 12, fontWeight: 700 }}>Priorities</div>
+        {coach.priorities.map((item) => (
+          <ItemCheck key={item.id} id={item.id} done={done.has(item.id)} onToggle={onToggle}>
+            <b>{item.title}</b>
+            <span style={{ opacity: 0.7 }}> ({item.category})</span>
+            {item.detail ? ` — ${item.detail}` : ""}
+          </ItemCheck>
+        ))}
+      </div>
+
+      {coach.liftSuggestions.length ? (
+        <div style={{ marginTop: 8 }}>
+          <div style={{ fontSize: 12, fontWeight: 700 }}>Next session</div>
+          {coach.liftSuggestions.map((item) => {
+            const plan = item.loadLbs != null ? planLoadingFor({ name: item.lift, load: `${item.loadLbs} lb` }) : null;
+            return (
+              <div key={item.id}>
+                <ItemCheck id={item.id} done={done.has(item.id)} onToggle={onToggle}>
+                  {formatLiftSuggestion(item)}
+                  {item.note ? <span style={{ opacity: 0.75 }}> — {item.note}</span> : null}
+                </ItemCheck>
+                {plan ? (
+                  <div style={{ marginLeft: 22 }}>
+                    <button onClick={() => setOpenLoadId((prev) => (prev === item.id ? null : item.id))} style={{ fontSize: 12 }}>
+                      {openLoadId === item.id ? "Hide loading" : "Load it"}
+                    </button>
+                    {openLoadId === item.id ? (
+                      <div style={{ fontSize: 12, marginTop: 4, padding: "6px 8px", borderRadius: 8, background: "rgba(0,0,0,0.04)" }}>
+                        {plan.label}
+                        {plan.deltaLbs !== 0 ? ` (${plan.deltaLbs > 0 ? "+" : ""}${plan.deltaLbs} lb vs target)` : ""}
+                        {plan.detail ? <div style={{ opacity: 0.8, marginTop: 2 }}>{plan.detail}</div> : null}
+                      </div>
+                    ) : null}
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+
+      <FlagList label="Nutrition" flags={coach.nutritionFlags} done={done} onToggle={onToggle} />
+      <FlagList label="Recovery" flags={coach.recoveryFlags} done={done} onToggle={onToggle} />
+
+      {coach.doNot ? <div style={{ marginTop: 8 }}><b>Do not do:</b> {coach.doNot}</div> : null}
+      {coach.logTomorrow ? <div style={{ marginTop: 4 }}><b>Log tomorrow:</b> {coach.logTomorrow}</div> : null}
+    </div>
+  );
+}
@@ -1,5 +1,9 @@
 import { useEffect, useMemo, useState, type CSSProperties, type RefObject } from "react";
 import LineChart from "./LineChart";
+import MutationLedgerBrowser from "./MutationLedgerBrowser";
+import ExerciseTracePanel from "./ExerciseTracePanel";
+import WhatIfPanel from "./WhatIfPanel";
+import AiCoachReadout from "./AiCoachReadout";
 import type { BrainSnapshot, BrainFocus, TrainingSplitConfig, SplitDayDefinition } from "../lib/brainEngine";
 import { buildReadinessContext } from "../lib/readiness";
 import { formatPatternValue, formatPrescriptionTrust, formatReadinessLabel } from "../lib/readinessFormat";
@@ -10,7 +14,20 @@ import type { BehaviorFingerprint, BehaviorTrait, PredictionScaffold } from "../
 import type { PredictionAccuracySummary, PredictionReviewEntry } from "../lib/predictionReview";
 import type { AdaptationWeights, MutationLedgerEntry, RecalibrationState } from "../lib/adaptationWeights";
 import type { RecalibrationAction } from "../lib/recalibrationActions";
+import type { LedgerStateSide, LoopRestorePoint } from "../lib/mutationLedger";
+import type { WhatIfBaseline } from "../lib/whatIfPlanner";
 import type { SandboxScenarioName } from "../lib/recalibrationScenarioPresets";
+import { formatPlateInventory, parsePlateInventory, type LoadingInventory, type LoadingPlan } from "../lib/loadingCalculator";
+import { formatBlockType, formatWaveProfile } from "../lib/blockPlan";
+import { buildPlanVsActual, programEndDate, type ActualProgramSession, type PlannedSessionStatus, type ProgramCalendar } from "../lib/programBuilder";
+import type { ReadinessContext } from "../lib/readinessTypes";
+import { PROGRESSION_MODEL_LABELS } from "../lib/progressionModels";
+import { exerciseGroupLabel } from "../lib/exerciseGroups";
+import { formatSetPlan } from "../lib/setTypes";
+import { normalizeSessionBudget, SESSION_BUDGET_PRESETS } from "../lib/sessionBudget";
+import type { CoachAiPayload, CoachAiSource } from "../lib/coachAiContract";
+import type { EquipmentProfileSet } from "../lib/equipmentTypes";
+import type { LocationSessionCount } from "../lib/equipmentProfiles";
 import {
   normalizeAdaptationState,
   normalizeBehaviorFingerprint,
@@ -42,6 +59,9 @@ export type AiCoachResult = {
   text: string;
   ts: number;
   model?: string;
+  coach?: CoachAiPayload | null;
+  source?: CoachAiSource;
+  doneIds?: string[];
 };
 
 export type TimelineWeek = {
@@ -68,6 +88,11 @@ type Props = {
   bandComboFactor: number;
   setBandComboFactor: (next: number) => void;
   saveBandEquiv: (next: Record<string, number>, comboFactorOverride?: number) => void;
+  loadingInventory: LoadingInventory;
+  saveLoadingInventory: (next: LoadingInventory) => Promise<void> | void;
+  sessionBudgetMin: number | null;
+  saveSessionBudget: (next: number | null) => Promise<void> | void;
+  planLoadingFor: (exercise: { name: string; load: string }) => LoadingPlan | null;
 
   weight: string;
   setWeight: (v: string) => void;
@@ -103,6 +128,7 @@ type Props = {
   aiCoachBusy: boolean;
   aiCoachErr: string | null;
   aiCoach: AiCoachResult | null;
+  toggleAiCoachItem: (id: string) => void;
   milestones: Array<{
     id: string;
     milestone_type: string;
@@ -111,8 +137,14 @@ type Props = {
   }>;
   timelineWeeks: TimelineWeek[];
   brainSnapshot: BrainSnapshot | null;
+  whatIfBaseline: WhatIfBaseline | null;
   frictionProfile: FrictionProfile | null;
   splitConfig: TrainingSplitConfig | null;
+  programCalendar: ProgramCalendar | null;
+  programActuals: ActualProgramSession[];
+  programBusy: boolean;
+  buildProgramCalendar: (readiness: ReadinessContext) => void | Promise<void>;
+  clearProgramCalendar: () => void | Promise<void>;
   userEmail: string;
   syncStatus: string;
   lastSyncedAt: string;
@@ -121,6 +153,9 @@ type Props = {
   lastCompletedSplitDayName: string | null;
   saveTrainingSplitConfig: (next: TrainingSplitConfig) => Promise<void> | void;
   startSessionFromRecommendation: () => void;
+  equipmentProfileSet: EquipmentProfileSet;
+  locationSummary: LocationSessionCount[];
+  selectEquipmentLocation: (profileId: string) => void | Promise<void>;
   preferenceHistory: PreferenceHistoryEntry[];
   behaviorFingerprint: BehaviorFingerprint | null;
   predictionScaffold: PredictionScaffold | null;
@@ -135,6 +170,9 @@ type Props = {
   onToggleRecalibrationSandbox: (next: boolean) => void | Promise<void>;
   onApplyRecalibrationSandboxScenario: (name: SandboxScenarioName) => void | Promise<void>;
   onResetRecalibrationSandbox: () => void | Promise<void>;
+  onUndoRecalibrationAction: () => void | Promise<void>;
+  loopRestorePoint: LoopRestorePoint | null;
+  onRestoreLedgerState: (entryKey: string, side: LedgerStateSide) => void | Promise<void>;
 
   timerOn: boolean;
   setTimerOn: (value: boolean | ((prev: boolean) => boolean)) => void;
@@ -149,6 +187,19 @@ const cardStyle: CSSProperties = {
   background: "#fafafa"
 };
 
+const PROGRAM_STATUS_STYLE: Record<PlannedSessionStatus, { label: string; color: string }> = {
+  done: { label: "Done", color: "#2e7d32" },
+  missed: { label: "Missed", color: "#c62828" },
+  today: { label: "Today", color: "#1565c0" },
+  upcoming: { label: "Upcoming", color: "#777" },
+};
+
+function localDayKey(date = new Date()) {
+  const mm = String(date.getMonth() + 1).padStart(2, "0");
+  const dd = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${mm}-${dd}`;
+}
+
 function sumPoints(points: Point[]) {
   return points.reduce((acc, p) => acc + (Number(p.y) || 0), 0);
 }
@@ -175,6 +226,33 @@ function trendText(points: Point[]) {
   return "Flat";
 }
 
+type InventoryDraft = Record<Exclude<keyof LoadingInventory, "version" | "plates">, string> & { plates: string };
+
+function inventoryToDraft(inventory: LoadingInventory): InventoryDraft {
+  return {
+    barbellLbs: String(inventory.barbellLbs),
+    safetySquatBarLbs: String(inventory.safetySquatBarLbs),
+    landmineBarLbs: String(inventory.landmineBarLbs),
+    plates: formatPlateInventory(inventory.plates),
+    dumbbellMinLbs: String(inventory.dumbbellMinLbs),
+    dumbbellMaxLbs: String(inventory.dumbbellMaxLbs),
+    dumbbellIncrementLbs: String(inventory.dumbbellIncrementLbs),
+  };
+}
+
+function draftToInventory(draft: InventoryDraft): LoadingInventory {
+  return {
+    version: 1,
+    barbellLbs: Number(draft.barbellLbs),
+    safetySquatBarLbs: Number(draft.safetySquatBarLbs),
+    landmineBarLbs: Number(draft.landmineBarLbs),
+    plates: parsePlateInventory(draft.plates),
+    dumbbellMinLbs: Number(draft.dumbbellMinLbs),
+    dumbbellMaxLbs: Number(draft.dumbbellMaxLbs),
+    dumbbellIncrementLbs: Number(draft.dumbbellIncrementLbs),
+  };
+}
+
 function fmtClock(totalSecs: number) {
   const mins = Math.floor(totalSecs / 60);
   const secs = totalSecs % 60;
@@ -201,7 +279,8 @@ function eventTagTone(text?: string) {
   if (t.includes("swap")) return { bg: "#f3efff", border: "#cdbef5" };
   if (t.includes("progress")) return { bg: "#ebf8ee", border: "#b8dfc0" };
   if (t.includes("hold")) return { bg: "#fff8ea", border: "#ebd39e" };
-  if (t.includes("reduced")) return { bg: "#fff3e8", border: "#efc9a8" };
+  if (t.includes("reduced") || t.includes("stall")) return { bg: "#fff3e8", border: "#efc9a8" };
+  if (t.includes("injury")) return { bg: "#fdeeee", border: "#e5b5b5" };
   return { bg: "#f4f4f4", border: "#d9d9d9" };
 }
 
@@ -532,20 +611,36 @@ function fmtActualOutcome(outcome: PredictionReviewEntry["actualCompletion"] | n
 function fmtRecalibrationActionType(value: RecalibrationAction["type"]) {
   if (value === "prediction_confidence_damp") return "Prediction confidence damp";
   if (value === "prediction_expectation_reset") return "Prediction expectation reset";
+  if (value === "adaptation_bias_reset") return "Adaptation bias reset";
+  if (value === "fingerprint_window_shorten") return "Fingerprint window shortened";
+  if (value === "exercise_identity_remerge") return "Exercise identity re-merge";
   return value;
 }
 
 function describeRecalibrationAction(action: RecalibrationAction | null) {
   if (!action) return "No recalibration action has executed yet.";
+  const probationNote = action.status === "undone"
+    ? "Undone."
+    : action.status === "active"
+      ? `Probation ${action.probationCyclesRemaining} cycle${action.probationCyclesRemaining === 1 ? "" : "s"} remaining.`
+      : "Probation complete.";
+  if (action.type === "adaptation_bias_reset") {
+    const cleared = Object.keys(action.adaptationBefore?.exerciseBiasAdjustments ?? {}).length;
+    return `${fmtRecalibrationActionType(action.type)} • ${cleared} exercise bias adjustment${cleared === 1 ? "" : "s"} cleared, adaptation frozen. ${probationNote}`;
+  }
+  if (action.type === "fingerprint_window_shorten") {
+    return `${fmtRecalibrationActionType(action.type)} • fingerprint re-derived from the last ${action.fingerprintWindow ?? 6} sessions. ${probationNote}`;
+  }
+  if (action.type === "exercise_identity_remerge") {
+    const merges = Object.entries(action.identityMerges ?? {}).map(([actual, recommended]) => `${actual} → ${recommended}`);
+    return `${fmtRecalibrationActionType(action.type)} • ${merges.length ? merges.join(", ") : "no swaps"} counted as the prescribed lift. ${probationNote}`;
+  }
   const beforeConfidence = action.before.predictionConfidence != null ? `${action.before.predictionConfidence}/100` : "—";
   const afterConfidence = action.after.predictionConfidence != null ? `${action.after.predictionConfidence}/100` : "—";
   const beforeFocus = action.before.expectedFocusProbability != null ? `${action.before.expectedFocusProbability}%` : "—";
   const afterFocus = action.after.expectedFocusProbability != null ? `${action.after.expectedFocusProbability}%` : "—";
   const completionShift = [action.before.expectedCompletionLabel, action.after.expectedCompletionLabel].filter(Boolean).join(" → ");
-  const probation = action.status === "active"
-    ? `Probation ${action.probationCyclesRemaining} cycle${action.probationCyclesRemaining === 1 ? "" : "s"} remaining.`
-    : "Probation complete.";
-  return `${fmtRecalibrationActionType(action.type)} • confidence ${beforeConfidence} → ${afterConfidence} • focus ${beforeFocus} → ${afterFocus}${completionShift ? ` • ${completionShift}` : ""}. ${probation}`;
+  return `${fmtRecalibrationActionType(action.type)} • confidence ${beforeConfidence} → ${afterConfidence} • focus ${beforeFocus} → ${afterFocus}${completionShift ? ` • ${completionShift}` : ""}. ${probationNote}`;
 }
 
 function behaviorTraitTone(trait: BehaviorTrait) {
@@ -667,6 +762,11 @@ export default function DashboardView(props: Props) {
     bandComboFactor,
     setBandComboFactor,
     saveBandEquiv,
+    loadingInventory,
+    saveLoadingInventory,
+    sessionBudgetMin,
+    saveSessionBudget,
+    planLoadingFor,
     weeklyCoach,
     tonnageSeries,
     setsSeries,
@@ -683,11 +783,18 @@ export default function DashboardView(props: Props) {
     aiCoachBusy,
     aiCoachErr,
     aiCoach,
+    toggleAiCoachItem,
     milestones,
     timelineWeeks,
     brainSnapshot,
+    whatIfBaseline,
     frictionProfile,
     splitConfig,
+    programCalendar,
+    programActuals,
+    programBusy,
+    buildProgramCalendar,
+    clearProgramCalendar,
     userEmail,
     syncStatus,
     lastSyncedAt,
@@ -696,6 +803,9 @@ export default function DashboardView(props: Props) {
     lastCompletedSplitDayName,
     saveTrainingSplitConfig,
     startSessionFromRecommendation,
+    equipmentProfileSet,
+    locationSummary,
+    selectEquipmentLocation,
     preferenceHistory,
     behaviorFingerprint,
     predictionScaffold,
@@ -714,11 +824,21 @@ export default function DashboardView(props: Props) {
   const [splitSaving, setSplitSaving] = useState(false);
   const [showRecommendationWhy, setShowRecommendationWhy] = useState(false);
   const [showDevHatch, setShowDevHatch] = useState(false);
+  const [showLedgerBrowser, setShowLedgerBrowser] = useState(false);
+  const [openTraceSlot, setOpenTraceSlot] = useState<string | null>(null);
+  const [showWhatIf, setShowWhatIf] = useState(false);
+  const [inventoryDraft, setInventoryDraft] = useState<InventoryDraft>(() => inventoryToDraft(loadingInventory));
+  const [budgetDraft, setBudgetDraft] = useState("");
+
+  useEffect(() => {
+    setInventoryDraft(inventoryToDraft(loadingInventory));
+  }, [loadingInventory]);
 
   useEffect(() => {
     setSplitDraft(splitConfig ?? initialCustomPreset());
   }, [splitConfig]);
 
+  const recommendedGroupIds = [...new Set((brainSnapshot?.recommendedSession.exercises ?? []).flatMap((ex) => (ex.group ? [ex.group.id] : [])))];
   const safePreferenceHistory = Array.isArray(preferenceHistory) ? preferenceHistory : [];
   const safePredictionReviewHistory = normalizePredictionReviewHistory(predictionReviewHistory);
   const safeBehaviorFingerprint = normalizeBehaviorFingerprint(behaviorFingerprint);
@@ -852,6 +972,11 @@ export default function DashboardView(props: Props) {
 
   const readinessChip = readinessTone(readiness.status);
 
+  const programProgress = useMemo(
+    () => (programCalendar ? buildPlanVsActual(programCalendar, programActuals, localDayKey()) : []),
+    [programCalendar, programActuals]
+  );
+
   return (
     <>
       <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline", gap: 10, flexWrap: "wrap" }}>
@@ -1277,9 +1402,26 @@ export default function DashboardView(props: Props) {
               <div>
                 <div style={{ fontSize: 12, opacity: 0.75 }}>Recommended Next Session</div>
                 <div style={{ fontSize: 26, fontWeight: 800 }}>{brainSnapshot.recommendedSession.title}</div>
+                {locationSummary.length ? (
+                  <div style={{ fontSize: 12, opacity: 0.7, marginTop: 2 }}>
+                    Last 28 days: {locationSummary.map((item) => `${item.name} ${item.sessions}`).join(" • ")}
+                  </div>
+                ) : null}
               </div>
               <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", justifyContent: "flex-end" }}>
                 <div style={{ fontSize: 16, fontWeight: 800 }}>{brainSnapshot.recommendedSession.bias}</div>
+                <label style={{ fontSize: 12, fontWeight: 700 }}>
+                  Training at{" "}
+                  <select
+                    value={equipmentProfileSet.activeId}
+                    onChange={(e) => void selectEquipmentLocation(e.target.value)}
+                    disabled={dashBusy}
+                  >
+                    {equipmentProfileSet.profiles.map((profile) => (
+                      <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                  </select>
+                </label>
                 <button
                   type="button"
                   onClick={() => setShowRecommendationWhy((prev) => !prev)}
@@ -1357,6 +1499,52 @@ export default function DashboardView(props: Props) {
             <div style={{ marginTop: 8, lineHeight: 1.4 }}>{brainSnapshot.recommendedSession.rationale}</div>
             <div style={{ marginTop: 6, fontSize: 12, opacity: 0.8 }}>{brainSnapshot.recommendedSession.volumeNote}</div>
 
+            <div style={{ marginTop: 10, display: "flex", gap: 6, flexWrap: "wrap", alignItems: "center", fontSize: 13 }}>
+              <span style={{ fontWeight: 700 }}>Time budget:</span>
+              {SESSION_BUDGET_PRESETS.map((minutes) => (
+                <button
+                  key={minutes}
+                  onClick={() => saveSessionBudget(minutes)}
+                  disabled={dashBusy}
+                  style={{ fontWeight: sessionBudgetMin === minutes ? 800 : 400 }}
+                >
+                  {minutes} min
+                </button>
+              ))}
+              <button onClick={() => saveSessionBudget(null)} disabled={dashBusy} style={{ fontWeight: sessionBudgetMin == null ? 800 : 400 }}>
+                No limit
+              </button>
+              <input
+                inputMode="numeric"
+                placeholder="Other (min)"
+                value={budgetDraft}
+                onChange={(e) => setBudgetDraft(e.target.value)}
+                style={{ width: 90 }}
+              />
+              <button
+                onClick={() => {
+                  void saveSessionBudget(normalizeSessionBudget(budgetDraft));
+                  setBudgetDraft("");
+                }}
+                disabled={dashBusy || normalizeSessionBudget(budgetDraft) == null}
+              >
+                Set
+              </button>
+            </div>
+            {brainSnapshot.recommendedSession.duration ? (
+              <div style={{ marginTop: 6, fontSize: 12 }}>
+                <span style={{ fontWeight: 700, color: brainSnapshot.recommendedSession.duration.overBudgetMin != null ? "#c62828" : undefined }}>
+                  Estimated ~{brainSnapshot.recommendedSession.duration.estimatedMin} min
+                  {brainSnapshot.recommendedSession.duration.budgetMin != null
+                    ? ` vs ${brainSnapshot.recommendedSession.duration.budgetMin} min budget`
+                    : " (no budget set)"}
+                </span>
+                {brainSnapshot.recommendedSession.duration.adjustments.length ? (
+                  <span style={{ opacity: 0.8 }}> • To fit: {brainSnapshot.recommendedSession.duration.adjustments.join(", ")}</span>
+                ) : null}
+              </div>
+            ) : null}
+
             {showRecommendationWhy ? (
               <div style={{ ...cardStyle, marginTop: 12, background: "rgba(255,255,255,0.72)" }}>
                 <div style={{ display: "flex", justifyContent: "space-between", gap: 10, flexWrap: "wrap", alignItems: "baseline" }}>
@@ -1663,6 +1851,11 @@ export default function DashboardView(props: Props) {
                       <div style={{ marginTop: 8, fontSize: 13, lineHeight: 1.45 }}>
                         {describeRecalibrationAction(latestRecalibrationAction)}
                       </div>
+                      {latestRecalibrationAction && latestRecalibrationAction.status !== "undone" ? (
+                        <div style={{ marginTop: 8 }}>
+                          <button onClick={() => props.onUndoRecalibrationAction()}>Undo this recalibration</button>
+                        </div>
+                      ) : null}
                     </div>
                     <div style={{ marginTop: 10, paddingTop: 10, borderTop: "1px solid rgba(0,0,0,0.08)" }}>
                       <div style={{ fontSize: 12, opacity: 0.75 }}>Sandbox validation lane</div>
@@ -1694,6 +1887,18 @@ export default function DashboardView(props: Props) {
                     </div>
                   </div>
                 </div>
+
+                <div style={{ ...cardStyle, marginTop: 10 }}>
+                  <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10 }}>
+                    <div style={{ fontSize: 12, opacity: 0.75 }}>Mutation ledger • {safeMutationLedger.entries.length} entr{safeMutationLedger.entries.length === 1 ? "y" : "ies"}</div>
+                    <button onClick={() => setShowLedgerBrowser((prev) => !prev)}>{showLedgerBrowser ? "Hide ledger" : "Browse ledger"}</button>
+                  </div>
+                  {showLedgerBrowser ? (
+                    <div style={{ marginTop: 10 }}>
+                      <MutationLedgerBrowser entries={safeMutationLedger.entries} restorePoint={props.loopRestorePoint} onRestore={props.onRestoreLedgerState} />
+                    </div>
+                  ) : null}
+                </div>
               </div>
             ) : null}
 
@@ -1702,7 +1907,10 @@ export default function DashboardView(props: Props) {
                 <div key={`${ex.slot}-${ex.name}`} style={{ border: "1px solid rgba(0,0,0,0.12)", borderRadius: 10, padding: 10, background: "rgba(255,255,255,0.65)" }}>
                   <div style={{ display: "flex", justifyContent: "space-between", gap: 10, flexWrap: "wrap" }}>
                     <div>
-                      <div style={{ fontSize: 12, opacity: 0.75 }}>{ex.slot}</div>
+                      <div style={{ fontSize: 12, opacity: 0.75 }}>
+                        {ex.slot}
+                        {ex.group ? ` • ${exerciseGroupLabel(ex.group.type, recommendedGroupIds.indexOf(ex.group.id))} (${ex.group.order + 1})` : ""}
+                      </div>
                       <div style={{ fontWeight: 800 }}>{ex.name}</div>
                       {ex.eventTag ? (
                         <div
@@ -1723,12 +1931,37 @@ export default function DashboardView(props: Props) {
                     </div>
                     <div style={{ textAlign: "right" }}>
                       <div style={{ fontWeight: 800 }}>{ex.sets} × {ex.reps}</div>
+                      {ex.progressionModel ? (
+                        <div style={{ fontSize: 11, opacity: 0.65 }}>{PROGRESSION_MODEL_LABELS[ex.progressionModel]}</div>
+                      ) : null}
                       <div style={{ fontSize: 12, opacity: 0.65, marginTop: 4 }}>Suggested load</div>
                       <div style={{ fontSize: 13, fontWeight: 800, opacity: 0.9 }}>{ex.load}</div>
                     </div>
                   </div>
+                  {ex.setPlan?.length ? (
+                    <div style={{ fontSize: 12, fontWeight: 700, marginTop: 6 }}>Set plan: {formatSetPlan(ex.setPlan)}</div>
+                  ) : null}
                   <div style={{ fontSize: 12, opacity: 0.75, marginTop: 6 }}>{ex.note}</div>
                   <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>{ex.loadBasis}</div>
+                  {(() => {
+                    const plan = planLoadingFor(ex);
+                    if (!plan) return null;
+                    return (
+                      <div style={{ fontSize: 12, marginTop: 6, padding: "6px 8px", borderRadius: 8, background: "rgba(0,0,0,0.04)" }}>
+                        <strong>Load it:</strong> {plan.label}
+                        {plan.deltaLbs !== 0 ? ` (${plan.deltaLbs > 0 ? "+" : ""}${plan.deltaLbs} lb vs target)` : ""}
+                        {plan.detail ? <div style={{ opacity: 0.8, marginTop: 2 }}>{plan.detail}</div> : null}
+                      </div>
+                    );
+                  })()}
+                  {ex.trace ? (
+                    <div style={{ marginTop: 6 }}>
+                      <button onClick={() => setOpenTraceSlot((prev) => (prev === `${ex.slot}-${ex.name}` ? null : `${ex.slot}-${ex.name}`))}>
+                        {openTraceSlot === `${ex.slot}-${ex.name}` ? "Hide why" : "Why this lift?"}
+                      </button>
+                      {openTraceSlot === `${ex.slot}-${ex.name}` ? <ExerciseTracePanel trace={ex.trace} /> : null}
+                    </div>
+                  ) : null}
                 </div>
               ))}
             </div>
@@ -1736,6 +1969,90 @@ export default function DashboardView(props: Props) {
         </>
       )}
 
+      {whatIfBaseline && (
+        <>
+          <h4 style={{ marginTop: 18, marginBottom: 8 }}>What-if Planner</h4>
+          <div style={cardStyle}>
+            <div style={{ display: "flex", justifyContent: "space-between", gap: 10, flexWrap: "wrap", alignItems: "baseline" }}>
+              <div style={{ fontSize: 12, opacity: 0.75 }}>
+                Try different sleep, protein, last session, equipment or readiness trend against today's recommendation. Nothing is saved.
+              </div>
+              <button onClick={() => setShowWhatIf((prev) => !prev)}>{showWhatIf ? "Hide planner" : "Open planner"}</button>
+            </div>
+            {showWhatIf ? (
+              <div style={{ marginTop: 10 }}>
+                <WhatIfPanel baseline={{ ...whatIfBaseline, readinessInput }} equipmentProfileSet={equipmentProfileSet} />
+              </div>
+            ) : null}
+          </div>
+        </>
+      )}
+
+      <h4 style={{ marginTop: 18, marginBottom: 8 }}>Program Calendar</h4>
+      <div style={cardStyle}>
+        <div style={{ display: "flex", justifyContent: "space-between", gap: 10, flexWrap: "wrap", alignItems: "baseline" }}>
+          {programCalendar ? (
+            <div>
+              <div style={{ fontSize: 22, fontWeight: 800 }}>
+                {formatBlockType(programCalendar.blockPlan.blockType)} • {formatWaveProfile(programCalendar.blockPlan.waveProfile)}
+              </div>
+              <div style={{ fontSize: 12, opacity: 0.75, marginTop: 4 }}>
+                {programCalendar.startDate} → {programEndDate(programCalendar)} • {programCalendar.weeks.length} weeks • {programCalendar.sessionsPerWeek} sessions/week
+              </div>
+            </div>
+          ) : (
+            <div style={{ fontSize: 12, opacity: 0.75 }}>
+              No program laid out yet. Building one expands the current block into dated sessions the brain will follow.
+            </div>
+          )}
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+            <button onClick={() => void buildProgramCalendar(readiness)} disabled={programBusy || !brainSnapshot}>
+              {programBusy ? "Building…" : programCalendar ? "Rebuild Program" : "Build Program"}
+            </button>
+            {programCalendar && (
+              <button
+                onClick={() => {
+                  if (confirm("Clear the program calendar? Recommendations go back to split rotation.")) void clearProgramCalendar();
+                }}
+                disabled={programBusy}
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
+
+        {programProgress.map(({ week, rows, completed, plannedSets, actualSets }) => (
+          <div key={week.weekIndex} style={{ marginTop: 12 }}>
+            <div style={{ display: "flex", justifyContent: "space-between", gap: 8, flexWrap: "wrap", alignItems: "baseline" }}>
+              <div style={{ fontWeight: 700 }}>{week.label}</div>
+              <div style={{ fontSize: 12, opacity: 0.75 }}>
+                {completed}/{rows.length} sessions • {actualSets}/{plannedSets} sets • ~{Math.round(week.intensityPct * 100)}% e1RM
+              </div>
+            </div>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))", gap: 8, marginTop: 6 }}>
+              {rows.map((row) => (
+                <div key={row.planned.id} style={{ border: "1px solid #e3e3e3", borderRadius: 10, padding: 8, background: "#fff" }}>
+                  <div style={{ display: "flex", justifyContent: "space-between", gap: 6 }}>
+                    <div style={{ fontWeight: 700 }}>{row.planned.splitDayName}</div>
+                    <div style={{ fontSize: 12, fontWeight: 700, color: PROGRAM_STATUS_STYLE[row.status].color }}>
+                      {PROGRAM_STATUS_STYLE[row.status].label}
+                    </div>
+                  </div>
+                  <div style={{ fontSize: 12, opacity: 0.75 }}>
+                    {row.planned.date}
+                    {row.actualDate && row.actualDate !== row.planned.date ? ` (done ${row.actualDate})` : ""}
+                  </div>
+                  <div style={{ fontSize: 12, marginTop: 4 }}>
+                    {row.actualSets != null ? `${row.actualSets}/${row.plannedSets} sets` : `${row.plannedSets} sets planned`}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
       <h4 style={{ marginTop: 18, marginBottom: 8 }}>Training Timeline — Phase 2</h4>
       <div style={{ ...cardStyle, padding: 0, overflowX: "auto" }}>
         <table style={{ width: "100%", borderCollapse: "collapse", minWidth: 760 }}>
@@ -1850,7 +2167,14 @@ export default function DashboardView(props: Props) {
               </div>
             </div>
             {aiCoachErr && <div style={{ marginTop: 8, fontSize: 12, color: "#b00020" }}>{aiCoachErr}</div>}
-            {aiCoach ? (
+            {aiCoach?.coach ? (
+              <AiCoachReadout
+                result={aiCoach}
+                coach={aiCoach.coach}
+                onToggle={toggleAiCoachItem}
+                planLoadingFor={planLoadingFor}
+              />
+            ) : aiCoach ? (
               <div style={{ marginTop: 8, fontSize: 13, whiteSpace: "pre-wrap", lineHeight: 1.35 }}>
                 <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 6 }}>Last run: {new Date(aiCoach.ts).toLocaleString()} • Model: {aiCoach.model}</div>
                 {aiCoach.text}
@@ -1946,6 +2270,43 @@ export default function DashboardView(props: Props) {
             <button onClick={() => saveBandEquiv(bandEquivMap, bandComboFactor)}>Save</button>
           </div>
         </div>
+
+        <div style={cardStyle}>
+          <div style={{ fontWeight: 800 }}>Loading Inventory</div>
+          <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>Bars, plates and dumbbell steps you actually own. Suggested loads get rounded to what this can build.</div>
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(3, minmax(0, 1fr))", gap: 8, marginTop: 10 }}>
+            {([
+              ["barbellLbs", "Barbell"],
+              ["safetySquatBarLbs", "SSB"],
+              ["landmineBarLbs", "Landmine bar"],
+              ["dumbbellMinLbs", "DB min"],
+              ["dumbbellMaxLbs", "DB max"],
+              ["dumbbellIncrementLbs", "DB step"],
+            ] as Array<[Exclude<keyof InventoryDraft, "plates">, string]>).map(([field, label]) => (
+              <label key={field} style={{ fontSize: 12 }}>
+                {label}
+                <input
+                  value={inventoryDraft[field]}
+                  onChange={(e) => setInventoryDraft((prev) => ({ ...prev, [field]: e.target.value }))}
+                  style={{ width: "100%" }}
+                />
+              </label>
+            ))}
+          </div>
+          <label style={{ display: "block", fontSize: 12, marginTop: 8 }}>
+            Plates (weight x count owned)
+            <input
+              value={inventoryDraft.plates}
+              onChange={(e) => setInventoryDraft((prev) => ({ ...prev, plates: e.target.value }))}
+              placeholder="45x6, 25x4, 10x4, 5x4, 2.5x4"
+              style={{ width: "100%" }}
+            />
+          </label>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 10 }}>
+            <button onClick={() => setInventoryDraft(inventoryToDraft(loadingInventory))}>Revert</button>
+            <button onClick={() => saveLoadingInventory(draftToInventory(inventoryDraft))}>Save</button>
+          </div>
+        </div>
       </div>
     </>
   );
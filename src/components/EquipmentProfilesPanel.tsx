@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { EQUIPMENT_ITEMS } from "../lib/equipmentRegistry";
+import type { EquipmentId, EquipmentProfileSet } from "../lib/equipmentTypes";
+import {
+  getNamedProfile,
+  makeEquipmentProfileId,
+  removeEquipmentProfile,
+  upsertEquipmentProfile,
+} from "../lib/equipmentProfiles";
+
+type Props = {
+  profileSet: EquipmentProfileSet;
+  saveProfileSet: (next: EquipmentProfileSet) => void | Promise<void>;
+};
+
+export default function EquipmentProfilesPanel(props: Props) {
+  const { profileSet, saveProfileSet } = props;
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string>(profileSet.activeId);
+  const [newName, setNewName] = useState("");
+
+  const editing = getNamedProfile(profileSet, editingId) ?? profileSet.profiles[0];
+
+  function toggleItem(id: EquipmentId) {
+    const available = editing.available.includes(id) ? editing.available.filter((item) => item !== id) : [...editing.available, id];
+    void saveProfileSet(upsertEquipmentProfile(profileSet, { ...editing, available }));
+  }
+
+  function addProfile() {
+    const name = newName.trim();
+    if (!name) return;
+    const id = makeEquipmentProfileId(name, profileSet);
+    void saveProfileSet(upsertEquipmentProfile(profileSet, { id, name, version: 1, available: [...editing.available] }));
+    setEditingId(id);
+    setNewName("");
+  }
+
+  return (
+    <div style={{ marginTop: 12, border: "1px solid #ddd", borderRadius: 10, padding: 12 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+        <h3 style={{ margin: 0 }}>Locations ({profileSet.profiles.length})</h3>
+        <button type="button" onClick={() => setOpen((v) => !v)}>
+          {open ? "Hide" : "Manage"}
+        </button>
+      </div>
+
+      {open ? (
+        <>
+          <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap", alignItems: "center" }}>
+            {profileSet.profiles.map((profile) => (
+              <button key={profile.id} type="button" onClick={() => setEditingId(profile.id)} disabled={profile.id === editing.id}>
+                {profile.name}
+                {profile.id === profileSet.activeId ? " (active)" : ""}
+              </button>
+            ))}
+            <input placeholder="New location" value={newName} onChange={(e) => setNewName(e.target.value)} />
+            <button type="button" onClick={addProfile} disabled={!newName.trim()}>
+              Add (copies {editing.name})
+            </button>
+          </div>
+
+          <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap", alignItems: "center" }}>
+            <input
+              key={editing.id}
+              defaultValue={editing.name}
+              onBlur={(e) => {
+                const name = e.target.value.trim();
+                if (name && name !== editing.name) void saveProfileSet(upsertEquipmentProfile(profileSet, { ...editing, name }));
+              }}
+            />
+            <button
+              type="button"
+              disabled={profileSet.profiles.length <= 1}
+              onClick={() => {
+                if (confirm(`Delete the ${editing.name} location? Logged sessions keep its name.`)) {
+                  const next = removeEquipmentProfile(profileSet, editing.id);
+                  setEditingId(next.activeId);
+                  void saveProfileSet(next);
+                }
+              }}
+            >
+              Delete location
+            </button>
+          </div>
+
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap", marginTop: 10 }}>
+            {EQUIPMENT_ITEMS.map((item) => (
+              <label key={item.id} style={{ fontSize: 13 }}>
+                <input type="checkbox" checked={editing.available.includes(item.id)} onChange={() => toggleItem(item.id)} /> {item.name}
+              </label>
+            ))}
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
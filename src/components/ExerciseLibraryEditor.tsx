@@ -0,0 +1,291 @@
+import { useMemo, useState } from "react";
+import { EQUIPMENT_ITEMS } from "../lib/equipmentRegistry";
+import type { EquipmentId } from "../lib/equipmentTypes";
+import { getExerciseByKey } from "../lib/exerciseRegistry";
+import type { ProgressionModel } from "../lib/exerciseTypes";
+import { PROGRESSION_MODEL_LABELS } from "../lib/progressionModels";
+import { ALL_SLOTS, type Slot } from "../lib/slotTypes";
+import {
+  EQUIPMENT_TAGS,
+  MOVEMENT_PATTERNS,
+  MUSCLE_TAGS,
+  ROLE_TAGS,
+  cloneExerciseAsCustom,
+  listBuiltInExercises,
+  makeCustomExerciseKey,
+  validateCustomExercise,
+  type CustomExerciseRec,
+} from "../lib/customExercises";
+
+type Props = {
+  rows: CustomExerciseRec[];
+  busy: boolean;
+  saveExercise: (rec: CustomExerciseRec) => void | Promise<void>;
+  deleteExercise: (id: string) => void | Promise<void>;
+};
+
+function emptyDraft(): CustomExerciseRec {
+  return {
+    id: "",
+    user_id: "",
+    key: "",
+    canonical_name: "",
+    aliases: [],
+    movement_patterns: [],
+    primary_muscles: [],
+    secondary_muscles: [],
+    equipment: [],
+    role_tags: ["accessory"],
+    family: "custom",
+    fatigue: "medium",
+    compound: false,
+    unilateral: false,
+    allowed_slots: null,
+    requirements: [],
+    progression_model: null,
+    cloned_from: null,
+    deleted: false,
+    updated_at: "",
+  };
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+function label(value: string) {
+  return value.replace(/_/g, " ");
+}
+
+function requirementsToText(groups: EquipmentId[][]): string {
+  return groups.map((group) => group.join(", ")).join("\n");
+}
+
+function textToRequirements(text: string): EquipmentId[][] {
+  return text
+    .split("\n")
+    .map((line) => line.split(",").map((id) => id.trim()).filter(Boolean) as EquipmentId[])
+    .filter((group) => group.length > 0);
+}
+
+function CheckboxGroup<T extends string>(props: { title: string; options: readonly T[]; value: T[]; onChange: (next: T[]) => void }) {
+  return (
+    <div style={{ marginTop: 8 }}>
+      <div style={{ fontWeight: 700, fontSize: 13 }}>{props.title}</div>
+      <div style={{ display: "flex", gap: 10, flexWrap: "wrap", marginTop: 4 }}>
+        {props.options.map((option) => (
+          <label key={option} style={{ fontSize: 13 }}>
+            <input type="checkbox" checked={props.value.includes(option)} onChange={() => props.onChange(toggle(props.value, option))} />{" "}
+            {label(option)}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function ExerciseLibraryEditor(props: Props) {
+  const { rows, busy, saveExercise, deleteExercise } = props;
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<CustomExerciseRec | null>(null);
+  const [aliasText, setAliasText] = useState("");
+  const [requirementText, setRequirementText] = useState("");
+  const [cloneKey, setCloneKey] = useState("");
+
+  const builtIns = useMemo(() => listBuiltInExercises(), []);
+  const live = rows.filter((row) => !row.deleted).sort((a, b) => a.canonical_name.localeCompare(b.canonical_name));
+
+  const effective = draft
+    ? {
+        ...draft,
+        key: draft.key || makeCustomExerciseKey(draft.canonical_name, rows.map((row) => row.key)),
+        aliases: aliasText.split(",").map((alias) => alias.trim()).filter(Boolean),
+        requirements: textToRequirements(requirementText),
+      }
+    : null;
+  const validation = effective ? validateCustomExercise(effective, rows) : null;
+  const unknownEquipment = effective
+    ? [...new Set(effective.requirements.flat().filter((id) => !EQUIPMENT_ITEMS.some((item) => item.id === id)))]
+    : [];
+
+  function edit(rec: CustomExerciseRec) {
+    setDraft({ ...rec });
+    setAliasText(rec.aliases.join(", "));
+    setRequirementText(requirementsToText(rec.requirements));
+  }
+
+  function patch(next: Partial<CustomExerciseRec>) {
+    setDraft((prev) => (prev ? { ...prev, ...next } : prev));
+  }
+
+  function startClone() {
+    const source = getExerciseByKey(cloneKey);
+    if (!source) return;
+    edit({ ...cloneExerciseAsCustom(source, "", "", rows.map((row) => row.key)), key: "" });
+  }
+
+  async function save() {
+    if (!effective || validation?.errors.length || unknownEquipment.length) return;
+    await saveExercise(effective);
+    setDraft(null);
+  }
+
+  return (
+    <div style={{ marginTop: 12, border: "1px solid #ddd", borderRadius: 10, padding: 12 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+        <h3 style={{ margin: 0 }}>Exercise library {live.length ? `(${live.length} custom)` : ""}</h3>
+        <button type="button" onClick={() => setOpen((v) => !v)}>
+          {open ? "Hide" : "Manage"}
+        </button>
+      </div>
+
+      {open ? (
+        <>
+          <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap", alignItems: "center" }}>
+            <button type="button" disabled={busy} onClick={() => edit(emptyDraft())}>
+              New exercise
+            </button>
+            <select value={cloneKey} onChange={(e) => setCloneKey(e.target.value)}>
+              <option value="">Clone a built-in…</option>
+              {builtIns.map((exercise) => (
+                <option key={exercise.key} value={exercise.key}>{exercise.canonicalName}</option>
+              ))}
+            </select>
+            <button type="button" disabled={busy || !cloneKey} onClick={startClone}>
+              Clone
+            </button>
+          </div>
+
+          {live.length === 0 ? (
+            <div style={{ marginTop: 8, opacity: 0.8 }}>No custom exercises yet.</div>
+          ) : (
+            live.map((row) => {
+              const rowValidation = validateCustomExercise(row, rows);
+              return (
+                <div key={row.id} style={{ borderTop: "1px solid #ddd", paddingTop: 8, marginTop: 8 }}>
+                  <div>
+                    <b>{row.canonical_name}</b>
+                    <span style={{ marginLeft: 8, opacity: 0.7 }}>
+                      {row.key}
+                      {row.cloned_from ? ` • cloned from ${row.cloned_from}` : ""}
+                    </span>
+                  </div>
+                  <div style={{ marginTop: 4, opacity: 0.8 }}>
+                    Slots: {rowValidation.slots.length ? rowValidation.slots.join(", ") : "none (log only)"}
+                  </div>
+                  {rowValidation.errors.length ? (
+                    <div style={{ marginTop: 4, color: "#b54747" }}>Not active: {rowValidation.errors[0]}</div>
+                  ) : null}
+                  <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+                    <button type="button" disabled={busy} onClick={() => edit(row)}>
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => {
+                        if (confirm(`Delete ${row.canonical_name}? Logged sets keep their name.`)) void deleteExercise(row.id);
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+
+          {draft && effective ? (
+            <div style={{ borderTop: "1px solid #ddd", paddingTop: 8, marginTop: 12 }}>
+              <h4 style={{ margin: "0 0 6px" }}>{draft.id ? `Edit ${draft.canonical_name}` : "New custom exercise"}</h4>
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+                <input placeholder="Name" value={draft.canonical_name} onChange={(e) => patch({ canonical_name: e.target.value })} />
+                <input placeholder="Aliases, comma separated" value={aliasText} onChange={(e) => setAliasText(e.target.value)} />
+                <input placeholder="Family" value={draft.family} onChange={(e) => patch({ family: e.target.value })} />
+                <select value={draft.fatigue} onChange={(e) => patch({ fatigue: e.target.value as CustomExerciseRec["fatigue"] })}>
+                  <option value="low">Low fatigue</option>
+                  <option value="medium">Medium fatigue</option>
+                  <option value="high">High fatigue</option>
+                </select>
+                <select
+                  value={draft.progression_model ?? ""}
+                  onChange={(e) => patch({ progression_model: (e.target.value || null) as ProgressionModel | null })}
+                >
+                  <option value="">Progression: auto</option>
+                  {(Object.keys(PROGRESSION_MODEL_LABELS) as ProgressionModel[]).map((model) => (
+                    <option key={model} value={model}>{PROGRESSION_MODEL_LABELS[model]}</option>
+                  ))}
+                </select>
+                <label>
+                  <input type="checkbox" checked={draft.compound} onChange={(e) => patch({ compound: e.target.checked })} /> Compound
+                </label>
+                <label>
+                  <input type="checkbox" checked={draft.unilateral} onChange={(e) => patch({ unilateral: e.target.checked })} /> Unilateral
+                </label>
+              </div>
+              <div style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>Key: {effective.key}</div>
+
+              <CheckboxGroup title="Movement patterns" options={MOVEMENT_PATTERNS} value={draft.movement_patterns} onChange={(next) => patch({ movement_patterns: next })} />
+              <CheckboxGroup title="Primary muscles" options={MUSCLE_TAGS} value={draft.primary_muscles} onChange={(next) => patch({ primary_muscles: next })} />
+              <CheckboxGroup title="Secondary muscles" options={MUSCLE_TAGS} value={draft.secondary_muscles} onChange={(next) => patch({ secondary_muscles: next })} />
+              <CheckboxGroup title="Roles" options={ROLE_TAGS} value={draft.role_tags} onChange={(next) => patch({ role_tags: next })} />
+              <CheckboxGroup title="Equipment tags" options={EQUIPMENT_TAGS} value={draft.equipment} onChange={(next) => patch({ equipment: next })} />
+
+              <div style={{ marginTop: 8 }}>
+                <label style={{ fontWeight: 700, fontSize: 13 }}>
+                  <input
+                    type="checkbox"
+                    checked={draft.allowed_slots == null}
+                    onChange={(e) => patch({ allowed_slots: e.target.checked ? null : [...validation!.slots] })}
+                  />{" "}
+                  Infer slots from patterns and roles
+                </label>
+                {draft.allowed_slots != null ? (
+                  <CheckboxGroup<Slot>
+                    title="Allowed slots"
+                    options={ALL_SLOTS}
+                    value={draft.allowed_slots}
+                    onChange={(next) => patch({ allowed_slots: next })}
+                  />
+                ) : null}
+              </div>
+
+              <div style={{ marginTop: 8 }}>
+                <div style={{ fontWeight: 700, fontSize: 13 }}>Equipment requirements</div>
+                <div style={{ fontSize: 12, opacity: 0.7 }}>
+                  One setup per line, items comma separated; any complete line makes it available. Leave empty to use the equipment tags.
+                </div>
+                <textarea
+                  value={requirementText}
+                  onChange={(e) => setRequirementText(e.target.value)}
+                  style={{ width: "100%", height: 60, marginTop: 4, fontFamily: "monospace", fontSize: 12 }}
+                />
+                <div style={{ fontSize: 11, opacity: 0.6 }}>{EQUIPMENT_ITEMS.map((item) => item.id).join(", ")}</div>
+              </div>
+
+              <div style={{ marginTop: 8 }}>
+                <div>Slots: {validation?.slots.length ? validation.slots.join(", ") : "none"}</div>
+                {validation?.errors.map((error) => (
+                  <div key={error} style={{ color: "#b54747" }}>{error}</div>
+                ))}
+                {unknownEquipment.length ? <div style={{ color: "#b54747" }}>Unknown equipment: {unknownEquipment.join(", ")}</div> : null}
+                {validation?.warnings.map((warning) => (
+                  <div key={warning} style={{ color: "#b7791f" }}>{warning}</div>
+                ))}
+              </div>
+
+              <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+                <button type="button" disabled={busy || !!validation?.errors.length || unknownEquipment.length > 0} onClick={() => void save()}>
+                  Save
+                </button>
+                <button type="button" onClick={() => setDraft(null)}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  );
+}
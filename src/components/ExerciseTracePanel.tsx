@@ -0,0 +1,81 @@
+import type { ExerciseDecisionTrace } from "../lib/brainEngine";
+import type { CandidateFilterReason } from "../lib/slotEngine";
+
+type Props = {
+  trace: ExerciseDecisionTrace;
+};
+
+const OUTCOME_LABEL: Record<ExerciseDecisionTrace["candidates"][number]["outcome"], string> = {
+  chosen: "Chosen",
+  outscored: "Outscored",
+  already_used: "Already in session",
+  never: "Marked never",
+};
+
+const FILTER_LABEL: Record<CandidateFilterReason, string> = {
+  equipment: "equipment not available here",
+  never: "marked never",
+  injury: "ruled out by an active injury",
+};
+
+function fmtMultiplier(value: number): string | null {
+  return value === 1 ? null : `×${value.toFixed(2)}`;
+}
+
+function fmtPoints(value: number): string | null {
+  if (!value) return null;
+  return `${value > 0 ? "+" : ""}${value}`;
+}
+
+function breakdownParts(breakdown: ExerciseDecisionTrace["candidates"][number]["breakdown"]): string[] {
+  const parts: Array<[string, string | null]> = [
+    ["base", String(breakdown.base)],
+    ["preference", fmtMultiplier(breakdown.preferenceMultiplier)],
+    ["control", fmtMultiplier(breakdown.controlMultiplier)],
+    ["injury", fmtMultiplier(breakdown.injuryMultiplier)],
+    ["history", fmtPoints(breakdown.history)],
+    ["learned bias", fmtPoints(breakdown.preferenceBias)],
+    ["adaptation bias", fmtPoints(breakdown.adaptationBias)],
+    ["block bias", fmtPoints(breakdown.blockBias)],
+    ["session", fmtPoints(breakdown.sessionAdjustments)],
+    ["overlap", fmtPoints(breakdown.overlapPenalty)],
+  ];
+  return parts.filter((part): part is [string, string] => part[1] != null).map(([label, value]) => `${label} ${value}`);
+}
+
+export default function ExerciseTracePanel({ trace }: Props) {
+  return (
+    <div style={{ fontSize: 12, marginTop: 8, padding: "8px 10px", borderRadius: 8, background: "rgba(0,0,0,0.04)" }}>
+      <div style={{ fontWeight: 700 }}>{trace.pick}</div>
+      <div style={{ opacity: 0.75, marginTop: 2 }}>
+        Slot {trace.slot}
+        {trace.need ? ` serves ${trace.need}` : ""}
+        {trace.needWeight != null ? ` • need weight ×${trace.needWeight.toFixed(2)}` : ""}
+      </div>
+
+      <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 8 }}>
+        <tbody>
+          {trace.candidates.map((candidate) => (
+            <tr key={candidate.key} style={{ borderTop: "1px solid rgba(0,0,0,0.08)", fontWeight: candidate.outcome === "chosen" ? 700 : 400 }}>
+              <td style={{ padding: "4px 6px 4px 0" }}>{candidate.name}</td>
+              <td style={{ padding: "4px 6px", textAlign: "right" }}>{candidate.score}</td>
+              <td style={{ padding: "4px 6px", opacity: 0.75 }}>{OUTCOME_LABEL[candidate.outcome]}</td>
+              <td style={{ padding: "4px 0 4px 6px", opacity: 0.75 }}>{breakdownParts(candidate.breakdown).join(" • ")}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {trace.filtered.length ? (
+        <div style={{ marginTop: 8 }}>
+          <div style={{ opacity: 0.75 }}>Filtered out before scoring</div>
+          <ul style={{ margin: "4px 0 0 18px", padding: 0 }}>
+            {trace.filtered.map((item) => (
+              <li key={item.key}>{item.name}: {FILTER_LABEL[item.reason]}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
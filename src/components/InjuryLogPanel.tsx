@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { getAllExercises } from "../lib/exerciseRegistry";
+import type { BodyRegion } from "../lib/exerciseTypes";
+import {
+  BODY_REGIONS,
+  BODY_REGION_LABELS,
+  INJURY_SEVERITY_LABELS,
+  assessInjuryImpact,
+  getInjuryStatus,
+  type InjuryRecord,
+  type InjurySeverity,
+  type InjurySide,
+} from "../lib/injuryLog";
+
+export type InjuryDraft = {
+  region: BodyRegion;
+  side: InjurySide | null;
+  severity: InjurySeverity;
+  started_on: string;
+  notes: string | null;
+};
+
+type Props = {
+  injuries: InjuryRecord[];
+  today: string;
+  busy: boolean;
+  addInjury: (draft: InjuryDraft) => void | Promise<void>;
+  updateInjury: (id: string, patch: Partial<InjuryRecord>) => void | Promise<void>;
+  deleteInjury: (id: string) => void | Promise<void>;
+};
+
+const PHASE_STYLE: Record<string, { label: string; color: string }> = {
+  active: { label: "Active", color: "#b54747" },
+  returning: { label: "Returning", color: "#b7791f" },
+  resolved: { label: "Resolved", color: "#4a7c59" },
+};
+
+function affectedSummary(injury: InjuryRecord, today: string): string {
+  let affected = 0;
+  let excluded = 0;
+  for (const exercise of getAllExercises()) {
+    const impact = assessInjuryImpact(exercise, [injury], today);
+    if (!impact.regions.length && !impact.exclude) continue;
+    affected += 1;
+    if (impact.exclude) excluded += 1;
+  }
+  if (!affected) return "No exercises affected.";
+  return excluded ? `${affected} exercises constrained, ${excluded} excluded.` : `${affected} exercises constrained.`;
+}
+
+export default function InjuryLogPanel(props: Props) {
+  const { injuries, today, busy, addInjury, updateInjury, deleteInjury } = props;
+  const [open, setOpen] = useState(false);
+  const [region, setRegion] = useState<BodyRegion>("shoulder");
+  const [side, setSide] = useState<InjurySide | "">("");
+  const [severity, setSeverity] = useState<InjurySeverity>(2);
+  const [startedOn, setStartedOn] = useState(today);
+  const [notes, setNotes] = useState("");
+
+  const rows = injuries
+    .map((injury) => ({ injury, status: getInjuryStatus(injury, today) }))
+    .sort((a, b) => Number(a.status.phase === "resolved") - Number(b.status.phase === "resolved") || b.injury.started_on.localeCompare(a.injury.started_on));
+  const constraining = rows.filter((row) => row.status.phase !== "resolved").length;
+
+  async function submit() {
+    await addInjury({ region, side: side || null, severity, started_on: startedOn || today, notes: notes.trim() || null });
+    setNotes("");
+  }
+
+  return (
+    <div style={{ marginTop: 12, border: "1px solid #ddd", borderRadius: 10, padding: 12 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+        <h3 style={{ margin: 0 }}>Injuries {constraining ? `(${constraining} constraining)` : ""}</h3>
+        <button type="button" onClick={() => setOpen((v) => !v)}>
+          {open ? "Hide" : "Manage"}
+        </button>
+      </div>
+
+      {open ? (
+        <>
+          <div style={{ marginTop: 8, opacity: 0.8 }}>
+            Logged regions steer exercise selection: affected lifts are down-weighted, severe ones are excluded, and loads ramp
+            back up once you start a graded return.
+          </div>
+
+          <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap", alignItems: "center" }}>
+            <select value={region} onChange={(e) => setRegion(e.target.value as BodyRegion)}>
+              {BODY_REGIONS.map((r) => (
+                <option key={r} value={r}>{BODY_REGION_LABELS[r]}</option>
+              ))}
+            </select>
+            <select value={side} onChange={(e) => setSide(e.target.value as InjurySide | "")}>
+              <option value="">Side —</option>
+              <option value="left">Left</option>
+              <option value="right">Right</option>
+              <option value="both">Both</option>
+            </select>
+            <select value={severity} onChange={(e) => setSeverity(Number(e.target.value) as InjurySeverity)}>
+              {([1, 2, 3, 4, 5] as InjurySeverity[]).map((s) => (
+                <option key={s} value={s}>{s} — {INJURY_SEVERITY_LABELS[s]}</option>
+              ))}
+            </select>
+            <input type="date" value={startedOn} max={today} onChange={(e) => setStartedOn(e.target.value)} />
+            <input placeholder="Notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            <button type="button" onClick={() => void submit()} disabled={busy}>
+              Log injury
+            </button>
+          </div>
+
+          {rows.length === 0 ? (
+            <div style={{ marginTop: 8, opacity: 0.8 }}>No injuries logged.</div>
+          ) : (
+            rows.map(({ injury, status }) => {
+              const phase = PHASE_STYLE[status.phase];
+              return (
+                <div key={injury.id} style={{ borderTop: "1px solid #ddd", paddingTop: 8, marginTop: 8 }}>
+                  <div>
+                    <b>
+                      {BODY_REGION_LABELS[injury.region]}
+                      {injury.side ? ` (${injury.side})` : ""}
+                    </b>
+                    <span style={{ marginLeft: 8, opacity: 0.7 }}>
+                      {INJURY_SEVERITY_LABELS[injury.severity]} • since {injury.started_on}
+                    </span>
+                    <span style={{ marginLeft: 8, fontWeight: 700, color: phase.color }}>{phase.label}</span>
+                  </div>
+                  {status.phase === "returning" ? (
+                    <div style={{ marginTop: 4, opacity: 0.8 }}>
+                      Return ramp day {status.rampDay + 1} of {status.rampDays} ({Math.round(status.progress * 100)}%).
+                    </div>
+                  ) : null}
+                  {status.phase !== "resolved" ? (
+                    <div style={{ marginTop: 4, opacity: 0.8 }}>{affectedSummary(injury, today)}</div>
+                  ) : null}
+                  {injury.notes ? <div style={{ marginTop: 4 }}>{injury.notes}</div> : null}
+
+                  <div style={{ display: "flex", gap: 8, marginTop: 6, flexWrap: "wrap" }}>
+                    {status.phase === "active" ? (
+                      <button type="button" disabled={busy} onClick={() => void updateInjury(injury.id, { return_started_on: today })}>
+                        Start graded return
+                      </button>
+                    ) : null}
+                    {status.phase === "returning" ? (
+                      <button type="button" disabled={busy} onClick={() => void updateInjury(injury.id, { return_started_on: null })}>
+                        Flared up — back to active
+                      </button>
+                    ) : null}
+                    {status.phase !== "resolved" ? (
+                      <button type="button" disabled={busy} onClick={() => void updateInjury(injury.id, { resolved_on: today })}>
+                        Mark resolved
+                      </button>
+                    ) : null}
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => {
+                        if (confirm(`Delete the ${BODY_REGION_LABELS[injury.region].toLowerCase()} injury entry?`)) void deleteInjury(injury.id);
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import type { MutationLedgerEntry } from "../lib/adaptationWeights";
+import { diffLoopStates, ledgerEntryKey, ledgerStateAt, type LedgerStateSide, type LoopRestorePoint } from "../lib/mutationLedger";
+
+type Props = {
+  entries: MutationLedgerEntry[];
+  restorePoint: LoopRestorePoint | null;
+  onRestore: (entryKey: string, side: LedgerStateSide) => void | Promise<void>;
+};
+
+const ARTIFACT_LABEL = {
+  adaptationWeights: "Adaptation",
+  behaviorFingerprint: "Fingerprint",
+  predictionScaffold: "Prediction",
+} as const;
+
+function fmtWhen(iso: string): string {
+  return iso.slice(0, 16).replace("T", " ");
+}
+
+function fmtValue(value: unknown): string {
+  if (value === undefined) return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}…` : text;
+}
+
+export default function MutationLedgerBrowser(props: Props) {
+  const { entries, restorePoint, onRestore } = props;
+  const keys = entries.map(ledgerEntryKey);
+  const [toKey, setToKey] = useState<string>(keys[0] ?? "");
+  const [fromKey, setFromKey] = useState<string>(keys[1] ?? keys[0] ?? "");
+
+  // New entries land at the top; keep the picks pointing at entries that still exist.
+  useEffect(() => {
+    if (!keys.includes(toKey)) setToKey(keys[0] ?? "");
+    if (!keys.includes(fromKey)) setFromKey(keys[1] ?? keys[0] ?? "");
+  }, [keys.join("|")]);
+
+  const toEntry = entries.find((entry) => ledgerEntryKey(entry) === toKey) ?? null;
+  const fromEntry = entries.find((entry) => ledgerEntryKey(entry) === fromKey) ?? null;
+  const sameEntry = !!toEntry && toEntry === fromEntry;
+  // Comparing an entry with itself shows what that one change did; otherwise the states each change left behind.
+  const fromState = fromEntry ? ledgerStateAt(fromEntry, sameEntry ? "before" : "after") : null;
+  const toState = toEntry ? ledgerStateAt(toEntry, "after") : null;
+  const changes = fromState && toState ? diffLoopStates(fromState, toState) : [];
+
+  if (!entries.length) {
+    return <div style={{ fontSize: 13, opacity: 0.75 }}>No mutations recorded yet.</div>;
+  }
+
+  const option = (entry: MutationLedgerEntry) => (
+    <option key={ledgerEntryKey(entry)} value={ledgerEntryKey(entry)}>
+      {fmtWhen(entry.generatedAt)} • {entry.summary.length > 60 ? `${entry.summary.slice(0, 57)}…` : entry.summary}
+    </option>
+  );
+
+  return (
+    <div>
+      {restorePoint ? (
+        <div style={{ fontSize: 12, marginBottom: 8, padding: 8, borderRadius: 8, background: "#fff7e0" }}>
+          Restored state from {restorePoint.restoredAt.slice(0, 10)} is held for {restorePoint.holdCyclesRemaining} more closed session{restorePoint.holdCyclesRemaining === 1 ? "" : "s"}.
+        </div>
+      ) : null}
+      <div style={{ display: "grid", gridTemplateColumns: "auto 1fr", gap: 6, alignItems: "center", fontSize: 13 }}>
+        <label htmlFor="ledger-from">From</label>
+        <select id="ledger-from" value={fromKey} onChange={(e) => setFromKey(e.target.value)}>{entries.map(option)}</select>
+        <label htmlFor="ledger-to">To</label>
+        <select id="ledger-to" value={toKey} onChange={(e) => setToKey(e.target.value)}>{entries.map(option)}</select>
+      </div>
+
+      <div style={{ marginTop: 10, fontSize: 13 }}>
+        {!fromState || !toState ? (
+          <div style={{ opacity: 0.75 }}>This entry was recorded before the ledger kept snapshots, so there is nothing to compare or restore.</div>
+        ) : !changes.length ? (
+          <div style={{ opacity: 0.75 }}>{sameEntry ? "This change left the loop state untouched." : "Both entries left the loop in the same state."}</div>
+        ) : (
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 12 }}>
+            <tbody>
+              {changes.map((change) => (
+                <tr key={`${change.artifact}.${change.path}`} style={{ borderTop: "1px solid rgba(0,0,0,0.08)" }}>
+                  <td style={{ padding: "4px 6px 4px 0", whiteSpace: "nowrap" }}>{ARTIFACT_LABEL[change.artifact]}</td>
+                  <td style={{ padding: "4px 6px", fontFamily: "monospace" }}>{change.path}</td>
+                  <td style={{ padding: "4px 6px", opacity: 0.7 }}>{fmtValue(change.from)}</td>
+                  <td style={{ padding: "4px 0 4px 6px" }}>{fmtValue(change.to)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {toEntry && toState ? (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: 8, marginTop: 10 }}>
+          <button onClick={() => void onRestore(ledgerEntryKey(toEntry), "after")}>Restore state after this change</button>
+          {ledgerStateAt(toEntry, "before") ? (
+            <button onClick={() => void onRestore(ledgerEntryKey(toEntry), "before")}>Roll back to before it</button>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { describePendingOpChain, type PendingOpChainEntry } from "../sync";
+
+type Props = {
+  entries: PendingOpChainEntry[];
+  busy: boolean;
+  suggestRepair: (id: number) => Promise<{ payload: any; changes: string[] } | null>;
+  requeueOp: (id: number, payload?: any) => void | Promise<void>;
+  resolveConflictOp: (id: number, choice: "local" | "remote") => void | Promise<void>;
+  discardOp: (id: number) => void | Promise<void>;
+  collapseOrphans: () => void | Promise<void>;
+  onClose: () => void;
+};
+
+const PARENT_STATE_LABEL: Record<PendingOpChainEntry["parentState"], string> = {
+  none: "",
+  pending_op: "waiting on a queued parent",
+  local: "parent exists on this device",
+  deleted: "parent was deleted",
+  missing_ref: "parent id missing",
+  unknown: "parent not found locally",
+};
+
+export default function QuarantineTriagePanel(props: Props) {
+  const { entries, busy, suggestRepair, requeueOp, resolveConflictOp, discardOp, collapseOrphans, onClose } = props;
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [notes, setNotes] = useState<Record<number, string>>({});
+
+  const stuck = entries.filter((e) => e.id != null && (e.status === "quarantined" || e.status === "conflict"));
+  const waiting = entries.filter((e) => e.status !== "quarantined" && e.status !== "conflict" && e.lastError.startsWith("Waiting on"));
+  const orphans = entries.filter((e) => e.parentState === "deleted").length;
+
+  function draftFor(entry: PendingOpChainEntry) {
+    const id = entry.id as number;
+    return drafts[id] ?? JSON.stringify(entry.payload ?? {}, null, 2);
+  }
+
+  async function repair(entry: PendingOpChainEntry) {
+    const id = entry.id as number;
+    const suggestion = await suggestRepair(id);
+    if (!suggestion) return;
+    setDrafts((prev) => ({ ...prev, [id]: JSON.stringify(suggestion.payload, null, 2) }));
+    setNotes((prev) => ({
+      ...prev,
+      [id]: suggestion.changes.length ? `Filled from local row: ${suggestion.changes.join(", ")}` : "Nothing to fill from the local row.",
+    }));
+  }
+
+  async function requeue(entry: PendingOpChainEntry) {
+    const id = entry.id as number;
+    const text = drafts[id];
+    if (text === undefined) {
+      await requeueOp(id);
+      return;
+    }
+    let payload: any;
+    try {
+      payload = JSON.parse(text);
+    } catch (e: any) {
+      setNotes((prev) => ({ ...prev, [id]: `Invalid JSON: ${e?.message ?? String(e)}` }));
+      return;
+    }
+    await requeueOp(id, payload);
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }
+
+  return (
+    <div style={{ marginTop: 12, border: "1px solid #ddd", borderRadius: 10, padding: 12 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10, flexWrap: "wrap" }}>
+        <h3 style={{ margin: 0 }}>Sync queue triage</h3>
+        <div style={{ display: "flex", gap: 8 }}>
+          <button type="button" onClick={() => void collapseOrphans()} disabled={busy || orphans === 0}>
+            Collapse orphaned ops ({orphans})
+          </button>
+          <button type="button" onClick={onClose}>Close</button>
+        </div>
+      </div>
+
+      {waiting.length ? (
+        <div style={{ marginTop: 8, opacity: 0.8 }}>{waiting.length} queued op(s) are waiting on a stuck parent.</div>
+      ) : null}
+
+      {stuck.length === 0 ? (
+        <div style={{ marginTop: 8, opacity: 0.8 }}>No quarantined or conflicted ops.</div>
+      ) : (
+        stuck.map((entry) => {
+          const id = entry.id as number;
+          const chain = describePendingOpChain(entry, entries);
+          return (
+            <div key={id} style={{ borderTop: "1px solid #ddd", paddingTop: 8, marginTop: 8 }}>
+              <div>
+                <b>{entry.op}</b> <span style={{ opacity: 0.7 }}>#{id} • {entry.status} • {entry.retryCount} tries</span>
+              </div>
+              <div style={{ marginTop: 4 }}>{entry.lastError || "No error message"}</div>
+              {entry.parentState !== "none" ? (
+                <div style={{ marginTop: 4, opacity: 0.8 }}>Parent: {PARENT_STATE_LABEL[entry.parentState]}</div>
+              ) : null}
+              {chain.length > 1 ? (
+                <div style={{ marginTop: 4, opacity: 0.8 }}>Chain: {chain.join(" → ")}</div>
+              ) : null}
+              {entry.childOpIds.length ? (
+                <div style={{ marginTop: 4, opacity: 0.8 }}>{entry.childOpIds.length} queued op(s) depend on this.</div>
+              ) : null}
+
+              {entry.status === "conflict" ? null : (
+                <textarea
+                  value={draftFor(entry)}
+                  onChange={(e) => setDrafts((prev) => ({ ...prev, [id]: e.target.value }))}
+                  style={{ width: "100%", height: 120, marginTop: 6, fontFamily: "monospace", fontSize: 12 }}
+                />
+              )}
+              {notes[id] ? <div style={{ marginTop: 4, opacity: 0.8 }}>{notes[id]}</div> : null}
+
+              <div style={{ display: "flex", gap: 8, marginTop: 6, flexWrap: "wrap" }}>
+                {entry.status === "conflict" ? (
+                  <>
+                    <button type="button" onClick={() => void resolveConflictOp(id, "local")} disabled={busy}>
+                      Keep this device
+                    </button>
+                    <button type="button" onClick={() => void resolveConflictOp(id, "remote")} disabled={busy}>
+                      Keep other device
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button type="button" onClick={() => void repair(entry)} disabled={busy}>
+                      Auto-repair
+                    </button>
+                    <button type="button" onClick={() => void requeue(entry)} disabled={busy}>
+                      Re-queue
+                    </button>
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (confirm(`Discard ${entry.op} #${id}? This change will never reach the cloud.`)) void discardOp(id);
+                  }}
+                  disabled={busy}
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import type { LocalSyncConflict } from "../localdb";
+import { describeSyncConflict } from "../syncConflicts";
+
+type Props = {
+  conflicts: LocalSyncConflict[];
+  busyId: string | null;
+  resolveConflict: (conflictId: string, choice: "local" | "remote") => void | Promise<void>;
+};
+
+const TABLE_LABELS: Record<LocalSyncConflict["table"], string> = {
+  localSessions: "Session",
+  localExercises: "Exercise",
+  localSets: "Set",
+};
+
+function fmtValue(value: unknown): string {
+  if (value == null) return "—";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  return String(value);
+}
+
+function conflictTitle(conflict: LocalSyncConflict): string {
+  const row = conflict.local ?? conflict.remote ?? {};
+  if (conflict.table === "localSessions") return `${TABLE_LABELS.localSessions}: ${row.title ?? "Untitled"} (${row.day_date ?? "?"})`;
+  if (conflict.table === "localExercises") return `${TABLE_LABELS.localExercises}: ${row.name ?? "Exercise"}`;
+  return `${TABLE_LABELS.localSets} #${row.set_number ?? "?"}`;
+}
+
+export default function SyncConflictsPanel(props: Props) {
+  const { conflicts, busyId, resolveConflict } = props;
+  if (!conflicts.length) return null;
+
+  return (
+    <div style={{ marginTop: 12, border: "1px solid #c77", borderRadius: 10, padding: 12 }}>
+      <h3 style={{ marginTop: 0 }}>Sync conflicts ({conflicts.length})</h3>
+      <div style={{ opacity: 0.8, marginBottom: 8 }}>
+        These rows were changed on another device while this one had unsynced edits. Pick which version to keep.
+      </div>
+
+      {conflicts.map((conflict) => {
+        const diffs = describeSyncConflict(conflict);
+        const busy = busyId === conflict.id;
+        return (
+          <div key={conflict.id} style={{ borderTop: "1px solid #ddd", paddingTop: 8, marginTop: 8 }}>
+            <div>
+              <b>{conflictTitle(conflict)}</b>
+              <span style={{ marginLeft: 8, opacity: 0.7 }}>
+                detected on {conflict.source} • {new Date(conflict.detectedAt).toLocaleString()}
+              </span>
+            </div>
+
+            {diffs.length ? (
+              <table style={{ marginTop: 6, borderCollapse: "collapse" }}>
+                <thead>
+                  <tr>
+                    <th style={{ textAlign: "left", paddingRight: 12 }}>Field</th>
+                    <th style={{ textAlign: "left", paddingRight: 12 }}>This device</th>
+                    <th style={{ textAlign: "left" }}>Other device</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diffs.map((d) => (
+                    <tr key={d.field}>
+                      <td style={{ paddingRight: 12 }}>{d.label}</td>
+                      <td style={{ paddingRight: 12 }}>{fmtValue(d.local)}</td>
+                      <td>{fmtValue(d.remote)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div style={{ marginTop: 6, opacity: 0.8 }}>Both versions now match — either choice is safe.</div>
+            )}
+
+            <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+              <button type="button" disabled={busy} onClick={() => void resolveConflict(conflict.id, "local")}>
+                Keep this device
+              </button>
+              <button type="button" disabled={busy} onClick={() => void resolveConflict(conflict.id, "remote")}>
+                Keep other device
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
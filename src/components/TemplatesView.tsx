@@ -1,5 +1,6 @@
 import React from "react";
 import type { LocalWorkoutTemplate, LocalWorkoutTemplateExercise } from "../localdb";
+import { exerciseBlocks } from "../lib/exerciseGroups";
 
 type Props = {
   templates: LocalWorkoutTemplate[];
@@ -27,6 +28,9 @@ type Props = {
   renameTemplateExercise: (templateExerciseId: string, rawName: string) => void;
   deleteTemplateExercise: (templateExerciseId: string) => void;
   moveTemplateExercise: (templateExerciseId: string, direction: -1 | 1) => void;
+  groupTemplateExerciseWithNext: (templateExerciseId: string) => void;
+  ungroupTemplateExercise: (templateExerciseId: string) => void;
+  setTemplateGroupEmom: (groupId: string, emom: boolean) => void;
 
   startSessionFromTemplate: () => void;
 
@@ -55,6 +59,9 @@ export default function TemplatesView({
   renameTemplateExercise,
   deleteTemplateExercise,
   moveTemplateExercise,
+  groupTemplateExerciseWithNext,
+  ungroupTemplateExercise,
+  setTemplateGroupEmom,
   startSessionFromTemplate,
   displayExerciseName
 }: Props) {
@@ -151,31 +158,57 @@ export default function TemplatesView({
             <div style={{ marginTop: 2, opacity: 0.95 }}>
               <div style={{ fontSize: 12, fontWeight: 700, opacity: 0.8, marginBottom: 8 }}>Template exercises</div>
               <div style={{ display: "grid", gap: 8 }}>
-                {templateExercises
-                  .slice()
-                  .sort((a, b) => a.sort_order - b.sort_order)
-                  .map((e, idx, arr) => (
-                    <div
-                      key={e.id}
-                      style={{
-                        display: "grid",
-                        gridTemplateColumns: "1fr auto auto auto",
-                        gap: 8,
-                        alignItems: "center",
-                        border: "1px solid #ddd",
-                        borderRadius: 8,
-                        padding: 8
-                      }}
-                    >
-                      <input
-                        value={e.name}
-                        onChange={(ev) => renameTemplateExercise(e.id, ev.target.value)}
-                      />
-                      <button onClick={() => moveTemplateExercise(e.id, -1)} disabled={idx === 0} title="Move up">↑</button>
-                      <button onClick={() => moveTemplateExercise(e.id, 1)} disabled={idx === arr.length - 1} title="Move down">↓</button>
-                      <button onClick={() => deleteTemplateExercise(e.id)} title="Delete exercise">✕</button>
-                    </div>
-                  ))}
+                {exerciseBlocks(templateExercises).flatMap((block, blockIdx, blocks) =>
+                  block.members.map((e, memberIdx) => {
+                    const first = blockIdx === 0 && memberIdx === 0;
+                    const last = blockIdx === blocks.length - 1 && memberIdx === block.members.length - 1;
+                    const lastInBlock = memberIdx === block.members.length - 1;
+                    return (
+                      <div
+                        key={e.id}
+                        style={{
+                          display: "grid",
+                          gridTemplateColumns: "1fr auto auto auto auto",
+                          gap: 8,
+                          alignItems: "center",
+                          border: "1px solid #ddd",
+                          borderLeft: block.groupId ? "4px solid #3f6fb5" : "1px solid #ddd",
+                          borderRadius: 8,
+                          padding: 8
+                        }}
+                      >
+                        <div style={{ display: "grid", gap: 4 }}>
+                          {block.groupId ? (
+                            <div style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 11, fontWeight: 700, color: "#3f6fb5" }}>
+                              {block.label} • {memberIdx + 1}/{block.members.length}
+                              {memberIdx === 0 ? (
+                                <label style={{ display: "flex", alignItems: "center", gap: 4, fontWeight: 400 }}>
+                                  <input type="checkbox" checked={block.type === "emom"} onChange={(ev) => setTemplateGroupEmom(block.groupId as string, ev.target.checked)} />
+                                  EMOM
+                                </label>
+                              ) : null}
+                            </div>
+                          ) : null}
+                          <input
+                            value={e.name}
+                            onChange={(ev) => renameTemplateExercise(e.id, ev.target.value)}
+                          />
+                        </div>
+                        <div style={{ display: "flex", gap: 4 }}>
+                          {lastInBlock && !last ? (
+                            <button onClick={() => groupTemplateExerciseWithNext(e.id)} title="Superset with the next exercise">Group ↓</button>
+                          ) : null}
+                          {block.groupId ? (
+                            <button onClick={() => ungroupTemplateExercise(e.id)} title="Take out of the group">Ungroup</button>
+                          ) : null}
+                        </div>
+                        <button onClick={() => moveTemplateExercise(e.id, -1)} disabled={first} title="Move up">↑</button>
+                        <button onClick={() => moveTemplateExercise(e.id, 1)} disabled={last} title="Move down">↓</button>
+                        <button onClick={() => deleteTemplateExercise(e.id)} title="Delete exercise">✕</button>
+                      </div>
+                    );
+                  })
+                )}
               </div>
             </div>
           )}
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import type { BrainFocus, BrainSnapshot } from "../lib/brainEngine";
+import type { EquipmentProfileSet } from "../lib/equipmentTypes";
+import type { FrictionProfile, FrictionTrend } from "../lib/frictionEngine";
+import { hasWhatIfOverrides, runWhatIf, type WhatIfBaseline, type WhatIfOverrides, type WhatIfResult } from "../lib/whatIfPlanner";
+
+type Props = {
+  baseline: WhatIfBaseline;
+  equipmentProfileSet: EquipmentProfileSet;
+};
+
+type Draft = {
+  sleepAvg7: string;
+  proteinAvg7: string;
+  lastSessionFocus: string;
+  equipmentProfileId: string;
+  readinessTrend: string;
+};
+
+const LIVE = "";
+const NONE = "none";
+const EMPTY_DRAFT: Draft = { sleepAvg7: "", proteinAvg7: "", lastSessionFocus: LIVE, equipmentProfileId: LIVE, readinessTrend: LIVE };
+const FOCUS_OPTIONS: BrainFocus[] = ["Push", "Pull", "Lower", "Mixed"];
+const TREND_OPTIONS: Array<Exclude<FrictionTrend, null>> = ["up", "flat", "down"];
+
+function parseAverage(text: string): number | null | undefined {
+  if (!text.trim()) return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function draftToOverrides(draft: Draft, equipmentProfileSet: EquipmentProfileSet): WhatIfOverrides {
+  const overrides: WhatIfOverrides = {};
+  const sleep = parseAverage(draft.sleepAvg7);
+  const protein = parseAverage(draft.proteinAvg7);
+  if (sleep !== undefined) overrides.sleepAvg7 = sleep;
+  if (protein !== undefined) overrides.proteinAvg7 = protein;
+  if (draft.lastSessionFocus === NONE) overrides.lastSessionFocus = null;
+  else if (draft.lastSessionFocus) overrides.lastSessionFocus = draft.lastSessionFocus as BrainFocus;
+  if (draft.readinessTrend) overrides.readinessTrend = draft.readinessTrend as FrictionTrend;
+  const profile = equipmentProfileSet.profiles.find((item) => item.id === draft.equipmentProfileId);
+  if (profile) overrides.equipmentProfile = profile;
+  return overrides;
+}
+
+function fmtLive(value: number | null): string {
+  return value == null ? "no data" : String(value);
+}
+
+function SessionColumn(props: { label: string; brain: BrainSnapshot; friction: FrictionProfile; changedSlots: Set<string> }) {
+  const { label, brain, friction, changedSlots } = props;
+  const session = brain.recommendedSession;
+  return (
+    <div style={{ flex: "1 1 220px", minWidth: 0 }}>
+      <div style={{ fontSize: 12, opacity: 0.75 }}>{label}</div>
+      <div style={{ fontWeight: 700 }}>{session.title}</div>
+      <div style={{ fontSize: 12, opacity: 0.75 }}>
+        Readiness {brain.readiness.score} • friction {friction.level} ({friction.score})
+      </div>
+      <ul style={{ margin: "6px 0 0 18px", padding: 0, fontSize: 13 }}>
+        {session.exercises.map((ex) => (
+          <li key={`${ex.slot}-${ex.name}`} style={{ fontWeight: changedSlots.has(ex.slot) ? 700 : 400 }}>
+            {ex.name} <span style={{ opacity: 0.75 }}>{ex.sets} × {ex.reps} @ {ex.load}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function WhatIfPanel({ baseline, equipmentProfileSet }: Props) {
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [result, setResult] = useState<WhatIfResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const overrides = draftToOverrides(draft, equipmentProfileSet);
+  const live = baseline.brainInput;
+  const liveLocation = live.location?.name ?? "active location";
+  const liveTrend = baseline.frictionInput.readiness?.trend ?? null;
+
+  const update = (key: keyof Draft, value: string) => setDraft((prev) => ({ ...prev, [key]: value }));
+
+  const compare = () => {
+    try {
+      setResult(runWhatIf(baseline, overrides));
+      setError(null);
+    } catch (e: any) {
+      setResult(null);
+      setError(e?.message ?? String(e));
+    }
+  };
+
+  const reset = () => {
+    setDraft(EMPTY_DRAFT);
+    setResult(null);
+    setError(null);
+  };
+
+  const changes = result?.changes ?? null;
+  const changedSlots = new Set([...(changes?.slots ?? []), ...(changes?.loads ?? [])].map((change) => change.slot));
+  const unchanged = !!changes && !changes.focus && !changes.slots.length && !changes.loads.length && !changes.alertsAdded.length && !changes.alertsRemoved.length;
+
+  return (
+    <div>
+      <div style={{ display: "grid", gridTemplateColumns: "auto 1fr", gap: 6, alignItems: "center", fontSize: 13 }}>
+        <label htmlFor="whatif-sleep">Sleep avg (h)</label>
+        <input id="whatif-sleep" inputMode="decimal" placeholder={`live: ${fmtLive(live.sleepAvg7)}`} value={draft.sleepAvg7} onChange={(e) => update("sleepAvg7", e.target.value)} />
+        <label htmlFor="whatif-protein">Protein avg (g)</label>
+        <input id="whatif-protein" inputMode="numeric" placeholder={`live: ${fmtLive(live.proteinAvg7)}`} value={draft.proteinAvg7} onChange={(e) => update("proteinAvg7", e.target.value)} />
+        <label htmlFor="whatif-focus">Last session</label>
+        <select id="whatif-focus" value={draft.lastSessionFocus} onChange={(e) => update("lastSessionFocus", e.target.value)}>
+          <option value={LIVE}>Live ({live.lastSessionFocus ?? "none"})</option>
+          {FOCUS_OPTIONS.map((focus) => <option key={focus} value={focus}>{focus}</option>)}
+          <option value={NONE}>No recent session</option>
+        </select>
+        <label htmlFor="whatif-location">Equipment</label>
+        <select id="whatif-location" value={draft.equipmentProfileId} onChange={(e) => update("equipmentProfileId", e.target.value)}>
+          <option value={LIVE}>Live ({liveLocation})</option>
+          {equipmentProfileSet.profiles.map((profile) => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+        </select>
+        <label htmlFor="whatif-trend">Readiness trend</label>
+        <select id="whatif-trend" value={draft.readinessTrend} onChange={(e) => update("readinessTrend", e.target.value)}>
+          <option value={LIVE}>Live ({liveTrend ?? "unknown"})</option>
+          {TREND_OPTIONS.map((trend) => <option key={trend} value={trend}>{trend}</option>)}
+        </select>
+      </div>
+
+      <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+        <button onClick={compare} disabled={!hasWhatIfOverrides(overrides)}>Compare</button>
+        <button onClick={reset}>Reset</button>
+      </div>
+      {error ? <div style={{ color: "#c62828", fontSize: 13, marginTop: 8 }}>What-if failed: {error}</div> : null}
+
+      {result && changes ? (
+        <div style={{ marginTop: 10 }}>
+          {result.readiness ? (
+            <div style={{ fontSize: 12, opacity: 0.75, marginBottom: 6 }}>
+              Readiness context (same for both): {result.readiness.summary.label}
+            </div>
+          ) : null}
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 12 }}>
+            <SessionColumn label="Live" brain={result.live} friction={result.liveFriction} changedSlots={changedSlots} />
+            <SessionColumn label="What-if" brain={result.whatIf} friction={result.whatIfFriction} changedSlots={changedSlots} />
+          </div>
+
+          <div style={{ marginTop: 10, fontSize: 13 }}>
+            {unchanged ? (
+              <div style={{ opacity: 0.75 }}>These overrides leave the recommendation unchanged.</div>
+            ) : (
+              <ul style={{ margin: "0 0 0 18px", padding: 0 }}>
+                {changes.focus ? <li>Focus: {changes.focus.from} → {changes.focus.to}</li> : null}
+                {changes.slots.map((change) => (
+                  <li key={`slot-${change.slot}`}>{change.slot}: {change.from ?? "not in session"} → {change.to ?? "dropped"}</li>
+                ))}
+                {changes.loads.map((change) => (
+                  <li key={`load-${change.slot}`}>{change.name}: {change.from} → {change.to}</li>
+                ))}
+                {changes.alertsAdded.map((alert) => <li key={`add-${alert}`} style={{ color: "#c62828" }}>+ {alert}</li>)}
+                {changes.alertsRemoved.map((alert) => <li key={`rm-${alert}`} style={{ opacity: 0.7 }}>− {alert}</li>)}
+              </ul>
+            )}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -4,6 +4,13 @@ import { buildSessionCoachInsights } from "../lib/sessionCoach";
 import TemplatesView from "./TemplatesView";
 import { CoachBoundary } from "../CoachPanel";
 import type { LocalWorkoutTemplate } from "../localdb";
+import type { RestTimerState } from "../lib/restTimer";
+import type { LoadingPlan } from "../lib/loadingCalculator";
+import { exerciseBlocks, nextGroupMemberId, type ExerciseBlock } from "../lib/exerciseGroups";
+import { getDefaultProgressionModel, resolveExerciseAlias } from "../lib/exerciseRegistry";
+import type { ProgressionModel } from "../lib/exerciseTypes";
+import { PROGRESSION_MODEL_LABELS } from "../lib/progressionModels";
+import { countsTowardE1rm, formatSetPlan, hardSetCredit, isChildSetType, setTypeOf, SET_TYPE_LABELS, type SetType, type SetTypePrescription } from "../lib/setTypes";
 
 type Draft = {
   loadType: "weight" | "band" | "bodyweight";
@@ -11,6 +18,7 @@ type Draft = {
   reps: string;
   rpe: string;
   warmup: boolean;
+  setType?: SetType;
   bandLevel: string;
   bandLevel2: string;
   bandMode: "resist" | "assist";
@@ -26,6 +34,7 @@ type LastSummary = {
     reps?: number | null;
     rpe?: number | null;
     is_warmup?: boolean | null;
+    set_type?: SetType | null;
     band_level?: number | null;
     band_mode?: string | null;
     band_config?: string | null;
@@ -56,11 +65,15 @@ type Props = {
   renameTemplateExercise: (templateExerciseId: string, rawName: string) => any;
   deleteTemplateExercise: (templateExerciseId: string) => any;
   moveTemplateExercise: (templateExerciseId: string, direction: -1 | 1) => any;
+  groupTemplateExerciseWithNext: (templateExerciseId: string) => any;
+  ungroupTemplateExercise: (templateExerciseId: string) => any;
+  setTemplateGroupEmom: (groupId: string, emom: boolean) => any;
   startSessionFromTemplate: (templateId: string) => any;
   displayExerciseName: (raw: string) => string;
   displayStoredExerciseName: (exercise: { name: string; exercise_library_id?: string | null }) => string;
-  exerciseControlFor: (exercise: { name?: string | null; exercise_library_id?: string | null; exercise_family_id?: string | null } | string | null | undefined) => { prefer?: boolean; avoid?: boolean; never?: boolean; injury?: boolean } | null;
+  exerciseControlFor: (exercise: { name?: string | null; exercise_library_id?: string | null; exercise_family_id?: string | null } | string | null | undefined) => { prefer?: boolean; avoid?: boolean; never?: boolean; injury?: boolean; progression_model?: ProgressionModel | null } | null;
   setExerciseControl: (exercise: { name?: string | null; exercise_library_id?: string | null; exercise_family_id?: string | null } | string | null | undefined, control: "prefer" | "avoid" | "never" | "injury") => any;
+  setExerciseProgressionModel: (exercise: { name: string; exercise_library_id?: string | null }, model: ProgressionModel | null) => any;
 
   // Sessions
   sessions: any[];
@@ -83,6 +96,11 @@ type Props = {
   deleteSet: (exerciseId: string, setId: string) => any;
   deleteExerciseFromSession: (exerciseId: string) => any;
 
+  // Supersets / circuits within the open session
+  groupExerciseWithNext: (exerciseId: string) => any;
+  ungroupExercise: (exerciseId: string) => any;
+  setExerciseGroupEmom: (groupId: string, emom: boolean) => any;
+
   // UI toggles
   advanced: boolean;
   setAdvanced: (v: boolean) => void;
@@ -103,6 +121,8 @@ type Props = {
   setTimerOn: (updater: any) => void;
   secs: number;
   setSecs: (updater: any) => void;
+  restTimer: RestTimerState;
+  planLoadingFor: (exercise: { name: string; load: string }) => LoadingPlan | null;
   recommendationComparison: {
     available: boolean;
     adherenceScore: number;
@@ -135,10 +155,14 @@ type Props = {
       load: string;
       loadBasis: string;
       note: string;
+      setPlan?: SetTypePrescription[];
     }>;
   } | null;
 };
 
+// Warmup has its own toggle; these are the types a non-warmup set can be logged as.
+const LOGGABLE_SET_TYPES: SetType[] = ["working", "amrap", "backoff", "drop", "rest_pause", "myo_reps"];
+
 export default function WorkoutLoggerView(props: Props) {
   const {
     templates,
@@ -162,11 +186,15 @@ export default function WorkoutLoggerView(props: Props) {
     renameTemplateExercise,
     deleteTemplateExercise,
     moveTemplateExercise,
+    groupTemplateExerciseWithNext,
+    ungroupTemplateExercise,
+    setTemplateGroupEmom,
     startSessionFromTemplate,
     displayExerciseName,
     displayStoredExerciseName,
     exerciseControlFor,
     setExerciseControl,
+    setExerciseProgressionModel,
     sessions,
     openSessionId,
     openSession,
@@ -182,6 +210,9 @@ export default function WorkoutLoggerView(props: Props) {
     addSet,
     deleteSet,
     deleteExerciseFromSession,
+    groupExerciseWithNext,
+    ungroupExercise,
+    setExerciseGroupEmom,
     advanced,
     setAdvanced,
     coachEnabled,
@@ -195,6 +226,8 @@ export default function WorkoutLoggerView(props: Props) {
     setTimerOn,
     secs,
     setSecs,
+    restTimer,
+    planLoadingFor,
     recommendationComparison,
     coachSessionSeed
   } = props;
@@ -218,6 +251,15 @@ export default function WorkoutLoggerView(props: Props) {
     marginRight: 4,
   };
 
+  const fmtRest = (value: number) => `${Math.floor(value / 60)}:${String(value % 60).padStart(2, "0")}`;
+
+  // Grouped exercises render as one contiguous block, in round order.
+  const exerciseBlockList = exerciseBlocks(exercises);
+  const orderedExercises = exerciseBlockList.flatMap((block) => block.members);
+  const blockByExerciseId = new Map<string, ExerciseBlock<any>>();
+  exerciseBlockList.forEach((block) => block.members.forEach((member) => blockByExerciseId.set(member.id, block)));
+  const workingSetCount = (exerciseId: string) => (setsForExercise(exerciseId) ?? []).filter((set) => hardSetCredit(set) > 0).length;
+
   return (
     <>
       <h3>Workout Logger</h3>
@@ -306,6 +348,9 @@ export default function WorkoutLoggerView(props: Props) {
         renameTemplateExercise={renameTemplateExercise}
         deleteTemplateExercise={deleteTemplateExercise}
         moveTemplateExercise={moveTemplateExercise}
+        groupTemplateExerciseWithNext={groupTemplateExerciseWithNext}
+        ungroupTemplateExercise={ungroupTemplateExercise}
+        setTemplateGroupEmom={setTemplateGroupEmom}
         startSessionFromTemplate={startSessionFromTemplate}
         displayExerciseName={displayExerciseName}
       />
@@ -359,7 +404,7 @@ export default function WorkoutLoggerView(props: Props) {
                   <div style={{ marginTop: 12 }}>
                     <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
                       <input type="checkbox" checked={advanced} onChange={(e) => setAdvanced(e.target.checked)} />
-                      Advanced (RPE + Warmup)
+                      Advanced (RPE, warmup, set types)
                     </label>
                     <label style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 6 }}>
                       <input type="checkbox" checked={coachEnabled} onChange={(e) => setCoachEnabled(e.target.checked)} />
@@ -371,7 +416,7 @@ export default function WorkoutLoggerView(props: Props) {
                     <p style={{ marginTop: 12, opacity: 0.85 }}>No exercises yet.</p>
                   ) : (
                     <div style={{ display: "grid", gap: 12, marginTop: 12 }}>
-                      {exercises.map((ex) => {
+                      {orderedExercises.map((ex, exIdx) => {
                         const d = draftByExerciseId[ex.id];
                         const defaultLabel = displayStoredExerciseName(ex);
                         const lastSummary = lastByExerciseName[exerciseKey(ex.name)];
@@ -379,12 +424,20 @@ export default function WorkoutLoggerView(props: Props) {
                         const exSets = setsForExercise(ex.id) ?? [];
                         const compound = !!ex.is_compound;
                         const ctrl = exerciseControlFor(ex);
+                        const block = blockByExerciseId.get(ex.id);
+                        const grouped = !!block?.groupId;
+                        const memberIds = block?.members.map((member) => member.id) ?? [];
+                        const counts = Object.fromEntries(memberIds.map((id) => [id, workingSetCount(id)]));
+                        const upNext = grouped && nextGroupMemberId(memberIds, counts) === ex.id;
+                        const isLast = exIdx === orderedExercises.length - 1;
+                        const lastInBlock = memberIds[memberIds.length - 1] === ex.id;
 
                         return (
                           <div
                             key={ex.id}
                             style={{
                               border: "1px solid #ddd",
+                              borderLeft: grouped ? "4px solid #3f6fb5" : "1px solid #ddd",
                               borderRadius: 10,
                               padding: 12,
                               boxShadow: ctrl?.never
@@ -400,6 +453,12 @@ export default function WorkoutLoggerView(props: Props) {
                           >
                             <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
                               <div style={{ display: "grid", gap: 6 }}>
+                                {grouped && block ? (
+                                  <div style={{ fontSize: 11, fontWeight: 800, color: "#3f6fb5" }}>
+                                    {block.label} • {memberIds.indexOf(ex.id) + 1}/{memberIds.length}
+                                    {upNext ? " • Up next" : ""}
+                                  </div>
+                                ) : null}
                                 <div style={{ fontWeight: 800 }}>{defaultLabel}</div>
                                 {ctrl && (ctrl.prefer || ctrl.avoid || ctrl.never || ctrl.injury) ? (
                                   <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
@@ -444,12 +503,45 @@ export default function WorkoutLoggerView(props: Props) {
                                       <button onClick={() => setExerciseControl(ex, "avoid")} aria-pressed={!!ctrl?.avoid} title="Avoid this exercise" style={pillStyle(!!ctrl?.avoid, "#fff0d6", "#8a5600", "rgba(214, 135, 26, 0.22)")}>👎 Avoid</button>
                                       <button onClick={() => setExerciseControl(ex, "never")} aria-pressed={!!ctrl?.never} title="Never show this exercise" style={pillStyle(!!ctrl?.never, "#ffe0e0", "#912323", "rgba(196, 55, 55, 0.22)")}>🚫 Never</button>
                                       <button onClick={() => setExerciseControl(ex, "injury")} aria-pressed={!!ctrl?.injury} title="Mark as injury-sensitive" style={pillStyle(!!ctrl?.injury, "#fff6cc", "#7c6500", "rgba(184, 153, 34, 0.22)")}>⚠️ Injury</button>
+                                      {(() => {
+                                        const defaultModel = getDefaultProgressionModel(ex.exercise_library_id ?? resolveExerciseAlias(ex.name) ?? "");
+                                        if (!defaultModel) return null;
+                                        return (
+                                          <select
+                                            value={ctrl?.progression_model ?? ""}
+                                            onChange={(e) => setExerciseProgressionModel(ex, (e.target.value || null) as ProgressionModel | null)}
+                                            title="Progression model for this exercise"
+                                            style={{ padding: "4px 6px", borderRadius: 999, border: "1px solid #ddd", fontWeight: 600 }}
+                                          >
+                                            <option value="">Default ({PROGRESSION_MODEL_LABELS[defaultModel]})</option>
+                                            {(Object.keys(PROGRESSION_MODEL_LABELS) as ProgressionModel[]).map((model) => (
+                                              <option key={model} value={model}>{PROGRESSION_MODEL_LABELS[model]}</option>
+                                            ))}
+                                          </select>
+                                        );
+                                      })()}
                                     </>
                                   );
                                 })()}
                                 <button onClick={() => ensureLastForExerciseName(ex.name)} style={{ padding: "6px 10px" }}>
                                   Refresh
                                 </button>
+                                {lastInBlock && !isLast ? (
+                                  <button onClick={() => groupExerciseWithNext(ex.id)} style={{ padding: "6px 10px" }} title="Superset with the next exercise">
+                                    Group with next
+                                  </button>
+                                ) : null}
+                                {grouped ? (
+                                  <button onClick={() => ungroupExercise(ex.id)} style={{ padding: "6px 10px" }}>
+                                    Ungroup
+                                  </button>
+                                ) : null}
+                                {grouped && block?.groupId && memberIds[0] === ex.id ? (
+                                  <label style={{ display: "flex", alignItems: "center", gap: 4, fontSize: 12 }}>
+                                    <input type="checkbox" checked={block.type === "emom"} onChange={(e) => setExerciseGroupEmom(block.groupId as string, e.target.checked)} />
+                                    EMOM
+                                  </label>
+                                ) : null}
                                 <button
                                   onClick={() => deleteExerciseFromSession(ex.id)}
                                   style={{ padding: "6px 10px", color: "#8b0000" }}
@@ -477,7 +569,8 @@ export default function WorkoutLoggerView(props: Props) {
                                           band_est_lbs: (s2 as any).band_est_lbs ?? null,
                                           reps: (s2 as any).reps ?? null,
                                           rpe: (s2 as any).rpe ?? null,
-                                          is_warmup: !!(s2 as any).is_warmup
+                                          is_warmup: !!(s2 as any).is_warmup,
+                                          set_type: (s2 as any).set_type ?? null
                                         })}
                                       </span>
                                     ))}
@@ -502,13 +595,22 @@ export default function WorkoutLoggerView(props: Props) {
                                         2
                                     )
                                   : null;
+                              const loadingPlan = coachEx.load ? planLoadingFor({ name: coachEx.name, load: coachEx.load }) : null;
                               return (
                                 <div style={{ marginTop: 10, padding: "8px 10px", border: "1px solid #d7e7f7", background: "#f7fbff", borderRadius: 8, fontSize: 12 }}>
                                   <div style={{ fontWeight: 700 }}>Coach target — {coachEx.slot}</div>
                                   <div style={{ marginTop: 4 }}>
-                                    {coachEx.sets} sets × {coachEx.reps} reps{coachEx.load ? ` @ ${coachEx.load}` : ""}
+                                    {coachEx.setPlan?.length
+                                      ? formatSetPlan(coachEx.setPlan)
+                                      : `${coachEx.sets} sets × ${coachEx.reps} reps${coachEx.load ? ` @ ${coachEx.load}` : ""}`}
                                   </div>
                                   <div style={{ marginTop: 4, opacity: 0.85 }}>{coachEx.loadBasis}</div>
+                                  {loadingPlan && (
+                                    <div style={{ marginTop: 4 }}>
+                                      <strong>Load it:</strong> {loadingPlan.label}
+                                      {loadingPlan.detail ? ` — ${loadingPlan.detail}` : ""}
+                                    </div>
+                                  )}
                                   {repMidpoint != null && (
                                     <div style={{ marginTop: 4, opacity: 0.8 }}>
                                       Draft prefill uses midpoint <strong>{repMidpoint}</strong> from target range <strong>{coachEx.reps}</strong> for quick entry.
@@ -644,14 +746,31 @@ export default function WorkoutLoggerView(props: Props) {
                                 )}
 
                                 {advanced && (
-                                  <label style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 10 }}>
-                                    <input
-                                      type="checkbox"
-                                      checked={d.warmup}
-                                      onChange={(e) => updateDraft(ex.id, { warmup: e.target.checked })}
-                                    />
-                                    Warmup set
-                                  </label>
+                                  <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginTop: 10 }}>
+                                    <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                                      <input
+                                        type="checkbox"
+                                        checked={d.warmup}
+                                        onChange={(e) => updateDraft(ex.id, { warmup: e.target.checked })}
+                                      />
+                                      Warmup set
+                                    </label>
+                                    <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                                      Set type
+                                      <select
+                                        value={d.setType ?? "working"}
+                                        disabled={d.warmup}
+                                        onChange={(e) => updateDraft(ex.id, { setType: e.target.value as SetType })}
+                                      >
+                                        {LOGGABLE_SET_TYPES.map((type) => (
+                                          <option key={type} value={type}>{SET_TYPE_LABELS[type]}</option>
+                                        ))}
+                                      </select>
+                                    </label>
+                                    {!d.warmup && d.setType && isChildSetType(d.setType) && (
+                                      <div style={{ fontSize: 12, opacity: 0.75 }}>Continues your last working set.</div>
+                                    )}
+                                  </div>
                                 )}
                               </div>
                             )}
@@ -662,12 +781,13 @@ export default function WorkoutLoggerView(props: Props) {
                               <div style={{ display: "grid", gap: 6, marginTop: 6 }}>
                                 {exSets.map((s3: any) => {
                                   const est =
-                                    s3.weight_lbs != null && s3.reps != null
+                                    s3.weight_lbs != null && s3.reps != null && countsTowardE1rm(s3)
                                       ? oneRmEpley(Number(s3.weight_lbs), Number(s3.reps))
                                       : null;
+                                  const continuation = isChildSetType(setTypeOf(s3)) && !!s3.parent_set_id;
 
                                   return (
-                                    <div key={s3.id} style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+                                    <div key={s3.id} style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center", paddingLeft: continuation ? 16 : 0 }}>
                                       <div>
                                         <b>{s3.set_number}.</b>{" "}
                                         {formatSet({
@@ -679,10 +799,14 @@ export default function WorkoutLoggerView(props: Props) {
                                           band_est_lbs: (s3 as any).band_est_lbs ?? null,
                                           reps: s3.reps ?? null,
                                           rpe: s3.rpe ?? null,
-                                          is_warmup: !!s3.is_warmup
+                                          is_warmup: !!s3.is_warmup,
+                                          set_type: s3.set_type ?? null
                                         })}
                                       </div>
                                       <div style={{ display: "flex", alignItems: "center", gap: 10 }}>
+                                        {typeof s3.rest_secs_before === "number" && (
+                                          <div style={{ opacity: 0.6, fontSize: 12 }} title="Rest taken before this set">rest {fmtRest(s3.rest_secs_before)}</div>
+                                        )}
                                         <div style={{ opacity: 0.75 }}>{est ? `~1RM ${est}` : ""}</div>
                                         <button
                                           onClick={() => deleteSet(ex.id, s3.id)}
@@ -736,9 +860,16 @@ export default function WorkoutLoggerView(props: Props) {
                       Reset
                     </button>
                     <div style={{ fontSize: 24, fontWeight: 700 }}>
-                      {Math.floor(secs / 60)}:{String(secs % 60).padStart(2, "0")}
+                      {fmtRest(secs)}
                     </div>
                   </div>
+                  <div style={{ marginTop: 6, fontSize: 12, opacity: 0.8 }}>
+                    {secs === 0 && restTimer.alertedAt
+                      ? restTimer.exerciseName ? <>Rest done — next set of <strong>{restTimer.exerciseName}</strong>.</> : "Rest done."
+                      : restTimer.exerciseName
+                        ? <>Auto-started after <strong>{restTimer.exerciseName}</strong> — {restTimer.reason ?? "rest"} ({fmtRest(restTimer.durationSecs)})</>
+                        : "Saving a set starts the timer automatically from the lift's role and RPE."}
+                  </div>
                 </div>
               )}
             </div>
@@ -0,0 +1,195 @@
+import { useEffect, useRef, useState } from "react";
+import { ALIGN_FRAME_WIDTH, alignmentCss, type PhotoAlignment } from "../../lib/photoAlignment";
+
+type Props = {
+  pose: string;
+  ghostUrl?: string;
+  ghostAlign: PhotoAlignment;
+  ghostLabel: string | null;
+  busy: boolean;
+  onCapture: (blob: Blob) => void;
+};
+
+type Facing = "user" | "environment";
+
+const TIMER_OPTIONS = [0, 5, 10];
+
+// Where the head and feet of last week's shot should land; framing drift is the biggest alignment error.
+function PoseGuide() {
+  const line = { position: "absolute" as const, left: 0, right: 0, height: 0, borderTop: "1px dashed rgba(255,255,255,0.45)" };
+  return (
+    <div style={{ position: "absolute", inset: 0, pointerEvents: "none" }}>
+      <div style={{ ...line, top: "6%" }} />
+      <div style={{ ...line, top: "94%" }} />
+      <div style={{ position: "absolute", top: 0, bottom: 0, left: "50%", width: 0, borderLeft: "1px dashed rgba(255,255,255,0.35)" }} />
+    </div>
+  );
+}
+
+export default function ProgressCapture({ pose, ghostUrl, ghostAlign, ghostLabel, busy, onCapture }: Props) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [facing, setFacing] = useState<Facing>("environment");
+  const [error, setError] = useState<string | null>(null);
+  const [ghostOpacity, setGhostOpacity] = useState(40);
+  const [timerSecs, setTimerSecs] = useState(0);
+  const [countdown, setCountdown] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError("Camera not available in this browser. Use the file picker instead.");
+        return;
+      }
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: facing, width: { ideal: 1280 }, height: { ideal: 1706 } },
+          audio: false,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach((t) => t.stop());
+          return;
+        }
+        streamRef.current = stream;
+        setError(null);
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play().catch(() => {});
+        }
+      } catch (e: any) {
+        setError(`Camera blocked or unavailable: ${e?.message ?? String(e)}`);
+      }
+    })();
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach((t) => t.stop());
+      streamRef.current = null;
+    };
+  }, [facing]);
+
+  useEffect(() => {
+    if (countdown == null) return;
+    if (countdown <= 0) {
+      setCountdown(null);
+      grabFrame();
+      return;
+    }
+    const t = window.setTimeout(() => setCountdown((c) => (c == null ? null : c - 1)), 1000);
+    return () => window.clearTimeout(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [countdown]);
+
+  function grabFrame() {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob((b) => {
+      if (b) onCapture(b);
+    }, "image/jpeg", 0.92);
+  }
+
+  function capture() {
+    if (timerSecs > 0) setCountdown(timerSecs);
+    else grabFrame();
+  }
+
+  // The preview is not mirrored, even on the front camera, so the ghost lines up with what gets saved.
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <div
+        style={{
+          width: ALIGN_FRAME_WIDTH,
+          aspectRatio: "3 / 4",
+          borderRadius: 12,
+          border: "1px solid rgba(255,255,255,0.12)",
+          overflow: "hidden",
+          position: "relative",
+          background: "#111"
+        }}
+      >
+        <video
+          ref={videoRef}
+          muted
+          playsInline
+          style={{
+            position: "absolute",
+            inset: 0,
+            width: "100%",
+            height: "100%",
+            objectFit: "contain"
+          }}
+        />
+        {ghostUrl ? (
+          <img
+            src={ghostUrl}
+            alt={`Ghost ${ghostLabel ?? ""}`}
+            style={{
+              position: "absolute",
+              inset: 0,
+              width: "100%",
+              height: "100%",
+              objectFit: "contain",
+              opacity: ghostOpacity / 100,
+              transform: alignmentCss(ghostAlign),
+              pointerEvents: "none"
+            }}
+          />
+        ) : null}
+        <PoseGuide />
+        {countdown != null ? (
+          <div style={{ position: "absolute", inset: 0, display: "grid", placeItems: "center", fontSize: 64, fontWeight: 800, color: "#fff" }}>
+            {countdown}
+          </div>
+        ) : null}
+        {error ? (
+          <div style={{ position: "absolute", inset: 0, display: "grid", placeItems: "center", padding: 16, fontSize: 13, textAlign: "center" }}>
+            {error}
+          </div>
+        ) : null}
+      </div>
+
+      <div style={{ fontSize: 12, opacity: 0.8 }}>
+        {ghostUrl
+          ? `Ghost: ${pose.toUpperCase()} from ${ghostLabel}. Line up head, feet and centre line, then shoot.`
+          : "No earlier photo of this pose to ghost. Use the guide lines; next week will ghost this one."}
+      </div>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <button onClick={capture} disabled={busy || !!error || countdown != null}>
+          {busy ? "Uploading..." : countdown != null ? `Shooting in ${countdown}...` : "Capture & upload"}
+        </button>
+        <button onClick={() => setFacing((f) => (f === "user" ? "environment" : "user"))} disabled={countdown != null}>
+          Flip camera
+        </button>
+        <label>
+          Timer:{" "}
+          <select value={timerSecs} onChange={(e) => setTimerSecs(Number(e.target.value))} style={{ padding: 6 }}>
+            {TIMER_OPTIONS.map((s) => (
+              <option key={s} value={s}>{s ? `${s}s` : "Off"}</option>
+            ))}
+          </select>
+        </label>
+        {ghostUrl ? (
+          <label style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
+            Ghost
+            <input
+              type="range"
+              min={10}
+              max={80}
+              value={ghostOpacity}
+              onChange={(e) => setGhostOpacity(Number(e.target.value))}
+              style={{ width: 120 }}
+            />
+            <span style={{ width: 34, textAlign: "right" }}>{ghostOpacity}%</span>
+          </label>
+        ) : null}
+      </div>
+    </div>
+  );
+}
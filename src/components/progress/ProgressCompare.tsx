@@ -1,5 +1,6 @@
 import React from "react";
 import ProgressLibrary from "./ProgressLibrary";
+import { alignmentCss, alignmentOf } from "../../lib/photoAlignment";
 
 export default function ProgressCompare(props: any) {
   const {
@@ -200,7 +201,7 @@ export default function ProgressCompare(props: any) {
                     width: "100%",
                     height: "100%",
                     objectFit: "contain",
-                    transform: `translate(${(compareA.align_x ?? 0) as number}px, ${(compareA.align_y ?? 0) as number}px)`,
+                    transform: alignmentCss(alignmentOf(compareA)),
                     opacity: compareView === "map" ? 0.08 : 1
                   }}
                 />
@@ -228,7 +229,7 @@ export default function ProgressCompare(props: any) {
                           width: "100%",
                           height: "100%",
                           objectFit: "contain",
-                          transform: `translate(${(compareB.align_x ?? 0) as number}px, ${(compareB.align_y ?? 0) as number}px)`,
+                          transform: alignmentCss(alignmentOf(compareB)),
                           transition: "transform 0.02s linear",
                           cursor: "grab",
                           touchAction: "none"
@@ -261,7 +262,7 @@ export default function ProgressCompare(props: any) {
                       height: "100%",
                       objectFit: "contain",
                       opacity: compareOpacity / 100,
-                      transform: `translate(${(compareB.align_x ?? 0) as number}px, ${(compareB.align_y ?? 0) as number}px)`,
+                      transform: alignmentCss(alignmentOf(compareB)),
                       transition: "transform 0.02s linear",
                       cursor: "grab",
                       touchAction: "none"
@@ -283,7 +284,7 @@ export default function ProgressCompare(props: any) {
                         height: "100%",
                         objectFit: "contain",
                         opacity: 0.06,
-                        transform: `translate(${(compareB.align_x ?? 0) as number}px, ${(compareB.align_y ?? 0) as number}px)`,
+                        transform: alignmentCss(alignmentOf(compareB)),
                         transition: "transform 0.02s linear",
                         cursor: "grab",
                         touchAction: "none"
@@ -1,13 +1,17 @@
 import React from "react";
+import { alignmentCss, alignmentOf } from "../../lib/photoAlignment";
 
 export default function ProgressFlipbook(props: any) {
   const {
     ProgressSection, bannerStyle, flipbookOpen, onToggle, flipPose, setFlipPose, flipList, flipIdx, setFlipIdx,
     flipPlaying, setFlipPlaying, flipView, setFlipView, ghostOpacity, setGhostOpacity, monthlyHighlights,
     CORE_POSES, thumbs, alignGrid, alignX, alignY, diffCanvasRef, nudgeAlign, resetAlign, setAlignGrid,
-    flipKeysArmed, setFlipKeysArmed, copyPrevAlignToCurrent
+    flipKeysArmed, setFlipKeysArmed, copyPrevAlignToCurrent, autoAlignCurrent, autoAlignBusy, autoAlignNote
   } = props;
 
+  // Offset from live state so nudges show before the row catches up; scale and rotation from the row.
+  const curAlign = { ...alignmentOf(flipList[flipIdx]), x: alignX, y: alignY };
+
   return (
     <ProgressSection
       title="Flipbook"
@@ -185,7 +189,7 @@ export default function ProgressFlipbook(props: any) {
                 <img
                   src={thumbs[flipList[flipIdx].id]}
                   alt={`Flipbook ${flipList[flipIdx].taken_on}`}
-                  style={{ width: "100%", display: "block", objectFit: "contain", transform: `translate(${alignX}px, ${alignY}px)` }}
+                  style={{ width: "100%", display: "block", objectFit: "contain", transform: alignmentCss(curAlign) }}
                 />
 
                 {flipView === "ghost" && flipIdx > 0 ? (
@@ -200,7 +204,7 @@ export default function ProgressFlipbook(props: any) {
                         height: "100%",
                         objectFit: "contain",
                         opacity: ghostOpacity / 100,
-                        transform: `translate(${(flipList[flipIdx - 1].align_x ?? 0) as number}px, ${(flipList[flipIdx - 1].align_y ?? 0) as number}px)`,
+                        transform: alignmentCss(alignmentOf(flipList[flipIdx - 1])),
                         pointerEvents: "none"
                       }}
                     />
@@ -253,14 +257,29 @@ export default function ProgressFlipbook(props: any) {
                   <button disabled title="Log another week to copy alignment">Copy prev alignment</button>
                 )}
 
+                <button
+                  onClick={autoAlignCurrent}
+                  disabled={flipIdx <= 0 || autoAlignBusy}
+                  title="Match this frame's silhouette to the previous frame (offset, scale and rotation)"
+                >
+                  {autoAlignBusy ? "Aligning..." : "Auto-align to prev"}
+                </button>
+
                 <div style={{ opacity: 0.8, fontSize: 12 }}>
                   {flipKeysArmed ? "Keys: ← ↑ ↓ → (Shift=10px), R=reset" : "Enable keyboard nudges for arrow keys"}
                   <div>
                     Current offset: <strong>{alignX}</strong>, <strong>{alignY}</strong>
+                    {curAlign.scale !== 1 || curAlign.rotationDeg ? (
+                      <> • scale <strong>{curAlign.scale}×</strong> • rotation <strong>{curAlign.rotationDeg}°</strong></>
+                    ) : null}
                   </div>
                 </div>
               </div>
 
+              {autoAlignNote ? (
+                <div style={{ marginTop: 8, opacity: 0.85, fontSize: 12 }}>{autoAlignNote}</div>
+              ) : null}
+
               {flipView !== "normal" && flipIdx > 0 ? (
                 <div style={{ marginTop: 8, opacity: 0.85, fontSize: 12 }}>
                   {flipView === "ghost" ? "Ghost" : flipView === "diff" ? "Heatmap" : "Change map"}: {flipList[flipIdx - 1].taken_on} → {flipList[flipIdx].taken_on}
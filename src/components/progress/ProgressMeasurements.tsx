@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useState } from "react";
+import type { LocalDailyMetrics } from "../../localdb";
+import { saveBodyMeasurement } from "../../bodyMeasurements";
+import {
+  SKINFOLD_PROTOCOL_LABELS,
+  SKINFOLD_SITE_LABELS,
+  TAPE_SITES,
+  TAPE_SITE_LABELS,
+  navyBodyFat,
+  skinfoldBodyFat,
+  skinfoldSitesFor,
+  type BodyCompProfile,
+  type BodyCompSummary,
+  type BodyMeasurementRecord,
+  type SkinfoldProtocol,
+  type SkinfoldSite,
+  type TapeSite,
+} from "../../lib/bodyComposition";
+
+type Props = {
+  userId: string;
+  dayDate: string;
+  saved: BodyMeasurementRecord | null; // this day's set, if any
+  quickLog: LocalDailyMetrics | null; // prefills weight and waist when there is no set yet
+  profile: BodyCompProfile;
+  onProfileChange: (next: BodyCompProfile) => void;
+  monthSummary: BodyCompSummary | null;
+  onSaved: () => void;
+};
+
+type FieldKey = "weight_lbs" | "waist_in" | TapeSite;
+
+// Inputs hold the raw text so "32." can still become "32.5".
+type Draft = {
+  tape: Partial<Record<FieldKey, string>>;
+  skinfolds: Partial<Record<SkinfoldSite, string>>;
+};
+
+const EMPTY_DRAFT: Draft = { tape: {}, skinfolds: {} };
+
+function toText(v: number | null | undefined): string {
+  return v == null ? "" : String(v);
+}
+
+function toNum(v: string | undefined): number | null {
+  if (v == null || !v.trim()) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function draftFromRecord(row: BodyMeasurementRecord): Draft {
+  const tape: Draft["tape"] = { weight_lbs: toText(row.weight_lbs), waist_in: toText(row.waist_in) };
+  for (const site of TAPE_SITES) tape[site] = toText(row[site]);
+  const skinfolds: Draft["skinfolds"] = {};
+  for (const [site, mm] of Object.entries(row.skinfolds_mm ?? {})) skinfolds[site as SkinfoldSite] = toText(mm);
+  return { tape, skinfolds };
+}
+
+function recordFromDraft(userId: string, dayDate: string, draft: Draft): Omit<BodyMeasurementRecord, "updatedAt"> {
+  const skinfolds: Partial<Record<SkinfoldSite, number>> = {};
+  for (const [site, text] of Object.entries(draft.skinfolds)) {
+    const mm = toNum(text);
+    if (mm != null && mm > 0) skinfolds[site as SkinfoldSite] = mm;
+  }
+  return {
+    user_id: userId,
+    taken_on: dayDate,
+    weight_lbs: toNum(draft.tape.weight_lbs),
+    waist_in: toNum(draft.tape.waist_in),
+    chest_in: toNum(draft.tape.chest_in),
+    upper_arm_in: toNum(draft.tape.upper_arm_in),
+    forearm_in: toNum(draft.tape.forearm_in),
+    thigh_in: toNum(draft.tape.thigh_in),
+    calf_in: toNum(draft.tape.calf_in),
+    hips_in: toNum(draft.tape.hips_in),
+    neck_in: toNum(draft.tape.neck_in),
+    skinfolds_mm: Object.keys(skinfolds).length ? skinfolds : null,
+  };
+}
+
+function signed(v: number): string {
+  return `${v >= 0 ? "+" : ""}${v.toFixed(1)}`;
+}
+
+export default function ProgressMeasurements({ userId, dayDate, saved, quickLog, profile, onProfileChange, monthSummary, onSaved }: Props) {
+  const [busy, setBusy] = useState(false);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+
+  // Reset only when the day or the stored set changes, so a refresh doesn't eat half-typed values.
+  useEffect(() => {
+    if (saved) setDraft(draftFromRecord(saved));
+    else setDraft({ tape: { weight_lbs: toText(quickLog?.weight_lbs), waist_in: toText(quickLog?.waist_in) }, skinfolds: {} });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [dayDate, saved?.updatedAt, quickLog?.updatedAt]);
+
+  const skinfoldSites = skinfoldSitesFor(profile.skinfold_protocol, profile.sex);
+
+  const estimate = useMemo(() => {
+    const row = recordFromDraft(userId, dayDate, draft);
+    const navyPct = navyBodyFat(row, profile);
+    const skinfoldPct = skinfoldBodyFat(row, profile);
+    const pct = skinfoldPct ?? navyPct;
+    const leanLbs = pct != null && row.weight_lbs != null ? row.weight_lbs * (1 - pct / 100) : null;
+    return { navyPct, skinfoldPct, leanLbs };
+  }, [userId, dayDate, draft, profile]);
+
+  const navyMissing = [
+    !profile.sex ? "sex" : null,
+    profile.height_in == null ? "height" : null,
+    !profile.tape_sites.includes("neck_in") ? "the neck site" : null,
+    profile.sex === "female" && !profile.tape_sites.includes("hips_in") ? "the hips site" : null,
+  ].filter(Boolean);
+
+  function setTape(key: FieldKey, value: string) {
+    setDraft((d) => ({ ...d, tape: { ...d.tape, [key]: value } }));
+  }
+
+  function setSkinfold(site: SkinfoldSite, value: string) {
+    setDraft((d) => ({ ...d, skinfolds: { ...d.skinfolds, [site]: value } }));
+  }
+
+  function toggleSite(site: TapeSite) {
+    const on = profile.tape_sites.includes(site);
+    onProfileChange({ ...profile, tape_sites: on ? profile.tape_sites.filter((s) => s !== site) : [...profile.tape_sites, site] });
+  }
+
+  async function save() {
+    setBusy(true);
+    try {
+      // Saved on this device and queued; sync pushes it to body_measurements.
+      await saveBodyMeasurement(recordFromDraft(userId, dayDate, draft));
+      onSaved();
+      alert("Measurements saved.");
+    } catch (e: any) {
+      alert(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div>
+      <h3>Measurements</h3>
+      <p style={{ opacity: 0.8 }}>One set per day, saved on this device first. Auto-fills weight/waist from Quick Log when available.</p>
+
+      <div style={{ display: "grid", gap: 8, maxWidth: 520 }}>
+        <label>
+          Weight (lbs):{" "}
+          <input value={draft.tape.weight_lbs ?? ""} onChange={(e) => setTape("weight_lbs", e.target.value)} inputMode="decimal" style={{ width: 120 }} />
+        </label>
+        <label>
+          Waist (in):{" "}
+          <input value={draft.tape.waist_in ?? ""} onChange={(e) => setTape("waist_in", e.target.value)} inputMode="decimal" style={{ width: 120 }} />
+        </label>
+
+        {profile.tape_sites.map((site) => (
+          <label key={site}>
+            {TAPE_SITE_LABELS[site]} (in):{" "}
+            <input value={draft.tape[site] ?? ""} onChange={(e) => setTape(site, e.target.value)} inputMode="decimal" style={{ width: 120 }} />
+          </label>
+        ))}
+
+        {skinfoldSites.length ? (
+          <div style={{ display: "grid", gap: 8, marginTop: 4 }}>
+            <strong style={{ fontSize: 13 }}>Skinfolds (mm) — {SKINFOLD_PROTOCOL_LABELS[profile.skinfold_protocol]}</strong>
+            {skinfoldSites.map((site) => (
+              <label key={site}>
+                {SKINFOLD_SITE_LABELS[site]}:{" "}
+                <input value={draft.skinfolds[site] ?? ""} onChange={(e) => setSkinfold(site, e.target.value)} inputMode="decimal" style={{ width: 120 }} />
+              </label>
+            ))}
+          </div>
+        ) : null}
+
+        <button onClick={save} disabled={busy}>
+          {busy ? "Saving..." : "Save measurements"}
+        </button>
+
+        <div style={{ padding: 10, borderRadius: 10, background: "rgba(255,255,255,0.06)", fontSize: 13 }}>
+          <strong>Estimates for this set</strong>
+          <div style={{ marginTop: 6 }}>
+            Navy body fat: {estimate.navyPct == null ? "—" : `${estimate.navyPct.toFixed(1)}%`}
+            {estimate.navyPct == null && navyMissing.length ? <span style={{ opacity: 0.7 }}> (needs {navyMissing.join(", ")})</span> : null}
+          </div>
+          {profile.skinfold_protocol !== "none" ? (
+            <div style={{ marginTop: 4 }}>
+              Skinfold body fat: {estimate.skinfoldPct == null ? "—" : `${estimate.skinfoldPct.toFixed(1)}%`}
+              {estimate.skinfoldPct == null && (!profile.sex || profile.birth_year == null) ? (
+                <span style={{ opacity: 0.7 }}> (needs sex and birth year)</span>
+              ) : null}
+            </div>
+          ) : null}
+          <div style={{ marginTop: 4 }}>Lean mass: {estimate.leanLbs == null ? "—" : `${estimate.leanLbs.toFixed(1)} lbs`}</div>
+
+          {monthSummary ? (
+            <div style={{ marginTop: 8, opacity: 0.85 }}>
+              This month: trend weight{" "}
+              {monthSummary.weightTrendEnd == null
+                ? "—"
+                : `${monthSummary.weightTrendEnd.toFixed(1)} lbs${monthSummary.weightDelta == null ? "" : ` (${signed(monthSummary.weightDelta)})`}`}
+              {monthSummary.bodyFatPct != null
+                ? ` • body fat ${monthSummary.bodyFatPct.toFixed(1)}%${monthSummary.bodyFatDelta == null ? "" : ` (${signed(monthSummary.bodyFatDelta)})`}`
+                : ""}
+              {monthSummary.leanMassDelta != null ? ` • lean mass ${signed(monthSummary.leanMassDelta)} lbs` : ""}
+            </div>
+          ) : null}
+        </div>
+
+        <details>
+          <summary>Body composition setup</summary>
+          <div style={{ display: "grid", gap: 8, marginTop: 8 }}>
+            <label>
+              Sex:{" "}
+              <select
+                value={profile.sex ?? ""}
+                onChange={(e) => onProfileChange({ ...profile, sex: e.target.value === "male" || e.target.value === "female" ? e.target.value : null })}
+                style={{ padding: 6 }}
+              >
+                <option value="">Not set</option>
+                <option value="male">Male</option>
+                <option value="female">Female</option>
+              </select>
+            </label>
+            <label>
+              Height (in):{" "}
+              <input
+                key={`h-${profile.height_in ?? ""}`}
+                defaultValue={toText(profile.height_in)}
+                onBlur={(e) => onProfileChange({ ...profile, height_in: toNum(e.target.value) })}
+                inputMode="decimal"
+                style={{ width: 120 }}
+              />
+            </label>
+            <label>
+              Birth year:{" "}
+              <input
+                key={`b-${profile.birth_year ?? ""}`}
+                defaultValue={toText(profile.birth_year)}
+                onBlur={(e) => onProfileChange({ ...profile, birth_year: toNum(e.target.value) })}
+                inputMode="numeric"
+                style={{ width: 120 }}
+              />
+            </label>
+            <div>
+              Tape sites:
+              <div style={{ display: "flex", gap: 10, flexWrap: "wrap", marginTop: 4 }}>
+                {TAPE_SITES.map((site) => (
+                  <label key={site} style={{ display: "inline-flex", alignItems: "center", gap: 4 }}>
+                    <input type="checkbox" checked={profile.tape_sites.includes(site)} onChange={() => toggleSite(site)} />
+                    {TAPE_SITE_LABELS[site]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label>
+              Skinfolds:{" "}
+              <select
+                value={profile.skinfold_protocol}
+                onChange={(e) => onProfileChange({ ...profile, skinfold_protocol: e.target.value as SkinfoldProtocol })}
+                style={{ padding: 6 }}
+              >
+                {(Object.keys(SKINFOLD_PROTOCOL_LABELS) as SkinfoldProtocol[]).map((p) => (
+                  <option key={p} value={p}>{SKINFOLD_PROTOCOL_LABELS[p]}</option>
+                ))}
+              </select>
+            </label>
+            {profile.skinfold_protocol === "jp3" && !profile.sex ? (
+              <div style={{ fontSize: 12, opacity: 0.75 }}>The 3-site protocol pinches different sites for men and women; set sex first.</div>
+            ) : null}
+          </div>
+        </details>
+      </div>
+    </div>
+  );
+}
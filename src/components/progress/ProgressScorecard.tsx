@@ -420,6 +420,19 @@ export default function ProgressScorecard(props: Props) {
                   ? "—"
                   : `${monthStats.mWaist.first.toFixed(1)} → ${monthStats.mWaist.last?.toFixed(1)} (${monthStats.mWaist.delta! >= 0 ? "+" : ""}${monthStats.mWaist.delta!.toFixed(1)})`}
               </div>
+              <div style={{ marginTop: 6, opacity: 0.9 }}>
+                Trend weight:{" "}
+                {monthStats.bodyComp?.weightTrendEnd == null
+                  ? "—"
+                  : `${monthStats.bodyComp.weightTrendEnd.toFixed(1)}${monthStats.bodyComp.weightDelta == null ? "" : ` (${monthStats.bodyComp.weightDelta >= 0 ? "+" : ""}${monthStats.bodyComp.weightDelta.toFixed(1)})`}`}
+              </div>
+              {monthStats.bodyComp?.bodyFatPct != null ? (
+                <div style={{ marginTop: 6, opacity: 0.9 }}>
+                  Body fat ({monthStats.bodyComp.bodyFatMethod === "skinfold" ? "skinfold" : "Navy"}): {monthStats.bodyComp.bodyFatPct.toFixed(1)}%
+                  {monthStats.bodyComp.bodyFatDelta == null ? "" : ` (${monthStats.bodyComp.bodyFatDelta >= 0 ? "+" : ""}${monthStats.bodyComp.bodyFatDelta.toFixed(1)})`}
+                  {monthStats.bodyComp.leanMassDelta == null ? "" : ` • lean ${monthStats.bodyComp.leanMassDelta >= 0 ? "+" : ""}${monthStats.bodyComp.leanMassDelta.toFixed(1)} lbs`}
+                </div>
+              ) : null}
               <div style={{ marginTop: 6, opacity: 0.8, fontSize: 12 }}>
                 Tip: Quick Log is your “daily signal.” Measurements are your “official tape.”
               </div>
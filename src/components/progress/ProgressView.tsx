@@ -1,10 +1,39 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "../../supabase";
-import { localdb, type LocalDailyMetrics, type LocalNutritionDaily, type LocalWorkoutExercise, type LocalWorkoutSession, type LocalWorkoutSet, type LocalZone2Daily } from "../../localdb";
+import { localdb, type LocalProgressPhoto, type LocalDailyMetrics, type LocalNutritionDaily, type LocalWorkoutExercise, type LocalWorkoutSession, type LocalWorkoutSet, type LocalZone2Daily } from "../../localdb";
 import { buildProgressSignals } from "../../lib/progressSignals";
+import {
+  PROGRESS_PHOTO_BUCKET,
+  cacheProgressPhotoThumb,
+  deleteProgressPhoto,
+  listProgressPhotos,
+  pullProgressPhotos,
+  saveProgressPhoto,
+  updateProgressPhoto,
+} from "../../progressPhotos";
 import ProgressScorecard from "./ProgressScorecard";
 import ProgressFlipbook from "./ProgressFlipbook";
 import ProgressCompare from "./ProgressCompare";
+import ProgressCapture from "./ProgressCapture";
+import ProgressMeasurements from "./ProgressMeasurements";
+import { listBodyMeasurements, loadBodyCompProfile, pullBodyMeasurements, saveBodyCompProfile } from "../../bodyMeasurements";
+import {
+  DEFAULT_BODY_COMP_PROFILE,
+  WEIGHT_TREND_WARMUP_DAYS,
+  summarizeBodyComposition,
+  type BodyCompProfile,
+  type BodyMeasurementRecord,
+} from "../../lib/bodyComposition";
+import {
+  ALIGN_SAMPLE_WIDTH,
+  IDENTITY_ALIGNMENT,
+  alignmentFields,
+  alignmentOf,
+  estimatePhotoAlignment,
+  type AlignImage,
+  type AutoAlignResult,
+  type PhotoAlignment,
+} from "../../lib/photoAlignment";
 
 type Pose = "front" | "quarter" | "side" | "back" | "other";
 
@@ -21,21 +50,8 @@ type ProgressPhotoRow = {
   created_at: string;
   align_x?: number | null;
   align_y?: number | null;
-};
-
-type MeasurementRow = {
-  id: string;
-  taken_on: string;
-  weight_lbs: number | null;
-  waist_in: number | null;
-  chest_in: number | null;
-  hips_in: number | null;
-  neck_in: number | null;
-  upper_arm_in: number | null;
-  thigh_in: number | null;
-  calf_in: number | null;
-  forearm_in: number | null;
-  created_at: string;
+  align_scale?: number | null;
+  align_rotation?: number | null;
 };
 
 const CORE_POSES: Pose[] = ["front", "side", "back"]
@@ -78,7 +94,7 @@ function inRange(ymd: string, start: string, end: string): boolean {
   return ymd >= start && ymd <= end;
 }
 
-async function compressImage(file: File, maxDim = 1600, quality = 0.82): Promise<Blob> {
+async function compressImage(file: Blob, maxDim = 1600, quality = 0.82): Promise<Blob> {
   const imgUrl = URL.createObjectURL(file);
   try {
     const img = await new Promise<HTMLImageElement>((resolve, reject) => {
@@ -111,6 +127,43 @@ async function compressImage(file: File, maxDim = 1600, quality = 0.82): Promise
   }
 }
 
+// Small RGBA copy of a photo for auto-align; signed URLs need crossOrigin to be readable.
+async function loadAlignImage(src: string): Promise<AlignImage> {
+  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const el = new Image();
+    el.crossOrigin = "anonymous";
+    el.onload = () => resolve(el);
+    el.onerror = reject;
+    el.src = src;
+  });
+  const w = ALIGN_SAMPLE_WIDTH;
+  const h = Math.max(1, Math.round((w * img.naturalHeight) / Math.max(1, img.naturalWidth)));
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not available");
+  ctx.drawImage(img, 0, 0, w, h);
+  return ctx.getImageData(0, 0, w, h);
+}
+
+const THUMB_MAX_DIM = 480;
+
+function makeThumbnail(image: Blob): Promise<Blob> {
+  return compressImage(image, THUMB_MAX_DIM, 0.75);
+}
+
+function toPhotoRow(photo: LocalProgressPhoto): ProgressPhotoRow {
+  const { image: _image, thumb: _thumb, uploaded_at: _uploadedAt, ...row } = photo;
+  return { ...row, pose: row.pose as Pose };
+}
+
+// What the device can show for a photo: the full image until it has uploaded, the thumbnail when offline.
+function localDisplayBlob(photo: LocalProgressPhoto | undefined): Blob | null {
+  if (!photo) return null;
+  return photo.image ?? (navigator.onLine ? null : photo.thumb ?? null);
+}
+
 function getCheckinDow(userId: string | null): number {
   if (!userId) return 0;
   const raw = localStorage.getItem(`rebuild60_checkin_dow_${userId}`);
@@ -198,12 +251,14 @@ export default function ProgressView({
   const [rows, setRows] = useState<ProgressPhotoRow[]>([]);
   const [thumbs, setThumbs] = useState<Record<string, string>>({});
   const [galleryBusy, setGalleryBusy] = useState(false);
+  const [pendingUploads, setPendingUploads] = useState(0);
+  const objectUrlsRef = useRef<string[]>([]);
   const [comparePoseFilter, setComparePoseFilter] = useState<"all" | Pose>("all");
   const [compareAnchorsOnly, setCompareAnchorsOnly] = useState(false);
 
   // Measurements state
-  const [mBusy, setMBusy] = useState(false);
-  const [mRow, setMRow] = useState<Partial<MeasurementRow>>({});
+  const [bodyProfile, setBodyProfile] = useState<BodyCompProfile>(DEFAULT_BODY_COMP_PROFILE);
+  const [measNonce, setMeasNonce] = useState(0);
 
   // Compare / Flipbook state
   const [compareOpen, setCompareOpen] = useState(false);
@@ -230,6 +285,11 @@ export default function ProgressView({
   const [alignGrid, setAlignGrid] = useState(false);
   const [flipKeysArmed, setFlipKeysArmed] = useState(false);
   const alignSaveTimer = useRef<number | null>(null);
+  const [autoAlignBusy, setAutoAlignBusy] = useState(false);
+  const [autoAlignNote, setAutoAlignNote] = useState<string | null>(null);
+
+  // Capture mode: camera with the previous same-pose photo ghosted over it
+  const [captureOpen, setCaptureOpen] = useState(false);
 
   // --- Derived windows ---
   const weekWindow = useMemo(() => getWeekWindowForDate(dayDate, checkinDow), [dayDate, checkinDow]);
@@ -257,14 +317,14 @@ export default function ProgressView({
           canvas,
           prevUrl,
           curUrl,
-          { x: (prev.align_x ?? 0) as number, y: (prev.align_y ?? 0) as number },
-          { x: (cur.align_x ?? 0) as number, y: (cur.align_y ?? 0) as number },
+          alignmentOf(prev),
+          alignmentOf(cur),
           ghostOpacity
         );
       } catch {}
     })();
     return () => { cancelled = true; };
-  }, [flipView, flipIdx, ghostOpacity, thumbs, alignX, alignY]);
+  }, [flipView, flipIdx, ghostOpacity, thumbs, alignX, alignY, rows]);
 
   useEffect(() => {
     (async () => {
@@ -280,36 +340,74 @@ export default function ProgressView({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [userId, dayDate]);
 
-  async function ensureThumb(id: string, storage_path: string) {
-    if (thumbs[id]) return;
-    const { data: s, error: se } = await supabase.storage.from("progress-photos").createSignedUrl(storage_path, 60 * 60);
+  useEffect(() => {
+    return () => {
+      for (const url of objectUrlsRef.current) URL.revokeObjectURL(url);
+      objectUrlsRef.current = [];
+    };
+  }, []);
+
+  function localObjectUrl(blob: Blob) {
+    const url = URL.createObjectURL(blob);
+    objectUrlsRef.current.push(url);
+    return url;
+  }
+
+  // Thumbnail made here for a cloud photo, so it still shows offline next time.
+  async function cacheRemoteThumb(id: string, signedUrl: string) {
+    const resp = await fetch(signedUrl);
+    if (!resp.ok) return;
+    await cacheProgressPhotoThumb(id, await makeThumbnail(await resp.blob()));
+  }
+
+  async function ensureThumb(id: string, storage_path: string): Promise<string | undefined> {
+    if (thumbs[id]) return thumbs[id];
+    const local = await localdb.localPhotos.get(id);
+    const blob = localDisplayBlob(local);
+    if (blob) {
+      const url = localObjectUrl(blob);
+      setThumbs((p) => ({ ...p, [id]: url }));
+      return url;
+    }
+    if (!navigator.onLine) return undefined;
+    const { data: s, error: se } = await supabase.storage.from(PROGRESS_PHOTO_BUCKET).createSignedUrl(storage_path, 60 * 60);
     if (se) throw se;
     if (s?.signedUrl) setThumbs((p) => ({ ...p, [id]: s.signedUrl }));
+    if (s?.signedUrl && local && !local.thumb) cacheRemoteThumb(id, s.signedUrl).catch(() => {});
+    return s?.signedUrl;
   }
 
   async function refreshGallery() {
     if (!userId) return;
     setGalleryBusy(true);
     try {
-      const { data, error } = await supabase
-        .from("progress_photos")
-        .select("*")
-        .eq("user_id", userId)
-        .order("taken_on", { ascending: false })
-        .order("created_at", { ascending: false })
-        .limit(400);
-
-      if (error) throw error;
-      const list = (data ?? []) as any as ProgressPhotoRow[];
-      setRows(list);
-
-      // sign a handful for snappy UX
+      if (navigator.onLine) {
+        try {
+          await pullProgressPhotos(userId);
+        } catch (e) {
+          console.warn("[progress] photo pull failed; showing photos on this device", e);
+        }
+      }
+      const list = await listProgressPhotos(userId);
+      setRows(list.map(toPhotoRow));
+      setPendingUploads(list.filter((r) => r.image).length);
+
+      // sign a handful for snappy UX; photos still on the device show from their blobs
+      const staleUrls = objectUrlsRef.current;
+      objectUrlsRef.current = [];
       const next: Record<string, string> = {};
       for (const r of list.slice(0, 80)) {
-        const { data: s, error: se } = await supabase.storage.from("progress-photos").createSignedUrl(r.storage_path, 60 * 60);
+        const blob = localDisplayBlob(r);
+        if (blob) {
+          next[r.id] = localObjectUrl(blob);
+          continue;
+        }
+        if (!navigator.onLine) continue;
+        const { data: s, error: se } = await supabase.storage.from(PROGRESS_PHOTO_BUCKET).createSignedUrl(r.storage_path, 60 * 60);
         if (!se && s?.signedUrl) next[r.id] = s.signedUrl;
       }
       setThumbs(next);
+      window.setTimeout(() => staleUrls.forEach((url) => URL.revokeObjectURL(url)), 1000);
     } catch (e: any) {
       alert(e?.message ?? String(e));
     } finally {
@@ -317,47 +415,22 @@ export default function ProgressView({
     }
   }
 
-  async function loadMeasurementsForDay() {
-    if (!userId) return;
-    setMBusy(true);
-    try {
-      const { data, error } = await supabase
-        .from("body_measurements")
-        .select("*")
-        .eq("user_id", userId)
-        .eq("taken_on", dayDate)
-        .limit(1)
-        .maybeSingle();
-
-      if (error && (error as any).code !== "PGRST116") throw error; // no rows
-      if (data) setMRow(data as any);
-      else {
-        const daily = await localdb.dailyMetrics.get([userId, dayDate]);
-        setMRow({
-          taken_on: dayDate,
-          weight_lbs: daily?.weight_lbs ?? null,
-          waist_in: daily?.waist_in ?? null
-        });
-      }
-    } catch (e: any) {
-      alert(e?.message ?? String(e));
-    } finally {
-      setMBusy(false);
-    }
-  }
-
   useEffect(() => {
     if (!userId) return;
     refreshGallery();
-    loadMeasurementsForDay();
+    loadBodyCompProfile(userId).then(setBodyProfile).catch((e) => console.error(e));
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [userId]);
 
-  useEffect(() => {
+  async function changeBodyProfile(next: BodyCompProfile) {
     if (!userId) return;
-    loadMeasurementsForDay();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [dayDate, userId]);
+    setBodyProfile(next);
+    try {
+      setBodyProfile(await saveBodyCompProfile(userId, next));
+    } catch (e: any) {
+      alert(e?.message ?? String(e));
+    }
+  }
 
   const weekPoseRows = useMemo(() => {
     const byPose: Record<Pose, ProgressPhotoRow[]> = { front: [], quarter: [], side: [], back: [], other: [] };
@@ -413,6 +486,19 @@ export default function ProgressView({
     return out;
   }, [anchorsByPose]);
 
+  // Reference for capture mode and auto-align: the latest earlier anchor of the pose, else any earlier shot of it.
+  const captureGhost = useMemo(() => {
+    if (!CORE_POSES.includes(pose)) return null;
+    const earlier = rows.filter((r) => r.pose === pose && r.taken_on < dayDate); // rows are DESC
+    return earlier.find((r) => r.is_anchor) ?? earlier[0] ?? null;
+  }, [rows, pose, dayDate]);
+
+  useEffect(() => {
+    if (!captureOpen || !captureGhost) return;
+    ensureThumb(captureGhost.id, captureGhost.storage_path).catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [captureOpen, captureGhost?.id]);
+
   const compareRowsFiltered = useMemo(() => {
     return rows.filter((r) => {
       if (comparePoseFilter !== "all" && r.pose !== comparePoseFilter) return false;
@@ -529,7 +615,10 @@ const [monthReportBusy, setMonthReportBusy] = useState(false);
 const [monthDaily, setMonthDaily] = useState<LocalDailyMetrics[]>([]);
 const [monthNutrition, setMonthNutrition] = useState<LocalNutritionDaily[]>([]);
 const [monthZone2, setMonthZone2] = useState<LocalZone2Daily[]>([]);
-const [monthMeas, setMonthMeas] = useState<MeasurementRow[]>([]);
+const [monthMeas, setMonthMeas] = useState<BodyMeasurementRecord[]>([]);
+// Quick Log and tape reaching back before the month, so the weight trend has settled by day one
+const [trendDaily, setTrendDaily] = useState<LocalDailyMetrics[]>([]);
+const [trendMeas, setTrendMeas] = useState<BodyMeasurementRecord[]>([]);
 const [monthSessions, setMonthSessions] = useState<LocalWorkoutSession[]>([]);
 const [monthExercises, setMonthExercises] = useState<LocalWorkoutExercise[]>([]);
 const [monthSets, setMonthSets] = useState<LocalWorkoutSet[]>([]);
@@ -693,12 +782,13 @@ useEffect(() => {
     setMonthReportBusy(true);
     try {
       const { startYMD, endYMD } = monthStartEnd(dayDate);
+      const trendStartYMD = addDays(startYMD, -WEIGHT_TREND_WARMUP_DAYS);
 
       // Quick Log + training data from local Dexie
-      const [daily, nutrition, zone2, sessions] = await Promise.all([
+      const [trendDailyRows, nutrition, zone2, sessions] = await Promise.all([
         localdb.dailyMetrics
           .where("[user_id+day_date]")
-          .between([userId, startYMD], [userId, endYMD], true, true)
+          .between([userId, trendStartYMD], [userId, endYMD], true, true)
           .sortBy("day_date"),
         localdb.nutritionDaily
           .where("[user_id+day_date]")
@@ -714,7 +804,8 @@ useEffect(() => {
           .filter((row) => row.day_date >= startYMD && row.day_date <= endYMD)
           .sortBy("day_date"),
       ]);
-      setMonthDaily(daily ?? []);
+      setTrendDaily(trendDailyRows ?? []);
+      setMonthDaily((trendDailyRows ?? []).filter((row) => row.day_date >= startYMD));
       setMonthNutrition(nutrition ?? []);
       setMonthZone2(zone2 ?? []);
       setMonthSessions(sessions ?? []);
@@ -733,17 +824,17 @@ useEffect(() => {
         setMonthSets([]);
       }
 
-      // Measurements from Supabase
-      const { data: mdata, error: merr } = await supabase
-        .from("body_measurements")
-        .select("*")
-        .eq("user_id", userId)
-        .gte("taken_on", startYMD)
-        .lte("taken_on", endYMD)
-        .order("taken_on", { ascending: true });
-
-      if (merr && (merr as any).code !== "PGRST116") throw merr;
-      setMonthMeas((mdata as any) ?? []);
+      // Measurements live on this device; pull first so another device's tape shows up
+      if (navigator.onLine) {
+        try {
+          await pullBodyMeasurements(userId);
+        } catch (e) {
+          console.warn("[progress] measurement pull failed; showing measurements on this device", e);
+        }
+      }
+      const meas = await listBodyMeasurements(userId, trendStartYMD, endYMD);
+      setTrendMeas(meas);
+      setMonthMeas(meas.filter((row) => row.taken_on >= startYMD));
     } catch (e: any) {
       // Keep the rest of the page usable even if report fetch fails
       console.error(e);
@@ -752,7 +843,7 @@ useEffect(() => {
     }
   })();
   // eslint-disable-next-line react-hooks/exhaustive-deps
-}, [userId, dayDate]);
+}, [userId, dayDate, measNonce]);
 
 // Load Progress artifact history (remote-first)
 useEffect(() => {
@@ -821,6 +912,14 @@ const monthStats = useMemo(() => {
     return vals.reduce((a, b) => a + b, 0) / vals.length;
   };
 
+  const bodyComp = summarizeBodyComposition({
+    startYMD,
+    endYMD,
+    daily: trendDaily,
+    measurements: trendMeas,
+    profile: bodyProfile,
+  });
+
   const signals = buildProgressSignals({
     monthKey: monthKey(dayDate),
     startYMD,
@@ -834,6 +933,7 @@ const monthStats = useMemo(() => {
     monthExercises,
     monthSets,
     visionText,
+    bodyComposition: bodyComp,
   });
 
   return {
@@ -856,9 +956,10 @@ const monthStats = useMemo(() => {
     adherenceScore: signals.adherenceScore,
     progressionHits: signals.progressionHits,
     pushPullBalance: signals.pushPullBalance,
+    bodyComp,
     signals,
   };
-}, [dayDate, monthDaily, monthNutrition, monthZone2, monthMeas, monthSessions, monthExercises, monthSets, rows, visionText]);
+}, [dayDate, monthDaily, monthNutrition, monthZone2, monthMeas, trendDaily, trendMeas, bodyProfile, monthSessions, monthExercises, monthSets, rows, visionText]);
 
 const previousScorecard = useMemo<Scorecard | null>(() => {
   if (!scorecard || scoreHistory.length === 0) return null;
@@ -923,7 +1024,7 @@ async function buildInsightPayload() {
   const addImg = async (label: string, row?: ProgressPhotoRow) => {
     if (!row?.storage_path) return;
     try {
-      const { data: s, error: se } = await supabase.storage.from("progress-photos").createSignedUrl(row.storage_path, 60 * 10);
+      const { data: s, error: se } = await supabase.storage.from(PROGRESS_PHOTO_BUCKET).createSignedUrl(row.storage_path, 60 * 10);
       if (!se && s?.signedUrl) images.push({ label, url: s.signedUrl });
     } catch {
       // ignore
@@ -1110,9 +1211,9 @@ async function runVisionPhysiqueAnalysis() {
   try {
     // Ensure we have signed URLs
     // (Don't rely on React state here; fetch signed URLs directly to avoid race conditions.)
-    const { data: sa, error: sea } = await supabase.storage.from("progress-photos").createSignedUrl(a.storage_path, 60 * 60);
+    const { data: sa, error: sea } = await supabase.storage.from(PROGRESS_PHOTO_BUCKET).createSignedUrl(a.storage_path, 60 * 60);
     if (sea) throw sea;
-    const { data: sb, error: seb } = await supabase.storage.from("progress-photos").createSignedUrl(b.storage_path, 60 * 60);
+    const { data: sb, error: seb } = await supabase.storage.from(PROGRESS_PHOTO_BUCKET).createSignedUrl(b.storage_path, 60 * 60);
     if (seb) throw seb;
     const imageA = sa?.signedUrl;
     const imageB = sb?.signedUrl;
@@ -1173,7 +1274,7 @@ function updateLocalAlign(photoId: string, x: number, y: number) {
   }
 
   async function persistAlign(photoId: string, x: number, y: number) {
-    await supabase.from("progress_photos").update({ align_x: x, align_y: y }).eq("id", photoId);
+    await updateProgressPhoto(photoId, { align_x: x, align_y: y });
   }
 
   function schedulePersistAlign(photoId: string, x: number, y: number) {
@@ -1183,6 +1284,25 @@ function updateLocalAlign(photoId: string, x: number, y: number) {
     }, 180);
   }
 
+  // Full transform (auto-align, reset, copy): scale and rotation travel with the offset.
+  function updateLocalTransform(photoId: string, a: PhotoAlignment) {
+    setRows((prev) => prev.map((r) => (r.id === photoId ? { ...r, ...alignmentFields(a) } : r)));
+  }
+
+  async function persistTransform(photoId: string, a: PhotoAlignment) {
+    await updateProgressPhoto(photoId, alignmentFields(a));
+  }
+
+  function applyTransform(photoId: string, a: PhotoAlignment) {
+    const cur = flipList[flipIdx];
+    if (cur?.id === photoId) {
+      setAlignX(a.x);
+      setAlignY(a.y);
+    }
+    updateLocalTransform(photoId, a);
+    persistTransform(photoId, a).catch(() => {});
+  }
+
   function nudgeAlign(dx: number, dy: number) {
     const cur = flipList[flipIdx];
     if (!cur) return;
@@ -1197,10 +1317,8 @@ function updateLocalAlign(photoId: string, x: number, y: number) {
   function resetAlign() {
     const cur = flipList[flipIdx];
     if (!cur) return;
-    setAlignX(0);
-    setAlignY(0);
-    updateLocalAlign(cur.id, 0, 0);
-    schedulePersistAlign(cur.id, 0, 0);
+    applyTransform(cur.id, IDENTITY_ALIGNMENT);
+    setAutoAlignNote(null);
   }
 
   function copyPrevAlignToCurrent() {
@@ -1208,35 +1326,70 @@ function updateLocalAlign(photoId: string, x: number, y: number) {
     const cur = flipList[flipIdx];
     const prev = flipList[flipIdx - 1];
     if (!cur || !prev) return;
-    const nx = (prev.align_x ?? 0) as number;
-    const ny = (prev.align_y ?? 0) as number;
-    setAlignX(nx);
-    setAlignY(ny);
-    updateLocalAlign(cur.id, nx, ny);
-    schedulePersistAlign(cur.id, nx, ny);
+    applyTransform(cur.id, alignmentOf(prev));
   }
 
   async function copyAlignBetweenPhotos(fromId: string, toId: string) {
     const from = rows.find((r) => r.id === fromId);
     const to = rows.find((r) => r.id === toId);
     if (!from || !to) return;
-    const nx = (from.align_x ?? 0) as number;
-    const ny = (from.align_y ?? 0) as number;
+    const a = alignmentOf(from);
     // update local cache immediately
-    updateLocalAlign(toId, nx, ny);
-    await persistAlign(toId, nx, ny);
+    updateLocalTransform(toId, a);
+    await persistTransform(toId, a);
 
     // If compare modal is open and we're copying into the active "after" photo, keep it in sync.
     if (compareOpen && compareB && compareB.id === toId) {
-      setCompareB({ ...compareB, align_x: nx, align_y: ny });
+      setCompareB({ ...compareB, ...alignmentFields(a) });
     }
   }
-async function handleUpload() {
+
+  /**
+   * Solves `target` against `reference` as the reference is currently drawn and stores the result.
+   * `targetSrc` lets a fresh upload be read from its local blob before the gallery has a signed URL.
+   */
+  async function autoAlignPhoto(
+    target: ProgressPhotoRow,
+    reference: ProgressPhotoRow,
+    targetSrc?: string
+  ): Promise<AutoAlignResult | null> {
+    const refUrl = await ensureThumb(reference.id, reference.storage_path);
+    const curUrl = targetSrc ?? (await ensureThumb(target.id, target.storage_path));
+    if (!refUrl || !curUrl) return null;
+    const [refImg, curImg] = await Promise.all([loadAlignImage(refUrl), loadAlignImage(curUrl)]);
+    const result = estimatePhotoAlignment(refImg, alignmentOf(reference), curImg);
+    if (!result) return null;
+    applyTransform(target.id, result.transform);
+    return result;
+  }
+
+  function describeAutoAlign(result: AutoAlignResult | null): string {
+    if (!result) return "Auto-align couldn't find a body in one of the photos. Nudge by hand.";
+    const t = result.transform;
+    const head = `Auto-aligned (${result.method}, ${result.confidence} confidence): ${t.x}, ${t.y} px • ${t.scale}× • ${t.rotationDeg}°`;
+    return result.notes.length ? `${head}. ${result.notes.join(". ")}.` : head;
+  }
+
+  async function autoAlignCurrent() {
+    if (flipIdx <= 0) return;
+    const cur = flipList[flipIdx];
+    const prev = flipList[flipIdx - 1];
+    if (!cur || !prev) return;
+    setAutoAlignBusy(true);
+    try {
+      setAutoAlignNote(describeAutoAlign(await autoAlignPhoto(cur, prev)));
+    } catch (e: any) {
+      setAutoAlignNote(`Auto-align failed: ${e?.message ?? String(e)}`);
+    } finally {
+      setAutoAlignBusy(false);
+    }
+  }
+async function handleUpload(captured?: Blob) {
     if (!userId) {
       alert("Not signed in.");
       return;
     }
-    const f = fileRef.current?.files?.[0];
+    const f = captured ?? fileRef.current?.files?.[0];
     if (!f) {
       alert("Pick a photo first.");
       return;
@@ -1244,22 +1397,19 @@ async function handleUpload() {
 
     setUploadBusy(true);
     try {
-      // Compress & upload
+      // Compress, thumbnail and save on the device; the sync queue uploads it
       const blob = await compressImage(f);
+      const thumb = await makeThumbnail(blob).catch(() => null);
       const stamp = Date.now();
       const path = `${userId}/${dayDate}/${pose}_${stamp}.jpg`;
 
-      const { error: upErr } = await supabase.storage.from("progress-photos").upload(path, blob, {
-        contentType: "image/jpeg",
-        upsert: false
-      });
-      if (upErr) throw upErr;
-
       const wl = weightLbs.trim() ? Number(weightLbs) : null;
       const wi = waistIn.trim() ? Number(waistIn) : null;
 
       let inherit_align_x: number | null = null;
       let inherit_align_y: number | null = null;
+      let inherit_align_scale: number | null = null;
+      let inherit_align_rotation: number | null = null;
 
       // Anchor rule: For Front/Side/Back, mark the FIRST photo in the current week as is_anchor.
 let is_anchor: boolean | null = null;
@@ -1284,13 +1434,16 @@ if (CORE_POSES.includes(pose)) {
       if (last) {
         inherit_align_x = (last.align_x ?? 0) as number;
         inherit_align_y = (last.align_y ?? 0) as number;
+        inherit_align_scale = last.align_scale ?? null;
+        inherit_align_rotation = last.align_rotation ?? null;
       }
     } catch {
       // ignore: alignment inheritance is a convenience only
     }
   }
 }
-const { error: insErr } = await supabase.from("progress_photos").insert({
+const photo: ProgressPhotoRow = {
+        id: crypto.randomUUID(),
         user_id: userId,
         taken_on: dayDate,
         pose,
@@ -1301,14 +1454,28 @@ const { error: insErr } = await supabase.from("progress_photos").insert({
         is_anchor,
         align_x: inherit_align_x,
         align_y: inherit_align_y,
-      });
-
-      if (insErr) throw insErr;
+        align_scale: inherit_align_scale,
+        align_rotation: inherit_align_rotation,
+        created_at: new Date(stamp).toISOString(),
+      };
+      await saveProgressPhoto(photo, blob, thumb);
 
       // cleanup
       if (fileRef.current) fileRef.current.value = "";
       await refreshGallery();
 
+      // Auto-align against the capture ghost; the inherited offset stays if it can't find a body.
+      if (captureGhost) {
+        const localUrl = URL.createObjectURL(blob);
+        try {
+          setAutoAlignNote(describeAutoAlign(await autoAlignPhoto(photo, captureGhost, localUrl)));
+        } catch {
+          // ignore: alignment can always be redone from the Flipbook
+        } finally {
+          URL.revokeObjectURL(localUrl);
+        }
+      }
+
       // Guided check-in stepper
       if (checkinMode) {
         const nextMissing = CORE_POSES.find((p) => {
@@ -1339,53 +1506,14 @@ const { error: insErr } = await supabase.from("progress_photos").insert({
     if (!ok) return;
 
     try {
-      const { error: delErr } = await supabase.storage.from("progress-photos").remove([r.storage_path]);
-      if (delErr) throw delErr;
-
-      const { error: rowErr } = await supabase.from("progress_photos").delete().eq("id", r.id);
-      if (rowErr) throw rowErr;
-
-      // optional AI reviews table (future)
-      try {
-        await supabase.from("photo_ai_reviews").delete().eq("photo_id", r.id);
-      } catch {
-        // ignore
-      }
-
+      // Queued: the image, row and AI reviews are removed from the cloud on the next sync.
+      await deleteProgressPhoto(r);
       await refreshGallery();
     } catch (e: any) {
       alert(e?.message ?? String(e));
     }
   }
 
-  async function saveMeasurements() {
-    if (!userId) return;
-    setMBusy(true);
-    try {
-      const payload: any = {
-        user_id: userId,
-        taken_on: dayDate,
-        weight_lbs: mRow.weight_lbs ?? null,
-        waist_in: mRow.waist_in ?? null,
-        chest_in: mRow.chest_in ?? null,
-        hips_in: mRow.hips_in ?? null,
-        neck_in: mRow.neck_in ?? null,
-        upper_arm_in: mRow.upper_arm_in ?? null,
-        thigh_in: mRow.thigh_in ?? null,
-        calf_in: mRow.calf_in ?? null,
-        forearm_in: mRow.forearm_in ?? null
-      };
-
-      const { error } = await supabase.from("body_measurements").upsert(payload, { onConflict: "user_id,taken_on" });
-      if (error) throw error;
-      alert("Measurements saved.");
-    } catch (e: any) {
-      alert(e?.message ?? String(e));
-    } finally {
-      setMBusy(false);
-    }
-  }
-
   async function openCompareForRow(r: ProgressPhotoRow) {
     // Compare this photo (B) against previous anchor for same pose (A)
     const prev = (anchorsByPose[r.pose] ?? []).find((x) => x.taken_on < r.taken_on);
@@ -1429,9 +1557,9 @@ const { error: insErr } = await supabase.from("progress_photos").insert({
 
   function compareReset() {
     if (!compareB) return;
-    setCompareB({ ...compareB, align_x: 0, align_y: 0 });
-    updateLocalAlign(compareB.id, 0, 0);
-    schedulePersistAlign(compareB.id, 0, 0);
+    setCompareB({ ...compareB, ...alignmentFields(IDENTITY_ALIGNMENT) });
+    updateLocalTransform(compareB.id, IDENTITY_ALIGNMENT);
+    persistTransform(compareB.id, IDENTITY_ALIGNMENT).catch(() => {});
   }
 
   if (!userId) {
@@ -1442,8 +1570,8 @@ const { error: insErr } = await supabase.from("progress_photos").insert({
     canvas: HTMLCanvasElement | null,
     prevUrl: string | undefined,
     curUrl: string | undefined,
-    prevAlign: { x: number; y: number },
-    curAlign: { x: number; y: number },
+    prevAlign: PhotoAlignment,
+    curAlign: PhotoAlignment,
     intensityPct = 35
   ) {
     if (!canvas || !prevUrl || !curUrl) return;
@@ -1471,18 +1599,25 @@ const { error: insErr } = await supabase.from("progress_photos").insert({
     const ctxB = offB.getContext("2d");
     if (!ctxA || !ctxB) return;
 
-    const drawContain = (c: CanvasRenderingContext2D, img: HTMLImageElement, ox: number, oy: number) => {
+    // Same geometry as the CSS transform on the Flipbook images: translate, then rotate and scale about the centre.
+    const drawContain = (c: CanvasRenderingContext2D, img: HTMLImageElement, align: PhotoAlignment) => {
       c.clearRect(0, 0, w, h);
       const scale = Math.min(w / img.naturalWidth, h / img.naturalHeight);
       const dw = img.naturalWidth * scale;
       const dh = img.naturalHeight * scale;
       const dx = (w - dw) / 2;
       const dy = (h - dh) / 2;
-      c.drawImage(img, dx + ox, dy + oy, dw, dh);
+      c.save();
+      c.translate(w / 2 + align.x, h / 2 + align.y);
+      c.rotate((align.rotationDeg * Math.PI) / 180);
+      c.scale(align.scale, align.scale);
+      c.translate(-w / 2, -h / 2);
+      c.drawImage(img, dx, dy, dw, dh);
+      c.restore();
     };
 
-    drawContain(ctxA, imgA, prevAlign.x, prevAlign.y);
-    drawContain(ctxB, imgB, curAlign.x, curAlign.y);
+    drawContain(ctxA, imgA, prevAlign);
+    drawContain(ctxB, imgB, curAlign);
 
     if (mode === "diff") {
       const a = ctxA.getImageData(0, 0, w, h);
@@ -1544,8 +1679,8 @@ const { error: insErr } = await supabase.from("progress_photos").insert({
           canvas,
           prevUrl,
           curUrl,
-          { x: (compareA.align_x ?? 0) as number, y: (compareA.align_y ?? 0) as number },
-          { x: (compareB.align_x ?? 0) as number, y: (compareB.align_y ?? 0) as number },
+          alignmentOf(compareA),
+          alignmentOf(compareB),
           compareOpacity
         );
       } catch {}
@@ -1727,9 +1862,27 @@ const { error: insErr } = await supabase.from("progress_photos").insert({
               </span>
             </label>
 
-            <label>
-              Photo: <input ref={fileRef} type="file" accept="image/*" />
-            </label>
+            <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+              <label>
+                Photo: <input ref={fileRef} type="file" accept="image/*" />
+              </label>
+              <button onClick={() => setCaptureOpen((v) => !v)}>
+                {captureOpen ? "Close camera" : "Capture with ghost"}
+              </button>
+            </div>
+
+            {captureOpen ? (
+              <ProgressCapture
+                pose={pose}
+                ghostUrl={captureGhost ? thumbs[captureGhost.id] : undefined}
+                ghostAlign={alignmentOf(captureGhost)}
+                ghostLabel={captureGhost?.taken_on ?? null}
+                busy={uploadBusy}
+                onCapture={(blob) => handleUpload(blob)}
+              />
+            ) : null}
+
+            {autoAlignNote ? <div style={{ fontSize: 12, opacity: 0.85 }}>{autoAlignNote}</div> : null}
 
             <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
               <label>
@@ -1763,9 +1916,15 @@ const { error: insErr } = await supabase.from("progress_photos").insert({
               />
             </label>
 
-            <button onClick={handleUpload} disabled={uploadBusy}>
-              {uploadBusy ? "Uploading..." : "Upload"}
+            <button onClick={() => handleUpload()} disabled={uploadBusy}>
+              {uploadBusy ? "Saving..." : "Upload"}
             </button>
+            {pendingUploads ? (
+              <div style={{ fontSize: 12, opacity: 0.8 }}>
+                {pendingUploads} photo{pendingUploads === 1 ? "" : "s"} saved on this device, waiting to upload
+                {navigator.onLine ? "." : " (offline)."}
+              </div>
+            ) : null}
           </div>
 
           <hr />
@@ -1847,6 +2006,9 @@ const { error: insErr } = await supabase.from("progress_photos").insert({
             flipKeysArmed={flipKeysArmed}
             setFlipKeysArmed={setFlipKeysArmed}
             copyPrevAlignToCurrent={copyPrevAlignToCurrent}
+            autoAlignCurrent={autoAlignCurrent}
+            autoAlignBusy={autoAlignBusy}
+            autoAlignNote={autoAlignNote}
           />
 
           <ProgressCompare
@@ -1892,59 +2054,16 @@ const { error: insErr } = await supabase.from("progress_photos").insert({
       )}
 
       {mode === "measures" && (
-        <div>
-          <h3>Measurements</h3>
-          <p style={{ opacity: 0.8 }}>One set per day. Auto-fills weight/waist from Quick Log when available.</p>
-
-          <div style={{ display: "grid", gap: 8, maxWidth: 520 }}>
-            <label>
-              Weight (lbs):{" "}
-              <input
-                value={mRow.weight_lbs ?? ""}
-                onChange={(e) => setMRow((p) => ({ ...p, weight_lbs: e.target.value ? Number(e.target.value) : null }))}
-                style={{ width: 120 }}
-              />
-            </label>
-            <label>
-              Waist (in):{" "}
-              <input
-                value={mRow.waist_in ?? ""}
-                onChange={(e) => setMRow((p) => ({ ...p, waist_in: e.target.value ? Number(e.target.value) : null }))}
-                style={{ width: 120 }}
-              />
-            </label>
-
-            <details>
-              <summary>More measurements</summary>
-              <div style={{ display: "grid", gap: 8, marginTop: 8 }}>
-                {[
-                  ["chest_in", "Chest (in)"],
-                  ["hips_in", "Hips (in)"],
-                  ["neck_in", "Neck (in)"],
-                  ["upper_arm_in", "Upper arm (in)"],
-                  ["thigh_in", "Thigh (in)"],
-                  ["calf_in", "Calf (in)"],
-                  ["forearm_in", "Forearm (in)"]
-                ].map(([key, label]) => (
-                  <label key={key}>
-                    {label}: {" "}
-                    <input
-                      value={(mRow as any)[key] ?? ""}
-                      onChange={(e) =>
-                        setMRow((p) => ({ ...p, [key]: e.target.value ? Number(e.target.value) : null } as any))
-                      }
-                      style={{ width: 120 }}
-                    />
-                  </label>
-                ))}
-              </div>
-            </details>
-
-            <button onClick={saveMeasurements} disabled={mBusy}>
-              {mBusy ? "Saving..." : "Save measurements"}
-            </button>
-          </div>
-        </div>
+        <ProgressMeasurements
+          userId={userId}
+          dayDate={dayDate}
+          saved={monthMeas.find((row) => row.taken_on === dayDate) ?? null}
+          quickLog={monthDaily.find((row) => row.day_date === dayDate) ?? null}
+          profile={bodyProfile}
+          onProfileChange={changeBodyProfile}
+          monthSummary={monthStats.bodyComp}
+          onSaved={() => setMeasNonce((n) => n + 1)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,104 @@
+import type { BrainInput } from "../lib/brainEngine";
+import type { PreferenceHistoryEntry } from "../lib/preferenceLearning";
+import type { ReadinessInput } from "../lib/readinessTypes";
+import { injuryRecordsFor, simulateUser, type SimSession, type SimulationOptions, type SimulationResult } from "../sim/simulator";
+import { SYNTHETIC_PERSONAS, type PersonaName } from "../sim/syntheticUsers";
+import type { GoldenFixture } from "./pipeline";
+
+/**
+ * Records a golden fixture from a simulator run: the BrainInput the dashboard would have built
+ * on the chosen day, plus a ReadinessInput and preference history reconstructed from the
+ * simulated log (recommended vs performed), so new fixtures need no hand-written JSON.
+ */
+
+export type CaptureOptions = Partial<SimulationOptions> & {
+  name?: string;
+  dayOffset: number; // days after the simulation start
+};
+
+function oneRmEpley(weight: number, reps: number): number {
+  return Math.round(weight * (1 + reps / 30));
+}
+
+function preferenceEntry(session: SimSession, recommendedKeys: string[], previous: SimSession[]): PreferenceHistoryEntry {
+  const performed = new Map(session.exercises.map((ex) => [ex.key, ex]));
+  const exerciseFidelity = recommendedKeys.map((key) => {
+    const ex = performed.get(key);
+    const prescribed = ex ? Number((ex.prescribedSets.match(/\d+/g) ?? ["3"]).pop()) : null;
+    const top = ex?.sets.reduce((best, st) => (st.load > best.load ? st : best), ex.sets[0]) ?? null;
+    return {
+      recommendedKey: key,
+      actualKey: ex ? key : null,
+      status: !ex ? ("missed" as const) : prescribed != null && ex.sets.length < prescribed ? ("partial" as const) : ("matched" as const),
+      recommendedSets: prescribed,
+      actualSets: ex?.sets.length ?? 0,
+      recommendedLoadLbs: ex?.prescribedLoad ?? null,
+      actualTopLoadLbs: top?.load ?? null,
+      recommendedReps: ex?.prescribedReps ?? null,
+      actualTopReps: top?.reps ?? null,
+    };
+  });
+  const prescribedSets = exerciseFidelity.reduce((acc, row) => acc + (row.recommendedSets ?? 3), 0);
+  const actualSets = exerciseFidelity.reduce((acc, row) => acc + row.actualSets, 0);
+  const adherence = prescribedSets ? actualSets / prescribedSets : 0;
+
+  const anchor = session.exercises[0];
+  const prior = anchor ? previous.flatMap((s) => s.exercises).filter((ex) => ex.key === anchor.key).pop() : null;
+  const best = (sets: Array<{ load: number; reps: number }>) => Math.max(...sets.map((st) => oneRmEpley(st.load, st.reps)));
+  const primaryOutcome: PreferenceHistoryEntry["primaryOutcome"] =
+    !anchor || !prior ? "unknown" : best(anchor.sets) > best(prior.sets) ? "progressed" : best(anchor.sets) === best(prior.sets) ? "matched" : "regressed";
+
+  return {
+    sessionId: `sim-${session.day}`,
+    timestamp: new Date(`${session.day}T12:00:00.000Z`).getTime(),
+    recommendedFocus: session.focus,
+    actualFocus: session.focus,
+    adherenceScore: Math.round(adherence * 100) / 100,
+    substitutionKeys: [],
+    extrasKeys: [],
+    missedKeys: exerciseFidelity.filter((row) => row.status === "missed").map((row) => row.recommendedKey),
+    volumeDelta: actualSets - prescribedSets,
+    loadDeltaAvg: 0,
+    sessionOutcome: adherence >= 0.95 ? "as_prescribed" : adherence < 0.6 ? "partial" : "modified",
+    exerciseFidelity,
+    primaryOutcome,
+    fidelityScore: Math.round(adherence * 100),
+  };
+}
+
+export function captureFixtureFromSimulation(persona: PersonaName, options: CaptureOptions): GoldenFixture {
+  const source = SYNTHETIC_PERSONAS[persona];
+  if (!source) throw new Error(`Unknown persona: ${persona}.`);
+  const weeks = Math.max(options.weeks ?? 0, Math.ceil((options.dayOffset + 1) / 7));
+  let captured: { day: string; input: BrainInput } | null = null;
+  let dayIndex = 0;
+  const result: SimulationResult = simulateUser(source, { ...options, weeks }, ({ day, input }) => {
+    if (dayIndex++ === options.dayOffset) captured = { day, input };
+  });
+  if (!captured) throw new Error(`Day ${options.dayOffset} is outside the simulation.`);
+  const { day, input } = captured as { day: string; input: BrainInput };
+
+  const before = result.sessions.filter((session) => session.day < day);
+  const recommendedKeys = new Map(result.recommendations.map((rec) => [rec.day, rec.exerciseKeys]));
+  const preferenceHistory = before.map((session, idx) => preferenceEntry(session, recommendedKeys.get(session.day) ?? [], before.slice(0, idx)));
+  const trainedDays = new Set(before.map((session) => session.day));
+  const readinessInput: ReadinessInput = {
+    workouts: result.recommendations.filter((rec) => rec.day < day).map((rec) => ({ date: rec.day, completed: trainedDays.has(rec.day) })),
+    bodyweight: result.recommendations
+      .filter((rec, idx) => rec.day < day && idx % 3 === 0)
+      .map((rec, idx) => ({ date: rec.day, weight: Math.round((185 - idx * 0.1) * 10) / 10 })),
+    scorecards: [],
+  };
+
+  return {
+    name: options.name ?? `${persona}-day${options.dayOffset}`,
+    description: `${source.label}, day ${options.dayOffset} of a seed ${result.options.seed} simulation from ${result.options.startDate}.`,
+    asOf: day,
+    brainInput: input,
+    readinessInput,
+    preferenceHistory,
+    previousBlockPlan: null,
+    equipment: source.equipment,
+    injuries: injuryRecordsFor(source, result.options.startDate),
+  };
+}
@@ -0,0 +1,203 @@
+import type { RecommendedExercise, RecommendedSession } from "../lib/brainEngine";
+import { GOLDEN_SECTIONS, type GoldenOutput } from "./pipeline";
+
+/**
+ * Field-level diff between a stored golden output and a fresh run:
+ * - objects are walked key by key, arrays of objects index by index (labelled with the item's
+ *   name when it has one), arrays of primitives are compared whole
+ * - every changed section gets a "why": reasons the engine added or dropped, the new rationale
+ *   or load basis for moved exercises, and any earlier pipeline section that also moved
+ */
+
+export type GoldenSection = keyof GoldenOutput;
+
+export type GoldenChange = {
+  path: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type GoldenSectionDiff = {
+  section: GoldenSection;
+  changes: GoldenChange[];
+  why: string[];
+};
+
+export type GoldenFixtureResult = {
+  name: string;
+  status: "pass" | "changed" | "new";
+  sections: GoldenSectionDiff[];
+};
+
+const MAX_CHANGES_PER_SECTION = 25;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function itemLabel(item: unknown): string {
+  return isPlainObject(item) && typeof item.name === "string" ? ` (${item.name})` : "";
+}
+
+function collectChanges(path: string, before: unknown, after: unknown, out: GoldenChange[]): void {
+  if (sameValue(before, after)) return;
+  if (Array.isArray(before) && Array.isArray(after) && [...before, ...after].some((item) => isPlainObject(item))) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      collectChanges(`${path}[${i}]${itemLabel(after[i] ?? before[i])}`, before[i], after[i], out);
+    }
+    return;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    for (const key of keys) collectChanges(path ? `${path}.${key}` : key, before[key], after[key], out);
+    return;
+  }
+  out.push({ path, before, after });
+}
+
+function reasonDelta(label: string, before: unknown, after: unknown): string[] {
+  const prev = Array.isArray(before) ? before.map(String) : [];
+  const next = Array.isArray(after) ? after.map(String) : [];
+  return [
+    ...next.filter((reason) => !prev.includes(reason)).map((reason) => `${label} added: ${reason}`),
+    ...prev.filter((reason) => !next.includes(reason)).map((reason) => `${label} dropped: ${reason}`),
+  ];
+}
+
+function explainSession(before: RecommendedSession, after: RecommendedSession): string[] {
+  const why: string[] = [];
+  if (before.focus !== after.focus || before.title !== after.title) why.push(`Session is now ${after.title} (${after.focus}): ${after.rationale}`);
+  why.push(...reasonDelta("Alert", before.alerts, after.alerts));
+  const count = Math.max(before.exercises.length, after.exercises.length);
+  for (let i = 0; i < count; i++) {
+    const prev: RecommendedExercise | undefined = before.exercises[i];
+    const next: RecommendedExercise | undefined = after.exercises[i];
+    if (sameValue(prev, next)) continue;
+    if (!next) why.push(`${prev!.slot}: ${prev!.name} no longer prescribed.`);
+    else if (!prev) why.push(`${next.slot}: ${next.name} newly prescribed. ${next.loadBasis}`);
+    else if (prev.name !== next.name) why.push(`${next.slot}: ${prev.name} → ${next.name}. ${next.note}`);
+    else if (prev.sets !== next.sets || prev.reps !== next.reps || prev.load !== next.load) {
+      why.push(`${next.name}: ${next.sets} x ${next.reps} @ ${next.load} (was ${prev.sets} x ${prev.reps} @ ${prev.load}). ${next.loadBasis}`);
+    } else if (prev.loadBasis !== next.loadBasis) why.push(`${next.name}: ${next.loadBasis}`);
+    else if (prev.note !== next.note) why.push(`${next.name}: note now reads "${differingSnippets(prev.note, next.note)[1]}"`);
+  }
+  return why;
+}
+
+function explainSection(section: GoldenSection, before: GoldenOutput, after: GoldenOutput): string[] {
+  switch (section) {
+    case "readiness":
+      return [
+        ...(before.readiness.status !== after.readiness.status ? [`Status ${before.readiness.status} → ${after.readiness.status}: ${after.readiness.summary.reasonShort}`] : []),
+        ...reasonDelta(
+          "Driver",
+          before.readiness.drivers.map((d) => d.label),
+          after.readiness.drivers.map((d) => d.label)
+        ),
+      ];
+    case "frictionProfile":
+      return [
+        ...(sameValue(before.frictionProfile.signals, after.frictionProfile.signals) && before.frictionProfile.score !== after.frictionProfile.score
+          ? [`Same signals scored ${before.frictionProfile.score} → ${after.frictionProfile.score}: the friction scoring rules changed, not the inputs.`]
+          : []),
+        ...reasonDelta("Reason", before.frictionProfile.reasons, after.frictionProfile.reasons),
+        ...reasonDelta("Driver", before.frictionProfile.drivers, after.frictionProfile.drivers),
+      ];
+    case "needWeights":
+      return Object.entries(after.needWeights.reasons).flatMap(([need, reasons]) =>
+        reasonDelta(`${need} reason`, before.needWeights.reasons[need as keyof typeof before.needWeights.reasons], reasons)
+      );
+    case "brainMetrics":
+      return (["readiness", "momentum", "recovery", "compliance"] as const)
+        .filter((metric) => before.brainMetrics[metric].label !== after.brainMetrics[metric].label)
+        .map((metric) => `${metric} ${before.brainMetrics[metric].label} → ${after.brainMetrics[metric].label}`);
+    case "recommendedSession":
+      return explainSession(before.recommendedSession, after.recommendedSession);
+    case "programState":
+      return [
+        ...(before.programState.phase !== after.programState.phase ? [`Phase ${before.programState.phase} → ${after.programState.phase}.`] : []),
+        ...reasonDelta("Reason", before.programState.reasons, after.programState.reasons),
+      ];
+    case "blockPlan":
+      return [
+        ...(before.blockPlan.blockType !== after.blockPlan.blockType || before.blockPlan.waveProfile !== after.blockPlan.waveProfile
+          ? [`Block ${before.blockPlan.blockType}/${before.blockPlan.waveProfile} → ${after.blockPlan.blockType}/${after.blockPlan.waveProfile}.`]
+          : []),
+        ...reasonDelta("Reason", before.blockPlan.reasons, after.blockPlan.reasons),
+      ];
+  }
+}
+
+export function diffGoldenOutputs(name: string, expected: GoldenOutput | null, actual: GoldenOutput): GoldenFixtureResult {
+  if (!expected) return { name, status: "new", sections: [] };
+  const sections: GoldenSectionDiff[] = [];
+  for (const section of GOLDEN_SECTIONS) {
+    const changes: GoldenChange[] = [];
+    collectChanges("", expected[section], actual[section], changes);
+    if (!changes.length) continue;
+    const upstream = sections.map((diff) => diff.section);
+    const why = [
+      ...explainSection(section, expected, actual),
+      ...(upstream.length ? [`Upstream sections also moved: ${upstream.join(", ")}.`] : []),
+    ];
+    sections.push({ section, changes, why });
+  }
+  return { name, status: sections.length ? "changed" : "pass", sections };
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "(absent)";
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+/** Both strings clipped to a window around their first differing character. */
+function differingSnippets(before: string, after: string): [string, string] {
+  let common = 0;
+  while (common < before.length && before[common] === after[common]) common++;
+  const start = Math.max(0, common - 20);
+  const clip = (text: string) => `${start > 0 ? "…" : ""}${text.slice(start, start + 70)}${text.length > start + 70 ? "…" : ""}`;
+  return [clip(before), clip(after)];
+}
+
+/** Long strings are shown around the first differing character; primitive lists as added/removed items. */
+function formatChange(before: unknown, after: unknown): string {
+  if (typeof before === "string" && typeof after === "string" && Math.max(before.length, after.length) > 80) {
+    const [prev, next] = differingSnippets(before, after);
+    return `"${prev}" → "${next}"`;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const prev = before.map((item) => JSON.stringify(item));
+    const next = after.map((item) => JSON.stringify(item));
+    const added = next.filter((item) => !prev.includes(item));
+    const removed = prev.filter((item) => !next.includes(item));
+    if (added.length || removed.length) {
+      return [added.length ? `added ${added.join(", ")}` : "", removed.length ? `removed ${removed.join(", ")}` : ""].filter(Boolean).join("; ");
+    }
+    return `reordered to ${formatValue(after)}`;
+  }
+  return `${formatValue(before)} → ${formatValue(after)}`;
+}
+
+export function renderGoldenReport(results: GoldenFixtureResult[]): string {
+  const changed = results.filter((result) => result.status === "changed").length;
+  const created = results.filter((result) => result.status === "new").length;
+  const lines = [`Golden fixtures: ${results.length - changed - created} pass, ${changed} changed, ${created} new.`];
+  for (const result of results) {
+    if (result.status === "pass") continue;
+    lines.push("", `## ${result.name} — ${result.status === "new" ? "no stored snapshot (run with --update)" : "changed"}`);
+    for (const diff of result.sections) {
+      lines.push("", `### ${diff.section} (${diff.changes.length} field${diff.changes.length === 1 ? "" : "s"})`);
+      for (const change of diff.changes.slice(0, MAX_CHANGES_PER_SECTION)) {
+        lines.push(`- ${change.path || "(root)"}: ${formatChange(change.before, change.after)}`);
+      }
+      if (diff.changes.length > MAX_CHANGES_PER_SECTION) lines.push(`- …and ${diff.changes.length - MAX_CHANGES_PER_SECTION} more`);
+      if (diff.why.length) lines.push("", "Why:", ...diff.why.map((line) => `- ${line}`));
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,23 @@
+import { captureFixtureFromSimulation, type CaptureOptions } from "./capture";
+import { diffGoldenOutputs, renderGoldenReport, type GoldenFixtureResult } from "./diff";
+import { runGoldenPipeline, type GoldenFixture, type GoldenOutput } from "./pipeline";
+
+export { captureFixtureFromSimulation, diffGoldenOutputs, renderGoldenReport, runGoldenPipeline };
+export type { CaptureOptions, GoldenFixture, GoldenFixtureResult, GoldenOutput };
+
+export type GoldenCheck = {
+  results: GoldenFixtureResult[];
+  outputs: Record<string, GoldenOutput>;
+  report: string;
+};
+
+/** Entry point for `npm run golden`: replays every fixture and diffs it against its stored snapshot. */
+export function checkGoldenFixtures(entries: Array<{ fixture: GoldenFixture; expected: GoldenOutput | null }>): GoldenCheck {
+  const outputs: Record<string, GoldenOutput> = {};
+  const results = entries.map(({ fixture, expected }) => {
+    const actual = runGoldenPipeline(fixture);
+    outputs[fixture.name] = actual;
+    return diffGoldenOutputs(fixture.name, expected, actual);
+  });
+  return { results, outputs, report: renderGoldenReport(results) };
+}
@@ -0,0 +1,206 @@
+import { buildActiveBlockPlan, type ActiveBlockPlan } from "../lib/blockPlan";
+import { computeBrainSnapshot, type BrainInput, type BrainSnapshot, type RecommendedSession } from "../lib/brainEngine";
+import type { EquipmentProfile } from "../lib/equipmentTypes";
+import { buildFrictionProfile, type FrictionProfile } from "../lib/frictionEngine";
+import type { InjuryRecord } from "../lib/injuryLog";
+import { deriveNeedWeightProfile, type NeedWeightProfile } from "../lib/needWeights";
+import { derivePreferenceSignals, type PreferenceHistoryEntry } from "../lib/preferenceLearning";
+import { computeProgramState, type ProgramState } from "../lib/programState";
+import { buildReadinessContext } from "../lib/readiness";
+import type { ReadinessContext, ReadinessInput } from "../lib/readinessTypes";
+import { setActiveEquipmentProfile, setActiveInjuries } from "../lib/slotEngine";
+import { resetEngineState } from "../sim/simulator";
+
+/**
+ * Golden fixtures for the adaptive coaching pipeline:
+ * - a fixture records the raw inputs the dashboard gathers on one day: BrainInput (without the
+ *   derived preference and friction signals), ReadinessInput and the preference history
+ * - the pipeline replays the dashboard's chain (readiness → preference signals → friction →
+ *   brain → need weights → program state → block plan) with the clock frozen at `asOf`
+ * - optional equipment and injuries are pushed into slot-engine state for the run and reset after
+ */
+
+export type GoldenFixture = {
+  name: string;
+  description: string;
+  asOf: string; // YYYY-MM-DD
+  brainInput: Omit<BrainInput, "preferenceSignals" | "frictionProfile">;
+  readinessInput: ReadinessInput;
+  preferenceHistory: PreferenceHistoryEntry[];
+  previousBlockPlan?: ActiveBlockPlan | null;
+  equipment?: EquipmentProfile | null;
+  injuries?: InjuryRecord[];
+};
+
+export type GoldenOutput = {
+  readiness: ReadinessContext;
+  frictionProfile: FrictionProfile;
+  needWeights: NeedWeightProfile;
+  brainMetrics: Pick<BrainSnapshot, "readiness" | "momentum" | "recovery" | "compliance" | "nextFocus">;
+  recommendedSession: RecommendedSession;
+  programState: ProgramState;
+  blockPlan: ActiveBlockPlan;
+};
+
+/** Pipeline order; a change in an earlier section is reported as a possible cause of later ones. */
+export const GOLDEN_SECTIONS: Array<keyof GoldenOutput> = [
+  "readiness",
+  "frictionProfile",
+  "needWeights",
+  "brainMetrics",
+  "recommendedSession",
+  "programState",
+  "blockPlan",
+];
+
+/** Runs `fn` with `new Date()` and `Date.now()` pinned to `iso`; dated constructors are untouched. */
+export function withFrozenClock<T>(iso: string, fn: () => T): T {
+  const RealDate = Date;
+  const fixed = new RealDate(iso).getTime();
+  class FrozenDate extends RealDate {
+    constructor(...args: unknown[]) {
+      if (args.length === 0) super(fixed);
+      else super(...(args as [string]));
+    }
+    static now() {
+      return fixed;
+    }
+  }
+  globalThis.Date = FrozenDate as DateConstructor;
+  try {
+    return fn();
+  } finally {
+    globalThis.Date = RealDate;
+  }
+}
+
+function average(values: number[]): number | null {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function daysBetween(fromYmd: string, toYmd: string): number {
+  return Math.round((new Date(`${toYmd}T00:00:00`).getTime() - new Date(`${fromYmd}T00:00:00`).getTime()) / 86400000);
+}
+
+/** Mirrors the friction inputs the dashboard derives from coach totals and recent preference history. */
+function buildFixtureFriction(fixture: GoldenFixture): FrictionProfile {
+  const { brainInput, preferenceHistory, asOf } = fixture;
+  const recentPref = preferenceHistory
+    .slice()
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, 8);
+  const fidelity = average(recentPref.map((e) => Number(e.fidelityScore)).filter((n) => Number.isFinite(n)));
+  const substitutionRate = average(
+    recentPref.map((e) => {
+      const total = (e.substitutionKeys?.length ?? 0) + (e.missedKeys?.length ?? 0) + (e.extrasKeys?.length ?? 0);
+      return total / Math.max(1, total + ((e.exerciseFidelity?.length ?? 0) || 1));
+    })
+  );
+  const anchorReliability = average(
+    recentPref.map((e) => (e.primaryOutcome === "progressed" ? 90 : e.primaryOutcome === "matched" ? 75 : e.primaryOutcome === "regressed" ? 45 : 60))
+  );
+
+  const { sleepAvg7, proteinAvg7 } = brainInput;
+  const coach = brainInput.weeklyCoach;
+  const tonPct = !coach ? 0 : coach.tonnagePrev === 0 ? (coach.tonnageThis === 0 ? 0 : 100) : ((coach.tonnageThis - coach.tonnagePrev) / coach.tonnagePrev) * 100;
+  const sleepReadiness = sleepAvg7 != null ? Math.max(35, Math.min(100, Math.round(35 + sleepAvg7 * 9))) : 60;
+  const proteinReadiness = proteinAvg7 != null ? Math.max(35, Math.min(100, Math.round(30 + proteinAvg7 * 0.3))) : 60;
+  const lastWorkout = fixture.readinessInput.workouts
+    .filter((w) => w.completed && w.date < asOf)
+    .map((w) => w.date)
+    .sort()
+    .pop();
+  const sessionsThis = coach?.sessionsThis ?? 0;
+
+  return buildFrictionProfile({
+    asOf,
+    readiness: {
+      score: Math.round((sleepReadiness + proteinReadiness) / 2),
+      trend:
+        sleepAvg7 != null && proteinAvg7 != null && sleepAvg7 >= 6.5 && proteinAvg7 >= 170 ? "up" : sleepAvg7 != null && sleepAvg7 >= 5.5 ? "flat" : "down",
+    },
+    behavior: { fidelity, substitutionRate, anchorReliability },
+    execution: {
+      daysSinceLastWorkout: lastWorkout ? daysBetween(lastWorkout, asOf) : null,
+      expectedSessions: 4,
+      completedSessions: sessionsThis,
+      recentMissedSessions: Math.max(0, 4 - sessionsThis),
+    },
+    progress: { momentum: tonPct >= 5 ? "up" : tonPct <= -5 ? "down" : "flat" },
+  });
+}
+
+export function runGoldenPipeline(fixture: GoldenFixture): GoldenOutput {
+  return withFrozenClock(`${fixture.asOf}T12:00:00.000Z`, () => {
+    resetEngineState();
+    if (fixture.equipment) setActiveEquipmentProfile(fixture.equipment);
+    setActiveInjuries(fixture.injuries ?? [], fixture.asOf);
+    try {
+      const readinessInput: ReadinessInput = {
+        ...fixture.readinessInput,
+        preferenceHistory:
+          fixture.readinessInput.preferenceHistory ??
+          fixture.preferenceHistory.map((entry) => ({
+            timestamp: entry.timestamp,
+            fidelityScore: typeof entry.fidelityScore === "number" ? entry.fidelityScore : null,
+            sessionOutcome: entry.sessionOutcome,
+            loadDeltaAvg: typeof entry.loadDeltaAvg === "number" ? entry.loadDeltaAvg : null,
+            volumeDelta: typeof entry.volumeDelta === "number" ? entry.volumeDelta : null,
+            substitutionCount: Array.isArray(entry.substitutionKeys) ? entry.substitutionKeys.length : 0,
+            primaryOutcome: entry.primaryOutcome,
+          })),
+      };
+      const readiness = buildReadinessContext(readinessInput);
+      const frictionProfile = buildFixtureFriction(fixture);
+      const brain = computeBrainSnapshot({
+        ...fixture.brainInput,
+        preferenceSignals: fixture.preferenceHistory.length ? derivePreferenceSignals(fixture.preferenceHistory) : null,
+        frictionProfile,
+      });
+      const needWeights = deriveNeedWeightProfile({
+        recentFocusCounts: fixture.brainInput.recentFocusCounts,
+        exerciseHistory: fixture.brainInput.exerciseHistory,
+      });
+      const weeklyCoach = fixture.brainInput.weeklyCoach ?? { sessionsThis: 0, sessionsPrev: 0, tonnageThis: 0, tonnagePrev: 0, setsThis: 0, setsPrev: 0 };
+      const programState = computeProgramState({
+        readiness,
+        brainSnapshot: brain,
+        recentFocusCounts: fixture.brainInput.recentFocusCounts,
+        trainingDays28: fixture.brainInput.trainingDays28,
+        weeklyCoach,
+      });
+      const blockPlan = buildActiveBlockPlan({
+        asOf: `${fixture.asOf}T00:00:00.000Z`,
+        programState,
+        previousBlockPlan: fixture.previousBlockPlan ?? null,
+        readiness: { score: brain.readiness.score },
+      });
+
+      // Round-trip through JSON so the output compares exactly like the stored snapshot.
+      return JSON.parse(
+        JSON.stringify({
+          readiness,
+          frictionProfile,
+          needWeights,
+          brainMetrics: {
+            readiness: brain.readiness,
+            momentum: brain.momentum,
+            recovery: brain.recovery,
+            compliance: brain.compliance,
+            nextFocus: brain.nextFocus,
+          },
+          // Decision traces score every candidate, so any scoring tweak would churn every fixture;
+          // the golden covers what gets prescribed, the trace drill-down covers why.
+          recommendedSession: {
+            ...brain.recommendedSession,
+            exercises: brain.recommendedSession.exercises.map(({ trace: _trace, ...exercise }) => exercise),
+          },
+          programState,
+          blockPlan,
+        })
+      ) as GoldenOutput;
+    } finally {
+      resetEngineState();
+    }
+  });
+}
@@ -1,5 +1,5 @@
 import type { NeedKey } from "./sessionNeedsEngine";
-import type { BehaviorFingerprint } from "./behaviorFingerprint";
+import type { BehaviorFingerprint, PredictionScaffold } from "./behaviorFingerprint";
 import type { PredictionAccuracySummary, PredictionReviewEntry } from "./predictionReview";
 import type { PreferenceHistoryEntry, PreferenceSignals } from "./preferenceLearning";
 
@@ -28,6 +28,17 @@ export type MutationLedgerEntry = {
   evidenceWindow: number;
   appliedChanges: string[];
   reasons: string[];
+  actionId?: string; // set when the entry records a recalibration action or its undo
+  id?: string;
+  before?: LoopStateSnapshot; // loop state the refresh started from
+  after?: LoopStateSnapshot; // loop state the refresh persisted
+};
+
+/** The three derived artifacts a mutation can move; ledger entries keep one from each side so any of them can be restored. */
+export type LoopStateSnapshot = {
+  adaptationWeights: AdaptationWeights | null;
+  behaviorFingerprint: BehaviorFingerprint | null;
+  predictionScaffold: PredictionScaffold | null;
 };
 
 export type RecalibrationPhase = "stable" | "watch" | "suggested" | "recalibrating" | "probation";
@@ -383,8 +394,11 @@ export function applyAdaptationToPreferenceSignals(
   }
 
   const nextExerciseBias = { ...(signals.preferredExerciseBias ?? {}) };
+  const adaptationExerciseBias: Record<string, number> = {};
   for (const [key, value] of Object.entries(weights.exerciseBiasAdjustments)) {
-    nextExerciseBias[key] = clamp((nextExerciseBias[key] ?? 0) + value, 0, 18);
+    const before = nextExerciseBias[key] ?? 0;
+    nextExerciseBias[key] = clamp(before + value, 0, 18);
+    if (nextExerciseBias[key] > before) adaptationExerciseBias[key] = nextExerciseBias[key] - before;
   }
 
   const nextSubs = { ...(signals.preferredSubstitutions ?? {}), ...(weights.preferredSubstitutions ?? {}) };
@@ -398,6 +412,7 @@ export function applyAdaptationToPreferenceSignals(
   return {
     ...signals,
     preferredExerciseBias: nextExerciseBias,
+    adaptationExerciseBias,
     preferredSubstitutions: nextSubs,
     needBiases: nextNeedBiases,
     volumeTolerance: conservativeVolume(signals.volumeTolerance, weights.volumeTolerance),
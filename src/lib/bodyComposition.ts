@@ -0,0 +1,342 @@
+/**
+ * Body composition:
+ * - a measurement set is one tape (and optional skinfold) reading per day; weight and waist are
+ *   always taken, the other tape sites are whichever the user turned on
+ * - Navy estimate needs neck, waist and height (plus hips for women); skinfold estimate is
+ *   Jackson-Pollock 3- or 7-site through Siri, and needs sex and age
+ * - weight trend is an exponential moving average over calendar days (a gap of n days moves the
+ *   trend as far as n daily readings would), so one salty dinner doesn't read as fat gain
+ * - month deltas use a single body-fat method across the month: skinfold when both ends have it,
+ *   else Navy; lean mass is the trend weight at that day times the lean fraction
+ */
+
+export type BodySex = "male" | "female";
+
+export type TapeSite = "chest_in" | "upper_arm_in" | "forearm_in" | "thigh_in" | "calf_in" | "hips_in" | "neck_in";
+
+export type SkinfoldSite = "chest" | "abdomen" | "thigh" | "triceps" | "suprailiac" | "subscapular" | "midaxillary";
+
+export type SkinfoldProtocol = "none" | "jp3" | "jp7";
+
+export type BodyFatMethod = "navy" | "skinfold";
+
+export type BodyMeasurementRecord = {
+  user_id: string;
+  taken_on: string; // YYYY-MM-DD, one set per day
+  weight_lbs: number | null;
+  waist_in: number | null;
+  chest_in: number | null;
+  upper_arm_in: number | null;
+  forearm_in: number | null;
+  thigh_in: number | null;
+  calf_in: number | null;
+  hips_in: number | null;
+  neck_in: number | null;
+  skinfolds_mm?: Partial<Record<SkinfoldSite, number>> | null;
+  updatedAt: number;
+};
+
+export type BodyCompProfile = {
+  sex: BodySex | null;
+  height_in: number | null;
+  birth_year: number | null;
+  tape_sites: TapeSite[];
+  skinfold_protocol: SkinfoldProtocol;
+};
+
+export type BodyCompEstimate = {
+  day: string;
+  weight_lbs: number | null;
+  trend_lbs: number | null;
+  navyPct: number | null;
+  skinfoldPct: number | null;
+  leanMassLbs: number | null; // from the preferred method on this day
+  method: BodyFatMethod | null;
+};
+
+export type WeightTrendPoint = { day: string; weight_lbs: number; trend_lbs: number };
+
+export type BodyCompSummary = {
+  weightTrendStart: number | null;
+  weightTrendEnd: number | null;
+  weightDelta: number | null; // trend, not raw scale readings
+  waistDelta: number | null;
+  bodyFatMethod: BodyFatMethod | null;
+  bodyFatPct: number | null; // latest in range
+  bodyFatDelta: number | null;
+  leanMassLbs: number | null;
+  leanMassDelta: number | null;
+  readings: number; // measurement sets in range
+};
+
+type DailyLike = { day_date: string; weight_lbs?: number | null; waist_in?: number | null };
+
+export const TAPE_SITES: TapeSite[] = ["chest_in", "upper_arm_in", "forearm_in", "thigh_in", "calf_in", "hips_in", "neck_in"];
+
+export const TAPE_SITE_LABELS: Record<TapeSite, string> = {
+  chest_in: "Chest",
+  upper_arm_in: "Upper arm",
+  forearm_in: "Forearm",
+  thigh_in: "Thigh",
+  calf_in: "Calf",
+  hips_in: "Hips",
+  neck_in: "Neck",
+};
+
+export const SKINFOLD_SITE_LABELS: Record<SkinfoldSite, string> = {
+  chest: "Chest",
+  abdomen: "Abdomen",
+  thigh: "Thigh",
+  triceps: "Triceps",
+  suprailiac: "Suprailiac",
+  subscapular: "Subscapular",
+  midaxillary: "Midaxillary",
+};
+
+export const SKINFOLD_PROTOCOL_LABELS: Record<SkinfoldProtocol, string> = {
+  none: "No skinfolds",
+  jp3: "Jackson-Pollock 3-site",
+  jp7: "Jackson-Pollock 7-site",
+};
+
+export const DEFAULT_BODY_COMP_PROFILE: BodyCompProfile = {
+  sex: null,
+  height_in: null,
+  birth_year: null,
+  tape_sites: ["chest_in", "upper_arm_in", "thigh_in", "hips_in", "neck_in"],
+  skinfold_protocol: "none",
+};
+
+// Days of history before a month starts that the weight trend needs to settle.
+export const WEIGHT_TREND_WARMUP_DAYS = 28;
+
+const WEIGHT_TREND_ALPHA = 0.1;
+const MIN_PLAUSIBLE_BF = 2;
+const MAX_PLAUSIBLE_BF = 60;
+
+const JP7_SITES: SkinfoldSite[] = ["chest", "abdomen", "thigh", "triceps", "suprailiac", "subscapular", "midaxillary"];
+
+function finite(v: unknown): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function positive(v: unknown): number | null {
+  const n = finite(v);
+  return n != null && n > 0 ? n : null;
+}
+
+function round1(v: number | null): number | null {
+  if (v == null || !Number.isFinite(v)) return null;
+  return Math.round(v * 10) / 10;
+}
+
+function plausibleBodyFat(pct: number): number | null {
+  return Number.isFinite(pct) && pct >= MIN_PLAUSIBLE_BF && pct <= MAX_PLAUSIBLE_BF ? pct : null;
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / 86400000);
+}
+
+/** Defaults for anything missing or out of range; unknown sites are dropped. */
+export function normalizeBodyCompProfile(raw: any): BodyCompProfile {
+  const sex = raw?.sex === "male" || raw?.sex === "female" ? raw.sex : null;
+  const height = positive(raw?.height_in);
+  const birthYear = finite(raw?.birth_year);
+  const sites = Array.isArray(raw?.tape_sites)
+    ? TAPE_SITES.filter((site) => raw.tape_sites.includes(site))
+    : DEFAULT_BODY_COMP_PROFILE.tape_sites;
+  const protocol = raw?.skinfold_protocol === "jp3" || raw?.skinfold_protocol === "jp7" ? raw.skinfold_protocol : "none";
+  return {
+    sex,
+    height_in: height != null && height >= 48 && height <= 96 ? Math.round(height * 10) / 10 : null,
+    birth_year: birthYear != null && birthYear >= 1900 && birthYear <= 2100 ? Math.round(birthYear) : null,
+    tape_sites: sites,
+    skinfold_protocol: protocol,
+  };
+}
+
+/** Sites the protocol pinches; the 3-site set depends on sex, so it is empty until sex is set. */
+export function skinfoldSitesFor(protocol: SkinfoldProtocol, sex: BodySex | null): SkinfoldSite[] {
+  if (protocol === "jp7") return JP7_SITES;
+  if (protocol !== "jp3" || !sex) return [];
+  return sex === "male" ? ["chest", "abdomen", "thigh"] : ["triceps", "suprailiac", "thigh"];
+}
+
+/** U.S. Navy circumference estimate, inches in, percent out. */
+export function navyBodyFat(m: Pick<BodyMeasurementRecord, "waist_in" | "neck_in" | "hips_in">, profile: BodyCompProfile): number | null {
+  const waist = positive(m.waist_in);
+  const neck = positive(m.neck_in);
+  const height = positive(profile.height_in);
+  if (!profile.sex || waist == null || neck == null || height == null) return null;
+  if (profile.sex === "male") {
+    if (waist <= neck) return null;
+    return round1(plausibleBodyFat(86.01 * Math.log10(waist - neck) - 70.041 * Math.log10(height) + 36.76));
+  }
+  const hips = positive(m.hips_in);
+  if (hips == null || waist + hips <= neck) return null;
+  return round1(plausibleBodyFat(163.205 * Math.log10(waist + hips - neck) - 97.684 * Math.log10(height) - 78.387));
+}
+
+/** Jackson-Pollock body density through Siri; null unless every site of the protocol was pinched. */
+export function skinfoldBodyFat(m: Pick<BodyMeasurementRecord, "taken_on" | "skinfolds_mm">, profile: BodyCompProfile): number | null {
+  const sites = skinfoldSitesFor(profile.skinfold_protocol, profile.sex);
+  if (!sites.length || profile.birth_year == null) return null;
+  const values = sites.map((site) => positive(m.skinfolds_mm?.[site]));
+  if (values.some((v) => v == null)) return null;
+  const s = values.reduce((acc: number, v) => acc + (v as number), 0);
+  const age = Number(m.taken_on.slice(0, 4)) - profile.birth_year;
+  if (!Number.isFinite(age) || age < 16 || age > 90) return null;
+
+  let density: number;
+  if (profile.skinfold_protocol === "jp7") {
+    density = profile.sex === "male"
+      ? 1.112 - 0.00043499 * s + 0.00000055 * s * s - 0.00028826 * age
+      : 1.097 - 0.00046971 * s + 0.00000056 * s * s - 0.00012828 * age;
+  } else {
+    density = profile.sex === "male"
+      ? 1.10938 - 0.0008267 * s + 0.0000016 * s * s - 0.0002574 * age
+      : 1.0994921 - 0.0009929 * s + 0.0000023 * s * s - 0.0001392 * age;
+  }
+  if (!(density > 0)) return null;
+  return round1(plausibleBodyFat(495 / density - 450));
+}
+
+/**
+ * One weight and waist per day: the measurement set wins over Quick Log when both exist,
+ * since the tape session is the more careful reading.
+ */
+export function mergeBodyReadings(daily: DailyLike[], measurements: BodyMeasurementRecord[]) {
+  const byDay = new Map<string, { day: string; weight_lbs: number | null; waist_in: number | null }>();
+  for (const row of daily) {
+    byDay.set(row.day_date, { day: row.day_date, weight_lbs: positive(row.weight_lbs), waist_in: positive(row.waist_in) });
+  }
+  for (const row of measurements) {
+    const prev = byDay.get(row.taken_on);
+    byDay.set(row.taken_on, {
+      day: row.taken_on,
+      weight_lbs: positive(row.weight_lbs) ?? prev?.weight_lbs ?? null,
+      waist_in: positive(row.waist_in) ?? prev?.waist_in ?? null,
+    });
+  }
+  return [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day));
+}
+
+/** Exponential moving average of weight; the first reading seeds the trend. */
+export function weightTrend(readings: Array<{ day: string; weight_lbs: number | null }>): WeightTrendPoint[] {
+  const out: WeightTrendPoint[] = [];
+  let trend: number | null = null;
+  let lastDay: string | null = null;
+  for (const row of [...readings].sort((a, b) => a.day.localeCompare(b.day))) {
+    const weight = positive(row.weight_lbs);
+    if (weight == null) continue;
+    if (trend == null || lastDay == null) {
+      trend = weight;
+    } else {
+      const gap = Math.max(1, daysBetween(lastDay, row.day));
+      trend += (1 - Math.pow(1 - WEIGHT_TREND_ALPHA, gap)) * (weight - trend);
+    }
+    lastDay = row.day;
+    out.push({ day: row.day, weight_lbs: weight, trend_lbs: Math.round(trend * 100) / 100 });
+  }
+  return out;
+}
+
+function trendOn(trend: WeightTrendPoint[], day: string): number | null {
+  let value: number | null = null;
+  for (const point of trend) {
+    if (point.day > day) break;
+    value = point.trend_lbs;
+  }
+  return value;
+}
+
+export function estimateBodyComposition(
+  measurements: BodyMeasurementRecord[],
+  profile: BodyCompProfile,
+  trend: WeightTrendPoint[] = []
+): BodyCompEstimate[] {
+  return [...measurements]
+    .sort((a, b) => a.taken_on.localeCompare(b.taken_on))
+    .map((m) => {
+      const navyPct = navyBodyFat(m, profile);
+      const skinfoldPct = skinfoldBodyFat(m, profile);
+      const method: BodyFatMethod | null = skinfoldPct != null ? "skinfold" : navyPct != null ? "navy" : null;
+      const pct = skinfoldPct ?? navyPct;
+      const trendLbs = trendOn(trend, m.taken_on);
+      const weight = trendLbs ?? positive(m.weight_lbs);
+      return {
+        day: m.taken_on,
+        weight_lbs: positive(m.weight_lbs),
+        trend_lbs: trendLbs,
+        navyPct,
+        skinfoldPct,
+        leanMassLbs: pct != null && weight != null ? round1(weight * (1 - pct / 100)) : null,
+        method,
+      };
+    });
+}
+
+/**
+ * Month summary for progress signals. `daily` and `measurements` may reach back before
+ * startYMD (see WEIGHT_TREND_WARMUP_DAYS) so the trend has settled when the month opens;
+ * deltas only compare readings inside the range.
+ */
+export function summarizeBodyComposition(args: {
+  startYMD: string;
+  endYMD: string;
+  daily: DailyLike[];
+  measurements: BodyMeasurementRecord[];
+  profile: BodyCompProfile;
+}): BodyCompSummary {
+  const { startYMD, endYMD, daily, measurements, profile } = args;
+  const inRange = (day: string) => day >= startYMD && day <= endYMD;
+
+  const readings = mergeBodyReadings(daily.filter((r) => r.day_date <= endYMD), measurements.filter((m) => m.taken_on <= endYMD));
+  const trend = weightTrend(readings);
+  const monthTrend = trend.filter((p) => inRange(p.day));
+  const weightTrendStart = monthTrend.length ? monthTrend[0].trend_lbs : null;
+  const weightTrendEnd = monthTrend.length ? monthTrend[monthTrend.length - 1].trend_lbs : null;
+
+  const waists = readings.filter((r) => inRange(r.day) && r.waist_in != null).map((r) => r.waist_in as number);
+
+  const monthMeasurements = measurements.filter((m) => inRange(m.taken_on));
+  const estimates = estimateBodyComposition(monthMeasurements, profile, trend);
+  const pickPct = (e: BodyCompEstimate, method: BodyFatMethod) => (method === "skinfold" ? e.skinfoldPct : e.navyPct);
+  const withSkinfold = estimates.filter((e) => e.skinfoldPct != null);
+  const withNavy = estimates.filter((e) => e.navyPct != null);
+  const method: BodyFatMethod | null = withSkinfold.length >= 2 || (withSkinfold.length && !withNavy.length)
+    ? "skinfold"
+    : withNavy.length
+      ? "navy"
+      : null;
+  const series = method === "skinfold" ? withSkinfold : method === "navy" ? withNavy : [];
+  const first = series[0] ?? null;
+  const last = series[series.length - 1] ?? null;
+  const leanOf = (e: BodyCompEstimate | null) => {
+    if (!e || !method) return null;
+    const pct = pickPct(e, method);
+    const weight = e.trend_lbs ?? e.weight_lbs;
+    return pct != null && weight != null ? weight * (1 - pct / 100) : null;
+  };
+  const firstPct = first && method ? pickPct(first, method) : null;
+  const lastPct = last && method ? pickPct(last, method) : null;
+  const firstLean = leanOf(first);
+  const lastLean = leanOf(last);
+  const hasSpan = series.length >= 2;
+
+  return {
+    weightTrendStart: round1(weightTrendStart),
+    weightTrendEnd: round1(weightTrendEnd),
+    weightDelta: monthTrend.length >= 2 && weightTrendStart != null && weightTrendEnd != null ? round1(weightTrendEnd - weightTrendStart) : null,
+    waistDelta: waists.length >= 2 ? round1(waists[waists.length - 1] - waists[0]) : null,
+    bodyFatMethod: method,
+    bodyFatPct: round1(lastPct),
+    bodyFatDelta: hasSpan && firstPct != null && lastPct != null ? round1(lastPct - firstPct) : null,
+    leanMassLbs: round1(lastLean),
+    leanMassDelta: hasSpan && firstLean != null && lastLean != null ? round1(lastLean - firstLean) : null,
+    readings: monthMeasurements.length,
+  };
+}
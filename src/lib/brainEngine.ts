@@ -1,6 +1,10 @@
 import {
   candidatesForSlot,
+  filteredCandidatesForSlot,
+  getActiveInjuryImpact,
   scoreCandidateForSlot,
+  type CandidateFilterReason,
+  type CandidateScoreBreakdown,
   type Slot,
 } from "./slotEngine";
 import {
@@ -16,7 +20,7 @@ import {
   type NeedEngineInput,
   type NeedKey,
 } from "./sessionNeedsEngine";
-import { composeAdaptiveSession } from "./sessionComposer";
+import { composeAdaptiveSession, NEED_BY_SLOT } from "./sessionComposer";
 import { applyNeedWeightProfile, deriveNeedWeightProfile } from "./needWeights";
 import type { FrictionProfile } from "./frictionEngine";
 import { buildNextSessionPriorityProfile, type NextSessionPriorityProfile } from "./nextSessionPriority";
@@ -25,6 +29,13 @@ import {
   broadenCandidatesForCoveredSlot,
   getMovementFamilyForExerciseKey,
 } from "./movementOverlap";
+import { loadForPlannedTarget, type PlannedProgramSession, type PlannedSlotTarget } from "./programBuilder";
+import { prescribeProgression, type ProgressionAction, type ProgressionPrescription } from "./progressionModels";
+import { getExerciseByKey } from "./exerciseRegistry";
+import type { ProgressionModel } from "./exerciseTypes";
+import type { ExerciseGroupType } from "./exerciseGroups";
+import type { SetTypePrescription } from "./setTypes";
+import { fitSessionToBudget, type SessionDuration } from "./sessionBudget";
 
 export type BrainFocus = "Push" | "Pull" | "Lower" | "Mixed";
 
@@ -82,6 +93,9 @@ export type BrainInput = {
     dayId?: string | null;
     dayName?: string | null;
   }>;
+  plannedSession?: PlannedProgramSession | null;
+  location?: { id: string; name: string; equipmentCount: number } | null;
+  sessionBudgetMin?: number | null; // minutes available today; null or missing means no limit
 };
 
 export type BrainMetric = {
@@ -105,6 +119,35 @@ export type RecommendedExercise = {
   note: string;
   eventTag?: string;
   swappedFrom?: string | null;
+  progressionModel?: ProgressionModel;
+  progressionAction?: ProgressionAction;
+  trace?: ExerciseDecisionTrace;
+  group?: { id: string; type: ExerciseGroupType; order: number }; // id is only unique within the session
+  setPlan?: SetTypePrescription[]; // present when the prescription is more than straight sets
+};
+
+/**
+ * Why a slot got its exercise:
+ * - candidates are every lift candidatesForSlot offered (plus any the overlap guard broadened in),
+ *   best score first; session adjustments are the priority, friction and volume nudges the session
+ *   build adds on top of the slot score
+ * - filtered are registry lifts for the slot that never became candidates, with the filter that removed them
+ * - need weight belongs to the slot, not the lift: it decided the slot made the session at all
+ */
+export type ExerciseDecisionTrace = {
+  slot: string;
+  need: NeedKey | null;
+  needWeight: number | null;
+  pick: string;
+  candidates: Array<{
+    key: string;
+    name: string;
+    score: number;
+    outcome: "chosen" | "outscored" | "already_used" | "never";
+    tags: string[];
+    breakdown: CandidateScoreBreakdown & { sessionAdjustments: number; overlapPenalty: number };
+  }>;
+  filtered: Array<{ key: string; name: string; reason: CandidateFilterReason }>;
 };
 
 export type RecommendedSession = {
@@ -116,7 +159,11 @@ export type RecommendedSession = {
   alerts: string[];
   plannedDayId: string | null;
   plannedDayName: string | null;
+  programSessionId: string | null;
+  locationId: string | null;
+  locationName: string | null;
   exercises: RecommendedExercise[];
+  duration: SessionDuration;
 };
 
 export type BrainSnapshot = {
@@ -324,6 +371,10 @@ function buildDefaultSplitConfig(): TrainingSplitConfig {
   };
 }
 
+export function resolveTrainingSplit(splitConfig?: TrainingSplitConfig | null): TrainingSplitConfig {
+  return sanitizeSplitConfig(splitConfig) ?? buildDefaultSplitConfig();
+}
+
 function sanitizeSplitConfig(splitConfig?: TrainingSplitConfig | null): TrainingSplitConfig | null {
   if (!splitConfig?.days?.length) return null;
   const days = splitConfig.days
@@ -823,13 +874,64 @@ function buildMovementSignals(history: ExerciseHistory[]): NeedEngineInput["move
   return Object.fromEntries(buckets.entries());
 }
 
+const ISOLATION_SLOTS: ReadonlySet<Slot> = new Set<Slot>(["Pump", "Triceps", "Biceps", "RearDelts", "Calves"]);
+
+/**
+ * Set types beyond straight sets, in priority order:
+ * - a top set plus back-offs whenever the progression model prescribes them
+ * - short on time, isolation work trades straight sets for one activation set plus myo-reps
+ * - a linear-load lift in a progression window ends on an AMRAP set to read how much is left
+ * - isolation work holding in its rep range during a progression window finishes with a drop set
+ */
+function prescribeSetTypes(args: {
+  slot: Slot;
+  mode: "Progression" | "Base" | "Reduced volume";
+  progression: ProgressionPrescription;
+  load: string;
+  timeTight: boolean;
+}): SetTypePrescription[] | undefined {
+  const { slot, mode, progression, load, timeTight } = args;
+  const setCount = Math.max(1, ...(progression.sets.match(/\d+/g)?.map(Number) ?? [1]));
+  const prescribedLoad = progression.load != null && progression.load > 0 ? formatLoadValue(progression.load) : null;
+
+  if (progression.backoff) {
+    const backoffLoad = progression.backoff.load != null && prescribedLoad === load ? formatLoadValue(progression.backoff.load) : null;
+    return [
+      { type: "working", sets: 1, reps: progression.reps.split(" / ")[0], load },
+      { type: "backoff", sets: progression.backoff.sets, reps: progression.backoff.reps, load: backoffLoad },
+    ];
+  }
+  if (timeTight && ISOLATION_SLOTS.has(slot)) {
+    return [
+      { type: "working", sets: 1, reps: progression.reps, load },
+      { type: "myo_reps", sets: 3, reps: "3-5", load },
+    ];
+  }
+  if (mode !== "Progression") return undefined;
+  if (progression.model === "linear_load" && setCount >= 2) {
+    return [
+      { type: "working", sets: setCount - 1, reps: progression.reps, load },
+      { type: "amrap", sets: 1, reps: `${progression.reps}+`, load },
+    ];
+  }
+  if (ISOLATION_SLOTS.has(slot) && progression.model === "double_progression" && progression.action === "hold") {
+    return [
+      { type: "working", sets: setCount, reps: progression.reps, load },
+      { type: "drop", sets: 1, reps: "to failure", load: null },
+    ];
+  }
+  return undefined;
+}
+
 function buildExercisesFromSlots(
   slots: Slot[],
   mode: "Progression" | "Base" | "Reduced volume",
   history: ExerciseHistory[],
   preferenceSignals?: PreferenceSignals | null,
   frictionProfile?: FrictionProfile | null,
-  priorityProfile?: NextSessionPriorityProfile | null
+  priorityProfile?: NextSessionPriorityProfile | null,
+  plannedTargets?: PlannedSlotTarget[] | null,
+  needWeights?: Partial<Record<NeedKey, number>> | null
 ): RecommendedExercise[] {
   const used = new Set<string>();
   const selectedKeys: string[] = [];
@@ -926,7 +1028,7 @@ function buildExercisesFromSlots(
           tags.push("Overlap guard");
         }
 
-        return { ...candidate, score, tags: [...new Set(tags)] };
+        return { ...candidate, score, tags: [...new Set(tags)], sessionAdjustments: score - candidate.score - overlapPenalty, overlapPenalty };
       })
       .sort((a, b) => b.score - a.score);
 
@@ -956,17 +1058,97 @@ function buildExercisesFromSlots(
 
     const key = chosen?.key ?? primaryKey;
     if (!key) return [];
+    const candidateName = (candidateKey: string) =>
+      history.find((h) => h.key === candidateKey)?.name ?? DISPLAY_NAME[candidateKey] ?? getExerciseByKey(candidateKey)?.canonicalName ?? candidateKey;
+    const chosenRanked = ranked.find((candidate) => candidate.key === key) ?? null;
+    const need = NEED_BY_SLOT[slot as Slot] ?? null;
+    const trace: ExerciseDecisionTrace = {
+      slot,
+      need,
+      needWeight: need ? (needWeights?.[need] ?? null) : null,
+      pick: realitySwapFrom
+        ? `${candidateName(key)} replaced ${candidateName(realitySwapFrom)} because you keep making that swap and it scored close enough (or is explicitly preferred).`
+        : chosenRanked && chosenRanked === ranked[0]
+        ? `Top score ${chosenRanked.score} of ${ranked.length} eligible candidate${ranked.length === 1 ? "" : "s"}.`
+        : chosenRanked
+        ? `${candidateName(ranked[0].key)} scored higher but is already in this session, so the next best lift took the slot.`
+        : "No candidate survived scoring, so the slot fell back to the first lift that was not ruled out.",
+      candidates: [
+        ...ranked.map((candidate) => ({
+          key: candidate.key,
+          name: candidateName(candidate.key),
+          score: Math.round(candidate.score * 10) / 10,
+          outcome: candidate.key === key ? "chosen" as const : used.has(candidate.key) ? "already_used" as const : "outscored" as const,
+          tags: candidate.tags,
+          breakdown: {
+            ...candidate.breakdown,
+            sessionAdjustments: Math.round(candidate.sessionAdjustments * 10) / 10,
+            overlapPenalty: candidate.overlapPenalty,
+          },
+        })),
+        ...rankedBase
+          .filter((candidate) => candidate.tags.includes("Never"))
+          .map((candidate) => ({
+            key: candidate.key,
+            name: candidateName(candidate.key),
+            score: candidate.score,
+            outcome: "never" as const,
+            tags: candidate.tags,
+            breakdown: { ...candidate.breakdown, sessionAdjustments: 0, overlapPenalty: 0 },
+          })),
+      ],
+      filtered: filteredCandidatesForSlot(slot as Slot).map((item) => ({ ...item, name: candidateName(item.key) })),
+    };
     used.add(key);
     selectedKeys.push(key);
 
     const activeHist = history.find((h) => h.key === key) ?? null;
     const activeMemory = analyzeProgressionMemory(activeHist);
-    const name = activeHist?.name ?? DISPLAY_NAME[key] ?? key;
-    const sets =
-      mode === "Reduced volume" && (slot === "Pump" || slot === "Calves")
+    const name = activeHist?.name ?? DISPLAY_NAME[key] ?? getExerciseByKey(key)?.canonicalName ?? key;
+    const plannedTarget = plannedTargets?.find((target) => target.slot === slot) ?? null;
+    const baseReps = plannedTarget?.reps ?? program.reps;
+    const baseSets =
+      plannedTarget
+        ? String(plannedTarget.sets)
+        : mode === "Reduced volume" && (slot === "Pump" || slot === "Calves")
         ? "2"
         : program.sets;
-    const loadInfo = renderLoad(activeHist, program.bump, mode, program.reps, name);
+    const loadInfo = renderLoad(activeHist, program.bump, mode, baseReps, name);
+    const increment = incrementForExercise(name, activeHist?.lastLoad ?? null, program.bump);
+    const progressionModel = getExerciseByKey(key)?.progressionModel ?? "double_progression";
+    const progression = prescribeProgression({
+      model: progressionModel,
+      history: activeHist,
+      sets: baseSets,
+      reps: baseReps,
+      increment,
+      mode,
+    });
+    const sets = progression.sets;
+    const reps = progression.reps;
+    if (progression.load != null && progression.load > 0) {
+      loadInfo.load = formatLoadValue(progression.load);
+      loadInfo.loadBasis = `Load path: ${progression.basis}`;
+    } else if (progression.basis) {
+      loadInfo.loadBasis = `${loadInfo.loadBasis} ${progression.basis}`;
+    }
+    const plannedLoad = plannedTarget
+      ? loadForPlannedTarget(plannedTarget, activeHist?.recentBestE1RM ?? null, increment)
+      : null;
+    if (plannedTarget && plannedLoad != null && plannedLoad > 0) {
+      loadInfo.load = formatLoadValue(plannedLoad);
+      loadInfo.loadBasis = `Load path: the program week calls for ${Math.round(plannedTarget.loadPct * 100)}% of your recent best e1RM (${formatLoadValue(
+        Math.round(activeHist?.recentBestE1RM ?? 0)
+      )}) at about ${plannedTarget.rir} RIR.`;
+    }
+    const injuryImpact = getActiveInjuryImpact(key);
+    const uncappedLoad = plannedLoad != null && plannedLoad > 0 ? plannedLoad : progression.load;
+    if (injuryImpact?.loadCap != null && uncappedLoad != null && uncappedLoad > 0) {
+      const step = increment > 0 ? increment : 2.5;
+      const capped = Math.max(step, Math.floor((uncappedLoad * injuryImpact.loadCap) / step) * step);
+      loadInfo.load = formatLoadValue(capped);
+      loadInfo.loadBasis = `${loadInfo.loadBasis} Injury cap: ${injuryImpact.note}, so ${formatLoadValue(uncappedLoad)} drops to ${formatLoadValue(capped)}.`;
+    }
 
     let note = activeHist?.lastReps
       ? `Last time ${Math.round(activeHist.lastLoad ?? 0)} x ${activeHist.lastReps}. ${program.note}`
@@ -1059,6 +1241,14 @@ function buildExercisesFromSlots(
       note = `${note} ${cleaned}.`;
     }
 
+    if (!swappedFrom && (progression.action === "reset" || progression.action === "deload")) {
+      eventTag = progression.action === "reset" ? "Stall reset" : "Stall deload";
+    }
+    if (injuryImpact?.note) {
+      note = `${note} ${injuryImpact.note}.`;
+      if (!swappedFrom) eventTag = "Injury ramp";
+    }
+
     const chosenFamily = getMovementFamilyForExerciseKey(key);
     const displaySlot =
       slot === "SecondaryRow" && chosenFamily !== "horizontal_pull"
@@ -1075,12 +1265,22 @@ function buildExercisesFromSlots(
       slot: displaySlot,
       name,
       sets,
-      reps: program.reps,
+      reps,
       load: loadInfo.load,
       loadBasis: loadInfo.loadBasis,
       note,
       eventTag,
       swappedFrom,
+      progressionModel,
+      progressionAction: progression.action,
+      trace,
+      setPlan: prescribeSetTypes({
+        slot: slot as Slot,
+        mode,
+        progression,
+        load: loadInfo.load,
+        timeTight: frictionVolumeCap === "reduced",
+      }),
     };
   });
 }
@@ -1172,8 +1372,14 @@ export function computeBrainSnapshot(input: BrainInput): BrainSnapshot {
   const debtWeightedNeeds = applyMovementDebtToNeeds(preferenceWeightedNeeds, movementDebt);
 
   const split = sanitizeSplitConfig(input.splitConfig);
+  const plannedSession = input.plannedSession?.slots.length ? input.plannedSession : null;
   const driveFromConfiguredSplit = shouldDriveFromConfiguredSplit(input, split);
-  const chosenSplitDay = driveFromConfiguredSplit && split ? enrichSplitDay(chooseSplitDay(input, split)) : null;
+  // A planned program session is the source of truth for the day; otherwise fall back to split rotation.
+  const chosenSplitDay: SplitDayDefinition | null = plannedSession
+    ? { id: plannedSession.splitDayId, name: plannedSession.splitDayName, slots: plannedSession.slots.map((target) => target.slot) }
+    : driveFromConfiguredSplit && split
+    ? enrichSplitDay(chooseSplitDay(input, split))
+    : null;
 
   const composer = composeAdaptiveSession({
     needs: debtWeightedNeeds,
@@ -1198,7 +1404,7 @@ export function computeBrainSnapshot(input: BrainInput): BrainSnapshot {
   });
 
   const adaptiveFocus = inferFocusFromSlots(composer.slots);
-  const decision = chooseDecision(
+  const chosenDecision = chooseDecision(
     input,
     readinessScore,
     recoveryScore,
@@ -1208,6 +1414,13 @@ export function computeBrainSnapshot(input: BrainInput): BrainSnapshot {
     chosenSplitDay?.id ?? null,
     chosenSplitDay?.name ?? null
   );
+  const decision: Decision = plannedSession?.deload
+    ? {
+        ...chosenDecision,
+        mode: "Reduced volume",
+        overrideReason: chosenDecision.overrideReason ?? "The program calendar has this week down as a deload, so volume and intent stay light.",
+      }
+    : chosenDecision;
 
   const nextSessionPriority = buildNextSessionPriorityProfile({
     asOf: new Date().toISOString(),
@@ -1220,14 +1433,19 @@ export function computeBrainSnapshot(input: BrainInput): BrainSnapshot {
     exerciseHistory: input.exerciseHistory,
   });
 
-  const recommendedExercises = buildExercisesFromSlots(
+  const slotExercises = buildExercisesFromSlots(
     composer.slots,
     decision.mode,
     input.exerciseHistory,
     input.preferenceSignals,
     input.frictionProfile,
-    nextSessionPriority
+    nextSessionPriority,
+    plannedSession?.slots ?? null,
+    needWeightProfile.weights
   );
+  // Antagonist supersets only come from fitting the session into the time available.
+  const budgetFit = fitSessionToBudget(slotExercises, input.sessionBudgetMin);
+  const recommendedExercises = budgetFit.exercises;
 
   const friction = input.frictionProfile;
 
@@ -1333,6 +1551,12 @@ export function computeBrainSnapshot(input: BrainInput): BrainSnapshot {
       ? `Split day: ${decision.plannedDayName}`
       : `Adaptive day: ${composer.emphasis}`
   );
+  if (input.location) {
+    alerts.push(`Location: ${input.location.name} (${input.location.equipmentCount} equipment items)`);
+  }
+  if (plannedSession) {
+    alerts.push(`Program: week ${plannedSession.weekIndex}, session ${plannedSession.order + 1}${plannedSession.deload ? " (deload)" : ""}`);
+  }
   if (composer.topNeeds.length > 0) {
     alerts.push(`Top needs: ${composer.topNeeds.slice(0, 3).join(" / ")}`);
   }
@@ -1357,6 +1581,16 @@ export function computeBrainSnapshot(input: BrainInput): BrainSnapshot {
   if (friction) {
     alerts.push(`Friction ${friction.level}: progression ${friction.recommendations.progressionCap} / volume ${friction.recommendations.volumeCap} / novelty ${friction.recommendations.noveltyCap}`);
   }
+  const supersetLeads = recommendedExercises.filter((ex) => ex.group?.order === 0);
+  if (supersetLeads.length > 0) {
+    alerts.push(`Short on time: ${supersetLeads.length} antagonist superset${supersetLeads.length === 1 ? "" : "s"} to save rest`);
+  }
+  if (budgetFit.budgetMin != null && budgetFit.adjustments.length > 0) {
+    alerts.push(`Time budget ${budgetFit.budgetMin} min: ${budgetFit.adjustments.join(" • ")}`);
+  }
+  if (budgetFit.overBudgetMin != null) {
+    alerts.push(`Still ~${budgetFit.overBudgetMin} min over budget with every set at its floor`);
+  }
   if (decision.mode === "Progression") {
     alerts.push("Progression window open");
   } else if (decision.mode === "Reduced volume") {
@@ -1409,7 +1643,16 @@ export function computeBrainSnapshot(input: BrainInput): BrainSnapshot {
       alerts,
       plannedDayId: decision.plannedDayId,
       plannedDayName: decision.plannedDayName,
+      programSessionId: plannedSession?.id ?? null,
+      locationId: input.location?.id ?? null,
+      locationName: input.location?.name ?? null,
       exercises: recommendedExercises,
+      duration: {
+        estimatedMin: budgetFit.estimatedMin,
+        budgetMin: budgetFit.budgetMin,
+        adjustments: budgetFit.adjustments,
+        overBudgetMin: budgetFit.overBudgetMin,
+      },
     },
   };
 }
@@ -0,0 +1,278 @@
+/**
+ * The coach-ai response contract, shared by the Netlify function and the dashboard:
+ * - the model is asked for one JSON object matching COACH_AI_JSON_SCHEMA; the function validates
+ *   it here, and the client validates again before trusting a response or a cached copy
+ * - validation repairs what it safely can (code fences, prose around the object, trailing
+ *   commas, enum case, overlong lists) and drops malformed list items; only a missing headline,
+ *   confidence or priority list makes a payload invalid
+ * - item ids are assigned here rather than by the model, so the dashboard can check items off
+ * - source says where the payload came from: the model as sent, the model after repair, or the
+ *   deterministic signals fallback when the model failed
+ */
+
+export type CoachAiConfidence = "high" | "medium" | "low";
+
+export type CoachAiSource = "model" | "repaired" | "fallback";
+
+export type CoachAiPriorityCategory = "training" | "nutrition" | "recovery" | "logging";
+
+export type CoachAiLiftAction = "increase" | "hold" | "decrease" | "deload" | "swap";
+
+export type CoachAiFlagLevel = "ok" | "watch" | "act";
+
+export type CoachAiPriority = {
+  id: string;
+  category: CoachAiPriorityCategory;
+  title: string;
+  detail: string;
+};
+
+export type CoachAiLiftSuggestion = {
+  id: string;
+  lift: string;
+  action: CoachAiLiftAction;
+  loadLbs: number | null;
+  reps: string | null;
+  rpeCap: number | null;
+  note: string;
+};
+
+export type CoachAiFlag = {
+  id: string;
+  level: CoachAiFlagLevel;
+  message: string;
+};
+
+export type CoachAiPayload = {
+  headline: string;
+  confidence: CoachAiConfidence;
+  priorities: CoachAiPriority[];
+  liftSuggestions: CoachAiLiftSuggestion[];
+  nutritionFlags: CoachAiFlag[];
+  recoveryFlags: CoachAiFlag[];
+  doNot: string | null;
+  logTomorrow: string | null;
+};
+
+export type CoachAiParseResult = {
+  payload: CoachAiPayload | null;
+  errors: string[];
+  repaired: boolean;
+};
+
+export const COACH_AI_CONFIDENCE: CoachAiConfidence[] = ["high", "medium", "low"];
+export const COACH_AI_PRIORITY_CATEGORIES: CoachAiPriorityCategory[] = ["training", "nutrition", "recovery", "logging"];
+export const COACH_AI_LIFT_ACTIONS: CoachAiLiftAction[] = ["increase", "hold", "decrease", "deload", "swap"];
+export const COACH_AI_FLAG_LEVELS: CoachAiFlagLevel[] = ["ok", "watch", "act"];
+
+const MAX_PRIORITIES = 3;
+const MAX_LIFT_SUGGESTIONS = 6;
+const MAX_FLAGS = 4;
+
+const flagSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: ["level", "message"],
+  properties: {
+    level: { type: "string", enum: COACH_AI_FLAG_LEVELS },
+    message: { type: "string" },
+  },
+};
+
+/** JSON schema for the model; ids are left out on purpose (see the module note). */
+export const COACH_AI_JSON_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["headline", "confidence", "priorities", "liftSuggestions", "nutritionFlags", "recoveryFlags", "doNot", "logTomorrow"],
+  properties: {
+    headline: { type: "string" },
+    confidence: { type: "string", enum: COACH_AI_CONFIDENCE },
+    priorities: {
+      type: "array",
+      maxItems: MAX_PRIORITIES,
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["category", "title", "detail"],
+        properties: {
+          category: { type: "string", enum: COACH_AI_PRIORITY_CATEGORIES },
+          title: { type: "string" },
+          detail: { type: "string" },
+        },
+      },
+    },
+    liftSuggestions: {
+      type: "array",
+      maxItems: MAX_LIFT_SUGGESTIONS,
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["lift", "action", "loadLbs", "reps", "rpeCap", "note"],
+        properties: {
+          lift: { type: "string" },
+          action: { type: "string", enum: COACH_AI_LIFT_ACTIONS },
+          loadLbs: { type: ["number", "null"] },
+          reps: { type: ["string", "null"] },
+          rpeCap: { type: ["number", "null"] },
+          note: { type: "string" },
+        },
+      },
+    },
+    nutritionFlags: { type: "array", maxItems: MAX_FLAGS, items: flagSchema },
+    recoveryFlags: { type: "array", maxItems: MAX_FLAGS, items: flagSchema },
+    doNot: { type: ["string", "null"] },
+    logTomorrow: { type: ["string", "null"] },
+  },
+};
+
+function text(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function finite(value: unknown): number | null {
+  const n = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+function oneOf<T extends string>(value: unknown, options: T[]): T | null {
+  const v = typeof value === "string" ? value.trim().toLowerCase() : "";
+  return (options as string[]).includes(v) ? (v as T) : null;
+}
+
+function list(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function parsePriority(value: any): Omit<CoachAiPriority, "id"> | null {
+  const title = text(value?.title);
+  if (!title) return null;
+  return {
+    category: oneOf(value?.category, COACH_AI_PRIORITY_CATEGORIES) ?? "training",
+    title,
+    detail: text(value?.detail) ?? "",
+  };
+}
+
+function parseLift(value: any): Omit<CoachAiLiftSuggestion, "id"> | null {
+  const lift = text(value?.lift);
+  const action = oneOf(value?.action, COACH_AI_LIFT_ACTIONS);
+  if (!lift || !action) return null;
+  const loadLbs = finite(value?.loadLbs);
+  const rpeCap = finite(value?.rpeCap);
+  return {
+    lift,
+    action,
+    loadLbs: loadLbs != null && loadLbs > 0 ? loadLbs : null,
+    reps: text(value?.reps) ?? (typeof value?.reps === "number" ? String(value.reps) : null),
+    rpeCap: rpeCap != null && rpeCap >= 5 && rpeCap <= 10 ? rpeCap : null,
+    note: text(value?.note) ?? "",
+  };
+}
+
+function parseFlags(value: unknown, prefix: string): CoachAiFlag[] {
+  const out: CoachAiFlag[] = [];
+  for (const item of list(value)) {
+    const message = text((item as any)?.message);
+    if (!message) continue;
+    out.push({ id: `${prefix}-${out.length + 1}`, level: oneOf((item as any)?.level, COACH_AI_FLAG_LEVELS) ?? "watch", message });
+    if (out.length >= MAX_FLAGS) break;
+  }
+  return out;
+}
+
+function compact<T>(items: Array<T | null>, max: number): T[] {
+  return items.filter((item): item is T => item != null).slice(0, max);
+}
+
+export function validateCoachAiPayload(value: unknown): { payload: CoachAiPayload | null; errors: string[] } {
+  const v = value as any;
+  if (!v || typeof v !== "object" || Array.isArray(v)) return { payload: null, errors: ["expected a JSON object"] };
+  const errors: string[] = [];
+  const headline = text(v.headline);
+  const confidence = oneOf(v.confidence, COACH_AI_CONFIDENCE);
+  const priorities = compact(list(v.priorities).map(parsePriority), MAX_PRIORITIES);
+  if (!headline) errors.push("headline: expected a non-empty string");
+  if (!confidence) errors.push(`confidence: expected one of ${COACH_AI_CONFIDENCE.join(", ")}`);
+  if (!priorities.length) errors.push("priorities: expected at least one item with a title");
+  if (errors.length || !headline || !confidence) return { payload: null, errors };
+  return {
+    payload: {
+      headline,
+      confidence,
+      priorities: priorities.map((item, idx) => ({ ...item, id: `priority-${idx + 1}` })),
+      liftSuggestions: compact(list(v.liftSuggestions).map(parseLift), MAX_LIFT_SUGGESTIONS)
+        .map((item, idx) => ({ ...item, id: `lift-${idx + 1}` })),
+      nutritionFlags: parseFlags(v.nutritionFlags, "nutrition"),
+      recoveryFlags: parseFlags(v.recoveryFlags, "recovery"),
+      doNot: text(v.doNot),
+      logTomorrow: text(v.logTomorrow),
+    },
+    errors: [],
+  };
+}
+
+// Best-effort cleanup of a reply that is almost JSON: fences, chatter around it, trailing commas.
+function repairJsonText(raw: string): string {
+  let s = raw.trim().replace(/^```(?:json)?\s*/i, "").replace(/```\s*$/, "");
+  const start = s.indexOf("{");
+  const end = s.lastIndexOf("}");
+  if (start >= 0 && end > start) s = s.slice(start, end + 1);
+  return s.replace(/,\s*([}\]])/g, "$1").replace(/[“”]/g, '"');
+}
+
+/** Model reply text to a payload, repairing the JSON when it has to. */
+export function parseCoachAiText(raw: string): CoachAiParseResult {
+  let parsed: unknown;
+  let repaired = false;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    try {
+      parsed = JSON.parse(repairJsonText(raw));
+      repaired = true;
+    } catch (e: any) {
+      return { payload: null, errors: [`not JSON: ${e?.message ?? String(e)}`], repaired: true };
+    }
+  }
+  const result = validateCoachAiPayload(parsed);
+  return { ...result, repaired };
+}
+
+const LIFT_ACTION_LABELS: Record<CoachAiLiftAction, string> = {
+  increase: "Add load",
+  hold: "Hold",
+  decrease: "Back off",
+  deload: "Deload",
+  swap: "Swap",
+};
+
+export function formatLiftSuggestion(item: CoachAiLiftSuggestion): string {
+  const bits = [`${LIFT_ACTION_LABELS[item.action]}: ${item.lift}`];
+  if (item.loadLbs != null) bits.push(`${item.loadLbs} lb`);
+  if (item.reps) bits.push(`× ${item.reps}`);
+  if (item.rpeCap != null) bits.push(`@ RPE ≤${item.rpeCap}`);
+  return bits.join(" ");
+}
+
+/** Plain-text readout in the coach's four-section layout, for anything that still wants text. */
+export function formatCoachAiText(payload: CoachAiPayload): string {
+  const flags = [...payload.nutritionFlags, ...payload.recoveryFlags];
+  const lines = [
+    "1) REALITY CHECK",
+    payload.headline,
+    ...flags.filter((flag) => flag.level !== "ok").map((flag) => `- ${flag.message}`),
+    "",
+    "2) WHAT IMPROVED",
+    ...(flags.some((flag) => flag.level === "ok") ? flags.filter((flag) => flag.level === "ok").map((flag) => `- ${flag.message}`) : ["- Nothing flagged as improved."]),
+    "",
+    "3) WHAT NEEDS TIGHTENING",
+    ...payload.priorities.map((item) => `- ${item.title}${item.detail ? ` — ${item.detail}` : ""}`),
+    "",
+    "4) NEXT MOVE",
+    ...payload.liftSuggestions.map((item) => `- ${formatLiftSuggestion(item)}${item.note ? ` — ${item.note}` : ""}`),
+  ];
+  if (payload.doNot) lines.push(`- Do not do: ${payload.doNot}`);
+  if (payload.logTomorrow) lines.push(`- Log tomorrow: ${payload.logTomorrow}`);
+  lines.push("", `Confidence: ${payload.confidence}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,267 @@
+import {
+  buildExerciseDefinition,
+  explainSlotMismatch,
+  getAllExercises,
+  inferExerciseSlots,
+  isSeedExerciseKey,
+  normalizeExerciseAlias,
+  resolveExerciseAlias,
+  setCustomExerciseDefinitions,
+  type ExerciseSeedInput,
+} from "./exerciseRegistry";
+import { getExerciseRequirementRules, setCustomRequirementRules } from "./exerciseEligibility";
+import { getEquipmentById } from "./equipmentRegistry";
+import type { EquipmentId, EquipmentRequirementGroup } from "./equipmentTypes";
+import type {
+  EquipmentTag,
+  ExerciseDefinition,
+  MovementPattern,
+  MuscleTag,
+  ProgressionModel,
+  RoleTag,
+} from "./exerciseTypes";
+import { ALL_SLOTS, type Slot } from "./slotTypes";
+
+/**
+ * User-defined exercises:
+ * - stored one row per exercise (Dexie `customExercises`, Supabase `custom_exercises`)
+ * - keys are always `custom_*` so they never shadow a seed; built-ins are edited by cloning
+ * - deletes are soft (`deleted: true`) so the tombstone syncs like any other edit
+ * - each row is turned into an ExerciseDefinition through the same inference as the seeds
+ *   and merged into the registry; requirement groups feed equipment eligibility
+ */
+
+export type CustomExerciseRec = {
+  id: string; // uuid
+  user_id: string;
+  key: string; // custom_*
+  canonical_name: string;
+  aliases: string[];
+  movement_patterns: MovementPattern[];
+  primary_muscles: MuscleTag[];
+  secondary_muscles: MuscleTag[];
+  equipment: EquipmentTag[];
+  role_tags: RoleTag[];
+  family: string;
+  fatigue: ExerciseDefinition["fatigue"];
+  compound: boolean;
+  unilateral: boolean;
+  allowed_slots: Slot[] | null; // null = infer from patterns + roles
+  requirements: EquipmentRequirementGroup[];
+  progression_model: ProgressionModel | null;
+  cloned_from: string | null;
+  deleted: boolean;
+  updated_at: string;
+};
+
+export type CustomExerciseValidation = {
+  errors: string[];
+  warnings: string[];
+  slots: Slot[];
+};
+
+export const MOVEMENT_PATTERNS: MovementPattern[] = [
+  "horizontal_push",
+  "vertical_push",
+  "horizontal_pull",
+  "vertical_pull",
+  "rear_delt",
+  "elbow_flexion",
+  "elbow_extension",
+  "squat",
+  "hinge",
+  "lunge",
+  "knee_flexion",
+  "calves",
+  "other",
+];
+
+export const MUSCLE_TAGS: MuscleTag[] = [
+  "chest",
+  "front_delts",
+  "side_delts",
+  "rear_delts",
+  "triceps",
+  "lats",
+  "upper_back",
+  "biceps",
+  "quads",
+  "hamstrings",
+  "glutes",
+  "calves",
+  "other",
+];
+
+export const EQUIPMENT_TAGS: EquipmentTag[] = ["barbell", "dumbbell", "bench", "rack", "cable", "machine", "bodyweight", "band", "ssb", "other"];
+
+export const ROLE_TAGS: RoleTag[] = ["anchor", "primary", "secondary", "accessory", "pump"];
+
+const PROGRESSION_MODELS: ProgressionModel[] = ["linear_load", "double_progression", "rpe_top_set", "rep_range"];
+
+function pickList<T extends string>(raw: unknown, allowed: readonly T[]): T[] {
+  if (!Array.isArray(raw)) return [];
+  return [...new Set(raw.map((item) => String(item ?? "").trim()).filter((item): item is T => allowed.includes(item as T)))];
+}
+
+function normalizeRequirements(raw: unknown): EquipmentRequirementGroup[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((group) => (Array.isArray(group) ? group : []).map((id) => String(id ?? "").trim()).filter((id) => !!getEquipmentById(id)) as EquipmentId[])
+    .map((group) => [...new Set(group)])
+    .filter((group) => group.length > 0);
+}
+
+export function makeCustomExerciseKey(name: string, takenKeys: Iterable<string>): string {
+  const taken = new Set(takenKeys);
+  const stem = `custom_${normalizeExerciseAlias(name) || "exercise"}`;
+  let key = stem;
+  for (let n = 2; taken.has(key) || isSeedExerciseKey(key); n++) key = `${stem}_${n}`;
+  return key;
+}
+
+export function normalizeCustomExercise(raw: any): CustomExerciseRec | null {
+  if (!raw || typeof raw !== "object" || !raw.id || !raw.user_id) return null;
+  const key = String(raw.key ?? "").trim();
+  if (!key.startsWith("custom_")) return null;
+  const allowedSlots = raw.allowed_slots == null ? null : pickList(raw.allowed_slots, ALL_SLOTS);
+  return {
+    id: String(raw.id),
+    user_id: String(raw.user_id),
+    key,
+    canonical_name: String(raw.canonical_name ?? "").trim(),
+    aliases: Array.isArray(raw.aliases) ? raw.aliases.map((alias: unknown) => String(alias ?? "").trim()).filter(Boolean) : [],
+    movement_patterns: pickList(raw.movement_patterns, MOVEMENT_PATTERNS),
+    primary_muscles: pickList(raw.primary_muscles, MUSCLE_TAGS),
+    secondary_muscles: pickList(raw.secondary_muscles, MUSCLE_TAGS),
+    equipment: pickList(raw.equipment, EQUIPMENT_TAGS),
+    role_tags: pickList(raw.role_tags, ROLE_TAGS),
+    family: normalizeExerciseAlias(String(raw.family ?? "")) || "custom",
+    fatigue: raw.fatigue === "low" || raw.fatigue === "high" ? raw.fatigue : "medium",
+    compound: !!raw.compound,
+    unilateral: !!raw.unilateral,
+    allowed_slots: allowedSlots && allowedSlots.length ? allowedSlots : null,
+    requirements: normalizeRequirements(raw.requirements),
+    progression_model: PROGRESSION_MODELS.includes(raw.progression_model) ? raw.progression_model : null,
+    cloned_from: raw.cloned_from ? String(raw.cloned_from) : null,
+    deleted: !!raw.deleted,
+    updated_at: String(raw.updated_at ?? new Date().toISOString()),
+  };
+}
+
+function toSeedInput(rec: CustomExerciseRec): ExerciseSeedInput {
+  return {
+    key: rec.key,
+    canonicalName: rec.canonical_name,
+    aliases: rec.aliases,
+    movementPatterns: rec.movement_patterns,
+    primaryMuscles: rec.primary_muscles,
+    secondaryMuscles: rec.secondary_muscles,
+    equipment: rec.equipment,
+    roleTags: rec.role_tags,
+    family: rec.family,
+    fatigue: rec.fatigue,
+    compound: rec.compound,
+    unilateral: rec.unilateral || undefined,
+    allowedSlots: rec.allowed_slots ?? undefined,
+    progressionModel: rec.progression_model ?? undefined,
+  };
+}
+
+export function customExerciseToDefinition(rec: CustomExerciseRec): ExerciseDefinition {
+  return buildExerciseDefinition(toSeedInput(rec));
+}
+
+export function cloneExerciseAsCustom(source: ExerciseDefinition, userId: string, id: string, takenKeys: Iterable<string>): CustomExerciseRec {
+  const name = `${source.canonicalName} (custom)`;
+  // Keep only slots the slot rules would honour; fall back to inference when nothing is left to pin.
+  const fittingSlots = source.allowedSlots.filter((slot) => !explainSlotMismatch(source, slot));
+  return {
+    id,
+    user_id: userId,
+    key: makeCustomExerciseKey(source.canonicalName, takenKeys),
+    canonical_name: name,
+    aliases: [],
+    movement_patterns: [...source.movementPatterns],
+    primary_muscles: [...source.primaryMuscles],
+    secondary_muscles: [...source.secondaryMuscles],
+    equipment: [...source.equipment],
+    role_tags: [...source.roleTags],
+    family: source.family,
+    fatigue: source.fatigue,
+    compound: source.compound,
+    unilateral: !!source.unilateral,
+    allowed_slots: fittingSlots.length ? fittingSlots : null,
+    requirements: getExerciseRequirementRules(source.key),
+    progression_model: source.progressionModel,
+    cloned_from: source.key,
+    deleted: false,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+export function validateCustomExercise(rec: CustomExerciseRec, others: CustomExerciseRec[]): CustomExerciseValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!rec.canonical_name) errors.push("Name is required.");
+  if (!rec.movement_patterns.length) errors.push("Pick at least one movement pattern.");
+  if (!rec.primary_muscles.length) errors.push("Pick at least one primary muscle.");
+  if (!rec.role_tags.length) errors.push("Pick at least one role.");
+  if (!rec.equipment.length) warnings.push("No equipment tags: it will count as available with any equipment profile.");
+
+  const live = others.filter((other) => other.id !== rec.id && !other.deleted);
+  if (live.some((other) => other.key === rec.key)) errors.push(`Key ${rec.key} is already used by another custom exercise.`);
+
+  const ownAliases = new Set([rec.key, rec.canonical_name, ...rec.aliases].map(normalizeExerciseAlias).filter(Boolean));
+  for (const alias of ownAliases) {
+    const owner = resolveExerciseAlias(alias);
+    if (owner && owner !== rec.key && isSeedExerciseKey(owner)) {
+      errors.push(`"${alias.replace(/_/g, " ")}" already names the built-in ${owner}; logs would resolve there instead.`);
+    } else if (owner && owner !== rec.key) {
+      warnings.push(`"${alias.replace(/_/g, " ")}" is also an alias of ${owner}; the older exercise keeps it.`);
+    }
+  }
+
+  const definition = customExerciseToDefinition(rec);
+  const slots = definition.allowedSlots;
+  if (!slots.length) {
+    warnings.push("No slot fits these patterns and roles, so the session builder will never pick it. It can still be logged.");
+  }
+  for (const slot of slots) {
+    const mismatch = explainSlotMismatch(definition, slot);
+    if (mismatch) errors.push(`Listed for ${slot}, but ${mismatch}.`);
+  }
+  if (rec.allowed_slots) {
+    const inferred = inferExerciseSlots({ ...toSeedInput(rec), allowedSlots: undefined });
+    const extra = rec.allowed_slots.filter((slot) => !inferred.includes(slot));
+    if (extra.length) warnings.push(`Slots not implied by its patterns and roles: ${extra.join(", ")}.`);
+  }
+  if (rec.role_tags.includes("anchor") && !rec.compound) warnings.push("Anchors are usually compound lifts.");
+
+  return { errors, warnings, slots };
+}
+
+/** Pushes live, valid rows into the registry and eligibility rules. Returns the keys that were applied. */
+export function applyCustomExercises(records: CustomExerciseRec[]): string[] {
+  const live = (records ?? []).filter((rec) => !rec.deleted);
+  const accepted: CustomExerciseRec[] = [];
+  setCustomExerciseDefinitions([]);
+  for (const rec of live) {
+    if (validateCustomExercise(rec, accepted).errors.length) continue;
+    accepted.push(rec);
+  }
+
+  setCustomExerciseDefinitions(accepted.map(customExerciseToDefinition));
+  const rules: Record<string, EquipmentRequirementGroup[]> = {};
+  for (const rec of accepted) {
+    if (rec.requirements.length) rules[rec.key] = rec.requirements;
+  }
+  setCustomRequirementRules(rules);
+  return accepted.map((rec) => rec.key);
+}
+
+export function listBuiltInExercises(): ExerciseDefinition[] {
+  return getAllExercises()
+    .filter((exercise) => isSeedExerciseKey(exercise.key))
+    .sort((a, b) => a.canonicalName.localeCompare(b.canonicalName));
+}
@@ -0,0 +1,134 @@
+import { DEFAULT_EQUIPMENT_PROFILE, EQUIPMENT_ITEMS, normalizeEquipmentProfile } from "./equipmentRegistry";
+import type { EquipmentId, EquipmentProfile, EquipmentProfileSet, NamedEquipmentProfile } from "./equipmentTypes";
+
+/**
+ * Named equipment profiles (locations):
+ * - stored as one set under `equipment_profiles_v1`; `activeId` is the location the next
+ *   session is planned for
+ * - a legacy single `equipment_profile_v1` becomes the Home profile on first load
+ * - there is always at least one profile; ids are stable so logged sessions can reference them
+ */
+
+export const HOME_PROFILE_ID = "home";
+
+const GYM_AVAILABLE: EquipmentId[] = EQUIPMENT_ITEMS.map((item) => item.id);
+
+const TRAVEL_AVAILABLE: EquipmentId[] = [
+  "adjustable_dumbbells",
+  "adjustable_bench",
+  "resistance_bands",
+  "bodyweight_space",
+  "cable_pulldown_station",
+];
+
+export const DEFAULT_EQUIPMENT_PROFILE_SET: EquipmentProfileSet = {
+  version: 1,
+  activeId: HOME_PROFILE_ID,
+  profiles: [
+    { id: HOME_PROFILE_ID, name: "Home", version: 1, available: [...DEFAULT_EQUIPMENT_PROFILE.available] },
+    { id: "gym", name: "Gym", version: 1, available: [...GYM_AVAILABLE] },
+    { id: "travel", name: "Travel", version: 1, available: [...TRAVEL_AVAILABLE] },
+  ],
+};
+
+function normalizeNamedProfile(raw: any, index: number): NamedEquipmentProfile | null {
+  if (!raw || typeof raw !== "object") return null;
+  const id = String(raw.id ?? "").trim() || `profile_${index + 1}`;
+  const name = String(raw.name ?? "").trim() || `Location ${index + 1}`;
+  return { id, name, ...normalizeEquipmentProfile(raw) };
+}
+
+export function normalizeEquipmentProfileSet(raw: unknown, legacy?: EquipmentProfile | null): EquipmentProfileSet {
+  const base: EquipmentProfileSet = {
+    ...DEFAULT_EQUIPMENT_PROFILE_SET,
+    profiles: DEFAULT_EQUIPMENT_PROFILE_SET.profiles.map((profile) =>
+      profile.id === HOME_PROFILE_ID && legacy ? { ...profile, available: [...normalizeEquipmentProfile(legacy).available] } : { ...profile, available: [...profile.available] }
+    ),
+  };
+  const rawProfiles = Array.isArray((raw as any)?.profiles) ? ((raw as any).profiles as unknown[]) : null;
+  if (!rawProfiles) return base;
+
+  const seen = new Set<string>();
+  const profiles = rawProfiles
+    .map(normalizeNamedProfile)
+    .filter((profile): profile is NamedEquipmentProfile => {
+      if (!profile || seen.has(profile.id)) return false;
+      seen.add(profile.id);
+      return true;
+    });
+  if (!profiles.length) return base;
+
+  const activeId = String((raw as any)?.activeId ?? "");
+  return {
+    version: 1,
+    activeId: profiles.some((profile) => profile.id === activeId) ? activeId : profiles[0].id,
+    profiles,
+  };
+}
+
+export function getActiveNamedProfile(set: EquipmentProfileSet): NamedEquipmentProfile {
+  return set.profiles.find((profile) => profile.id === set.activeId) ?? set.profiles[0];
+}
+
+export function getNamedProfile(set: EquipmentProfileSet, id: string | null | undefined): NamedEquipmentProfile | null {
+  return set.profiles.find((profile) => profile.id === id) ?? null;
+}
+
+export function selectEquipmentProfile(set: EquipmentProfileSet, id: string): EquipmentProfileSet {
+  return set.profiles.some((profile) => profile.id === id) ? { ...set, activeId: id } : set;
+}
+
+export function upsertEquipmentProfile(set: EquipmentProfileSet, profile: NamedEquipmentProfile): EquipmentProfileSet {
+  const normalized = normalizeNamedProfile(profile, set.profiles.length);
+  if (!normalized) return set;
+  const exists = set.profiles.some((item) => item.id === normalized.id);
+  return {
+    ...set,
+    profiles: exists ? set.profiles.map((item) => (item.id === normalized.id ? normalized : item)) : [...set.profiles, normalized],
+  };
+}
+
+export function removeEquipmentProfile(set: EquipmentProfileSet, id: string): EquipmentProfileSet {
+  const profiles = set.profiles.filter((profile) => profile.id !== id);
+  if (!profiles.length) return set;
+  return { version: 1, profiles, activeId: set.activeId === id ? profiles[0].id : set.activeId };
+}
+
+export function makeEquipmentProfileId(name: string, set: EquipmentProfileSet): string {
+  const stem =
+    String(name || "")
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "location";
+  let id = stem;
+  for (let n = 2; set.profiles.some((profile) => profile.id === id); n++) id = `${stem}_${n}`;
+  return id;
+}
+
+export type LocationSessionCount = {
+  id: string | null;
+  name: string;
+  sessions: number;
+};
+
+/** Session counts per recorded location; sessions logged before locations existed land in "Unrecorded". */
+export function summarizeSessionsByLocation(
+  sessions: Array<{ locationId: string | null; locationName: string | null }>,
+  set: EquipmentProfileSet
+): LocationSessionCount[] {
+  const counts = new Map<string, LocationSessionCount>();
+  for (const session of sessions) {
+    const key = session.locationId ?? "";
+    const current = counts.get(key);
+    if (current) {
+      current.sessions += 1;
+      continue;
+    }
+    const name = session.locationId
+      ? getNamedProfile(set, session.locationId)?.name ?? session.locationName ?? session.locationId
+      : "Unrecorded";
+    counts.set(key, { id: session.locationId, name, sessions: 1 });
+  }
+  return [...counts.values()].sort((a, b) => b.sessions - a.sessions);
+}
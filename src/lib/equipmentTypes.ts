@@ -35,3 +35,14 @@ export type EquipmentProfile = {
 };
 
 export type EquipmentRequirementGroup = EquipmentId[];
+
+export type NamedEquipmentProfile = EquipmentProfile & {
+  id: string;
+  name: string;
+};
+
+export type EquipmentProfileSet = {
+  version: 1;
+  activeId: string;
+  profiles: NamedEquipmentProfile[];
+};
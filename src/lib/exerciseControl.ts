@@ -1,3 +1,5 @@
+import type { ProgressionModel } from "./exerciseTypes";
+
 export type ExerciseControlRec = {
   user_id: string;
   exercise_library_id: string;
@@ -5,6 +7,7 @@ export type ExerciseControlRec = {
   avoid: boolean;
   never: boolean;
   injury: boolean;
+  progression_model?: ProgressionModel | null; // user's pick; null follows the registry default
   updated_at: string;
 };
 
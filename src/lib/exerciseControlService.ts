@@ -1,5 +1,6 @@
 import { emptyExerciseControl, type ExerciseControlRec } from "./exerciseControl";
 import { getCanonicalExerciseIdentity, type ExerciseIdentityInput } from "./exerciseIdentity";
+import type { ProgressionModel } from "./exerciseTypes";
 
 export type ExerciseControlKind = "prefer" | "avoid" | "never" | "injury";
 
@@ -59,3 +60,30 @@ export async function setExerciseControlRecord(
   await deps.refresh();
   if (deps.refreshDashboard) await deps.refreshDashboard();
 }
+
+export async function setExerciseProgressionModelRecord(
+  input: ExerciseControlLookupInput,
+  model: ProgressionModel | null,
+  deps: ExerciseControlsDeps
+): Promise<void> {
+  const uid = deps.userId ?? null;
+  const exerciseLibraryId = resolveExerciseControlLibraryId(input);
+  if (!uid || !exerciseLibraryId) return;
+
+  const key: [string, string] = [uid, exerciseLibraryId];
+  const current = (await deps.getByKey(key)) ?? emptyExerciseControl(uid, exerciseLibraryId);
+  current.progression_model = model;
+  current.updated_at = new Date().toISOString();
+  await deps.put(current);
+  await deps.refresh();
+  if (deps.refreshDashboard) await deps.refreshDashboard();
+}
+
+/** Per-exercise progression model picks, keyed the way the registry keys exercise ids. */
+export function progressionModelChoicesFrom(rows: ExerciseControlRec[]): Record<string, ProgressionModel> {
+  const out: Record<string, ProgressionModel> = {};
+  for (const row of rows ?? []) {
+    if (row.progression_model) out[row.exercise_library_id] = row.progression_model;
+  }
+  return out;
+}
@@ -2,6 +2,7 @@ import { getAllExercises } from "./exerciseRegistry";
 import type { ExerciseDefinition } from "./exerciseTypes";
 import { DEFAULT_EQUIPMENT_PROFILE, normalizeEquipmentProfile } from "./equipmentRegistry";
 import type { EquipmentId, EquipmentProfile, EquipmentRequirementGroup } from "./equipmentTypes";
+import { assessInjuryImpact, type InjuryRecord } from "./injuryLog";
 
 const REQUIREMENT_RULES: Record<string, EquipmentRequirementGroup[]> = {
   bench_press: [["barbell", "adjustable_bench", "power_rack"]],
@@ -61,6 +62,17 @@ const REQUIREMENT_RULES: Record<string, EquipmentRequirementGroup[]> = {
   leg_press_calf_raise: [["leg_press_machine"]],
 };
 
+// Requirement groups for user-defined exercises, keyed like REQUIREMENT_RULES.
+let customRequirementRules: Record<string, EquipmentRequirementGroup[]> = {};
+
+export function setCustomRequirementRules(rules: Record<string, EquipmentRequirementGroup[]>): void {
+  customRequirementRules = { ...(rules ?? {}) };
+}
+
+export function getExerciseRequirementRules(key: string): EquipmentRequirementGroup[] {
+  return (REQUIREMENT_RULES[key] ?? customRequirementRules[key] ?? []).map((group) => [...group]);
+}
+
 export function normalizeProfile(profile: unknown): EquipmentProfile {
   return normalizeEquipmentProfile(profile ?? DEFAULT_EQUIPMENT_PROFILE);
 }
@@ -72,7 +84,7 @@ function groupSatisfied(group: EquipmentRequirementGroup, available: Set<Equipme
 export function isExerciseEligibleForProfile(exercise: ExerciseDefinition, profile: EquipmentProfile): boolean {
   const normalized = normalizeProfile(profile);
   const available = new Set(normalized.available);
-  const rules = REQUIREMENT_RULES[exercise.key];
+  const rules = REQUIREMENT_RULES[exercise.key] ?? customRequirementRules[exercise.key];
   if (rules?.length) {
     return rules.some((group) => groupSatisfied(group, available));
   }
@@ -92,6 +104,15 @@ export function isExerciseEligibleForProfile(exercise: ExerciseDefinition, profi
   });
 }
 
+export function isExerciseClearedForInjuries(
+  exercise: ExerciseDefinition,
+  injuries: InjuryRecord[],
+  asOfDay: string
+): boolean {
+  if (!injuries?.length) return true;
+  return !assessInjuryImpact(exercise, injuries, asOfDay).exclude;
+}
+
 export function getEligibleExerciseKeysForProfile(profile: EquipmentProfile): Set<string> {
   const normalized = normalizeProfile(profile);
   return new Set(
@@ -0,0 +1,196 @@
+/**
+ * Exercise grouping (supersets, tri-sets, circuits, EMOMs) for sessions and templates:
+ * - grouped rows share a group_id; group_order is the row's position inside one round
+ * - members always sit next to each other in sort order, so a group is a contiguous block
+ * - a round is one working set of every member; the logger alternates members until the
+ *   round closes and only then starts the full rest
+ */
+
+export type ExerciseGroupType = "superset" | "triset" | "circuit" | "emom";
+
+export type ExerciseGroupFields = {
+  group_id?: string | null;
+  group_type?: ExerciseGroupType | null;
+  group_order?: number | null;
+};
+
+export type GroupableExercise = ExerciseGroupFields & {
+  id: string;
+  sort_order: number;
+};
+
+export type ExerciseBlock<T extends GroupableExercise> = {
+  groupId: string | null;
+  type: ExerciseGroupType | null;
+  label: string | null; // "Superset A"; null for a lone exercise
+  members: T[];
+};
+
+export type ExerciseGroupPlan = {
+  groupId: string;
+  type: ExerciseGroupType;
+  memberIds: string[]; // round order
+};
+
+/** One queued membership change: `ids` join `plan` in that order, or leave any group when plan is null. */
+export type ExerciseGroupUpdate = {
+  ids: string[];
+  plan: ExerciseGroupPlan | null;
+};
+
+export const EXERCISE_GROUP_TYPES: ExerciseGroupType[] = ["superset", "triset", "circuit", "emom"];
+
+export const EXERCISE_GROUP_LABELS: Record<ExerciseGroupType, string> = {
+  superset: "Superset",
+  triset: "Tri-set",
+  circuit: "Circuit",
+  emom: "EMOM",
+};
+
+// Time to walk from one member to the next inside a round.
+export const TRANSITION_REST_SECS = 15;
+const EMOM_INTERVAL_SECS = 60;
+
+export function isExerciseGroupType(value: unknown): value is ExerciseGroupType {
+  return typeof value === "string" && (EXERCISE_GROUP_TYPES as string[]).includes(value);
+}
+
+/** EMOM is a choice; everything else is named by how many members the group has. */
+export function groupTypeForSize(size: number, current?: ExerciseGroupType | null): ExerciseGroupType {
+  if (current === "emom") return "emom";
+  if (size <= 2) return "superset";
+  if (size === 3) return "triset";
+  return "circuit";
+}
+
+/** "Superset A", "Tri-set B", … for the `index`-th group on the page. */
+export function exerciseGroupLabel(type: ExerciseGroupType, index: number): string {
+  return `${EXERCISE_GROUP_LABELS[type]} ${String.fromCharCode(65 + (index % 26))}`;
+}
+
+/** Rows in sort order, with each group collapsed into one block at its first member's position. */
+export function exerciseBlocks<T extends GroupableExercise>(rows: T[]): ExerciseBlock<T>[] {
+  const ordered = rows.slice().sort((a, b) => a.sort_order - b.sort_order);
+  const groupSizes = new Map<string, number>();
+  for (const row of ordered) {
+    if (row.group_id) groupSizes.set(row.group_id, (groupSizes.get(row.group_id) ?? 0) + 1);
+  }
+
+  const blocks: ExerciseBlock<T>[] = [];
+  const blockByGroup = new Map<string, ExerciseBlock<T>>();
+  let lettered = 0;
+  for (const row of ordered) {
+    const groupId = row.group_id && (groupSizes.get(row.group_id) ?? 0) > 1 ? row.group_id : null;
+    if (!groupId) {
+      blocks.push({ groupId: null, type: null, label: null, members: [row] });
+      continue;
+    }
+    const existing = blockByGroup.get(groupId);
+    if (existing) {
+      existing.members.push(row);
+      continue;
+    }
+    const type = isExerciseGroupType(row.group_type) ? row.group_type : groupTypeForSize(groupSizes.get(groupId) ?? 2);
+    const block: ExerciseBlock<T> = { groupId, type, label: exerciseGroupLabel(type, lettered++), members: [row] };
+    blockByGroup.set(groupId, block);
+    blocks.push(block);
+  }
+  for (const block of blockByGroup.values()) {
+    block.members.sort((a, b) => (a.group_order ?? a.sort_order) - (b.group_order ?? b.sort_order));
+  }
+  return blocks;
+}
+
+// Sort order that keeps every group contiguous.
+function groupedSortOrder<T extends GroupableExercise>(rows: T[]): string[] {
+  return exerciseBlocks(rows).flatMap((block) => block.members.map((member) => member.id));
+}
+
+/** Joins the block holding `id` with the block right after it. */
+export function planGroupWithNext<T extends GroupableExercise>(rows: T[], id: string, newGroupId: () => string): ExerciseGroupPlan | null {
+  const blocks = exerciseBlocks(rows);
+  const idx = blocks.findIndex((block) => block.members.some((member) => member.id === id));
+  if (idx < 0 || idx + 1 >= blocks.length) return null;
+  const current = blocks[idx];
+  const next = blocks[idx + 1];
+  const memberIds = [...current.members, ...next.members].map((member) => member.id);
+  const keepType = current.type === "emom" || next.type === "emom" ? "emom" : null;
+  return {
+    groupId: current.groupId ?? next.groupId ?? newGroupId(),
+    type: groupTypeForSize(memberIds.length, keepType),
+    memberIds,
+  };
+}
+
+/** Takes `id` out of its group; what is left keeps the group, or dissolves once only one member remains. */
+export function planUngroup<T extends GroupableExercise>(rows: T[], id: string): ExerciseGroupUpdate[] {
+  const block = exerciseBlocks(rows).find((item) => item.members.some((member) => member.id === id));
+  if (!block?.groupId) return [];
+  const rest = block.members.filter((member) => member.id !== id);
+  if (rest.length < 2) return [{ ids: block.members.map((member) => member.id), plan: null }];
+  const remaining: ExerciseGroupPlan = { groupId: block.groupId, type: groupTypeForSize(rest.length, block.type), memberIds: rest.map((member) => member.id) };
+  return [
+    { ids: [id], plan: null },
+    { ids: remaining.memberIds, plan: remaining },
+  ];
+}
+
+/** Switches a group between EMOM and its size-based type; members and round order stay as they are. */
+export function planGroupRetype<T extends GroupableExercise>(rows: T[], groupId: string, emom: boolean): ExerciseGroupPlan | null {
+  const block = exerciseBlocks(rows).find((item) => item.groupId === groupId);
+  if (!block?.groupId) return null;
+  return {
+    groupId: block.groupId,
+    type: emom ? "emom" : groupTypeForSize(block.members.length),
+    memberIds: block.members.map((member) => member.id),
+  };
+}
+
+/** Field values each member of a plan should carry. */
+export function groupFieldsFor(plan: ExerciseGroupPlan | null, memberId: string): Required<ExerciseGroupFields> {
+  const order = plan ? plan.memberIds.indexOf(memberId) : -1;
+  if (!plan || order < 0) return { group_id: null, group_type: null, group_order: null };
+  return { group_id: plan.groupId, group_type: plan.type, group_order: order };
+}
+
+/** Rows with the updates applied, renumbered so every group is contiguous. */
+export function applyGroupUpdates<T extends GroupableExercise>(rows: T[], updates: ExerciseGroupUpdate[]): T[] {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  for (const update of updates) {
+    for (const id of update.ids) {
+      const row = byId.get(id);
+      if (row) byId.set(id, { ...row, ...groupFieldsFor(update.plan, id) });
+    }
+  }
+  return groupedSortOrder([...byId.values()]).map((id, idx) => ({ ...(byId.get(id) as T), sort_order: idx }));
+}
+
+/** The member whose set comes next: fewest working sets so far, earliest in the round on ties. */
+export function nextGroupMemberId(memberIds: string[], workingSetCounts: Record<string, number>): string | null {
+  let best: string | null = null;
+  for (const id of memberIds) {
+    if (best == null || (workingSetCounts[id] ?? 0) < (workingSetCounts[best] ?? 0)) best = id;
+  }
+  return best;
+}
+
+/**
+ * Rest after a set inside a group: a short transition to the next member mid-round, the
+ * exercise's normal rest once the round closes, and a one-minute interval for an EMOM.
+ */
+export function groupRestAfterSet(args: {
+  type: ExerciseGroupType;
+  roundComplete: boolean;
+  nextName: string | null;
+  fullRest: { durationSecs: number; reason: string };
+}): { durationSecs: number; reason: string } {
+  const label = EXERCISE_GROUP_LABELS[args.type];
+  const next = args.nextName ? `: ${args.nextName} next` : "";
+  if (args.type === "emom") {
+    return { durationSecs: EMOM_INTERVAL_SECS, reason: `${label}${next} on the minute` };
+  }
+  if (!args.roundComplete) {
+    return { durationSecs: TRANSITION_REST_SECS, reason: `${label}${next}` };
+  }
+  return { durationSecs: args.fullRest.durationSecs, reason: `${label} round done • ${args.fullRest.reason}` };
+}
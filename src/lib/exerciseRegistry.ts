@@ -3,6 +3,7 @@ import type {
   ExerciseKey,
   MovementPattern,
   MuscleTag,
+  ProgressionModel,
   RoleTag,
 } from "./exerciseTypes";
 import type { Slot } from "./slotTypes";
@@ -125,6 +126,23 @@ function inferSetupFriction(input: ExerciseSeedInput): number {
   return 0.2;
 }
 
+function inferProgressionModel(input: ExerciseSeedInput): ProgressionModel {
+  if (input.progressionModel) return input.progressionModel;
+  const loadable = input.equipment.some((tag) => ["barbell", "dumbbell", "cable", "machine", "ssb"].includes(tag));
+  if (!loadable) return "rep_range";
+  if (input.roleTags.includes("anchor")) return "rpe_top_set";
+  if (input.compound && input.roleTags.includes("primary") && input.equipment.some((tag) => tag === "barbell" || tag === "ssb")) return "linear_load";
+  return "double_progression";
+}
+
+const PROGRESSION_MODEL_OVERRIDES: Partial<Record<ExerciseKey, ProgressionModel>> = {
+  weighted_pull_up: "double_progression",
+  weighted_chin_up: "double_progression",
+  weighted_dip: "double_progression",
+  deadlift: "linear_load",
+  rack_pull: "linear_load",
+};
+
 const EXERCISE_META_OVERRIDES: Partial<Record<ExerciseKey, Pick<ExerciseDefinition, "priority" | "noveltyCost" | "setupFriction" | "allowedSlots" | "cluster">>> = {
   chest_supported_row: { priority: 0.74, noveltyCost: 0.3, setupFriction: 0.72, allowedSlots: ["PrimaryRow", "SecondaryRow"], cluster: "row_anchor" },
   barbell_row: { priority: 1.0, noveltyCost: 0.1, setupFriction: 0.2, allowedSlots: ["PrimaryRow", "SecondaryRow"], cluster: "row_anchor" },
@@ -221,7 +239,7 @@ const EXERCISE_META_OVERRIDES: Partial<Record<ExerciseKey, Pick<ExerciseDefiniti
 };
 
 
-type ExerciseSeedInput = {
+export type ExerciseSeedInput = {
   key: ExerciseKey;
   canonicalName: string;
   aliases?: string[];
@@ -238,6 +256,7 @@ type ExerciseSeedInput = {
   noveltyCost?: number;
   setupFriction?: number;
   allowedSlots?: Slot[];
+  progressionModel?: ProgressionModel;
   cluster?: string;
 };
 
@@ -271,6 +290,7 @@ function seedExercise(input: ExerciseSeedInput): ExerciseDefinition {
     setupFriction: override.setupFriction ?? inferSetupFriction(input),
     allowedSlots: uniqueSlots([...(override.allowedSlots ?? inferredAllowedSlots)]),
     cluster: override.cluster ?? inferCluster(input),
+    progressionModel: PROGRESSION_MODEL_OVERRIDES[input.key] ?? inferProgressionModel(input),
   };
 }
 
@@ -1656,18 +1676,78 @@ const EXERCISES: ExerciseDefinition[] = [
   }),
 ];
 
-const EXERCISE_BY_KEY = new Map<ExerciseKey, ExerciseDefinition>(EXERCISES.map((exercise) => [exercise.key, exercise]));
-const EXERCISE_BY_ID = new Map<string, ExerciseDefinition>(EXERCISES.map((exercise) => [exercise.id, exercise]));
-const ALIAS_TO_KEY = new Map<string, ExerciseKey>();
+const SEED_KEYS = new Set<ExerciseKey>(EXERCISES.map((exercise) => exercise.key));
 
-for (const exercise of EXERCISES) {
-  for (const alias of exercise.aliases) {
-    if (!ALIAS_TO_KEY.has(alias)) {
-      ALIAS_TO_KEY.set(alias, exercise.key);
+// Seeds first, then user-defined exercises; seed aliases always win a collision.
+let customExercises: ExerciseDefinition[] = [];
+// The user's per-exercise progression model picks, keyed by exercise id; they beat PROGRESSION_MODEL_OVERRIDES.
+let progressionModelChoices = new Map<string, ProgressionModel>();
+let activeExercises: ExerciseDefinition[] = EXERCISES;
+let EXERCISE_BY_KEY = new Map<ExerciseKey, ExerciseDefinition>();
+let EXERCISE_BY_ID = new Map<string, ExerciseDefinition>();
+let ALIAS_TO_KEY = new Map<string, ExerciseKey>();
+
+function rebuildIndexes(): void {
+  EXERCISE_BY_KEY = new Map(activeExercises.map((exercise) => [exercise.key, exercise]));
+  EXERCISE_BY_ID = new Map(activeExercises.map((exercise) => [exercise.id, exercise]));
+  ALIAS_TO_KEY = new Map();
+  for (const exercise of activeExercises) {
+    for (const alias of exercise.aliases) {
+      if (!ALIAS_TO_KEY.has(alias)) {
+        ALIAS_TO_KEY.set(alias, exercise.key);
+      }
     }
   }
 }
 
+rebuildIndexes();
+
+export function normalizeExerciseAlias(input: string): string {
+  return normalizeAlias(input);
+}
+
+export function isSeedExerciseKey(key: string): boolean {
+  return SEED_KEYS.has(key);
+}
+
+/** Builds a definition with the same inference the seeds get (slots, cluster, priority, friction, model). */
+export function buildExerciseDefinition(input: ExerciseSeedInput): ExerciseDefinition {
+  return seedExercise(input);
+}
+
+export function inferExerciseSlots(input: ExerciseSeedInput): Slot[] {
+  return inferAllowedSlots(input);
+}
+
+function rebuildActiveExercises(): void {
+  const base = customExercises.length ? [...EXERCISES, ...customExercises] : EXERCISES;
+  activeExercises = progressionModelChoices.size
+    ? base.map((exercise) => {
+        const chosen = progressionModelChoices.get(exercise.id);
+        return chosen && chosen !== exercise.progressionModel ? { ...exercise, progressionModel: chosen } : exercise;
+      })
+    : base;
+  rebuildIndexes();
+}
+
+export function setCustomExerciseDefinitions(definitions: ExerciseDefinition[]): void {
+  customExercises = (definitions ?? []).filter((exercise) => exercise?.key && !SEED_KEYS.has(exercise.key));
+  rebuildActiveExercises();
+}
+
+export function setProgressionModelChoices(choices: Record<string, ProgressionModel | null | undefined>): void {
+  progressionModelChoices = new Map(
+    Object.entries(choices ?? {}).filter((entry): entry is [string, ProgressionModel] => !!entry[1])
+  );
+  rebuildActiveExercises();
+}
+
+/** The model an exercise gets without a user pick (seed override, custom definition or inference). */
+export function getDefaultProgressionModel(key: string): ProgressionModel | null {
+  const id = String(key || "").trim();
+  return (EXERCISES.find((exercise) => exercise.key === id) ?? customExercises.find((exercise) => exercise.key === id))?.progressionModel ?? null;
+}
+
 type SlotRule = {
   patterns?: MovementPattern[];
   anyRoles?: RoleTag[];
@@ -1734,12 +1814,30 @@ function matchesSlotRule(exercise: ExerciseDefinition, rule: SlotRule): boolean
   return exercise.active !== false;
 }
 
+/** Why a definition that lists `slot` would still never be offered there, or null when it fits. */
+export function explainSlotMismatch(exercise: ExerciseDefinition, slot: Slot): string | null {
+  const rule = SLOT_RULES[slot];
+  if (rule.patterns?.length && !exercise.movementPatterns.some((pattern) => rule.patterns?.includes(pattern))) {
+    return `${slot} needs one of these patterns: ${rule.patterns.join(", ")}`;
+  }
+  if (rule.anyRoles?.length && !exercise.roleTags.some((role) => rule.anyRoles?.includes(role))) {
+    return `${slot} needs one of these roles: ${rule.anyRoles.join(", ")}`;
+  }
+  if (rule.allRoles?.length && !rule.allRoles.every((role) => exercise.roleTags.includes(role))) {
+    return `${slot} needs all of these roles: ${rule.allRoles.join(", ")}`;
+  }
+  if (rule.families?.length && !rule.families.includes(exercise.family)) {
+    return `${slot} only takes the ${rule.families.join(" / ")} families`;
+  }
+  return null;
+}
+
 function orderedUniqueKeys(keys: ExerciseKey[]): ExerciseKey[] {
   return [...new Set(keys.filter(Boolean))];
 }
 
 export function getAllExercises(): ExerciseDefinition[] {
-  return [...EXERCISES];
+  return [...activeExercises];
 }
 
 export function getExerciseByKey(key: string): ExerciseDefinition | null {
@@ -1757,7 +1855,7 @@ export function resolveExerciseAlias(input: string): ExerciseKey | null {
 export function getExercisesForSlot(slot: Slot): ExerciseDefinition[] {
   const rule = SLOT_RULES[slot];
   const orderedKeys = SLOT_ORDER[slot];
-  const matched = EXERCISES.filter((exercise) => {
+  const matched = activeExercises.filter((exercise) => {
     if (!exercise.allowedSlots.includes(slot)) return false;
     return matchesSlotRule(exercise, rule);
   });
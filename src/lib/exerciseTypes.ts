@@ -45,6 +45,35 @@ export type MuscleTag =
   | "calves"
   | "other";
 
+export type BodyRegion =
+  | "neck"
+  | "shoulder"
+  | "elbow"
+  | "wrist"
+  | "upper_back"
+  | "low_back"
+  | "hip"
+  | "knee"
+  | "ankle";
+
+export type BodyRegionExposure = {
+  patterns: MovementPattern[];
+  muscles: MuscleTag[];
+};
+
+// Patterns load a region directly; muscles only brush it (counted at half weight).
+export const BODY_REGION_EXPOSURE: Record<BodyRegion, BodyRegionExposure> = {
+  neck: { patterns: ["vertical_push"], muscles: ["upper_back"] },
+  shoulder: { patterns: ["horizontal_push", "vertical_push", "vertical_pull"], muscles: ["front_delts", "side_delts", "rear_delts", "chest"] },
+  elbow: { patterns: ["elbow_flexion", "elbow_extension"], muscles: ["biceps", "triceps"] },
+  wrist: { patterns: ["horizontal_push", "elbow_flexion"], muscles: [] },
+  upper_back: { patterns: ["horizontal_pull", "rear_delt"], muscles: ["upper_back", "lats"] },
+  low_back: { patterns: ["hinge", "squat"], muscles: [] },
+  hip: { patterns: ["hinge", "lunge", "squat"], muscles: ["glutes"] },
+  knee: { patterns: ["squat", "lunge", "knee_flexion"], muscles: ["quads"] },
+  ankle: { patterns: ["calves", "lunge"], muscles: ["calves"] },
+};
+
 export type RoleTag =
   | "anchor"
   | "primary"
@@ -52,6 +81,12 @@ export type RoleTag =
   | "accessory"
   | "pump";
 
+export type ProgressionModel =
+  | "linear_load"
+  | "double_progression"
+  | "rpe_top_set"
+  | "rep_range";
+
 export type ExerciseDefinition = {
   id: ExerciseId;
   key: ExerciseKey;
@@ -72,5 +107,6 @@ export type ExerciseDefinition = {
   setupFriction: number;
   allowedSlots: Slot[];
   cluster?: string;
+  progressionModel: ProgressionModel;
 };
 
@@ -244,3 +244,14 @@ export function buildFrictionProfile(input: FrictionInput): FrictionProfile {
     recommendations,
   };
 }
+
+/** The readiness half of a FrictionInput, derived from 7-day sleep and protein averages. */
+export function frictionReadinessFromRecovery(sleepAvg7: number | null, proteinAvg7: number | null): NonNullable<FrictionInput["readiness"]> {
+  const trend: FrictionTrend = sleepAvg7 != null && proteinAvg7 != null && sleepAvg7 >= 6.5 && proteinAvg7 >= 170 ? "up" : sleepAvg7 != null && sleepAvg7 >= 5.5 ? "flat" : "down";
+  const sleepReadiness = sleepAvg7 != null ? Math.max(35, Math.min(100, Math.round(35 + sleepAvg7 * 9))) : 60;
+  const proteinReadiness = proteinAvg7 != null ? Math.max(35, Math.min(100, Math.round(30 + proteinAvg7 * 0.3))) : 60;
+  return {
+    score: Math.round((sleepReadiness + proteinReadiness) / 2),
+    trend,
+  };
+}
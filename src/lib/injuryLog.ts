@@ -0,0 +1,181 @@
+import { BODY_REGION_EXPOSURE, type BodyRegion, type ExerciseDefinition } from "./exerciseTypes";
+
+/**
+ * Body-region injury log:
+ * - an injury names a region, a 1-5 severity and the days it started / began returning / resolved
+ * - every exercise whose movement pattern loads the region is hit fully; one that only
+ *   works a neighbouring muscle is hit at half weight
+ * - active injuries down-weight (or, at severity 4+, exclude) affected exercises and cap load
+ * - once a graded return starts, the penalty and load cap ramp back to normal over a
+ *   severity-based number of days; when the ramp finishes the injury stops constraining anything
+ */
+
+export type InjurySeverity = 1 | 2 | 3 | 4 | 5;
+
+export type InjurySide = "left" | "right" | "both";
+
+export type InjuryRecord = {
+  id: string;
+  user_id: string;
+  region: BodyRegion;
+  side: InjurySide | null;
+  severity: InjurySeverity;
+  started_on: string; // YYYY-MM-DD
+  return_started_on: string | null; // YYYY-MM-DD, graded return begins
+  resolved_on: string | null; // YYYY-MM-DD
+  notes: string | null;
+  updatedAt: number;
+};
+
+export type InjuryPhase = "active" | "returning" | "resolved";
+
+export type InjuryStatus = {
+  phase: InjuryPhase;
+  rampDays: number;
+  rampDay: number; // 0 while active
+  progress: number; // 0..1 through the return ramp
+};
+
+export type InjuryImpact = {
+  exclude: boolean;
+  multiplier: number;
+  loadCap: number | null; // fraction of normal working load, null = uncapped
+  regions: BodyRegion[];
+  note: string | null;
+};
+
+export const BODY_REGIONS: BodyRegion[] = [
+  "neck",
+  "shoulder",
+  "elbow",
+  "wrist",
+  "upper_back",
+  "low_back",
+  "hip",
+  "knee",
+  "ankle",
+];
+
+export const BODY_REGION_LABELS: Record<BodyRegion, string> = {
+  neck: "Neck",
+  shoulder: "Shoulder",
+  elbow: "Elbow",
+  wrist: "Wrist",
+  upper_back: "Upper back",
+  low_back: "Low back",
+  hip: "Hip",
+  knee: "Knee",
+  ankle: "Ankle",
+};
+
+export const INJURY_SEVERITY_LABELS: Record<InjurySeverity, string> = {
+  1: "Niggle",
+  2: "Mild",
+  3: "Moderate",
+  4: "Severe",
+  5: "Cannot load",
+};
+
+const RETURN_RAMP_DAYS: Record<InjurySeverity, number> = { 1: 7, 2: 14, 3: 21, 4: 28, 5: 42 };
+const ACTIVE_MULTIPLIER: Record<InjurySeverity, number> = { 1: 0.8, 2: 0.6, 3: 0.4, 4: 0.25, 5: 0.15 };
+const ACTIVE_LOAD_CAP: Record<InjurySeverity, number> = { 1: 0.9, 2: 0.8, 3: 0.7, 4: 0.6, 5: 0.5 };
+const EXCLUDE_SEVERITY = 4;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function clamp(v: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, v));
+}
+
+function dayDiff(fromDay: string, toDay: string): number {
+  return Math.round((Date.parse(`${toDay}T00:00:00Z`) - Date.parse(`${fromDay}T00:00:00Z`)) / DAY_MS);
+}
+
+function isDay(value: unknown): value is string {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+export function normalizeInjuryRecord(raw: any): InjuryRecord | null {
+  if (!raw || typeof raw !== "object") return null;
+  if (!BODY_REGIONS.includes(raw.region)) return null;
+  if (!raw.id || !raw.user_id || !isDay(raw.started_on)) return null;
+  const severity = clamp(Math.round(Number(raw.severity) || 2), 1, 5) as InjurySeverity;
+  const side = raw.side === "left" || raw.side === "right" || raw.side === "both" ? raw.side : null;
+  return {
+    id: String(raw.id),
+    user_id: String(raw.user_id),
+    region: raw.region,
+    side,
+    severity,
+    started_on: raw.started_on,
+    return_started_on: isDay(raw.return_started_on) ? raw.return_started_on : null,
+    resolved_on: isDay(raw.resolved_on) ? raw.resolved_on : null,
+    notes: typeof raw.notes === "string" && raw.notes.trim() ? raw.notes.trim() : null,
+    updatedAt: Number(raw.updatedAt) || Date.now(),
+  };
+}
+
+export function getInjuryStatus(injury: InjuryRecord, asOfDay: string): InjuryStatus {
+  const rampDays = RETURN_RAMP_DAYS[injury.severity] ?? 14;
+  if (injury.resolved_on && injury.resolved_on <= asOfDay) return { phase: "resolved", rampDays, rampDay: rampDays, progress: 1 };
+  if (injury.started_on > asOfDay) return { phase: "resolved", rampDays, rampDay: 0, progress: 1 };
+  if (!injury.return_started_on || injury.return_started_on > asOfDay) return { phase: "active", rampDays, rampDay: 0, progress: 0 };
+
+  const rampDay = dayDiff(injury.return_started_on, asOfDay);
+  if (rampDay >= rampDays) return { phase: "resolved", rampDays, rampDay: rampDays, progress: 1 };
+  return { phase: "returning", rampDays, rampDay, progress: clamp(rampDay / rampDays, 0, 1) };
+}
+
+export function listConstrainingInjuries(injuries: InjuryRecord[], asOfDay: string): InjuryRecord[] {
+  return (injuries ?? []).filter((injury) => getInjuryStatus(injury, asOfDay).phase !== "resolved");
+}
+
+/** "primary" when a movement pattern loads the region, "secondary" when only a worked muscle is nearby. */
+export function getRegionExposure(exercise: ExerciseDefinition, region: BodyRegion): "primary" | "secondary" | null {
+  const exposure = BODY_REGION_EXPOSURE[region];
+  if (exercise.movementPatterns.some((pattern) => exposure.patterns.includes(pattern))) return "primary";
+  const muscles = [...exercise.primaryMuscles, ...exercise.secondaryMuscles];
+  if (muscles.some((muscle) => exposure.muscles.includes(muscle))) return "secondary";
+  return null;
+}
+
+export function assessInjuryImpact(
+  exercise: ExerciseDefinition,
+  injuries: InjuryRecord[],
+  asOfDay: string
+): InjuryImpact {
+  const impact: InjuryImpact = { exclude: false, multiplier: 1, loadCap: null, regions: [], note: null };
+  const notes: string[] = [];
+
+  for (const injury of injuries ?? []) {
+    const exposure = getRegionExposure(exercise, injury.region);
+    if (!exposure) continue;
+    const status = getInjuryStatus(injury, asOfDay);
+    if (status.phase === "resolved") continue;
+
+    const weight = exposure === "primary" ? 1 : 0.5;
+    const label = BODY_REGION_LABELS[injury.region];
+    if (status.phase === "active" && exposure === "primary" && injury.severity >= EXCLUDE_SEVERITY) {
+      impact.exclude = true;
+      notes.push(`${label} injury (${INJURY_SEVERITY_LABELS[injury.severity].toLowerCase()}): excluded`);
+    }
+
+    const activeMult = 1 - (1 - ACTIVE_MULTIPLIER[injury.severity]) * weight;
+    const activeCap = 1 - (1 - ACTIVE_LOAD_CAP[injury.severity]) * weight;
+    const mult = activeMult + (1 - activeMult) * status.progress;
+    const cap = activeCap + (1 - activeCap) * status.progress;
+
+    impact.multiplier *= mult;
+    impact.loadCap = Math.min(impact.loadCap ?? 1, cap);
+    if (!impact.regions.includes(injury.region)) impact.regions.push(injury.region);
+    if (status.phase === "returning") {
+      notes.push(`${label} return day ${status.rampDay + 1}/${status.rampDays}: load ≤${Math.round(cap * 100)}%`);
+    } else if (!impact.exclude) {
+      notes.push(`${label} injury: load ≤${Math.round(cap * 100)}%`);
+    }
+  }
+
+  if (impact.exclude) impact.multiplier = 0;
+  if (impact.loadCap != null && impact.loadCap >= 0.995) impact.loadCap = null;
+  impact.note = notes.length ? notes.join("; ") : null;
+  return impact;
+}
@@ -0,0 +1,364 @@
+import type { EquipmentId, EquipmentProfile } from "./equipmentTypes";
+import type { ExerciseDefinition } from "./exerciseTypes";
+import { getExerciseByKey, resolveExerciseAlias } from "./exerciseRegistry";
+
+/**
+ * Loading calculator:
+ * - turns a recommended load string ("185 lb") into what the user's gear can actually make
+ * - barbell / SSB / landmine: per-side plate breakdown from the plate inventory
+ * - adjustable dumbbells: rounded to the handle increment
+ * - bands: nearest single / doubled / combined setup from the band equivalence map
+ */
+
+export type PlateStock = {
+  weightLbs: number;
+  count: number; // total plates owned, not pairs
+};
+
+export type LoadingInventory = {
+  version: 1;
+  barbellLbs: number;
+  safetySquatBarLbs: number;
+  landmineBarLbs: number;
+  plates: PlateStock[];
+  dumbbellMinLbs: number;
+  dumbbellMaxLbs: number;
+  dumbbellIncrementLbs: number;
+};
+
+export type LoadingImplement = "barbell" | "safety_squat_bar" | "landmine" | "dumbbell" | "band";
+
+export type PlateBreakdown = {
+  barLbs: number;
+  sides: 1 | 2;
+  perSide: Array<{ weightLbs: number; count: number }>;
+  totalLbs: number;
+};
+
+export type BandSetup = {
+  primaryLevel: number;
+  mode: "single" | "doubled" | "combined";
+  secondaryLevel: number | null;
+  config: string; // matches LocalWorkoutSet.band_config
+  estLbs: number;
+};
+
+export type LoadingPlan = {
+  implement: LoadingImplement;
+  targetLbs: number;
+  achievableLbs: number;
+  deltaLbs: number;
+  label: string;
+  detail: string;
+  plates: PlateBreakdown | null;
+  bands: BandSetup[];
+};
+
+export type LoadingContext = {
+  profile: EquipmentProfile;
+  inventory: LoadingInventory;
+  bandMap: Record<string, number>;
+  bandComboFactor: number;
+};
+
+export const DEFAULT_LOADING_INVENTORY: LoadingInventory = {
+  version: 1,
+  barbellLbs: 45,
+  safetySquatBarLbs: 65,
+  landmineBarLbs: 45,
+  plates: [
+    { weightLbs: 45, count: 6 },
+    { weightLbs: 35, count: 2 },
+    { weightLbs: 25, count: 4 },
+    { weightLbs: 10, count: 4 },
+    { weightLbs: 5, count: 4 },
+    { weightLbs: 2.5, count: 4 },
+  ],
+  dumbbellMinLbs: 5,
+  dumbbellMaxLbs: 52.5,
+  dumbbellIncrementLbs: 2.5,
+};
+
+const BAND_LEVELS = [1, 2, 3, 4, 5];
+// Plate math runs in quarter-pound units so fractional plates stay exact.
+const UNITS_PER_LB = 4;
+
+function toUnits(lbs: number): number {
+  return Math.round(lbs * UNITS_PER_LB);
+}
+
+function fromUnits(units: number): number {
+  return units / UNITS_PER_LB;
+}
+
+function finiteOr(value: unknown, fallback: number, min = 0): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n >= min ? n : fallback;
+}
+
+function formatLbs(lbs: number): string {
+  return Number.isInteger(lbs) ? `${lbs} lb` : `${lbs.toFixed(1)} lb`;
+}
+
+export function normalizeLoadingInventory(raw: unknown): LoadingInventory {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Partial<LoadingInventory>;
+  const plates = Array.isArray(value.plates)
+    ? value.plates
+        .map((plate) => ({
+          weightLbs: finiteOr((plate as any)?.weightLbs, 0),
+          count: Math.floor(finiteOr((plate as any)?.count, 0)),
+        }))
+        .filter((plate) => plate.weightLbs > 0 && plate.count > 0)
+    : DEFAULT_LOADING_INVENTORY.plates;
+
+  const dumbbellMinLbs = finiteOr(value.dumbbellMinLbs, DEFAULT_LOADING_INVENTORY.dumbbellMinLbs);
+  return {
+    version: 1,
+    barbellLbs: finiteOr(value.barbellLbs, DEFAULT_LOADING_INVENTORY.barbellLbs),
+    safetySquatBarLbs: finiteOr(value.safetySquatBarLbs, DEFAULT_LOADING_INVENTORY.safetySquatBarLbs),
+    landmineBarLbs: finiteOr(value.landmineBarLbs, DEFAULT_LOADING_INVENTORY.landmineBarLbs),
+    plates: [...plates].sort((a, b) => b.weightLbs - a.weightLbs),
+    dumbbellMinLbs,
+    dumbbellMaxLbs: Math.max(dumbbellMinLbs, finiteOr(value.dumbbellMaxLbs, DEFAULT_LOADING_INVENTORY.dumbbellMaxLbs)),
+    dumbbellIncrementLbs: finiteOr(value.dumbbellIncrementLbs, DEFAULT_LOADING_INVENTORY.dumbbellIncrementLbs, 0.25),
+  };
+}
+
+export function formatPlateInventory(plates: PlateStock[]): string {
+  return plates.map((plate) => `${plate.weightLbs}x${plate.count}`).join(", ");
+}
+
+export function parsePlateInventory(text: string): PlateStock[] {
+  return String(text || "")
+    .split(/[,\n]+/)
+    .map((part) => part.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(?:lb|lbs)?\s*[x×*]\s*(\d+)$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map((m) => ({ weightLbs: Number(m[1]), count: Number(m[2]) }))
+    .filter((plate) => plate.weightLbs > 0 && plate.count > 0)
+    .sort((a, b) => b.weightLbs - a.weightLbs);
+}
+
+export function parseLoadTargetLbs(load: string | null | undefined): number | null {
+  const text = String(load || "").toLowerCase();
+  const m = text.match(/(\d+(?:\.\d+)?)\s*(?:lb|lbs)\b/);
+  if (!m) return null;
+  const n = Number(m[1]);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function findDefinition(exerciseName: string): ExerciseDefinition | null {
+  const key = resolveExerciseAlias(exerciseName);
+  return key ? getExerciseByKey(key) : null;
+}
+
+export function implementForExercise(
+  definition: Pick<ExerciseDefinition, "key" | "equipment" | "family"> | null,
+  profile: EquipmentProfile
+): LoadingImplement | null {
+  if (!definition) return null;
+  const has = (id: EquipmentId) => profile.available.includes(id);
+  const equipment = definition.equipment;
+
+  const landmineLoaded =
+    /landmine/.test(definition.key) ||
+    /landmine/.test(definition.family) ||
+    (definition.key === "t_bar_row" && !has("t_bar_row_station"));
+
+  if (landmineLoaded && has("landmine_attachment")) return "landmine";
+  if (equipment.includes("ssb") && has("safety_squat_bar")) return "safety_squat_bar";
+  if (equipment.includes("barbell") && has("barbell")) return "barbell";
+  if (equipment.includes("dumbbell") && has("adjustable_dumbbells")) return "dumbbell";
+  if (equipment.includes("band") && has("resistance_bands")) return "band";
+  return null;
+}
+
+/**
+ * Bounded knapsack over the plate stock: for every reachable per-side total keep the
+ * combination that uses the fewest plates, then pick the total nearest the target.
+ */
+export function solvePlateBreakdown(
+  targetLbs: number,
+  barLbs: number,
+  plates: PlateStock[],
+  sides: 1 | 2 = 2
+): PlateBreakdown {
+  const perSideStock = plates
+    .map((plate) => ({ weightLbs: plate.weightLbs, available: sides === 2 ? Math.floor(plate.count / 2) : plate.count }))
+    .filter((plate) => plate.available > 0)
+    .sort((a, b) => b.weightLbs - a.weightLbs);
+
+  let reachable = new Map<number, number[]>([[0, []]]);
+  for (const plate of perSideStock) {
+    const unit = toUnits(plate.weightLbs);
+    const next = new Map(reachable);
+    for (const [sum, used] of reachable) {
+      for (let k = 1; k <= plate.available; k += 1) {
+        const total = sum + unit * k;
+        const combo = [...used, ...Array<number>(k).fill(plate.weightLbs)];
+        const existing = next.get(total);
+        if (!existing || combo.length < existing.length) next.set(total, combo);
+      }
+    }
+    reachable = next;
+  }
+
+  const targetPerSide = Math.max(0, toUnits((targetLbs - barLbs) / sides));
+  let bestSum = 0;
+  for (const sum of reachable.keys()) {
+    const diff = Math.abs(sum - targetPerSide);
+    const bestDiff = Math.abs(bestSum - targetPerSide);
+    // Ties go to the lighter load.
+    if (diff < bestDiff || (diff === bestDiff && sum < bestSum)) bestSum = sum;
+  }
+
+  const grouped = new Map<number, number>();
+  for (const weight of reachable.get(bestSum) ?? []) {
+    grouped.set(weight, (grouped.get(weight) ?? 0) + 1);
+  }
+
+  return {
+    barLbs,
+    sides,
+    perSide: [...grouped.entries()]
+      .sort((a, b) => b[0] - a[0])
+      .map(([weightLbs, count]) => ({ weightLbs, count })),
+    totalLbs: barLbs + fromUnits(bestSum) * sides,
+  };
+}
+
+export function roundToDumbbell(targetLbs: number, inventory: LoadingInventory): number {
+  const step = inventory.dumbbellIncrementLbs;
+  const stepped = inventory.dumbbellMinLbs + Math.round((targetLbs - inventory.dumbbellMinLbs) / step) * step;
+  return Math.max(inventory.dumbbellMinLbs, Math.min(inventory.dumbbellMaxLbs, Number(stepped.toFixed(2))));
+}
+
+export function bandEquivalentLbs(
+  primaryLevel: number,
+  mode: BandSetup["mode"],
+  secondaryLevel: number | null,
+  bandMap: Record<string, number>,
+  comboFactor: number
+): number | null {
+  const primary = bandMap[String(primaryLevel)];
+  if (typeof primary !== "number" || !Number.isFinite(primary)) return null;
+  if (mode === "doubled") return Math.round(primary * 2);
+  if (mode === "combined" && secondaryLevel != null) {
+    const secondary = bandMap[String(secondaryLevel)];
+    if (typeof secondary === "number" && Number.isFinite(secondary)) {
+      return Math.round((primary + secondary) * comboFactor);
+    }
+  }
+  return Math.round(primary);
+}
+
+export function suggestBandSetups(
+  targetLbs: number,
+  bandMap: Record<string, number>,
+  comboFactor: number,
+  limit = 3
+): BandSetup[] {
+  const setups: BandSetup[] = [];
+  const push = (primaryLevel: number, mode: BandSetup["mode"], secondaryLevel: number | null) => {
+    const estLbs = bandEquivalentLbs(primaryLevel, mode, secondaryLevel, bandMap, comboFactor);
+    if (estLbs == null || estLbs <= 0) return;
+    const config = mode === "combined" ? `combo:${secondaryLevel}` : mode;
+    setups.push({ primaryLevel, mode, secondaryLevel, config, estLbs });
+  };
+
+  for (const level of BAND_LEVELS) {
+    push(level, "single", null);
+    push(level, "doubled", null);
+    for (const secondary of BAND_LEVELS) {
+      if (secondary > level) push(level, "combined", secondary);
+    }
+  }
+
+  const complexity = (setup: BandSetup) => (setup.mode === "single" ? 0 : setup.mode === "doubled" ? 1 : 2);
+  return setups
+    .sort((a, b) => {
+      const diff = Math.abs(a.estLbs - targetLbs) - Math.abs(b.estLbs - targetLbs);
+      if (diff !== 0) return diff;
+      return complexity(a) - complexity(b);
+    })
+    .slice(0, limit);
+}
+
+export function formatBandSetup(setup: BandSetup): string {
+  if (setup.mode === "doubled") return `Band ${setup.primaryLevel} doubled (~${setup.estLbs} lb)`;
+  if (setup.mode === "combined") return `Bands ${setup.primaryLevel}+${setup.secondaryLevel} (~${setup.estLbs} lb)`;
+  return `Band ${setup.primaryLevel} (~${setup.estLbs} lb)`;
+}
+
+export function formatPlateBreakdown(breakdown: PlateBreakdown): string {
+  if (breakdown.perSide.length === 0) return `Empty bar (${formatLbs(breakdown.barLbs)})`;
+  const plates = breakdown.perSide
+    .map((plate) => (plate.count > 1 ? `${plate.count}×${plate.weightLbs}` : `${plate.weightLbs}`))
+    .join(" + ");
+  return `${plates} ${breakdown.sides === 2 ? "per side" : "on the sleeve"} on a ${formatLbs(breakdown.barLbs)} bar`;
+}
+
+function barLbsFor(implement: LoadingImplement, inventory: LoadingInventory): number {
+  if (implement === "safety_squat_bar") return inventory.safetySquatBarLbs;
+  if (implement === "landmine") return inventory.landmineBarLbs;
+  return inventory.barbellLbs;
+}
+
+export function planLoad(
+  implement: LoadingImplement,
+  targetLbs: number,
+  ctx: Pick<LoadingContext, "inventory" | "bandMap" | "bandComboFactor">
+): LoadingPlan {
+  if (implement === "band") {
+    const bands = suggestBandSetups(targetLbs, ctx.bandMap, ctx.bandComboFactor);
+    const best = bands[0] ?? null;
+    const achievableLbs = best?.estLbs ?? targetLbs;
+    return {
+      implement,
+      targetLbs,
+      achievableLbs,
+      deltaLbs: achievableLbs - targetLbs,
+      label: best ? formatBandSetup(best) : "No band setup fits",
+      detail: bands.length > 1 ? `Also close: ${bands.slice(1).map(formatBandSetup).join(" • ")}` : "",
+      plates: null,
+      bands,
+    };
+  }
+
+  if (implement === "dumbbell") {
+    const achievableLbs = roundToDumbbell(targetLbs, ctx.inventory);
+    return {
+      implement,
+      targetLbs,
+      achievableLbs,
+      deltaLbs: achievableLbs - targetLbs,
+      label: `${formatLbs(achievableLbs)} dumbbells`,
+      detail: `Adjustable set: ${formatLbs(ctx.inventory.dumbbellMinLbs)}–${formatLbs(ctx.inventory.dumbbellMaxLbs)} in ${formatLbs(ctx.inventory.dumbbellIncrementLbs)} steps.`,
+      plates: null,
+      bands: [],
+    };
+  }
+
+  const sides = implement === "landmine" ? 1 : 2;
+  const plates = solvePlateBreakdown(targetLbs, barLbsFor(implement, ctx.inventory), ctx.inventory.plates, sides);
+  return {
+    implement,
+    targetLbs,
+    achievableLbs: plates.totalLbs,
+    deltaLbs: plates.totalLbs - targetLbs,
+    label: formatLbs(plates.totalLbs),
+    detail: formatPlateBreakdown(plates),
+    plates,
+    bands: [],
+  };
+}
+
+export function planRecommendedLoad(
+  exercise: { name: string; load: string },
+  ctx: LoadingContext
+): LoadingPlan | null {
+  const targetLbs = parseLoadTargetLbs(exercise.load);
+  if (targetLbs == null) return null;
+  const implement = implementForExercise(findDefinition(exercise.name), ctx.profile);
+  if (!implement) return null;
+  return planLoad(implement, targetLbs, ctx);
+}
@@ -2,6 +2,7 @@ import { localdb } from "../localdb";
 import type { BehaviorFingerprint, PredictionScaffold } from "./behaviorFingerprint";
 import { summarizePredictionReviews, type PredictionAccuracySummary, type PredictionReviewEntry } from "./predictionReview";
 import type { PreferenceHistoryEntry } from "./preferenceLearning";
+import type { LoopRestorePoint } from "./mutationLedger";
 
 type MaybeRecord = Record<string, unknown>;
 
@@ -10,6 +11,7 @@ export type LoopMemoryArtifacts = {
   predictionScaffold: PredictionScaffold | null;
   predictionReviewHistory: PredictionReviewEntry[];
   predictionAccuracySummary: PredictionAccuracySummary | null;
+  restorePoint: LoopRestorePoint | null;
 };
 
 function clamp(n: number, min: number, max: number): number {
@@ -118,6 +120,7 @@ export async function loadLoopMemoryArtifacts(userId: string): Promise<LoopMemor
   const predictionRaw = await getFirstSettingValue(userId, ["prediction_scaffold_v1"]);
   const reviewHistoryRaw = await getFirstSettingValue(userId, ["prediction_cycle_reviews_v1", "prediction_reviews_v1", "prediction_review_history_v1"]);
   const reviewSummaryRaw = await getFirstSettingValue(userId, ["prediction_review_summary_v1", "prediction_accuracy_v1"]);
+  const restorePoint = safeParse<LoopRestorePoint>(await getSettingValue(userId, "loop_restore_point_v1"));
 
   const behaviorFingerprint = safeParse<BehaviorFingerprint>(behaviorRaw);
   const predictionScaffold = safeParse<PredictionScaffold>(predictionRaw);
@@ -155,6 +158,7 @@ export async function loadLoopMemoryArtifacts(userId: string): Promise<LoopMemor
     predictionScaffold,
     predictionReviewHistory,
     predictionAccuracySummary,
+    restorePoint: isObject(restorePoint) ? restorePoint : null,
   };
 }
 
@@ -175,6 +179,10 @@ export async function persistLoopMemoryArtifacts(
   if (updates.predictionAccuracySummary) {
     rows.push({ key: "prediction_review_summary_v1", value: JSON.stringify(updates.predictionAccuracySummary) });
   }
+  // Cleared restore points are written as null, so the hold ends instead of resurrecting on reload.
+  if (Object.prototype.hasOwnProperty.call(updates, "restorePoint")) {
+    rows.push({ key: "loop_restore_point_v1", value: JSON.stringify(updates.restorePoint ?? null) });
+  }
   if (!rows.length) return;
   const now = Date.now();
   await Promise.all(rows.map((row) => localdb.localSettings.put({
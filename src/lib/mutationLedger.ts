@@ -0,0 +1,132 @@
+import type { LoopStateSnapshot, MutationLedgerEntry } from "./adaptationWeights";
+
+/**
+ * Point-in-time history for the adaptation loop:
+ * - every ledger entry a refresh writes carries the loop state before and after that refresh, so
+ *   any two entries can be diffed and either side of one restored
+ * - a restore pins the restored state for RESTORE_HOLD_CYCLES closed sessions (the same window as
+ *   recalibration probation); without the hold the next refresh would re-derive everything from
+ *   history and the restore would last exactly one render
+ */
+
+export type LedgerStateSide = "before" | "after";
+
+export type LoopStateChange = {
+  artifact: keyof LoopStateSnapshot;
+  path: string;
+  from: unknown;
+  to: unknown;
+};
+
+export type LoopRestorePoint = {
+  entryId: string;
+  side: LedgerStateSide;
+  restoredAt: string;
+  state: LoopStateSnapshot;
+  holdCyclesRemaining: number;
+  lastObservedReviewSessionId: string | null;
+};
+
+export const RESTORE_HOLD_CYCLES = 2;
+
+const ARTIFACTS: Array<keyof LoopStateSnapshot> = ["adaptationWeights", "behaviorFingerprint", "predictionScaffold"];
+
+// Regenerated on every refresh, so they would show up in every diff without meaning anything.
+const IGNORED_FIELDS = new Set(["generatedAt"]);
+
+function makeId(): string {
+  return `ledger-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+export function snapshotLoopState(state: Partial<LoopStateSnapshot>): LoopStateSnapshot {
+  return {
+    adaptationWeights: state.adaptationWeights ?? null,
+    behaviorFingerprint: state.behaviorFingerprint ?? null,
+    predictionScaffold: state.predictionScaffold ?? null,
+  };
+}
+
+/** Entries written before snapshots existed have no id; their timestamp is unique enough to key them. */
+export function ledgerEntryKey(entry: MutationLedgerEntry): string {
+  return entry.id ?? entry.generatedAt;
+}
+
+export function ledgerStateAt(entry: MutationLedgerEntry, side: LedgerStateSide): LoopStateSnapshot | null {
+  return entry[side] ?? null;
+}
+
+/** Stamps the entries this refresh added (anything not carried over from `persisted`) with an id and both snapshots. */
+export function stampLedgerSnapshots(
+  ledger: MutationLedgerEntry[],
+  persisted: MutationLedgerEntry[],
+  before: LoopStateSnapshot,
+  after: LoopStateSnapshot,
+): MutationLedgerEntry[] {
+  return ledger.map((entry) => (persisted.includes(entry) || entry.after ? entry : { ...entry, id: entry.id ?? makeId(), before, after }));
+}
+
+function collectChanges(artifact: keyof LoopStateSnapshot, path: string, from: unknown, to: unknown, out: LoopStateChange[]): void {
+  if (JSON.stringify(from) === JSON.stringify(to)) return;
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].filter((key) => !IGNORED_FIELDS.has(key)).sort();
+    for (const key of keys) collectChanges(artifact, path ? `${path}.${key}` : key, from[key], to[key], out);
+    return;
+  }
+  out.push({ artifact, path: path || "(whole)", from, to });
+}
+
+/** Field-level diff between two loop states; objects are walked key by key, arrays compared whole. */
+export function diffLoopStates(from: LoopStateSnapshot, to: LoopStateSnapshot): LoopStateChange[] {
+  const changes: LoopStateChange[] = [];
+  for (const artifact of ARTIFACTS) collectChanges(artifact, "", from[artifact], to[artifact], changes);
+  return changes;
+}
+
+/**
+ * Restores one side of a ledger entry. The returned ledger entry records the restore itself
+ * (current → restored), so a restore can be rolled back the same way as any other mutation.
+ */
+export function restoreLedgerState(params: {
+  entry: MutationLedgerEntry;
+  side: LedgerStateSide;
+  current: LoopStateSnapshot;
+  latestClosedReviewSessionId: string | null;
+}): { restorePoint: LoopRestorePoint; ledgerEntry: MutationLedgerEntry } | null {
+  const state = ledgerStateAt(params.entry, params.side);
+  if (!state) return null;
+  const restoredAt = new Date().toISOString();
+  const changes = diffLoopStates(params.current, state);
+  return {
+    restorePoint: {
+      entryId: ledgerEntryKey(params.entry),
+      side: params.side,
+      restoredAt,
+      state,
+      holdCyclesRemaining: RESTORE_HOLD_CYCLES,
+      lastObservedReviewSessionId: params.latestClosedReviewSessionId,
+    },
+    ledgerEntry: {
+      id: makeId(),
+      generatedAt: restoredAt,
+      summary: `Loop state restored to ${params.side === "before" ? "before" : "after"} the ${params.entry.generatedAt.slice(0, 16).replace("T", " ")} change.`,
+      confidence: 100,
+      evidenceWindow: 0,
+      appliedChanges: changes.slice(0, 8).map((change) => `${change.artifact}.${change.path}`),
+      reasons: [`Restored by hand; held for ${RESTORE_HOLD_CYCLES} closed sessions before the loop derives from history again.`],
+      before: params.current,
+      after: state,
+    },
+  };
+}
+
+/** Counts down the hold one closed session at a time; returns null once the loop should derive freely again. */
+export function stepLoopRestorePoint(point: LoopRestorePoint | null, latestClosedReviewSessionId: string | null): LoopRestorePoint | null {
+  if (!point || point.holdCyclesRemaining <= 0) return null;
+  if (!latestClosedReviewSessionId || latestClosedReviewSessionId === point.lastObservedReviewSessionId) return point;
+  const remaining = point.holdCyclesRemaining - 1;
+  return remaining > 0 ? { ...point, holdCyclesRemaining: remaining, lastObservedReviewSessionId: latestClosedReviewSessionId } : null;
+}
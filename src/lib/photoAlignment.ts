@@ -0,0 +1,309 @@
+/**
+ * Progress-photo alignment:
+ * - every photo carries a transform (translate, rotate about the image centre, scale) in the
+ *   coordinates of the 320 px wide frame the Flipbook and overlay canvases draw into; manual
+ *   nudges move the translation, auto-align sets all four
+ * - auto-align reads each photo at a small size, separates the body from the background by
+ *   colour distance to the border (falling back to luminance edges when that split looks wrong),
+ *   and compares the shapes' moments: centroid for translation, radius of gyration for scale and
+ *   principal axis for rotation
+ * - the moving photo is solved against the reference photo as the reference is displayed, so a
+ *   chain of weekly anchors lines up frame to frame without anyone re-nudging old weeks
+ * - big rotations are left alone: a body axis more than a few degrees off is a different stance,
+ *   not a tilted camera
+ */
+
+export type PhotoAlignment = {
+  x: number; // px in the alignment frame
+  y: number;
+  scale: number;
+  rotationDeg: number; // clockwise on screen, like CSS rotate()
+};
+
+export type PhotoAlignmentFields = {
+  align_x?: number | null;
+  align_y?: number | null;
+  align_scale?: number | null;
+  align_rotation?: number | null;
+};
+
+/** RGBA pixels, as in ImageData. */
+export type AlignImage = {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+};
+
+export type AlignFeatureMethod = "silhouette" | "edges";
+
+export type SilhouetteFeatures = {
+  method: AlignFeatureMethod;
+  coverage: number; // share of pixels in the mask
+  cx: number; // centroid, in image widths from the image centre
+  cy: number;
+  spread: number; // radius of gyration, in image widths
+  angleDeg: number; // principal axis, (-90, 90]
+  elongation: number; // major / minor axis; near 1 means no usable axis
+};
+
+export type AutoAlignResult = {
+  transform: PhotoAlignment;
+  method: AlignFeatureMethod;
+  confidence: "high" | "medium" | "low";
+  notes: string[];
+};
+
+export const ALIGN_FRAME_WIDTH = 320;
+export const ALIGN_SAMPLE_WIDTH = 96; // analysis size; moments don't need more
+export const IDENTITY_ALIGNMENT: PhotoAlignment = { x: 0, y: 0, scale: 1, rotationDeg: 0 };
+
+const MIN_SCALE = 0.7;
+const MAX_SCALE = 1.4;
+const MAX_AUTO_ROTATION_DEG = 12;
+const MIN_AXIS_ELONGATION = 1.15;
+const MIN_SILHOUETTE_COVERAGE = 0.04;
+const MAX_SILHOUETTE_COVERAGE = 0.8;
+const MIN_DISTANCE_THRESHOLD = 24;
+const BORDER_PX = 2;
+
+function finiteOr(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+function clamp(value: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, value));
+}
+
+/** Stored row fields to a transform; missing scale or rotation means none. */
+export function alignmentOf(row: PhotoAlignmentFields | null | undefined): PhotoAlignment {
+  if (!row) return IDENTITY_ALIGNMENT;
+  const scale = finiteOr(row.align_scale, 1);
+  return {
+    x: finiteOr(row.align_x, 0),
+    y: finiteOr(row.align_y, 0),
+    scale: scale > 0 ? clamp(scale, MIN_SCALE, MAX_SCALE) : 1,
+    rotationDeg: finiteOr(row.align_rotation, 0),
+  };
+}
+
+export function alignmentFields(a: PhotoAlignment): Required<PhotoAlignmentFields> {
+  return { align_x: a.x, align_y: a.y, align_scale: a.scale, align_rotation: a.rotationDeg };
+}
+
+/** CSS transform for an element whose transform-origin is the image centre (the default). */
+export function alignmentCss(a: PhotoAlignment): string {
+  const parts = [`translate(${a.x}px, ${a.y}px)`];
+  if (a.rotationDeg) parts.push(`rotate(${a.rotationDeg}deg)`);
+  if (a.scale !== 1) parts.push(`scale(${a.scale})`);
+  return parts.join(" ");
+}
+
+export function isIdentityAlignment(a: PhotoAlignment): boolean {
+  return a.x === 0 && a.y === 0 && a.scale === 1 && a.rotationDeg === 0;
+}
+
+function otsuThreshold(hist: number[], total: number): number {
+  let sumAll = 0;
+  for (let i = 0; i < hist.length; i++) sumAll += i * hist[i];
+  let sumBelow = 0;
+  let countBelow = 0;
+  let best = 0;
+  let bestVar = -1;
+  for (let t = 0; t < hist.length; t++) {
+    countBelow += hist[t];
+    if (!countBelow) continue;
+    const countAbove = total - countBelow;
+    if (!countAbove) break;
+    sumBelow += t * hist[t];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sumAll - sumBelow) / countAbove;
+    const between = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (between > bestVar) {
+      bestVar = between;
+      best = t;
+    }
+  }
+  return best;
+}
+
+// Body pixels are the ones far (in colour) from the mean of the border ring.
+function silhouetteMask(img: AlignImage): Uint8Array {
+  const { width: w, height: h, data } = img;
+  let br = 0;
+  let bg = 0;
+  let bb = 0;
+  let bn = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (x >= BORDER_PX && x < w - BORDER_PX && y >= BORDER_PX && y < h - BORDER_PX) continue;
+      const i = (y * w + x) * 4;
+      br += data[i];
+      bg += data[i + 1];
+      bb += data[i + 2];
+      bn++;
+    }
+  }
+  br /= Math.max(1, bn);
+  bg /= Math.max(1, bn);
+  bb /= Math.max(1, bn);
+
+  const dist = new Uint8Array(w * h);
+  const hist = new Array<number>(256).fill(0);
+  for (let p = 0; p < w * h; p++) {
+    const i = p * 4;
+    const d = Math.min(255, Math.round((Math.abs(data[i] - br) + Math.abs(data[i + 1] - bg) + Math.abs(data[i + 2] - bb)) / 3));
+    dist[p] = d;
+    hist[d]++;
+  }
+  const threshold = Math.max(MIN_DISTANCE_THRESHOLD, otsuThreshold(hist, w * h));
+  const mask = new Uint8Array(w * h);
+  for (let p = 0; p < w * h; p++) mask[p] = dist[p] > threshold ? 1 : 0;
+  return mask;
+}
+
+function edgeMask(img: AlignImage): Uint8Array {
+  const { width: w, height: h, data } = img;
+  const lum = new Float32Array(w * h);
+  for (let p = 0; p < w * h; p++) lum[p] = (data[p * 4] + data[p * 4 + 1] + data[p * 4 + 2]) / 3;
+  const mag = new Uint8Array(w * h);
+  const hist = new Array<number>(256).fill(0);
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const p = y * w + x;
+      const m = Math.min(255, Math.round(Math.abs(lum[p + 1] - lum[p - 1]) + Math.abs(lum[p + w] - lum[p - w])));
+      mag[p] = m;
+      hist[m]++;
+    }
+  }
+  const threshold = Math.max(MIN_DISTANCE_THRESHOLD, otsuThreshold(hist, (w - 2) * (h - 2)));
+  const mask = new Uint8Array(w * h);
+  for (let p = 0; p < w * h; p++) mask[p] = mag[p] > threshold ? 1 : 0;
+  return mask;
+}
+
+function maskFeatures(mask: Uint8Array, w: number, h: number, method: AlignFeatureMethod): SilhouetteFeatures | null {
+  let n = 0;
+  let sx = 0;
+  let sy = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!mask[y * w + x]) continue;
+      n++;
+      sx += x;
+      sy += y;
+    }
+  }
+  if (n < 12) return null;
+  const mx = sx / n;
+  const my = sy / n;
+  let mu20 = 0;
+  let mu02 = 0;
+  let mu11 = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!mask[y * w + x]) continue;
+      mu20 += (x - mx) ** 2;
+      mu02 += (y - my) ** 2;
+      mu11 += (x - mx) * (y - my);
+    }
+  }
+  mu20 /= n;
+  mu02 /= n;
+  mu11 /= n;
+  const spread = Math.sqrt(mu20 + mu02);
+  if (!(spread > 0)) return null;
+
+  const common = (mu20 + mu02) / 2;
+  const diff = Math.sqrt(((mu20 - mu02) / 2) ** 2 + mu11 ** 2);
+  const major = common + diff;
+  const minor = Math.max(1e-6, common - diff);
+  let angleDeg = (0.5 * Math.atan2(2 * mu11, mu20 - mu02) * 180) / Math.PI;
+  if (angleDeg <= -90) angleDeg += 180;
+
+  return {
+    method,
+    coverage: n / (w * h),
+    cx: (mx + 0.5) / w - 0.5,
+    cy: (my + 0.5) / w - h / w / 2,
+    spread: spread / w,
+    angleDeg,
+    elongation: Math.sqrt(major / minor),
+  };
+}
+
+/** Shape moments of the body in a photo, or null when nothing usable stands out. */
+export function extractSilhouetteFeatures(img: AlignImage): SilhouetteFeatures | null {
+  if (img.width < 8 || img.height < 8) return null;
+  const silhouette = maskFeatures(silhouetteMask(img), img.width, img.height, "silhouette");
+  if (silhouette && silhouette.coverage >= MIN_SILHOUETTE_COVERAGE && silhouette.coverage <= MAX_SILHOUETTE_COVERAGE) {
+    return silhouette;
+  }
+  return maskFeatures(edgeMask(img), img.width, img.height, "edges");
+}
+
+// Axis angles are only defined up to a half turn.
+function axisDelta(a: number, b: number): number {
+  let d = a - b;
+  while (d > 90) d -= 180;
+  while (d <= -90) d += 180;
+  return d;
+}
+
+function rotateScale(x: number, y: number, deg: number, scale: number): [number, number] {
+  const rad = (deg * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return [scale * (x * cos - y * sin), scale * (x * sin + y * cos)];
+}
+
+function round(value: number, places: number): number {
+  const f = 10 ** places;
+  return Math.round(value * f) / f;
+}
+
+/**
+ * Transform for `moving` so its body lands where `reference`'s body is drawn under
+ * `referenceAlignment`. Null when either photo has no usable shape.
+ */
+export function estimatePhotoAlignment(
+  reference: AlignImage,
+  referenceAlignment: PhotoAlignment,
+  moving: AlignImage,
+  frameWidth = ALIGN_FRAME_WIDTH
+): AutoAlignResult | null {
+  const ref = extractSilhouetteFeatures(reference);
+  const mov = extractSilhouetteFeatures(moving);
+  if (!ref || !mov) return null;
+  const notes: string[] = [];
+
+  const rawScale = ref.spread / mov.spread;
+  const relScale = clamp(rawScale, MIN_SCALE, MAX_SCALE);
+  if (relScale !== rawScale) notes.push(`Scale limited to ${round(relScale, 2)}×`);
+  const scale = clamp(referenceAlignment.scale * relScale, MIN_SCALE, MAX_SCALE);
+
+  let rotationDeg = referenceAlignment.rotationDeg;
+  if (ref.elongation >= MIN_AXIS_ELONGATION && mov.elongation >= MIN_AXIS_ELONGATION) {
+    const delta = axisDelta(ref.angleDeg, mov.angleDeg);
+    if (Math.abs(delta) <= MAX_AUTO_ROTATION_DEG) rotationDeg += delta;
+    else notes.push(`Rotation left alone (${round(delta, 1)}° looks like a different stance)`);
+  } else {
+    notes.push("Rotation left alone (no clear body axis)");
+  }
+
+  const [rx, ry] = rotateScale(ref.cx * frameWidth, ref.cy * frameWidth, referenceAlignment.rotationDeg, referenceAlignment.scale);
+  const [mx, my] = rotateScale(mov.cx * frameWidth, mov.cy * frameWidth, rotationDeg, scale);
+  const transform: PhotoAlignment = {
+    x: Math.round(referenceAlignment.x + rx - mx),
+    y: Math.round(referenceAlignment.y + ry - my),
+    scale: round(scale, 3),
+    rotationDeg: round(rotationDeg, 1),
+  };
+
+  const method: AlignFeatureMethod = ref.method === "silhouette" && mov.method === "silhouette" ? "silhouette" : "edges";
+  const shapeMatch = Math.abs(ref.elongation - mov.elongation) / Math.max(ref.elongation, mov.elongation);
+  const confidence =
+    method === "edges" ? "low" : !notes.length && shapeMatch <= 0.2 && rawScale >= 0.85 && rawScale <= 1.18 ? "high" : "medium";
+  if (method === "edges") notes.push("Background too busy for a clean silhouette; matched on edges");
+
+  return { transform, method, confidence, notes };
+}
@@ -31,6 +31,7 @@ export type PreferenceHistoryEntry = {
 
 export type PreferenceSignals = {
   preferredExerciseBias: Record<string, number>;
+  adaptationExerciseBias?: Record<string, number>; // the part of preferredExerciseBias bounded adaptation added
   preferredSubstitutions: Record<string, string>;
   preferredPairings: Partial<Record<NeedKey, NeedKey[]>>;
   needBiases: Partial<Record<NeedKey, number>>;
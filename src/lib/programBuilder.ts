@@ -0,0 +1,355 @@
+import { buildActiveBlockPlan, type ActiveBlockPlan, type BlockType, type WaveProfile } from "./blockPlan";
+import { isAnchorSlot } from "./blockComposerBias";
+import type { SplitDayDefinition, TrainingSplitConfig } from "./brainEngine";
+import { computeProgramState, type ProgramStateInput } from "./programState";
+import type { Slot } from "./slotEngine";
+
+/**
+ * Program builder:
+ * - expands an ActiveBlockPlan into a dated week-by-week calendar
+ * - each planned session carries its split day, slots, set/rep targets and load %
+ * - the calendar is a persisted plan; brainEngine reads the next planned session
+ *   instead of re-deriving the day from scratch
+ * - plan-vs-actual matches logged sessions back to planned ones
+ */
+
+export type PlannedSlotTarget = {
+  slot: Slot;
+  sets: number;
+  reps: string;
+  loadPct: number; // of estimated 1RM
+  rir: number;
+};
+
+export type PlannedProgramSession = {
+  id: string;
+  weekIndex: number; // 1-based
+  order: number; // 0-based position inside the week
+  date: string; // YYYY-MM-DD
+  splitDayId: string;
+  splitDayName: string;
+  deload: boolean;
+  slots: PlannedSlotTarget[];
+};
+
+export type ProgramWeek = {
+  weekIndex: number;
+  startDate: string;
+  label: string;
+  intensityPct: number;
+  volumeFactor: number;
+  deload: boolean;
+  sessions: PlannedProgramSession[];
+};
+
+export type ProgramCalendar = {
+  version: 1;
+  id: string;
+  createdAt: string;
+  startDate: string;
+  blockPlan: ActiveBlockPlan;
+  sessionsPerWeek: number;
+  weeks: ProgramWeek[];
+};
+
+export type ProgramBuildOptions = {
+  blockPlan: ActiveBlockPlan;
+  split: TrainingSplitConfig;
+  startDate: string;
+  sessionsPerWeek?: number | null;
+  createdAt?: string;
+};
+
+export type ProgramPlanInput = ProgramStateInput & {
+  split: TrainingSplitConfig;
+  startDate: string;
+  previousBlockPlan?: ActiveBlockPlan | null;
+  sessionsPerWeek?: number | null;
+};
+
+export type ActualProgramSession = {
+  id: string;
+  dayDate: string;
+  programSessionId?: string | null;
+  plannedDayId?: string | null;
+  workingSets: number;
+};
+
+export type PlannedSessionStatus = "done" | "missed" | "today" | "upcoming";
+
+export type PlanVsActualRow = {
+  planned: PlannedProgramSession;
+  status: PlannedSessionStatus;
+  actualSessionId: string | null;
+  actualDate: string | null;
+  plannedSets: number;
+  actualSets: number | null;
+};
+
+export type PlanVsActualWeek = {
+  week: ProgramWeek;
+  rows: PlanVsActualRow[];
+  completed: number;
+  plannedSets: number;
+  actualSets: number;
+};
+
+type WaveStep = { intensityPct: number; volumeFactor: number; deload: boolean };
+
+const WAVE_STEPS: Record<WaveProfile, WaveStep[]> = {
+  ramp: [
+    { intensityPct: 0.72, volumeFactor: 1, deload: false },
+    { intensityPct: 0.76, volumeFactor: 1.1, deload: false },
+    { intensityPct: 0.8, volumeFactor: 1.15, deload: false },
+    { intensityPct: 0.84, volumeFactor: 1, deload: false },
+  ],
+  stabilize: [
+    { intensityPct: 0.75, volumeFactor: 1, deload: false },
+    { intensityPct: 0.76, volumeFactor: 1, deload: false },
+    { intensityPct: 0.77, volumeFactor: 1, deload: false },
+    { intensityPct: 0.78, volumeFactor: 1, deload: false },
+  ],
+  reload: [{ intensityPct: 0.65, volumeFactor: 0.6, deload: true }],
+};
+
+const DELOAD_STEP: WaveStep = { intensityPct: 0.65, volumeFactor: 0.6, deload: true };
+
+const BLOCK_INTENSITY_SHIFT: Record<BlockType, number> = {
+  re_entry: -0.07,
+  strength_rebuild: 0.03,
+  hypertrophy_accumulation: -0.05,
+  movement_balance: -0.02,
+  fatigue_management: -0.08,
+};
+
+const ANCHOR_REPS: Record<BlockType, string> = {
+  re_entry: "6-8",
+  strength_rebuild: "4-6",
+  hypertrophy_accumulation: "6-10",
+  movement_balance: "6-8",
+  fatigue_management: "5-6",
+};
+
+const PUMP_SLOTS: Slot[] = ["Pump", "Calves"];
+
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function addDays(ymd: string, days: number): string {
+  const d = new Date(`${ymd}T00:00:00`);
+  d.setDate(d.getDate() + days);
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+function waveStepFor(plan: ActiveBlockPlan, weekIndex: number): WaveStep {
+  const steps = WAVE_STEPS[plan.waveProfile] ?? WAVE_STEPS.stabilize;
+  // Ramp blocks of 4+ weeks end on a deload week.
+  if (plan.waveProfile === "ramp" && plan.targetDurationWeeks >= 4 && weekIndex === plan.targetDurationWeeks) return DELOAD_STEP;
+  return steps[Math.min(weekIndex - 1, steps.length - 1)];
+}
+
+function slotReps(slot: Slot, blockType: BlockType): string {
+  if (isAnchorSlot(slot)) return ANCHOR_REPS[blockType];
+  if (PUMP_SLOTS.includes(slot)) return "12-20";
+  return blockType === "hypertrophy_accumulation" ? "10-15" : "8-12";
+}
+
+function slotBaseSets(slot: Slot): number {
+  if (isAnchorSlot(slot)) return 4;
+  if (PUMP_SLOTS.includes(slot)) return 2;
+  return 3;
+}
+
+function slotTarget(slot: Slot, plan: ActiveBlockPlan, step: WaveStep): PlannedSlotTarget {
+  const anchor = isAnchorSlot(slot);
+  const volumeShift = plan.directives.volumePressure >= 0.67 && !anchor ? 1 : 0;
+  const sets = Math.max(1, Math.round(slotBaseSets(slot) * step.volumeFactor) + (step.deload ? 0 : volumeShift));
+  const shift = BLOCK_INTENSITY_SHIFT[plan.blockType] ?? 0;
+  // Accessories run a little lighter than anchors at the same point in the wave.
+  const loadPct = round2(Math.max(0.5, Math.min(0.9, step.intensityPct + shift - (anchor ? 0 : 0.05))));
+  const rir = step.deload ? 4 : anchor ? Math.max(1, 3 - Math.round((step.intensityPct - 0.7) * 20)) : 2;
+  return { slot, sets, reps: slotReps(slot, plan.blockType), loadPct, rir };
+}
+
+function dayOffsets(sessionsPerWeek: number): number[] {
+  return Array.from({ length: sessionsPerWeek }, (_, i) => Math.floor((i * 7) / sessionsPerWeek));
+}
+
+function weekLabel(plan: ActiveBlockPlan, weekIndex: number, step: WaveStep): string {
+  if (step.deload) return `Week ${weekIndex} — Deload`;
+  if (plan.waveProfile === "ramp") return `Week ${weekIndex} — Ramp ${Math.round(step.intensityPct * 100)}%`;
+  return `Week ${weekIndex} — ${plan.waveProfile === "stabilize" ? "Stabilize" : "Reload"}`;
+}
+
+export function buildProgramCalendar(options: ProgramBuildOptions): ProgramCalendar {
+  const { blockPlan, split } = options;
+  const days: SplitDayDefinition[] = split.days.filter((day) => day.slots.length > 0);
+  if (!days.length) throw new Error("Training split has no days with slots.");
+
+  const sessionsPerWeek = Math.max(1, Math.min(7, Math.round(options.sessionsPerWeek ?? days.length)));
+  const offsets = dayOffsets(sessionsPerWeek);
+  const weekCount = Math.max(1, blockPlan.targetDurationWeeks);
+  const calendarId = `program-${blockPlan.id}-${options.startDate}`;
+
+  const weeks: ProgramWeek[] = [];
+  let rotation = 0;
+  for (let weekIndex = 1; weekIndex <= weekCount; weekIndex++) {
+    const step = waveStepFor(blockPlan, weekIndex);
+    const startDate = addDays(options.startDate, (weekIndex - 1) * 7);
+    const sessions: PlannedProgramSession[] = offsets.map((offset, order) => {
+      const day = days[rotation++ % days.length];
+      return {
+        id: `${calendarId}-w${weekIndex}-s${order + 1}`,
+        weekIndex,
+        order,
+        date: addDays(startDate, offset),
+        splitDayId: day.id,
+        splitDayName: day.name,
+        deload: step.deload,
+        slots: day.slots.map((slot) => slotTarget(slot, blockPlan, step)),
+      };
+    });
+    weeks.push({
+      weekIndex,
+      startDate,
+      label: weekLabel(blockPlan, weekIndex, step),
+      intensityPct: step.intensityPct,
+      volumeFactor: step.volumeFactor,
+      deload: step.deload,
+      sessions,
+    });
+  }
+
+  return {
+    version: 1,
+    id: calendarId,
+    createdAt: options.createdAt ?? new Date().toISOString(),
+    startDate: options.startDate,
+    blockPlan,
+    sessionsPerWeek,
+    weeks,
+  };
+}
+
+/** Derives program state and the active block from current signals, then lays the block out week by week. */
+export function planProgramCalendar(input: ProgramPlanInput): ProgramCalendar {
+  const programState = computeProgramState(input);
+  const blockPlan = buildActiveBlockPlan({
+    asOf: `${input.startDate}T00:00:00.000Z`,
+    programState,
+    previousBlockPlan: input.previousBlockPlan ?? null,
+    readiness: { score: input.brainSnapshot.readiness.score },
+  });
+  // A block that continues the previous one keeps its original start so weeks stay aligned.
+  return buildProgramCalendar({
+    blockPlan,
+    split: input.split,
+    startDate: blockPlan.startedAt.slice(0, 10),
+    sessionsPerWeek: input.sessionsPerWeek,
+  });
+}
+
+export function normalizeProgramCalendar(raw: unknown): ProgramCalendar | null {
+  if (!raw || typeof raw !== "object") return null;
+  const value = raw as Partial<ProgramCalendar>;
+  if (value.version !== 1 || !Array.isArray(value.weeks) || !value.blockPlan || typeof value.startDate !== "string") return null;
+  return value as ProgramCalendar;
+}
+
+export function programEndDate(calendar: ProgramCalendar): string {
+  return addDays(calendar.startDate, calendar.weeks.length * 7 - 1);
+}
+
+export function plannedSessionSetCount(session: PlannedProgramSession): number {
+  return session.slots.reduce((acc, slot) => acc + slot.sets, 0);
+}
+
+function matchActuals(calendar: ProgramCalendar, actuals: ActualProgramSession[]): Map<string, ActualProgramSession> {
+  const matched = new Map<string, ActualProgramSession>();
+  const used = new Set<string>();
+  const planned = calendar.weeks.flatMap((week) => week.sessions);
+
+  // Explicit links first (sessions started from a planned recommendation).
+  for (const actual of actuals) {
+    if (!actual.programSessionId || used.has(actual.id)) continue;
+    if (planned.some((p) => p.id === actual.programSessionId) && !matched.has(actual.programSessionId)) {
+      matched.set(actual.programSessionId, actual);
+      used.add(actual.id);
+    }
+  }
+
+  // Then same split day within the same week, closest date wins.
+  for (const week of calendar.weeks) {
+    const weekEnd = addDays(week.startDate, 6);
+    for (const session of week.sessions) {
+      if (matched.has(session.id)) continue;
+      const candidate = actuals
+        .filter((a) => !used.has(a.id) && a.workingSets > 0 && a.dayDate >= week.startDate && a.dayDate <= weekEnd)
+        .filter((a) => !a.plannedDayId || a.plannedDayId === session.splitDayId)
+        .sort((a, b) => Math.abs(Date.parse(a.dayDate) - Date.parse(session.date)) - Math.abs(Date.parse(b.dayDate) - Date.parse(session.date)))[0];
+      if (candidate) {
+        matched.set(session.id, candidate);
+        used.add(candidate.id);
+      }
+    }
+  }
+  return matched;
+}
+
+export function buildPlanVsActual(calendar: ProgramCalendar, actuals: ActualProgramSession[], today: string): PlanVsActualWeek[] {
+  const matched = matchActuals(calendar, actuals);
+  return calendar.weeks.map((week) => {
+    const rows: PlanVsActualRow[] = week.sessions.map((planned) => {
+      const actual = matched.get(planned.id) ?? null;
+      const status: PlannedSessionStatus = actual
+        ? "done"
+        : planned.date < today
+        ? "missed"
+        : planned.date === today
+        ? "today"
+        : "upcoming";
+      return {
+        planned,
+        status,
+        actualSessionId: actual?.id ?? null,
+        actualDate: actual?.dayDate ?? null,
+        plannedSets: plannedSessionSetCount(planned),
+        actualSets: actual ? actual.workingSets : null,
+      };
+    });
+    return {
+      week,
+      rows,
+      completed: rows.filter((r) => r.status === "done").length,
+      plannedSets: rows.reduce((acc, r) => acc + r.plannedSets, 0),
+      actualSets: rows.reduce((acc, r) => acc + (r.actualSets ?? 0), 0),
+    };
+  });
+}
+
+/**
+ * Next planned session to recommend: the first unfinished session of the
+ * current program week (earlier misses in that week still come first).
+ * Returns null once the calendar has run out.
+ */
+export function selectNextPlannedSession(calendar: ProgramCalendar, actuals: ActualProgramSession[], today: string): PlannedProgramSession | null {
+  if (today > programEndDate(calendar)) return null;
+  const progress = buildPlanVsActual(calendar, actuals, today);
+  const current = progress.find((w) => today >= w.week.startDate && today <= addDays(w.week.startDate, 6)) ?? progress[0];
+  const startIdx = progress.indexOf(current);
+  for (const week of progress.slice(Math.max(0, startIdx))) {
+    const next = week.rows.find((r) => r.status !== "done");
+    if (next) return next.planned;
+  }
+  return null;
+}
+
+export function loadForPlannedTarget(target: PlannedSlotTarget, estimatedOneRepMax: number | null, increment: number): number | null {
+  if (estimatedOneRepMax == null || !Number.isFinite(estimatedOneRepMax) || estimatedOneRepMax <= 0) return null;
+  const step = increment > 0 ? increment : 5;
+  return Math.round((estimatedOneRepMax * target.loadPct) / step) * step;
+}
@@ -6,6 +6,8 @@ import type {
   LocalWorkoutSet,
   LocalZone2Daily,
 } from "../localdb";
+import type { BodyCompSummary, BodyFatMethod } from "./bodyComposition";
+import { countsTowardE1rm, hardSetCredit } from "./setTypes";
 
 export type ProgressSignals = {
   monthKey: string;
@@ -20,6 +22,11 @@ export type ProgressSignals = {
 
   weightDelta: number | null;
   waistDelta: number | null;
+  weightTrendLbs: number | null;
+  bodyFatPct: number | null;
+  bodyFatMethod: BodyFatMethod | null;
+  bodyFatDelta: number | null;
+  leanMassDelta: number | null;
   avgSleep: number | null;
   avgProtein: number | null;
   avgZone2Minutes: number | null;
@@ -175,6 +182,7 @@ export function buildProgressSignals(args: {
   monthExercises: LocalWorkoutExercise[];
   monthSets: LocalWorkoutSet[];
   visionText?: string | null;
+  bodyComposition?: BodyCompSummary | null;
 }): ProgressSignals {
   const {
     monthKey,
@@ -189,6 +197,7 @@ export function buildProgressSignals(args: {
     monthExercises,
     monthSets,
     visionText,
+    bodyComposition,
   } = args;
 
   const daysInRange = Math.max(1, Math.round((Date.parse(`${endYMD}T00:00:00Z`) - Date.parse(`${startYMD}T00:00:00Z`)) / 86400000) + 1);
@@ -202,7 +211,7 @@ export function buildProgressSignals(args: {
   const exercises = monthExercises.filter((ex) => sessionIds.has(ex.session_id));
   const exerciseIds = new Set(exercises.map((ex) => ex.id));
   const sets = monthSets.filter((s) => exerciseIds.has(s.exercise_id));
-  const hardSets = sets.filter((s) => !s.is_warmup && (Number(s.reps ?? 0) > 0 || Number(setEstimatedLoad(s) ?? 0) > 0));
+  const hardSets = sets.filter((s) => hardSetCredit(s) > 0 && (Number(s.reps ?? 0) > 0 || Number(setEstimatedLoad(s) ?? 0) > 0));
   const exerciseById = new Map(exercises.map((ex) => [ex.id, ex]));
 
   let compoundHardSets = 0;
@@ -227,7 +236,7 @@ export function buildProgressSignals(args: {
   const sessionById = new Map(analyticSessions.map((s) => [s.id, s]));
   for (const set of hardSets) {
     const ex = exerciseById.get(set.exercise_id);
-    if (!ex) continue;
+    if (!ex || !countsTowardE1rm(set)) continue;
     const session = sessionById.get(ex.session_id);
     if (!session) continue;
     const load = setEstimatedLoad(set);
@@ -263,8 +272,12 @@ export function buildProgressSignals(args: {
   const monthPoses = new Set(anchorPhotos.map((p) => normalizeText(p.pose)).filter(Boolean));
   const anchorCompleteness = round1(Math.min(1, monthPoses.size / 3));
 
-  const weightDelta = firstLastDelta(monthDaily, (r) => r.weight_lbs) ?? firstLastDelta(monthMeasurements, (r) => r.weight_lbs);
-  const waistDelta = firstLastDelta(monthDaily, (r) => r.waist_in) ?? firstLastDelta(monthMeasurements, (r) => r.waist_in);
+  // The body composition summary smooths weight and merges Quick Log with the tape; raw first/last is the fallback.
+  const weightDelta =
+    bodyComposition?.weightDelta ?? firstLastDelta(monthDaily, (r) => r.weight_lbs) ?? firstLastDelta(monthMeasurements, (r) => r.weight_lbs);
+  const waistDelta =
+    bodyComposition?.waistDelta ?? firstLastDelta(monthDaily, (r) => r.waist_in) ?? firstLastDelta(monthMeasurements, (r) => r.waist_in);
+  const bodyFatDelta = bodyComposition?.bodyFatDelta ?? null;
 
   const adherenceScore = round1(clamp01(
     ((monthSessions.length / Math.max(1, expectedWorkouts)) * 0.7) +
@@ -276,6 +289,7 @@ export function buildProgressSignals(args: {
   const momentumComponents: number[] = [];
   if (progressionRate != null) momentumComponents.push((progressionRate - 0.5) * 1.1);
   if (waistDelta != null) momentumComponents.push(Math.max(-1, Math.min(1, -waistDelta / 2)) * 0.9);
+  if (bodyFatDelta != null) momentumComponents.push(Math.max(-1, Math.min(1, -bodyFatDelta / 2)) * 0.6);
   if (adherenceScore != null) momentumComponents.push((adherenceScore - 0.5) * 0.8);
   if (hardSets.length > 0) momentumComponents.push(Math.max(-1, Math.min(1, (hardSets.length / Math.max(1, expectedWorkouts * 10)) - 0.5)) * 0.5);
   const momentumSignal = momentumComponents.length ? round1(momentumComponents.reduce((a, b) => a + b, 0) / momentumComponents.length) : null;
@@ -291,6 +305,11 @@ export function buildProgressSignals(args: {
     anchorCompleteness,
     weightDelta: round1(weightDelta),
     waistDelta: round1(waistDelta),
+    weightTrendLbs: bodyComposition?.weightTrendEnd ?? null,
+    bodyFatPct: bodyComposition?.bodyFatPct ?? null,
+    bodyFatMethod: bodyComposition?.bodyFatMethod ?? null,
+    bodyFatDelta,
+    leanMassDelta: bodyComposition?.leanMassDelta ?? null,
     avgSleep: round1(avg(sortByDate(monthDaily).map((r) => r.sleep_hours))),
     avgProtein: round1(avg(sortByDate(monthNutrition).map((r) => r.protein_g))),
     avgZone2Minutes: round1(avg(sortByDate(monthZone2).map((r) => r.minutes))),
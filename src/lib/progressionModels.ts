@@ -0,0 +1,286 @@
+import type { ProgressionModel } from "./exerciseTypes";
+
+/**
+ * Per-exercise progression models:
+ * - linear_load: fixed rep target, add load every session the target is met
+ * - double_progression: climb reps through the range, then add load and restart at the bottom
+ * - rpe_top_set: one top set at ~RPE 8 from estimated 1RM, then back-off sets
+ * - rep_range: band / bodyweight work progresses reps, then sets
+ *
+ * Every model shares stall detection over the last few exposures; what a stall
+ * triggers (reset, deload, rep restart) is model specific. While the latest top set
+ * sits clearly below the window's peak the lift is rebuilding from a reset, deload or
+ * layoff, so it is not judged again until it climbs back.
+ */
+
+export type ProgressionAction = "establish" | "progress" | "hold" | "reset" | "deload";
+
+export type ProgressionMode = "Progression" | "Base" | "Reduced volume";
+
+export type ProgressionHistory = {
+  lastLoad: number | null;
+  lastReps: number | null;
+  recentBestE1RM: number | null;
+  lastPerformedDaysAgo: number | null;
+  recentTopSetE1RMs?: number[];
+  recentAvgSetReps?: number[];
+};
+
+export type ProgressionStall = {
+  stalled: boolean;
+  flatExposures: number;
+  reason: string | null;
+};
+
+export type ProgressionInput = {
+  model: ProgressionModel;
+  history: ProgressionHistory | null;
+  sets: string;
+  reps: string;
+  increment: number;
+  mode: ProgressionMode;
+};
+
+export type ProgressionPrescription = {
+  model: ProgressionModel;
+  action: ProgressionAction;
+  sets: string;
+  reps: string;
+  load: number | null;
+  backoff: { sets: number; reps: string; load: number | null } | null;
+  stall: ProgressionStall;
+  basis: string;
+};
+
+export const PROGRESSION_MODEL_LABELS: Record<ProgressionModel, string> = {
+  linear_load: "Linear load",
+  double_progression: "Double progression",
+  rpe_top_set: "RPE top set + back-off",
+  rep_range: "Rep range",
+};
+
+const LAYOFF_RESET_DAYS = 14;
+const STALL_TOLERANCE = 0.005;
+const REBUILD_GAP = 0.025;
+const RESET_FACTOR = 0.9;
+
+function parseRange(reps: string): { min: number; max: number } {
+  const [a, b] = reps.split("-").map((part) => Number(part.trim()));
+  if (Number.isFinite(a) && Number.isFinite(b)) return { min: Math.min(a, b), max: Math.max(a, b) };
+  if (Number.isFinite(a)) return { min: a, max: a };
+  return { min: 8, max: 8 };
+}
+
+function parseSetCount(sets: string): number {
+  const nums = sets.match(/\d+/g)?.map(Number) ?? [];
+  return nums.length ? Math.max(...nums) : 3;
+}
+
+function roundTo(value: number, increment: number): number {
+  const step = increment > 0 ? increment : 2.5;
+  return Math.round(value / step) * step;
+}
+
+function lb(value: number): string {
+  return Number.isInteger(value) ? `${value} lb` : `${value.toFixed(1)} lb`;
+}
+
+/** Epley-based load for a rep target with a given number of reps in reserve. */
+function loadFromE1RM(e1rm: number, reps: number, rir: number): number {
+  return e1rm / (1 + (reps + rir) / 30);
+}
+
+export function detectProgressionStall(history: ProgressionHistory | null): ProgressionStall {
+  const top = (history?.recentTopSetE1RMs ?? []).filter((n) => Number.isFinite(n) && n > 0);
+  if (top.length < 3) return { stalled: false, flatExposures: 0, reason: null };
+  if (top[top.length - 1] < Math.max(...top) * (1 - REBUILD_GAP)) return { stalled: false, flatExposures: 0, reason: null };
+
+  let best = top[0];
+  let flatExposures = 0;
+  for (const value of top.slice(1)) {
+    if (value > best * (1 + STALL_TOLERANCE)) {
+      best = value;
+      flatExposures = 0;
+    } else {
+      flatExposures += 1;
+    }
+  }
+
+  const reps = history?.recentAvgSetReps ?? [];
+  const repsSliding = reps.length >= 2 && reps[reps.length - 1] < reps[0] - 0.5;
+  const stalled = flatExposures >= 2;
+  return {
+    stalled,
+    flatExposures,
+    reason: stalled
+      ? `Top set has not moved in ${flatExposures} exposures${repsSliding ? " and working reps are sliding" : ""}.`
+      : null,
+  };
+}
+
+function base(input: ProgressionInput, stall: ProgressionStall): ProgressionPrescription {
+  return {
+    model: input.model,
+    action: "establish",
+    sets: input.sets,
+    reps: input.reps,
+    load: null,
+    backoff: null,
+    stall,
+    basis: "",
+  };
+}
+
+function prescribeLinear(input: ProgressionInput, stall: ProgressionStall): ProgressionPrescription {
+  const out = base(input, stall);
+  const range = parseRange(input.reps);
+  out.reps = String(range.min);
+  const lastLoad = input.history?.lastLoad ?? null;
+  const lastReps = input.history?.lastReps ?? null;
+  const daysAgo = input.history?.lastPerformedDaysAgo ?? null;
+  if (lastLoad == null || lastLoad <= 0) {
+    out.basis = `Linear load: pick a load you can own for ${range.min} clean reps; the model adds ${lb(input.increment)} each time you hit it.`;
+    return out;
+  }
+
+  if ((daysAgo != null && daysAgo >= LAYOFF_RESET_DAYS) || stall.stalled) {
+    out.action = "reset";
+    out.load = roundTo(lastLoad * RESET_FACTOR, input.increment);
+    out.basis = stall.stalled
+      ? `Linear load reset: ${stall.reason} Drop 10% to ${lb(out.load)} and rebuild the run.`
+      : `Linear load reset: ${daysAgo} days off, so restart at 90% (${lb(out.load)}).`;
+    return out;
+  }
+  if (input.mode === "Reduced volume") {
+    out.action = "hold";
+    out.load = lastLoad;
+    out.basis = `Linear load: recovery is soft, so hold ${lb(lastLoad)} for ${range.min} instead of adding.`;
+    return out;
+  }
+  if (lastReps != null && lastReps >= range.min) {
+    out.action = "progress";
+    out.load = lastLoad + input.increment;
+    out.basis = `Linear load: ${lb(lastLoad)} x ${lastReps} met the ${range.min}-rep target, so add ${lb(input.increment)}.`;
+    return out;
+  }
+  out.action = "hold";
+  out.load = lastLoad;
+  out.basis = `Linear load: ${lb(lastLoad)} fell short of ${range.min} reps last time. Repeat it before adding.`;
+  return out;
+}
+
+function prescribeDouble(input: ProgressionInput, stall: ProgressionStall): ProgressionPrescription {
+  const out = base(input, stall);
+  const range = parseRange(input.reps);
+  const lastLoad = input.history?.lastLoad ?? null;
+  const lastReps = input.history?.lastReps ?? null;
+  const daysAgo = input.history?.lastPerformedDaysAgo ?? null;
+  if (lastLoad == null || lastLoad <= 0) {
+    out.basis = `Double progression: start with a load that lands near ${range.min} reps and climb to ${range.max} before adding weight.`;
+    return out;
+  }
+
+  if (stall.stalled || (daysAgo != null && daysAgo >= LAYOFF_RESET_DAYS)) {
+    out.action = "reset";
+    out.load = Math.max(input.increment, roundTo(lastLoad - input.increment, input.increment));
+    out.reps = `${range.min}-${range.max}`;
+    out.basis = stall.stalled
+      ? `Double progression reset: ${stall.reason} Step back to ${lb(out.load)} and climb the range again.`
+      : `Double progression reset: ${daysAgo} days off, so step back to ${lb(out.load)} and climb the range again.`;
+    return out;
+  }
+  if (lastReps != null && lastReps >= range.max && input.mode !== "Reduced volume") {
+    out.action = "progress";
+    out.load = lastLoad + input.increment;
+    out.reps = `${range.min}-${range.max}`;
+    out.basis = `Double progression: ${lb(lastLoad)} x ${lastReps} topped the ${range.max}-rep ceiling, so add ${lb(input.increment)} and restart near ${range.min}.`;
+    return out;
+  }
+  out.action = "hold";
+  out.load = lastLoad;
+  const target = lastReps != null ? Math.min(range.max, Math.max(range.min, lastReps + 1)) : range.min;
+  out.reps = target < range.max ? `${target}-${range.max}` : String(range.max);
+  out.basis = input.mode === "Reduced volume"
+    ? `Double progression: recovery is soft, so hold ${lb(lastLoad)} and keep reps honest.`
+    : `Double progression: hold ${lb(lastLoad)} and chase ${target}+ reps before adding load.`;
+  return out;
+}
+
+function prescribeTopSet(input: ProgressionInput, stall: ProgressionStall): ProgressionPrescription {
+  const out = base(input, stall);
+  const range = parseRange(input.reps);
+  const setCount = parseSetCount(input.sets);
+  const e1rm = input.history?.recentBestE1RM ?? null;
+  const topReps = range.min;
+  if (e1rm == null || !Number.isFinite(e1rm) || e1rm <= 0) {
+    out.sets = `1 + ${Math.max(1, setCount - 1)}`;
+    out.reps = `${topReps} @RPE8 / ${input.reps}`;
+    out.basis = `RPE top set: work up to a top set of ${topReps} at RPE 8, then back off about 10% for the rest.`;
+    return out;
+  }
+
+  const deload = stall.stalled || input.mode === "Reduced volume";
+  const rir = deload ? 3 : input.mode === "Progression" ? 1.5 : 2;
+  let top = roundTo(loadFromE1RM(e1rm, topReps, rir), input.increment);
+  // A top set that stopped at its rep target understates e1RM; never walk the load down off it.
+  const lastLoad = input.history?.lastLoad ?? null;
+  const lastReps = input.history?.lastReps ?? null;
+  if (!deload && lastLoad != null && lastLoad > 0 && lastReps != null && lastReps >= topReps) {
+    top = Math.max(top, input.mode === "Progression" && lastReps >= range.max ? lastLoad + input.increment : lastLoad);
+  }
+  const backoffPct = deload ? 0.85 : 0.9;
+  const backoffSets = Math.max(1, setCount - 1 - (deload ? 1 : 0));
+  out.action = stall.stalled ? "deload" : input.mode === "Progression" ? "progress" : "hold";
+  out.load = top;
+  out.sets = `1 + ${backoffSets}`;
+  out.reps = `${topReps} @RPE${10 - rir} / ${input.reps}`;
+  out.backoff = { sets: backoffSets, reps: input.reps, load: roundTo(top * backoffPct, input.increment) };
+  out.basis = stall.stalled
+    ? `RPE top set deload: ${stall.reason} Top set capped at RPE 7 (${lb(top)}), back-offs at ${lb(out.backoff.load ?? top)}.`
+    : `RPE top set: ${topReps} @ RPE ${10 - rir} from a ${lb(Math.round(e1rm))} e1RM is ${lb(top)}; back-offs at ${Math.round(backoffPct * 100)}% (${lb(out.backoff.load ?? top)}).`;
+  return out;
+}
+
+function prescribeRepRange(input: ProgressionInput, stall: ProgressionStall): ProgressionPrescription {
+  const out = base(input, stall);
+  const range = parseRange(input.reps);
+  const setCount = parseSetCount(input.sets);
+  const lastReps = input.history?.lastReps ?? null;
+  const lastLoad = input.history?.lastLoad ?? null;
+  out.load = lastLoad != null && lastLoad > 0 ? lastLoad : null;
+  if (lastReps == null) {
+    out.basis = `Rep range: pick a band or bodyweight variation that lands in ${input.reps}, then add reps before making it harder.`;
+    return out;
+  }
+
+  // Reps pinned at the ceiling read as a flat e1RM; that is the cue to progress, not a stall.
+  if (lastReps >= range.max && input.mode !== "Reduced volume") {
+    out.action = "progress";
+    out.sets = String(setCount + 1);
+    out.reps = `${range.min}-${range.max}`;
+    out.basis = `Rep range: ${lastReps} reps cleared the ${range.max}-rep ceiling. Add a set or step up the band/variation.`;
+    return out;
+  }
+  if (stall.stalled) {
+    out.action = "deload";
+    out.sets = String(Math.max(1, setCount - 1));
+    out.reps = `${range.min}-${range.max}`;
+    out.basis = `Rep range deload: ${stall.reason} Drop a set and restart at ${range.min} crisp reps.`;
+    return out;
+  }
+  const target = Math.min(range.max, Math.max(range.min, lastReps + 1));
+  out.action = "hold";
+  out.reps = target < range.max ? `${target}-${range.max}` : String(range.max);
+  out.basis = input.mode === "Reduced volume"
+    ? `Rep range: recovery is soft, so match last time's ${lastReps} reps and stop there.`
+    : `Rep range: beat last time's ${lastReps} with ${target}+ reps per set.`;
+  return out;
+}
+
+export function prescribeProgression(input: ProgressionInput): ProgressionPrescription {
+  const stall = detectProgressionStall(input.history);
+  if (input.model === "linear_load") return prescribeLinear(input, stall);
+  if (input.model === "double_progression") return prescribeDouble(input, stall);
+  if (input.model === "rpe_top_set") return prescribeTopSet(input, stall);
+  return prescribeRepRange(input, stall);
+}
@@ -1,14 +1,21 @@
 import type { PredictionScaffold } from "./behaviorFingerprint";
-import type { RecalibrationState } from "./adaptationWeights";
+import type { AdaptationWeights, MutationLedgerEntry, RecalibrationScope, RecalibrationState } from "./adaptationWeights";
+import { getExerciseByKey } from "./exerciseRegistry";
+import type { PreferenceHistoryEntry } from "./preferenceLearning";
 
-export type RecalibrationActionScope = "prediction";
-export type RecalibrationActionType = "prediction_confidence_damp" | "prediction_expectation_reset";
+export type RecalibrationActionScope = "prediction" | "adaptation" | "fingerprint" | "exercise_identity";
+export type RecalibrationActionType =
+  | "prediction_confidence_damp"
+  | "prediction_expectation_reset"
+  | "adaptation_bias_reset"
+  | "fingerprint_window_shorten"
+  | "exercise_identity_remerge";
 
 export type RecalibrationAction = {
   id: string;
   scope: RecalibrationActionScope;
   type: RecalibrationActionType;
-  status: "active" | "completed";
+  status: "active" | "completed" | "undone";
   createdAt: string;
   reason: string;
   probationCyclesRemaining: number;
@@ -24,6 +31,24 @@ export type RecalibrationAction = {
     expectedCompletionLabel: string | null;
     expectedFocusProbability: number | null;
   };
+  /** Bias maps cleared by adaptation_bias_reset, put back on undo. */
+  adaptationBefore?: Pick<AdaptationWeights, "exerciseBiasAdjustments" | "preferredSubstitutions">;
+  /** Closed sessions the fingerprint is derived from while fingerprint_window_shorten is active. */
+  fingerprintWindow?: number;
+  /** Substituted key → recommended key for same-family swaps that exercise_identity_remerge counts as matches. */
+  identityMerges?: Record<string, string>;
+};
+
+const SHORT_FINGERPRINT_WINDOW = 6;
+
+/** Policy scopes without an action of their own ride on the nearest one: timing on prediction, split confidence on fingerprint. */
+const ACTION_SCOPE: Record<RecalibrationScope, RecalibrationActionScope> = {
+  prediction: "prediction",
+  timing: "prediction",
+  exercise_identity: "exercise_identity",
+  adaptation: "adaptation",
+  fingerprint: "fingerprint",
+  split_confidence: "fingerprint",
 };
 
 function clamp(n: number, min: number, max: number): number {
@@ -44,14 +69,35 @@ function phaseLabel(phase: RecalibrationState["phase"]): RecalibrationState["sta
   }
 }
 
+const EMPTY_PREDICTION_SIDE: RecalibrationAction["before"] = {
+  predictionConfidence: null,
+  expectedCompletionLabel: null,
+  expectedFocusProbability: null,
+};
+
+function probationState(state: RecalibrationState, note: string, triggerSummary: string, cycles: number): RecalibrationState {
+  return {
+    ...state,
+    phase: "probation",
+    state: phaseLabel("probation"),
+    note,
+    triggerSummary,
+    freezeRecommended: true,
+    probationCyclesRemaining: cycles,
+    lastEvaluatedAt: new Date().toISOString(),
+  };
+}
+
+function isRecalibrationReady(state: RecalibrationState | null): state is RecalibrationState {
+  return !!state && state.phase === "suggested" && state.evidenceWindow >= 4;
+}
+
 export function shouldExecutePredictionRecalibration(params: {
   recalibrationState: RecalibrationState | null;
   predictionScaffold: PredictionScaffold | null;
 }): boolean {
   const state = params.recalibrationState;
-  if (!state || !params.predictionScaffold) return false;
-  if (state.phase !== "suggested") return false;
-  if (state.evidenceWindow < 4) return false;
+  if (!isRecalibrationReady(state) || !params.predictionScaffold) return false;
   if (!state.recommendedScope.includes("prediction")) return false;
   return true;
 }
@@ -115,16 +161,12 @@ export function executePredictionRecalibration(params: {
 
   const predictionScaffold = applyPredictionRecalibrationToScaffold(params.predictionScaffold, action);
 
-  const recalibrationState: RecalibrationState = {
-    ...params.recalibrationState,
-    phase: "probation",
-    state: phaseLabel("probation"),
-    note: "Prediction recalibration executed conservatively; the loop is now in probation while it checks whether the calmer prediction stance fits reality better.",
-    triggerSummary: `Prediction recalibration executed: confidence damped${before.expectedCompletionLabel !== afterCompletion ? " and expectation reset" : ""}.`,
-    freezeRecommended: true,
-    probationCyclesRemaining: action.probationCyclesRemaining,
-    lastEvaluatedAt: new Date().toISOString(),
-  };
+  const recalibrationState = probationState(
+    params.recalibrationState,
+    "Prediction recalibration executed conservatively; the loop is now in probation while it checks whether the calmer prediction stance fits reality better.",
+    `Prediction recalibration executed: confidence damped${before.expectedCompletionLabel !== afterCompletion ? " and expectation reset" : ""}.`,
+    action.probationCyclesRemaining,
+  );
 
   return { action, predictionScaffold, recalibrationState };
 }
@@ -152,3 +194,202 @@ export function stepRecalibrationActionProbation(params: {
   };
 }
 
+/** Same-family swaps in recent history (bench press → dumbbell bench press) keyed substituted → recommended. */
+export function findMergeableExerciseIdentities(history: PreferenceHistoryEntry[]): Record<string, string> {
+  const merges: Record<string, string> = {};
+  const recent = history.slice().sort((a, b) => b.timestamp - a.timestamp).slice(0, 12);
+  for (const entry of recent) {
+    for (const sub of entry.substitutionKeys || []) {
+      const recommendedFamily = getExerciseByKey(sub.recommendedKey)?.family;
+      if (recommendedFamily && recommendedFamily === getExerciseByKey(sub.actualKey)?.family) merges[sub.actualKey] = sub.recommendedKey;
+    }
+  }
+  return merges;
+}
+
+/** History as the loop should read it while an identity re-merge is active: merged swaps count as matches. */
+export function applyRecalibrationToHistory(history: PreferenceHistoryEntry[], action: RecalibrationAction | null): PreferenceHistoryEntry[] {
+  if (!action || action.status !== "active" || action.type !== "exercise_identity_remerge" || !action.identityMerges) return history;
+  const merges = action.identityMerges;
+  return history.map((entry) => {
+    const substitutionKeys = (entry.substitutionKeys || []).filter((sub) => merges[sub.actualKey] !== sub.recommendedKey);
+    return substitutionKeys.length === (entry.substitutionKeys || []).length ? entry : { ...entry, substitutionKeys };
+  });
+}
+
+/** The slice of history the behavior fingerprint is derived from; shortened while a window action is active. */
+export function fingerprintHistoryFor(history: PreferenceHistoryEntry[], action: RecalibrationAction | null): PreferenceHistoryEntry[] {
+  if (!action || action.status !== "active" || action.type !== "fingerprint_window_shorten") return history;
+  return history.slice().sort((a, b) => b.timestamp - a.timestamp).slice(0, action.fingerprintWindow ?? SHORT_FINGERPRINT_WINDOW);
+}
+
+export function applyAdaptationRecalibrationToWeights(weights: AdaptationWeights, action: RecalibrationAction | null): AdaptationWeights {
+  if (!action || action.status !== "active" || action.type !== "adaptation_bias_reset") return weights;
+  return {
+    ...weights,
+    exerciseBiasAdjustments: {},
+    preferredSubstitutions: {},
+    notes: [
+      "Exercise bias and preferred swaps are reset while the adaptation recalibration is in probation.",
+      ...weights.notes.filter((note) => !/adaptation recalibration is in probation/i.test(note)),
+    ].slice(0, 4),
+  };
+}
+
+/**
+ * Executes the action for the strongest recommended scope when that scope is not prediction's
+ * (prediction keeps its own executor above). Scopes whose action has nothing to act on — no
+ * same-family swaps, no learned bias, too little history to shorten — are skipped.
+ */
+export function executeScopedRecalibration(params: {
+  recalibrationState: RecalibrationState | null;
+  adaptationWeights: AdaptationWeights | null;
+  preferenceHistory: PreferenceHistoryEntry[];
+  latestClosedReviewSessionId: string | null;
+}): { action: RecalibrationAction; adaptationWeights: AdaptationWeights | null; recalibrationState: RecalibrationState } | null {
+  const state = params.recalibrationState;
+  if (!isRecalibrationReady(state)) return null;
+  const weights = params.adaptationWeights;
+  const merges = findMergeableExerciseIdentities(params.preferenceHistory);
+  const hasBias = !!weights && (Object.keys(weights.exerciseBiasAdjustments).length > 0 || Object.keys(weights.preferredSubstitutions).length > 0);
+
+  let scope: RecalibrationActionScope | null = null;
+  for (const policyScope of state.recommendedScope) {
+    const candidate = ACTION_SCOPE[policyScope];
+    if (candidate === "prediction") return null;
+    const actionable = candidate === "exercise_identity"
+      ? Object.keys(merges).length > 0
+      : candidate === "adaptation"
+        ? hasBias
+        : params.preferenceHistory.length > SHORT_FINGERPRINT_WINDOW;
+    if (actionable) {
+      scope = candidate;
+      break;
+    }
+  }
+  if (!scope) return null;
+
+  const base: RecalibrationAction = {
+    id: makeId(),
+    scope,
+    type: scope === "exercise_identity" ? "exercise_identity_remerge" : scope === "adaptation" ? "adaptation_bias_reset" : "fingerprint_window_shorten",
+    status: "active",
+    createdAt: new Date().toISOString(),
+    reason: state.triggerSummary || state.note,
+    probationCyclesRemaining: 2,
+    freezeAdaptation: true,
+    lastObservedReviewSessionId: params.latestClosedReviewSessionId,
+    before: EMPTY_PREDICTION_SIDE,
+    after: EMPTY_PREDICTION_SIDE,
+  };
+
+  if (scope === "exercise_identity") {
+    const action = { ...base, identityMerges: merges };
+    const count = Object.keys(merges).length;
+    return {
+      action,
+      adaptationWeights: weights,
+      recalibrationState: probationState(
+        state,
+        "Exercise identities were re-merged: same-family swaps now count as the prescribed lift while probation checks whether drift was only naming noise.",
+        `Exercise identity recalibration executed: ${count} same-family swap${count === 1 ? "" : "s"} merged.`,
+        action.probationCyclesRemaining,
+      ),
+    };
+  }
+  if (scope === "adaptation" && weights) {
+    const action = {
+      ...base,
+      adaptationBefore: { exerciseBiasAdjustments: { ...weights.exerciseBiasAdjustments }, preferredSubstitutions: { ...weights.preferredSubstitutions } },
+    };
+    return {
+      action,
+      adaptationWeights: applyAdaptationRecalibrationToWeights(weights, action),
+      recalibrationState: probationState(
+        state,
+        "Learned exercise bias was reset and adaptation is frozen; probation checks whether recommendations fit better without it.",
+        `Adaptation recalibration executed: ${Object.keys(weights.exerciseBiasAdjustments).length} exercise bias adjustment(s) cleared.`,
+        action.probationCyclesRemaining,
+      ),
+    };
+  }
+  const action = { ...base, fingerprintWindow: SHORT_FINGERPRINT_WINDOW };
+  return {
+    action,
+    adaptationWeights: weights,
+    recalibrationState: probationState(
+      state,
+      `The behavior fingerprint is re-derived from the last ${SHORT_FINGERPRINT_WINDOW} sessions so older habits stop outvoting recent behavior during probation.`,
+      `Fingerprint recalibration executed: window shortened to ${SHORT_FINGERPRINT_WINDOW} sessions.`,
+      action.probationCyclesRemaining,
+    ),
+  };
+}
+
+function describeActionChange(action: RecalibrationAction): string[] {
+  switch (action.type) {
+    case "prediction_confidence_damp":
+    case "prediction_expectation_reset":
+      return [
+        `prediction confidence ${action.before.predictionConfidence ?? "—"} → ${action.after.predictionConfidence ?? "—"}`,
+        `focus probability ${action.before.expectedFocusProbability ?? "—"}% → ${action.after.expectedFocusProbability ?? "—"}%`,
+        ...(action.before.expectedCompletionLabel !== action.after.expectedCompletionLabel
+          ? [`expected completion ${action.before.expectedCompletionLabel} → ${action.after.expectedCompletionLabel}`]
+          : []),
+      ];
+    case "adaptation_bias_reset":
+      return [
+        `exercise bias cleared (${Object.keys(action.adaptationBefore?.exerciseBiasAdjustments ?? {}).length})`,
+        `preferred swaps cleared (${Object.keys(action.adaptationBefore?.preferredSubstitutions ?? {}).length})`,
+      ];
+    case "fingerprint_window_shorten":
+      return [`fingerprint window 12 → ${action.fingerprintWindow ?? SHORT_FINGERPRINT_WINDOW} sessions`];
+    case "exercise_identity_remerge":
+      return Object.entries(action.identityMerges ?? {}).map(([actual, recommended]) => `${actual} merged into ${recommended}`);
+  }
+}
+
+/** Ledger entry for an executed action; `actionId` is what the undo path looks the action up by. */
+export function recalibrationLedgerEntry(action: RecalibrationAction, state: RecalibrationState): MutationLedgerEntry {
+  return {
+    generatedAt: action.createdAt,
+    summary: state.triggerSummary,
+    confidence: state.confidence,
+    evidenceWindow: state.evidenceWindow,
+    appliedChanges: describeActionChange(action),
+    reasons: [action.reason],
+    actionId: action.id,
+  };
+}
+
+/**
+ * Reverses an action: the action is marked undone (which ends its probation and its effect on
+ * history, fingerprint and prediction) and cleared adaptation bias is put back.
+ */
+export function undoRecalibrationAction(params: {
+  action: RecalibrationAction;
+  adaptationWeights: AdaptationWeights | null;
+}): { action: RecalibrationAction; adaptationWeights: AdaptationWeights | null; ledgerEntry: MutationLedgerEntry } {
+  const { action } = params;
+  const restored = action.type === "adaptation_bias_reset" && action.adaptationBefore && params.adaptationWeights
+    ? {
+        ...params.adaptationWeights,
+        exerciseBiasAdjustments: { ...action.adaptationBefore.exerciseBiasAdjustments, ...params.adaptationWeights.exerciseBiasAdjustments },
+        preferredSubstitutions: { ...action.adaptationBefore.preferredSubstitutions, ...params.adaptationWeights.preferredSubstitutions },
+        notes: params.adaptationWeights.notes.filter((note) => !/adaptation recalibration is in probation/i.test(note)),
+      }
+    : params.adaptationWeights;
+  return {
+    action: { ...action, status: "undone", freezeAdaptation: false, probationCyclesRemaining: 0 },
+    adaptationWeights: restored,
+    ledgerEntry: {
+      generatedAt: new Date().toISOString(),
+      summary: `Recalibration undone: ${action.type.replace(/_/g, " ")}.`,
+      confidence: 100,
+      evidenceWindow: 0,
+      appliedChanges: describeActionChange(action).map((change) => `reverted ${change}`),
+      reasons: ["Undone from the recalibration card."],
+      actionId: action.id,
+    },
+  };
+}
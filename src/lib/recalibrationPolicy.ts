@@ -141,17 +141,18 @@ export function evaluateRecalibrationState(input: RecalibrationPolicyInput): Rec
     input.predictionAccuracySummary?.evidenceWindow ?? 0,
     input.behaviorFingerprint?.evidenceWindow ?? 0,
   );
+  // Strongest trigger first, so the summary and the recommended scope point at the dominant drift.
   const assessments = [
     scorePredictionDrift(input.predictionAccuracySummary),
     scoreStructuralDrift(history),
     scoreIdentityDrift(input.behaviorFingerprint, history),
     scoreAdaptationIneffectiveness(input.mutationLedger, input.predictionAccuracySummary),
     scoreThinEvidenceFragility(evidenceWindow, input.predictionAccuracySummary, input.behaviorFingerprint),
-  ];
+  ].sort((a, b) => b.score - a.score);
   const score = clamp(assessments.reduce((sum, item) => sum + item.score, 0), 0, 100);
   const triggers = assessments.map((item) => item.reason).filter((item): item is string => !!item);
   const activeFamilies = assessments.filter((item) => item.score > 0).length;
-  const scopes = [...new Set(assessments.flatMap((item) => item.scope))];
+  const scopes = [...new Set(assessments.filter((item) => item.score > 0).flatMap((item) => item.scope))];
   const confidence = clamp(30 + evidenceWindow * 8 + activeFamilies * 6, 35, 88);
 
   let phase: RecalibrationPhase = "stable";
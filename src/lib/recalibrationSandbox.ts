@@ -4,6 +4,7 @@ import type { PredictionAccuracySummary, PredictionReviewEntry } from "./predict
 import type { PreferenceHistoryEntry } from "./preferenceLearning";
 import type { AdaptationWeights, MutationLedgerEntry, RecalibrationState } from "./adaptationWeights";
 import type { RecalibrationAction } from "./recalibrationActions";
+import type { LoopRestorePoint } from "./mutationLedger";
 
 export type RecalibrationSandboxSnapshot = {
   behaviorFingerprint: BehaviorFingerprint | null;
@@ -16,6 +17,7 @@ export type RecalibrationSandboxSnapshot = {
   recalibrationState: RecalibrationState | null;
   recalibrationAction: RecalibrationAction | null;
   scenarioName: string | null;
+  restorePoint?: LoopRestorePoint | null;
 };
 
 export const SANDBOX_KEYS = {
@@ -28,6 +30,7 @@ export const SANDBOX_KEYS = {
   mutationLedger: "mutation_ledger_test_v1",
   recalibrationState: "recalibration_state_test_v1",
   recalibrationAction: "recalibration_action_test_v1",
+  restorePoint: "loop_restore_point_test_v1",
   meta: "recalibration_sandbox_meta_v1",
 } as const;
 
@@ -60,7 +63,7 @@ async function putValue(userId: string, key: string, value: unknown): Promise<vo
 }
 
 export async function loadRecalibrationSandboxSnapshot(userId: string): Promise<RecalibrationSandboxSnapshot | null> {
-  const [behaviorRaw, predictionRaw, reviewRaw, summaryRaw, prefRaw, adaptationRaw, ledgerRaw, recalRaw, actionRaw, metaRaw] = await Promise.all([
+  const [behaviorRaw, predictionRaw, reviewRaw, summaryRaw, prefRaw, adaptationRaw, ledgerRaw, recalRaw, actionRaw, restoreRaw, metaRaw] = await Promise.all([
     getValue(userId, SANDBOX_KEYS.behaviorFingerprint),
     getValue(userId, SANDBOX_KEYS.predictionScaffold),
     getValue(userId, SANDBOX_KEYS.predictionReviewHistory),
@@ -70,6 +73,7 @@ export async function loadRecalibrationSandboxSnapshot(userId: string): Promise<
     getValue(userId, SANDBOX_KEYS.mutationLedger),
     getValue(userId, SANDBOX_KEYS.recalibrationState),
     getValue(userId, SANDBOX_KEYS.recalibrationAction),
+    getValue(userId, SANDBOX_KEYS.restorePoint),
     getValue(userId, SANDBOX_KEYS.meta),
   ]);
 
@@ -91,6 +95,7 @@ export async function loadRecalibrationSandboxSnapshot(userId: string): Promise<
     mutationLedger: Array.isArray(mutationLedger) ? (mutationLedger as MutationLedgerEntry[]) : [],
     recalibrationState: safeParse<RecalibrationState>(recalRaw),
     recalibrationAction: safeParse<RecalibrationAction>(actionRaw),
+    restorePoint: safeParse<LoopRestorePoint>(restoreRaw),
     scenarioName: meta?.scenarioName ?? null,
   };
 }
@@ -107,6 +112,7 @@ export async function persistRecalibrationSandboxSnapshot(userId: string, update
     ["mutationLedger", SANDBOX_KEYS.mutationLedger],
     ["recalibrationState", SANDBOX_KEYS.recalibrationState],
     ["recalibrationAction", SANDBOX_KEYS.recalibrationAction],
+    ["restorePoint", SANDBOX_KEYS.restorePoint],
   ];
   for (const [field, key] of mapping) {
     if (Object.prototype.hasOwnProperty.call(updates, field)) {
@@ -131,6 +137,7 @@ export async function seedRecalibrationSandboxSnapshot(userId: string, snapshot:
     putValue(userId, SANDBOX_KEYS.mutationLedger, snapshot.mutationLedger),
     putValue(userId, SANDBOX_KEYS.recalibrationState, snapshot.recalibrationState),
     putValue(userId, SANDBOX_KEYS.recalibrationAction, snapshot.recalibrationAction),
+    putValue(userId, SANDBOX_KEYS.restorePoint, snapshot.restorePoint ?? null),
     putValue(userId, SANDBOX_KEYS.meta, { seededAt: new Date().toISOString(), scenarioName: snapshot.scenarioName ?? null } satisfies SandboxMeta),
   ]);
 }
@@ -0,0 +1,285 @@
+import { getExerciseById, getExerciseByKey, resolveExerciseAlias } from "./exerciseRegistry";
+import type { ExerciseDefinition, RoleTag } from "./exerciseTypes";
+
+/**
+ * Smart rest timer:
+ * - duration comes from the exercise's strongest RoleTag, nudged by the logged RPE
+ * - state is anchored to wall-clock time so it survives reloads
+ * - rest actually taken is measured between consecutive sets of the same session
+ */
+
+export type RestTimerState = {
+  running: boolean;
+  durationSecs: number;
+  endsAt: number | null; // epoch ms while running
+  remainingSecs: number; // frozen value while paused
+  exerciseId: string | null;
+  exerciseName: string | null;
+  reason: string | null;
+  lastSetAt: number | null; // epoch ms of the last saved set
+  lastSetSessionId: string | null;
+  alertedAt: number | null;
+};
+
+export type RestRecommendationInput = {
+  roleTags?: RoleTag[] | null;
+  compound?: boolean | null;
+  rpe?: number | null;
+  isWarmup?: boolean | null;
+};
+
+export type RestRecommendation = {
+  durationSecs: number;
+  role: RoleTag | null;
+  reason: string;
+};
+
+export type RestExerciseLike = {
+  name?: string | null;
+  exercise_library_id?: string | null;
+  is_compound?: boolean | null;
+};
+
+const DEFAULT_REST_SECS = 90;
+const WARMUP_REST_SECS = 60;
+const MIN_REST_SECS = 45;
+const MAX_REST_SECS = 300;
+// Gaps longer than this are a break between blocks, not rest between sets.
+const MAX_TRACKED_REST_SECS = 30 * 60;
+
+const ROLE_PRIORITY: RoleTag[] = ["anchor", "primary", "secondary", "accessory", "pump"];
+
+const ROLE_REST_SECS: Record<RoleTag, number> = {
+  anchor: 180,
+  primary: 150,
+  secondary: 120,
+  accessory: 90,
+  pump: 60,
+};
+
+const ROLE_LABEL: Record<RoleTag, string> = {
+  anchor: "Anchor lift",
+  primary: "Primary lift",
+  secondary: "Secondary lift",
+  accessory: "Accessory",
+  pump: "Pump work",
+};
+
+function storageKey(userId: string): string {
+  return `rebuild60:restTimer:${userId}`;
+}
+
+function clampRest(secs: number): number {
+  return Math.max(MIN_REST_SECS, Math.min(MAX_REST_SECS, Math.round(secs)));
+}
+
+function rpeAdjustmentSecs(rpe: number | null | undefined): number {
+  if (typeof rpe !== "number" || !Number.isFinite(rpe) || rpe <= 0) return 0;
+  if (rpe >= 9.5) return 60;
+  if (rpe >= 9) return 45;
+  if (rpe >= 8) return 20;
+  if (rpe <= 6) return -20;
+  return 0;
+}
+
+export function dominantRoleTag(roleTags: RoleTag[] | null | undefined): RoleTag | null {
+  if (!roleTags?.length) return null;
+  return ROLE_PRIORITY.find((role) => roleTags.includes(role)) ?? null;
+}
+
+export function findRestExerciseDefinition(exercise: RestExerciseLike | null | undefined): ExerciseDefinition | null {
+  if (!exercise) return null;
+  const byId = exercise.exercise_library_id ? getExerciseById(exercise.exercise_library_id) : null;
+  if (byId) return byId;
+  const key = exercise.name ? resolveExerciseAlias(exercise.name) : null;
+  return key ? getExerciseByKey(key) : null;
+}
+
+export function recommendRestSeconds(input: RestRecommendationInput): RestRecommendation {
+  const role = dominantRoleTag(input.roleTags);
+  if (input.isWarmup) {
+    return { durationSecs: WARMUP_REST_SECS, role, reason: "Warmup set" };
+  }
+
+  const base = role ? ROLE_REST_SECS[role] : input.compound ? ROLE_REST_SECS.secondary : DEFAULT_REST_SECS;
+  const adjustment = rpeAdjustmentSecs(input.rpe);
+  const durationSecs = clampRest(base + adjustment);
+
+  const label = role ? ROLE_LABEL[role] : input.compound ? "Compound lift" : "Default rest";
+  const rpeNote = typeof input.rpe === "number" && Number.isFinite(input.rpe) && input.rpe > 0 ? ` @ RPE ${input.rpe}` : "";
+  return { durationSecs, role, reason: `${label}${rpeNote}` };
+}
+
+export function recommendRestForExercise(
+  exercise: RestExerciseLike | null | undefined,
+  set: { rpe?: number | null; is_warmup?: boolean | null }
+): RestRecommendation {
+  const definition = findRestExerciseDefinition(exercise);
+  return recommendRestSeconds({
+    roleTags: definition?.roleTags ?? null,
+    compound: definition?.compound ?? exercise?.is_compound ?? null,
+    rpe: set.rpe ?? null,
+    isWarmup: set.is_warmup ?? null,
+  });
+}
+
+export function createRestTimerState(durationSecs = DEFAULT_REST_SECS): RestTimerState {
+  return {
+    running: false,
+    durationSecs,
+    endsAt: null,
+    remainingSecs: durationSecs,
+    exerciseId: null,
+    exerciseName: null,
+    reason: null,
+    lastSetAt: null,
+    lastSetSessionId: null,
+    alertedAt: null,
+  };
+}
+
+export function getRestTimerRemainingSecs(state: RestTimerState, now = Date.now()): number {
+  if (!state.running || state.endsAt == null) return Math.max(0, Math.round(state.remainingSecs));
+  return Math.max(0, Math.min(state.durationSecs, Math.ceil((state.endsAt - now) / 1000)));
+}
+
+export function startRestTimer(
+  state: RestTimerState,
+  options: { durationSecs: number; exerciseId?: string | null; exerciseName?: string | null; reason?: string | null; now?: number }
+): RestTimerState {
+  const now = options.now ?? Date.now();
+  const durationSecs = Math.max(0, Math.round(options.durationSecs));
+  return {
+    ...state,
+    running: durationSecs > 0,
+    durationSecs,
+    endsAt: durationSecs > 0 ? now + durationSecs * 1000 : null,
+    remainingSecs: durationSecs,
+    exerciseId: options.exerciseId ?? null,
+    exerciseName: options.exerciseName ?? null,
+    reason: options.reason ?? null,
+    alertedAt: null,
+  };
+}
+
+export function pauseRestTimer(state: RestTimerState, now = Date.now()): RestTimerState {
+  if (!state.running) return state;
+  return { ...state, running: false, endsAt: null, remainingSecs: getRestTimerRemainingSecs(state, now) };
+}
+
+export function resumeRestTimer(state: RestTimerState, now = Date.now()): RestTimerState {
+  if (state.running || state.remainingSecs <= 0) return state;
+  return { ...state, running: true, endsAt: now + state.remainingSecs * 1000, alertedAt: null };
+}
+
+export function setRestTimerRemaining(state: RestTimerState, secs: number, now = Date.now()): RestTimerState {
+  const remainingSecs = Math.max(0, Math.round(secs));
+  return {
+    ...state,
+    remainingSecs,
+    durationSecs: state.running ? Math.max(state.durationSecs, remainingSecs) : remainingSecs,
+    endsAt: state.running ? now + remainingSecs * 1000 : null,
+    exerciseId: null,
+    exerciseName: null,
+    reason: null,
+    alertedAt: null,
+  };
+}
+
+export function completeRestTimer(state: RestTimerState, now = Date.now()): RestTimerState {
+  return { ...state, running: false, endsAt: null, remainingSecs: 0, alertedAt: now };
+}
+
+export function isRestTimerDue(state: RestTimerState, now = Date.now()): boolean {
+  return state.running && state.alertedAt == null && getRestTimerRemainingSecs(state, now) <= 0;
+}
+
+export function measureRestTakenSecs(state: RestTimerState, sessionId: string | null, now = Date.now()): number | null {
+  if (!sessionId || state.lastSetAt == null || state.lastSetSessionId !== sessionId) return null;
+  const secs = Math.round((now - state.lastSetAt) / 1000);
+  if (secs <= 0 || secs > MAX_TRACKED_REST_SECS) return null;
+  return secs;
+}
+
+export function markRestTimerSetLogged(state: RestTimerState, sessionId: string | null, now = Date.now()): RestTimerState {
+  return { ...state, lastSetAt: now, lastSetSessionId: sessionId };
+}
+
+function normalizeRestTimerState(raw: unknown): RestTimerState | null {
+  if (!raw || typeof raw !== "object") return null;
+  const value = raw as Partial<RestTimerState>;
+  const num = (v: unknown): number | null => (typeof v === "number" && Number.isFinite(v) ? v : null);
+  const str = (v: unknown): string | null => (typeof v === "string" && v.length > 0 ? v : null);
+  const durationSecs = num(value.durationSecs) ?? DEFAULT_REST_SECS;
+  const endsAt = num(value.endsAt);
+  return {
+    running: !!value.running && endsAt != null,
+    durationSecs,
+    endsAt,
+    remainingSecs: num(value.remainingSecs) ?? durationSecs,
+    exerciseId: str(value.exerciseId),
+    exerciseName: str(value.exerciseName),
+    reason: str(value.reason),
+    lastSetAt: num(value.lastSetAt),
+    lastSetSessionId: str(value.lastSetSessionId),
+    alertedAt: num(value.alertedAt),
+  };
+}
+
+export function loadRestTimerState(userId: string | null | undefined, now = Date.now()): RestTimerState {
+  if (!userId) return createRestTimerState();
+  try {
+    const raw = localStorage.getItem(storageKey(userId));
+    const state = (raw ? normalizeRestTimerState(JSON.parse(raw)) : null) ?? createRestTimerState();
+    // A rest that ran out while the app was closed should not alert on reopen.
+    return isRestTimerDue(state, now) ? completeRestTimer(state, now) : state;
+  } catch {
+    return createRestTimerState();
+  }
+}
+
+export function persistRestTimerState(userId: string | null | undefined, state: RestTimerState): void {
+  if (!userId) return;
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(state));
+  } catch {}
+}
+
+export function requestRestAlertPermission(): void {
+  try {
+    if (typeof Notification !== "undefined" && Notification.permission === "default") {
+      void Notification.requestPermission();
+    }
+  } catch {}
+}
+
+export function alertRestComplete(state: RestTimerState): void {
+  const label = state.exerciseName ? `Rest done — next set of ${state.exerciseName}` : "Rest done — next set";
+
+  try {
+    navigator.vibrate?.([200, 100, 200]);
+  } catch {}
+
+  try {
+    const AudioCtor = window.AudioContext ?? (window as any).webkitAudioContext;
+    if (AudioCtor) {
+      const ctx: AudioContext = new AudioCtor();
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.frequency.value = 880;
+      gain.gain.setValueAtTime(0.2, ctx.currentTime);
+      gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + 0.6);
+      osc.connect(gain);
+      gain.connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.6);
+      osc.onended = () => void ctx.close();
+    }
+  } catch {}
+
+  try {
+    if (typeof Notification !== "undefined" && Notification.permission === "granted" && document.visibilityState !== "visible") {
+      new Notification("Rebuild60", { body: label, tag: "rebuild60-rest-timer" });
+    }
+  } catch {}
+}
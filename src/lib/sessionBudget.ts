@@ -0,0 +1,228 @@
+import type { RecommendedExercise } from "./brainEngine";
+import { TRANSITION_REST_SECS } from "./exerciseGroups";
+import { recommendRestForExercise } from "./restTimer";
+import { isChildSetType, type SetType } from "./setTypes";
+import { proposeAntagonistPairings } from "./slotEngine";
+import type { Slot } from "./slotTypes";
+
+/**
+ * Session time budget:
+ * - every exercise costs setup time plus, per top-level set, the work and the rest the rest timer
+ *   would give it; drop sets and myo / rest-pause minis add short bursts with no full rest
+ * - a superset pays one rest per round (the longest of its members) plus the walk between them
+ * - fitting a session to a budget tries, in order: antagonist supersets (keeps every set),
+ *   dropping the Pump then Calves slot, then trimming a set at a time from accessories before
+ *   secondary lifts before primaries, never below two per exercise
+ */
+
+export type SessionDuration = {
+  estimatedMin: number;
+  budgetMin: number | null;
+  adjustments: string[]; // what was changed to fit, in the order it was done
+  overBudgetMin: number | null; // still over after every adjustment
+};
+
+export type SessionBudgetFit = SessionDuration & {
+  exercises: RecommendedExercise[];
+};
+
+export const SESSION_BUDGET_PRESETS = [35, 45, 60, 75, 90];
+export const MIN_SESSION_BUDGET_MIN = 15;
+export const MAX_SESSION_BUDGET_MIN = 180;
+
+const WORK_SECS_PER_SET = 40;
+const SETUP_SECS_PER_EXERCISE = 90; // walk over, load it, a ramp-up set or two
+const CHILD_SET_SECS: Partial<Record<SetType, number>> = {
+  drop: 30, // strip the load and go
+  rest_pause: 35, // ~15 s pause and a few reps
+  myo_reps: 30, // five breaths and a few reps
+};
+const DROPPABLE_SLOTS: Slot[] = ["Pump", "Calves"];
+const MIN_SETS_PER_EXERCISE = 2;
+// Lower trims first; slots not listed are secondary work.
+const TRIM_RANK: Partial<Record<Slot, number>> = {
+  Triceps: 0,
+  Biceps: 0,
+  RearDelts: 0,
+  Calves: 0,
+  Pump: 0,
+  PrimaryPress: 2,
+  PrimaryRow: 2,
+  PrimarySquat: 2,
+  Hinge: 2,
+};
+
+/** Whole minutes within the supported range, or null for "no limit". */
+export function normalizeSessionBudget(value: unknown): number | null {
+  const minutes = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value) : NaN;
+  if (!Number.isFinite(minutes) || minutes <= 0) return null;
+  return Math.min(MAX_SESSION_BUDGET_MIN, Math.max(MIN_SESSION_BUDGET_MIN, Math.round(minutes)));
+}
+
+function slotOf(exercise: RecommendedExercise): Slot | null {
+  return (exercise.trace?.slot ?? null) as Slot | null;
+}
+
+function parseSetCount(sets: string): number {
+  const nums = sets.match(/\d+/g)?.map(Number) ?? [];
+  if (!nums.length) return 3;
+  return sets.includes("+") ? nums.reduce((sum, n) => sum + n, 0) : Math.max(...nums);
+}
+
+/** Top-level sets (each followed by a full rest) and the extra seconds of drop / cluster work. */
+function setLoad(exercise: RecommendedExercise): { sets: number; extraSecs: number } {
+  if (!exercise.setPlan?.length) return { sets: parseSetCount(exercise.sets), extraSecs: 0 };
+  let sets = 0;
+  let extraSecs = 0;
+  for (const item of exercise.setPlan) {
+    if (isChildSetType(item.type)) extraSecs += (CHILD_SET_SECS[item.type] ?? WORK_SECS_PER_SET) * item.sets;
+    else sets += item.sets;
+  }
+  return { sets, extraSecs };
+}
+
+function restSecsFor(exercise: RecommendedExercise): number {
+  return recommendRestForExercise({ name: exercise.name }, { rpe: null, is_warmup: false }).durationSecs;
+}
+
+// Exercises in session order, with each group gathered into one block.
+function timeBlocks(exercises: RecommendedExercise[]): RecommendedExercise[][] {
+  const blocks: RecommendedExercise[][] = [];
+  const byGroup = new Map<string, RecommendedExercise[]>();
+  for (const exercise of exercises) {
+    const groupId = exercise.group?.id;
+    const existing = groupId ? byGroup.get(groupId) : undefined;
+    if (existing) {
+      existing.push(exercise);
+      continue;
+    }
+    const block = [exercise];
+    if (groupId) byGroup.set(groupId, block);
+    blocks.push(block);
+  }
+  return blocks;
+}
+
+function blockSecs(block: RecommendedExercise[]): number {
+  const loads = block.map(setLoad);
+  const rounds = Math.max(...loads.map((load) => load.sets));
+  const workSecs = loads.reduce((sum, load) => sum + load.sets * WORK_SECS_PER_SET + load.extraSecs, 0);
+  const restSecs = Math.max(...block.map(restSecsFor)) * Math.max(0, rounds - 1);
+  const transitionSecs = TRANSITION_REST_SECS * (block.length - 1) * rounds;
+  return SETUP_SECS_PER_EXERCISE * block.length + workSecs + restSecs + transitionSecs;
+}
+
+export function estimateSessionMinutes(exercises: RecommendedExercise[]): number {
+  const secs = timeBlocks(exercises).reduce((sum, block) => sum + blockSecs(block), 0);
+  return Math.round(secs / 60);
+}
+
+/** Pairs antagonist slots into supersets; the second member moves up to follow the first. */
+export function pairAntagonistSupersets(exercises: RecommendedExercise[]): RecommendedExercise[] {
+  const pairs = proposeAntagonistPairings(exercises.map(slotOf).filter((slot): slot is Slot => !!slot));
+  if (!pairs.length) return exercises;
+
+  const out: RecommendedExercise[] = [];
+  const placed = new Set<RecommendedExercise>();
+  for (const ex of exercises) {
+    if (placed.has(ex)) continue;
+    const slot = slotOf(ex);
+    const pairIdx = pairs.findIndex(([a, b]) => a === slot || b === slot);
+    const partnerSlot = pairIdx < 0 ? null : pairs[pairIdx][0] === slot ? pairs[pairIdx][1] : pairs[pairIdx][0];
+    const partner = partnerSlot ? exercises.find((item) => slotOf(item) === partnerSlot) ?? null : null;
+    if (!partner) {
+      out.push(ex);
+      placed.add(ex);
+      continue;
+    }
+    const id = `superset-${pairIdx + 1}`;
+    out.push({ ...ex, group: { id, type: "superset", order: 0 } }, { ...partner, group: { id, type: "superset", order: 1 } });
+    placed.add(ex);
+    placed.add(partner);
+  }
+  return out;
+}
+
+// A group left with one member is no group at all.
+function dropLoneGroups(exercises: RecommendedExercise[]): RecommendedExercise[] {
+  const sizes = new Map<string, number>();
+  for (const ex of exercises) if (ex.group) sizes.set(ex.group.id, (sizes.get(ex.group.id) ?? 0) + 1);
+  return exercises.map((ex) => {
+    if (!ex.group || (sizes.get(ex.group.id) ?? 0) > 1) return ex;
+    const { group: _group, ...rest } = ex;
+    return rest;
+  });
+}
+
+function withOneLessSet(exercise: RecommendedExercise): RecommendedExercise | null {
+  const { sets } = setLoad(exercise);
+  if (sets <= MIN_SETS_PER_EXERCISE) return null;
+  let setPlan = exercise.setPlan;
+  if (setPlan?.length) {
+    const idx = setPlan.findIndex((item) => item.type === "backoff" && item.sets > 1);
+    const target = idx >= 0 ? idx : setPlan.findIndex((item) => !isChildSetType(item.type) && item.sets > 1);
+    if (target < 0) return null;
+    setPlan = setPlan.map((item, i) => (i === target ? { ...item, sets: item.sets - 1 } : item));
+  }
+  const topPlusBackoff = /^\s*(\d+)\s*\+\s*(\d+)\s*$/.exec(exercise.sets);
+  const nextSets = topPlusBackoff ? `${topPlusBackoff[1]} + ${Number(topPlusBackoff[2]) - 1}` : String(sets - 1);
+  return { ...exercise, sets: nextSets, setPlan };
+}
+
+function listNames(exercises: RecommendedExercise[]): string {
+  return exercises.map((ex) => ex.name).join(" + ");
+}
+
+/** Trims the session to `budgetMin`; with no budget it only estimates. */
+export function fitSessionToBudget(exercises: RecommendedExercise[], budgetMin: number | null | undefined): SessionBudgetFit {
+  const budget = normalizeSessionBudget(budgetMin);
+  let current = exercises;
+  const adjustments: string[] = [];
+  const fits = () => budget == null || estimateSessionMinutes(current) <= budget;
+
+  if (!fits() && !current.some((ex) => ex.group)) {
+    const paired = pairAntagonistSupersets(current);
+    const leads = paired.filter((ex) => ex.group?.order === 0);
+    if (leads.length) {
+      current = paired;
+      for (const lead of leads) {
+        adjustments.push(`Superset ${listNames(paired.filter((ex) => ex.group?.id === lead.group?.id))}`);
+      }
+    }
+  }
+
+  for (const slot of DROPPABLE_SLOTS) {
+    if (fits()) break;
+    const dropped = current.find((ex) => slotOf(ex) === slot);
+    if (!dropped) continue;
+    current = dropLoneGroups(current.filter((ex) => ex !== dropped));
+    adjustments.push(`Dropped ${dropped.name} (${slot})`);
+  }
+
+  const trimmed = new Map<string, number>();
+  let changed = true;
+  while (!fits() && changed) {
+    changed = false;
+    const trimOrder = current
+      .map((ex, idx) => ({ idx, rank: TRIM_RANK[slotOf(ex) as Slot] ?? 1 }))
+      .sort((a, b) => a.rank - b.rank || b.idx - a.idx);
+    for (const { idx } of trimOrder) {
+      if (fits()) break;
+      const next = withOneLessSet(current[idx]);
+      if (!next) continue;
+      current = current.map((ex, i) => (i === idx ? next : ex));
+      trimmed.set(next.name, (trimmed.get(next.name) ?? 0) + 1);
+      changed = true;
+    }
+  }
+  for (const [name, count] of trimmed) adjustments.push(`${name} −${count} set${count === 1 ? "" : "s"}`);
+
+  const estimatedMin = estimateSessionMinutes(current);
+  return {
+    exercises: current,
+    estimatedMin,
+    budgetMin: budget,
+    adjustments,
+    overBudgetMin: budget != null && estimatedMin > budget ? estimatedMin - budget : null,
+  };
+}
@@ -32,6 +32,25 @@ const PRIMARY_SLOT_BY_NEED: Record<NeedKey, Slot> = {
   calves: "Calves",
 };
 
+/** The need each slot serves; used to report which need weight sat behind a slot. */
+export const NEED_BY_SLOT: Record<Slot, NeedKey> = {
+  PrimaryPress: "horizontalPress",
+  SecondaryPress: "horizontalPress",
+  Pump: "horizontalPress",
+  Shoulders: "delts",
+  Triceps: "triceps",
+  PrimaryRow: "row",
+  SecondaryRow: "row",
+  RearDelts: "delts",
+  VerticalPull: "verticalPull",
+  Biceps: "biceps",
+  PrimarySquat: "quadDominant",
+  SecondaryQuad: "quadDominant",
+  Hinge: "hinge",
+  Hamstrings: "hinge",
+  Calves: "calves",
+};
+
 const NEED_LABELS: Record<NeedKey, string> = {
   horizontalPress: "Horizontal Press",
   verticalPress: "Vertical Press",
@@ -0,0 +1,127 @@
+/**
+ * Set types beyond warmup:
+ * - the first set of a drop, rest-pause or myo-rep sequence is logged as a normal working (or
+ *   AMRAP) set; the sets that follow carry the technique type and point back at it through
+ *   parent_set_id, so the whole sequence reads as one effort
+ * - tonnage counts every non-warmup set, children included: the extra reps are real work
+ * - hard sets count the parent once; children add nothing on their own
+ * - e1RM and PRs come from top-level working, AMRAP and back-off sets only. A drop is taken
+ *   tired at a lighter load and a cluster mini-set is a few reps after a short pause, so
+ *   neither says anything honest about a one-rep max
+ * - rows from before set types existed fall back to is_warmup
+ */
+
+export type SetType = "working" | "warmup" | "drop" | "rest_pause" | "myo_reps" | "amrap" | "backoff";
+
+export type SetTypeFields = {
+  set_type?: SetType | null;
+  parent_set_id?: string | null; // top set of the drop / cluster sequence this set continues
+};
+
+export type TypedSetLike = SetTypeFields & {
+  id?: string;
+  exercise_id?: string;
+  set_number?: number;
+  is_warmup?: boolean | null;
+};
+
+/** One line of a prescribed set plan, e.g. 3 back-off sets of 6-8 at 185 lb. */
+export type SetTypePrescription = {
+  type: SetType;
+  sets: number;
+  reps: string;
+  load?: string | null;
+};
+
+export const SET_TYPES: SetType[] = ["working", "warmup", "amrap", "backoff", "drop", "rest_pause", "myo_reps"];
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  working: "Working",
+  warmup: "Warmup",
+  drop: "Drop set",
+  rest_pause: "Rest-pause",
+  myo_reps: "Myo-reps",
+  amrap: "AMRAP",
+  backoff: "Back-off",
+};
+
+// Short tags for compact set lines ("185 x 8 DROP").
+export const SET_TYPE_TAGS: Record<SetType, string> = {
+  working: "",
+  warmup: "WU",
+  drop: "DROP",
+  rest_pause: "RP",
+  myo_reps: "MYO",
+  amrap: "AMRAP",
+  backoff: "BO",
+};
+
+const CHILD_SET_TYPES: ReadonlySet<SetType> = new Set(["drop", "rest_pause", "myo_reps"]);
+
+export function isSetType(value: unknown): value is SetType {
+  return typeof value === "string" && (SET_TYPES as string[]).includes(value);
+}
+
+export function setTypeOf(set: TypedSetLike): SetType {
+  if (isSetType(set.set_type)) return set.set_type;
+  return set.is_warmup ? "warmup" : "working";
+}
+
+/** Drop, rest-pause and myo-rep sets continue a parent set rather than standing alone. */
+export function isChildSetType(type: SetType): boolean {
+  return CHILD_SET_TYPES.has(type);
+}
+
+export function isWarmupSet(set: TypedSetLike): boolean {
+  return setTypeOf(set) === "warmup";
+}
+
+export function countsTowardTonnage(set: TypedSetLike): boolean {
+  return !isWarmupSet(set);
+}
+
+export function hardSetCredit(set: TypedSetLike): number {
+  const type = setTypeOf(set);
+  return type === "warmup" || isChildSetType(type) ? 0 : 1;
+}
+
+/** Also gates PR detection: a set that can't estimate a max can't set a record either. */
+export function countsTowardE1rm(set: TypedSetLike): boolean {
+  const type = setTypeOf(set);
+  return type !== "warmup" && !isChildSetType(type);
+}
+
+/**
+ * Parent for a new set of `type` on one exercise: the most recent top-level working set, so a
+ * chain of drops all hang off the set that started it. Null for top-level types, or when there
+ * is nothing to continue.
+ */
+export function resolveParentSetId(exerciseSets: TypedSetLike[], type: SetType): string | null {
+  if (!isChildSetType(type)) return null;
+  const ordered = exerciseSets.slice().sort((a, b) => (b.set_number ?? 0) - (a.set_number ?? 0));
+  for (const set of ordered) {
+    const setType = setTypeOf(set);
+    if (setType === "warmup") continue;
+    if (isChildSetType(setType)) {
+      if (set.parent_set_id) return set.parent_set_id;
+      continue;
+    }
+    return set.id ?? null;
+  }
+  return null;
+}
+
+/** Ids of sets that continue `parentId`; deleting the parent takes them with it. */
+export function childSetIds(sets: TypedSetLike[], parentId: string): string[] {
+  return sets.filter((set) => set.parent_set_id === parentId && set.id).map((set) => set.id as string);
+}
+
+export function formatSetPlan(plan: SetTypePrescription[]): string {
+  return plan
+    .map((item) => {
+      const count = `${item.sets} × ${item.reps}`;
+      const label = item.type === "working" ? count : `${SET_TYPE_LABELS[item.type]} ${count}`;
+      return item.load ? `${label} @ ${item.load}` : label;
+    })
+    .join(" + ");
+}
@@ -6,8 +6,9 @@ import type { ExerciseControlRec } from "./exerciseControl";
 import { getPreferenceMultiplier } from "./preferenceScoring";
 import { getControlMultiplier } from "./controlScoring";
 import { DEFAULT_EQUIPMENT_PROFILE } from "./equipmentRegistry";
-import { getEligibleExerciseKeysForProfile, normalizeProfile } from "./exerciseEligibility";
+import { getEligibleExerciseKeysForProfile, isExerciseClearedForInjuries, normalizeProfile } from "./exerciseEligibility";
 import type { EquipmentProfile } from "./equipmentTypes";
+import { assessInjuryImpact, listConstrainingInjuries, type InjuryImpact, type InjuryRecord } from "./injuryLog";
 import type { Slot } from "./slotTypes";
 
 
@@ -15,6 +16,8 @@ let activeEquipmentProfile: EquipmentProfile = DEFAULT_EQUIPMENT_PROFILE;
 let activeEligibleExerciseKeys = getEligibleExerciseKeysForProfile(activeEquipmentProfile);
 let activePreferenceMemory = new Map<string, PrefMem>();
 let activeExerciseControls = new Map<string, ExerciseControlRec>();
+let activeInjuries: InjuryRecord[] = [];
+let activeInjuryDay = "";
 
 export function setActivePreferenceMemory(records: PrefMem[]): void {
   activePreferenceMemory = new Map((records ?? []).map((rec) => [rec.exercise_library_id, rec]));
@@ -24,6 +27,26 @@ export function setActiveExerciseControls(records: ExerciseControlRec[]): void {
   activeExerciseControls = new Map((records ?? []).map((rec) => [rec.exercise_library_id, rec]));
 }
 
+function localDayKey(date = new Date()): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+export function setActiveInjuries(records: InjuryRecord[], asOfDay?: string): void {
+  activeInjuryDay = asOfDay ?? localDayKey();
+  activeInjuries = listConstrainingInjuries(records ?? [], activeInjuryDay);
+}
+
+export function getActiveInjuryImpact(key: string): InjuryImpact | null {
+  if (!activeInjuries.length) return null;
+  const meta = getExerciseByKey(key);
+  if (!meta) return null;
+  const impact = assessInjuryImpact(meta, activeInjuries, activeInjuryDay);
+  return impact.regions.length ? impact : null;
+}
+
 export function setActiveEquipmentProfile(profile: EquipmentProfile): void {
   activeEquipmentProfile = normalizeProfile(profile);
   activeEligibleExerciseKeys = getEligibleExerciseKeysForProfile(activeEquipmentProfile);
@@ -33,20 +56,33 @@ export function getActiveEquipmentProfile(): EquipmentProfile {
   return { version: activeEquipmentProfile.version, available: [...activeEquipmentProfile.available] };
 }
 
+export type CandidateFilterReason = "equipment" | "never" | "injury";
+
+function candidateFilterReason(key: string): CandidateFilterReason | null {
+  if (!activeEligibleExerciseKeys.has(key)) return "equipment";
+  const meta = getExerciseByKey(key);
+  if (!meta) return null;
+  const ctrl = activeExerciseControls.get(meta.id);
+  if (ctrl?.never) return "never";
+  return isExerciseClearedForInjuries(meta, activeInjuries, activeInjuryDay) ? null : "injury";
+}
+
 function applyEquipmentFilter(keys: string[]): string[] {
-  return keys.filter((key) => {
-    if (!activeEligibleExerciseKeys.has(key)) return false;
-    const meta = getExerciseByKey(key);
-    if (!meta) return true;
-    const ctrl = activeExerciseControls.get(meta.id);
-    return !ctrl?.never;
-  });
+  return keys.filter((key) => !candidateFilterReason(key));
 }
 
 function baseCandidatesForSlot(slot: Slot): string[] {
   return applyEquipmentFilter(getExerciseKeysForSlot(slot));
 }
 
+/** Registry exercises for the slot that the eligibility filters removed, and which filter removed each. */
+export function filteredCandidatesForSlot(slot: Slot): Array<{ key: string; reason: CandidateFilterReason }> {
+  return getExerciseKeysForSlot(slot).flatMap((key) => {
+    const reason = candidateFilterReason(key);
+    return reason ? [{ key, reason }] : [];
+  });
+}
+
 export type SessionBlueprint = {
   focus: "Push" | "Pull" | "Lower";
   slots: Slot[];
@@ -63,14 +99,32 @@ export type CandidateHistory = {
 
 export type PreferenceLike = {
   preferredExerciseBias?: Record<string, number>;
+  adaptationExerciseBias?: Record<string, number>;
   preferredSubstitutions?: Record<string, string>;
   volumeTolerance?: "lower" | "normal" | "higher";
 } | null | undefined;
 
+/**
+ * How a candidate's score was built: `base` is multiplied by the three multipliers, then the
+ * additive parts are added on. Adaptation bias is the share of the exercise bias that bounded
+ * adaptation contributed; `preferenceBias` is what preference learning contributed on its own.
+ */
+export type CandidateScoreBreakdown = {
+  base: number;
+  preferenceMultiplier: number;
+  controlMultiplier: number;
+  injuryMultiplier: number;
+  history: number;
+  preferenceBias: number;
+  adaptationBias: number;
+  blockBias: number;
+};
+
 export type ScoredCandidate = {
   key: string;
   score: number;
   tags: string[];
+  breakdown: CandidateScoreBreakdown;
 };
 
 export type BlockBiasLike = {
@@ -124,6 +178,32 @@ export function blueprintForFocus(focus: string): SessionBlueprint {
   return LOWER_BLUEPRINT;
 }
 
+/**
+ * Opposing-pattern slots that can share a rest period: one side works while the other recovers.
+ * Order matters: earlier pairs are the bigger time savers and win when a slot could pair twice.
+ */
+const ANTAGONIST_SLOT_PAIRS: Array<[Slot, Slot]> = [
+  ["PrimaryPress", "PrimaryRow"],
+  ["SecondaryPress", "SecondaryRow"],
+  ["Shoulders", "VerticalPull"],
+  ["SecondaryQuad", "Hamstrings"],
+  ["Triceps", "Biceps"],
+  ["Pump", "RearDelts"],
+];
+
+/** Antagonist supersets available among `slots`; each slot joins at most one pair. */
+export function proposeAntagonistPairings(slots: Slot[]): Array<[Slot, Slot]> {
+  const used = new Set<Slot>();
+  const pairs: Array<[Slot, Slot]> = [];
+  for (const [a, b] of ANTAGONIST_SLOT_PAIRS) {
+    if (!slots.includes(a) || !slots.includes(b) || used.has(a) || used.has(b)) continue;
+    used.add(a);
+    used.add(b);
+    pairs.push([a, b]);
+  }
+  return pairs;
+}
+
 export type AllowedExerciseFilter = ReadonlySet<string> | readonly string[] | null | undefined;
 
 function normalizeAllowedExerciseFilter(allowedExerciseKeys?: AllowedExerciseFilter): ReadonlySet<string> | null {
@@ -278,6 +358,8 @@ export function scoreCandidateForSlot(
   const meta = getExerciseByKey(candidateKey);
   const tags: string[] = [];
   let score = 40;
+  const round1 = (n: number) => Math.round(n * 10) / 10;
+  const round2 = (n: number) => Math.round(n * 100) / 100;
 
   if (meta) {
     score *= meta.priority;
@@ -290,6 +372,7 @@ export function scoreCandidateForSlot(
     score -= frictionPenalty;
     if (meta.setupFriction >= 0.55) tags.push("Setup friction");
   }
+  const base = score;
   const prefMultiplier = getPreferenceMultiplier(meta ? activePreferenceMemory.get(meta.id) : null);
   score *= prefMultiplier;
   if (prefMultiplier > 1.03) tags.push("Preference memory");
@@ -301,6 +384,13 @@ export function scoreCandidateForSlot(
   else if (controlMultiplier > 1.05) tags.push("Preferred");
   else if (controlMultiplier < 0.95) tags.push("Avoid / Injury");
 
+  const injuryImpact = getActiveInjuryImpact(candidateKey);
+  if (injuryImpact) {
+    score *= injuryImpact.multiplier;
+    tags.push(`Injury: ${injuryImpact.regions.join(", ").replace(/_/g, " ")}`);
+  }
+  let mark = score;
+
   if (hist) {
     score += 18;
     tags.push("Familiar");
@@ -344,12 +434,15 @@ export function scoreCandidateForSlot(
     tags.push("Recovery-friendly");
   }
 
+  let historyPoints = score - mark;
   const prefBias = preferences?.preferredExerciseBias?.[candidateKey] ?? 0;
   if (prefBias > 0) {
     score += prefBias;
     tags.push("Preference lean");
   }
+  const adaptationBias = Math.min(Math.max(0, prefBias), preferences?.adaptationExerciseBias?.[candidateKey] ?? 0);
 
+  mark = score;
   if (blockBias) {
     const exposureFloor = slotIsAnchor(slot)
       ? blockBias.minAnchorExposure ?? 0
@@ -383,18 +476,31 @@ export function scoreCandidateForSlot(
       tags.push("Forced carry pattern");
     }
   }
+  const blockPoints = score - mark;
 
+  mark = score;
   if (tags.includes("Familiar") && !tags.includes("Fresh")) {
     score += 6;
   }
   if (tags.includes("Fresh")) {
     score += 4;
   }
+  historyPoints += score - mark;
 
   return {
     key: candidateKey,
     score: Math.max(1, Math.round(score * 10) / 10),
     tags: [...new Set(tags)],
+    breakdown: {
+      base: round1(base),
+      preferenceMultiplier: round2(prefMultiplier),
+      controlMultiplier: round2(controlMultiplier),
+      injuryMultiplier: round2(injuryImpact?.multiplier ?? 1),
+      history: round1(historyPoints),
+      preferenceBias: round1(Math.max(0, prefBias) - adaptationBias),
+      adaptationBias: round1(adaptationBias),
+      blockBias: round1(blockPoints),
+    },
   };
 }
 
@@ -1,6 +1,6 @@
 import type { BehaviorFingerprint, BehaviorTrait, PredictionScaffold } from "./behaviorFingerprint";
 import type { PredictionAccuracySummary, PredictionReviewEntry } from "./predictionReview";
-import type { AdaptationWeights, MutationLedgerEntry, RecalibrationState } from "./adaptationWeights";
+import type { AdaptationWeights, LoopStateSnapshot, MutationLedgerEntry, RecalibrationState } from "./adaptationWeights";
 
 function isRecord(value: unknown): value is Record<string, unknown> {
   return !!value && typeof value === "object" && !Array.isArray(value);
@@ -190,12 +190,19 @@ export function normalizePredictionReviewHistory(input: unknown): {
   return { isAvailable, isPartial, entries, latest: entries.length ? entries[0] : null };
 }
 
+function isLoopStateSnapshot(input: unknown): input is LoopStateSnapshot {
+  const source = asRecord(input);
+  return "adaptationWeights" in source && "behaviorFingerprint" in source && "predictionScaffold" in source;
+}
+
 function normalizeMutationEntry(input: unknown): MutationLedgerEntry | null {
   const source = asRecord(input);
   const generatedAt = asString(source.generatedAt);
   const summary = asString(source.summary);
   const confidence = asNumber(source.confidence);
   const evidenceWindow = asNumber(source.evidenceWindow);
+  const actionId = asString(source.actionId);
+  const id = asString(source.id);
   if (!generatedAt || !summary || confidence == null || evidenceWindow == null) return null;
   return {
     generatedAt,
@@ -204,6 +211,10 @@ function normalizeMutationEntry(input: unknown): MutationLedgerEntry | null {
     evidenceWindow,
     appliedChanges: asStringArray(source.appliedChanges),
     reasons: asStringArray(source.reasons),
+    ...(actionId ? { actionId } : {}),
+    ...(id ? { id } : {}),
+    ...(isLoopStateSnapshot(source.before) ? { before: source.before } : {}),
+    ...(isLoopStateSnapshot(source.after) ? { after: source.after } : {}),
   };
 }
 
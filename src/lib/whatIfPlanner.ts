@@ -0,0 +1,149 @@
+import { computeBrainSnapshot, type BrainFocus, type BrainInput, type BrainSnapshot, type RecommendedExercise } from "./brainEngine";
+import type { NamedEquipmentProfile } from "./equipmentTypes";
+import { buildFrictionProfile, frictionReadinessFromRecovery, type FrictionInput, type FrictionProfile, type FrictionTrend } from "./frictionEngine";
+import { buildReadinessContext } from "./readiness";
+import type { ReadinessContext, ReadinessInput } from "./readinessTypes";
+import { getActiveEquipmentProfile, setActiveEquipmentProfile } from "./slotEngine";
+
+/**
+ * What-if planning against the live recommendation:
+ * - works on deep clones of the inputs the last refresh used; nothing is written back, persisted
+ *   or left in module state (the active equipment profile is swapped for the run and restored)
+ * - both sides are recomputed from the same clone, so every difference comes from the overrides
+ *   and not from anything that changed since the refresh
+ * - sleep and protein overrides flow into friction readiness the way the refresh derives it; an
+ *   explicit readiness trend wins over the derived one
+ */
+
+export type WhatIfBaseline = {
+  brainInput: BrainInput;
+  frictionInput: FrictionInput;
+  readinessInput?: ReadinessInput | null;
+};
+
+/** Undefined keeps the live value; null is a real override ("no data"). */
+export type WhatIfOverrides = {
+  sleepAvg7?: number | null;
+  proteinAvg7?: number | null;
+  lastSessionFocus?: BrainFocus | null;
+  equipmentProfile?: NamedEquipmentProfile;
+  readinessTrend?: FrictionTrend;
+};
+
+export type WhatIfSlotChange = {
+  slot: string;
+  from: string | null;
+  to: string | null;
+};
+
+export type WhatIfLoadChange = {
+  slot: string;
+  name: string;
+  from: string;
+  to: string;
+};
+
+export type WhatIfChanges = {
+  focus: { from: string; to: string } | null;
+  slots: WhatIfSlotChange[];
+  loads: WhatIfLoadChange[];
+  alertsAdded: string[];
+  alertsRemoved: string[];
+};
+
+export type WhatIfResult = {
+  live: BrainSnapshot;
+  whatIf: BrainSnapshot;
+  liveFriction: FrictionProfile;
+  whatIfFriction: FrictionProfile;
+  readiness: ReadinessContext | null;
+  changes: WhatIfChanges;
+};
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+export function hasWhatIfOverrides(overrides: WhatIfOverrides): boolean {
+  return Object.values(overrides).some((value) => value !== undefined);
+}
+
+function applyOverrides(baseline: WhatIfBaseline, overrides: WhatIfOverrides): { brainInput: BrainInput; frictionInput: FrictionInput } {
+  const brainInput = clone(baseline.brainInput);
+  const frictionInput = clone(baseline.frictionInput);
+  if (overrides.sleepAvg7 !== undefined) brainInput.sleepAvg7 = overrides.sleepAvg7;
+  if (overrides.proteinAvg7 !== undefined) brainInput.proteinAvg7 = overrides.proteinAvg7;
+  if (overrides.sleepAvg7 !== undefined || overrides.proteinAvg7 !== undefined) {
+    frictionInput.readiness = frictionReadinessFromRecovery(brainInput.sleepAvg7, brainInput.proteinAvg7);
+  }
+  if (overrides.readinessTrend !== undefined) {
+    frictionInput.readiness = { ...frictionInput.readiness, trend: overrides.readinessTrend };
+  }
+  if (overrides.lastSessionFocus !== undefined) brainInput.lastSessionFocus = overrides.lastSessionFocus;
+  if (overrides.equipmentProfile) {
+    const profile = overrides.equipmentProfile;
+    brainInput.location = { id: profile.id, name: profile.name, equipmentCount: profile.available.length };
+  }
+  return { brainInput, frictionInput };
+}
+
+function prescription(exercise: RecommendedExercise): string {
+  return `${exercise.sets} × ${exercise.reps} @ ${exercise.load}`;
+}
+
+export function diffBrainSnapshots(live: BrainSnapshot, whatIf: BrainSnapshot): WhatIfChanges {
+  const liveSession = live.recommendedSession;
+  const nextSession = whatIf.recommendedSession;
+  const liveBySlot = new Map(liveSession.exercises.map((exercise) => [exercise.slot, exercise]));
+  const nextBySlot = new Map(nextSession.exercises.map((exercise) => [exercise.slot, exercise]));
+  const slotOrder = [...new Set([...liveBySlot.keys(), ...nextBySlot.keys()])];
+
+  const slots: WhatIfSlotChange[] = [];
+  const loads: WhatIfLoadChange[] = [];
+  for (const slot of slotOrder) {
+    const before = liveBySlot.get(slot) ?? null;
+    const after = nextBySlot.get(slot) ?? null;
+    if (before?.name !== after?.name) {
+      slots.push({ slot, from: before?.name ?? null, to: after?.name ?? null });
+    } else if (before && after && prescription(before) !== prescription(after)) {
+      loads.push({ slot, name: after.name, from: prescription(before), to: prescription(after) });
+    }
+  }
+
+  return {
+    focus: liveSession.focus !== nextSession.focus || liveSession.title !== nextSession.title
+      ? { from: liveSession.title, to: nextSession.title }
+      : null,
+    slots,
+    loads,
+    alertsAdded: nextSession.alerts.filter((alert) => !liveSession.alerts.includes(alert)),
+    alertsRemoved: liveSession.alerts.filter((alert) => !nextSession.alerts.includes(alert)),
+  };
+}
+
+function computeWithFriction(brainInput: BrainInput, frictionInput: FrictionInput): { brain: BrainSnapshot; friction: FrictionProfile } {
+  const friction = buildFrictionProfile(frictionInput);
+  return { brain: computeBrainSnapshot({ ...brainInput, frictionProfile: friction }), friction };
+}
+
+/** Recomputes the live recommendation and the overridden one side by side. */
+export function runWhatIf(baseline: WhatIfBaseline, overrides: WhatIfOverrides): WhatIfResult {
+  const live = computeWithFriction(clone(baseline.brainInput), clone(baseline.frictionInput));
+  const planned = applyOverrides(baseline, overrides);
+  const liveProfile = getActiveEquipmentProfile();
+  let next: { brain: BrainSnapshot; friction: FrictionProfile };
+  try {
+    if (overrides.equipmentProfile) setActiveEquipmentProfile(overrides.equipmentProfile);
+    next = computeWithFriction(planned.brainInput, planned.frictionInput);
+  } finally {
+    setActiveEquipmentProfile(liveProfile);
+  }
+  return {
+    live: live.brain,
+    whatIf: next.brain,
+    liveFriction: live.friction,
+    whatIfFriction: next.friction,
+    readiness: baseline.readinessInput ? buildReadinessContext(clone(baseline.readinessInput)) : null,
+    changes: diffBrainSnapshots(live.brain, next.brain),
+  };
+}
@@ -1,12 +1,23 @@
 import Dexie, { type Table } from "dexie";
 import type { PrefMem } from "./lib/exercisePreferenceMemory";
 import type { ExerciseControlRec } from "./lib/exerciseControl";
+import type { InjuryRecord } from "./lib/injuryLog";
+import type { CustomExerciseRec } from "./lib/customExercises";
+import type { ExerciseGroupFields } from "./lib/exerciseGroups";
+import type { SetTypeFields } from "./lib/setTypes";
+import type { PhotoAlignmentFields } from "./lib/photoAlignment";
+import type { BodyMeasurementRecord } from "./lib/bodyComposition";
 
 /**
  * Local-first DB:
  * - pendingOps: offline sync queue (authoritative)
  * - localSessions/localExercises/localSets: offline workout cache
  * - localTemplates/localTemplateExercises: offline template cache
+ * - exercises and template exercises can share a group_id (superset / tri-set / circuit / EMOM)
+ * - sets carry a set_type; drop and cluster sets link to their top set through parent_set_id
+ * - localPhotos: progress photos saved on device first; the image blob is held until its
+ *   upload op has put it in storage, the thumbnail is kept for offline viewing
+ * - bodyMeasurements: one tape / skinfold set per day, pushed with upsert_body_measurement
  */
 
 export type PendingOpName =
@@ -27,14 +38,22 @@ export type PendingOpName =
   | "delete_set"
   | "renumber_sets"
   | "delete_exercise"
-  | "reorder_exercises";
+  | "reorder_exercises"
+  | "upsert_custom_exercise"
+  | "set_exercise_group"
+  | "set_template_exercise_group"
+  | "upload_progress_photo"
+  | "update_progress_photo"
+  | "delete_progress_photo"
+  | "upsert_body_measurement";
 
 export type PendingOp = {
   id?: number; // Dexie autoincrement
   createdAt: number;
   op: PendingOpName;
   payload: any;
-  status: "queued" | "retry" | "quarantined";
+  status: "queued" | "retry" | "quarantined" | "conflict";
+  baseHash?: string | null; // upserts: fingerprint of the server row this edit was based on
   retryCount?: number;
   lastError?: string;
   quarantinedAt?: number;
@@ -72,7 +91,14 @@ export type ExerciseTags = {
   is_compound?: boolean;
 };
 
-export type LocalWorkoutSession = {
+// Local-only revision tracking for conflict-aware sync (never pushed).
+export type LocalRevisionFields = {
+  rev?: number; // bumped on every local edit
+  updatedAt?: number; // epoch ms of the last local edit
+  base_hash?: string | null; // fingerprint of the server row last pulled/pushed
+};
+
+export type LocalWorkoutSession = LocalRevisionFields & {
   id: string; // uuid
   user_id: string;
   day_date: string; // YYYY-MM-DD
@@ -82,7 +108,7 @@ export type LocalWorkoutSession = {
   exclude_from_analytics?: boolean;
 };
 
-export type LocalWorkoutExercise = ExerciseTags & {
+export type LocalWorkoutExercise = ExerciseTags & LocalRevisionFields & ExerciseGroupFields & {
   id: string; // uuid
   session_id: string;
   name: string;
@@ -93,7 +119,7 @@ export type LocalWorkoutExercise = ExerciseTags & {
 
 export type LoadType = "weight" | "band" | "bodyweight";
 
-export type LocalWorkoutSet = {
+export type LocalWorkoutSet = LocalRevisionFields & SetTypeFields & {
   id: string; // uuid
   exercise_id: string;
   set_number: number;
@@ -108,7 +134,26 @@ export type LocalWorkoutSet = {
 
   reps?: number | null;
   rpe?: number | null;
-  is_warmup: boolean;
+  is_warmup: boolean; // kept in step with set_type === "warmup" for older readers
+
+  rest_secs_before?: number | null; // measured rest since the previous set in the session; synced when known
+};
+
+export type SyncConflictTable = "localSessions" | "localExercises" | "localSets";
+
+export type LocalSyncConflict = {
+  id: string; // `${table}:${row_id}` — one open conflict per row
+  user_id: string;
+  table: SyncConflictTable;
+  row_id: string;
+  session_id?: string | null; // for grouping in the UI
+  source: "push" | "pull";
+  local: any; // local row at detection time
+  remote: any; // server row at detection time
+  status: "open" | "resolved";
+  resolution?: "local" | "remote" | null;
+  detectedAt: number;
+  resolvedAt?: number | null;
 };
 
 // Templates (local-first)
@@ -120,7 +165,7 @@ export type LocalWorkoutTemplate = {
   created_at: string; // ISO
 };
 
-export type LocalWorkoutTemplateExercise = ExerciseTags & {
+export type LocalWorkoutTemplateExercise = ExerciseTags & ExerciseGroupFields & {
   id: string; // uuid
   template_id: string;
   name: string;
@@ -156,6 +201,24 @@ export type LocalZone2Daily = {
   updatedAt: number;
 };
 
+export type LocalProgressPhoto = PhotoAlignmentFields & {
+  id: string; // uuid, shared with the progress_photos row
+  user_id: string;
+  taken_on: string; // YYYY-MM-DD
+  pose: string;
+  storage_path: string;
+  weight_lbs: number | null;
+  waist_in: number | null;
+  notes: string | null;
+  is_anchor: boolean | null;
+  created_at: string; // ISO
+
+  // Local-only (never pushed)
+  image?: Blob | null; // compressed upload, dropped once the row is in the cloud
+  thumb?: Blob | null; // on-device thumbnail
+  uploaded_at?: number | null; // storage object written; a retry goes straight to the row
+};
+
 export class RebuildDB extends Dexie {
   pendingOps!: Table<PendingOp, number>;
 
@@ -175,6 +238,11 @@ export class RebuildDB extends Dexie {
   zone2Daily!: Table<LocalZone2Daily, [string, string]>; // [user_id, day_date]
   exercisePrefMemory!: Table<PrefMem, [string, string]>; // [user_id, exercise_library_id]
   exerciseControls!: Table<ExerciseControlRec, [string, string]>; // [user_id, exercise_library_id]
+  syncConflicts!: Table<LocalSyncConflict, string>;
+  injuries!: Table<InjuryRecord, string>;
+  customExercises!: Table<CustomExerciseRec, string>;
+  localPhotos!: Table<LocalProgressPhoto, string>;
+  bodyMeasurements!: Table<BodyMeasurementRecord, [string, string]>; // [user_id, taken_on]
 
   constructor() {
     super("rebuild60_local");
@@ -282,6 +350,132 @@ export class RebuildDB extends Dexie {
       exerciseControls: "[user_id+exercise_library_id], user_id, exercise_library_id, updated_at"
     });
 
+    // v9: sync conflict records
+    this.version(9).stores({
+      pendingOps: "++id, createdAt, op, status",
+      localSettings: "[user_id+key], user_id, key, updatedAt",
+      localExerciseAliases: "[user_id+alias_norm], user_id, alias_norm, updatedAt",
+      localMilestones: "id, user_id, milestone_type, achieved_on, createdAt",
+      localSessions: "id, user_id, day_date, started_at",
+      localExercises: "id, session_id, sort_order",
+      localSets: "id, exercise_id, set_number",
+      localTemplates: "id, user_id, created_at",
+      localTemplateExercises: "id, template_id, sort_order",
+      dailyMetrics: "[user_id+day_date], user_id, day_date, updatedAt",
+      nutritionDaily: "[user_id+day_date], user_id, day_date, updatedAt",
+      zone2Daily: "[user_id+day_date], user_id, day_date, updatedAt",
+      exercisePrefMemory: "[user_id+exercise_library_id], user_id, exercise_library_id, updated_at",
+      exerciseControls: "[user_id+exercise_library_id], user_id, exercise_library_id, updated_at",
+      syncConflicts: "id, user_id, status, table, row_id, detectedAt"
+    });
+
+    // v10: body-region injury log
+    this.version(10).stores({
+      pendingOps: "++id, createdAt, op, status",
+      localSettings: "[user_id+key], user_id, key, updatedAt",
+      localExerciseAliases: "[user_id+alias_norm], user_id, alias_norm, updatedAt",
+      localMilestones: "id, user_id, milestone_type, achieved_on, createdAt",
+      localSessions: "id, user_id, day_date, started_at",
+      localExercises: "id, session_id, sort_order",
+      localSets: "id, exercise_id, set_number",
+      localTemplates: "id, user_id, created_at",
+      localTemplateExercises: "id, template_id, sort_order",
+      dailyMetrics: "[user_id+day_date], user_id, day_date, updatedAt",
+      nutritionDaily: "[user_id+day_date], user_id, day_date, updatedAt",
+      zone2Daily: "[user_id+day_date], user_id, day_date, updatedAt",
+      exercisePrefMemory: "[user_id+exercise_library_id], user_id, exercise_library_id, updated_at",
+      exerciseControls: "[user_id+exercise_library_id], user_id, exercise_library_id, updated_at",
+      syncConflicts: "id, user_id, status, table, row_id, detectedAt",
+      injuries: "id, user_id, region, updatedAt"
+    });
+
+    // v11: user-defined exercise library
+    this.version(11).stores({
+      pendingOps: "++id, createdAt, op, status",
+      localSettings: "[user_id+key], user_id, key, updatedAt",
+      localExerciseAliases: "[user_id+alias_norm], user_id, alias_norm, updatedAt",
+      localMilestones: "id, user_id, milestone_type, achieved_on, createdAt",
+      localSessions: "id, user_id, day_date, started_at",
+      localExercises: "id, session_id, sort_order",
+      localSets: "id, exercise_id, set_number",
+      localTemplates: "id, user_id, created_at",
+      localTemplateExercises: "id, template_id, sort_order",
+      dailyMetrics: "[user_id+day_date], user_id, day_date, updatedAt",
+      nutritionDaily: "[user_id+day_date], user_id, day_date, updatedAt",
+      zone2Daily: "[user_id+day_date], user_id, day_date, updatedAt",
+      exercisePrefMemory: "[user_id+exercise_library_id], user_id, exercise_library_id, updated_at",
+      exerciseControls: "[user_id+exercise_library_id], user_id, exercise_library_id, updated_at",
+      syncConflicts: "id, user_id, status, table, row_id, detectedAt",
+      injuries: "id, user_id, region, updatedAt",
+      customExercises: "id, user_id, key, updated_at"
+    });
+
+    // v12: superset / circuit grouping on exercises and template exercises
+    this.version(12).stores({
+      pendingOps: "++id, createdAt, op, status",
+      localSettings: "[user_id+key], user_id, key, updatedAt",
+      localExerciseAliases: "[user_id+alias_norm], user_id, alias_norm, updatedAt",
+      localMilestones: "id, user_id, milestone_type, achieved_on, createdAt",
+      localSessions: "id, user_id, day_date, started_at",
+      localExercises: "id, session_id, sort_order, group_id",
+      localSets: "id, exercise_id, set_number",
+      localTemplates: "id, user_id, created_at",
+      localTemplateExercises: "id, template_id, sort_order, group_id",
+      dailyMetrics: "[user_id+day_date], user_id, day_date, updatedAt",
+      nutritionDaily: "[user_id+day_date], user_id, day_date, updatedAt",
+      zone2Daily: "[user_id+day_date], user_id, day_date, updatedAt",
+      exercisePrefMemory: "[user_id+exercise_library_id], user_id, exercise_library_id, updated_at",
+      exerciseControls: "[user_id+exercise_library_id], user_id, exercise_library_id, updated_at",
+      syncConflicts: "id, user_id, status, table, row_id, detectedAt",
+      injuries: "id, user_id, region, updatedAt",
+      customExercises: "id, user_id, key, updated_at"
+    });
+
+    // v13: offline progress photos
+    this.version(13).stores({
+      pendingOps: "++id, createdAt, op, status",
+      localSettings: "[user_id+key], user_id, key, updatedAt",
+      localExerciseAliases: "[user_id+alias_norm], user_id, alias_norm, updatedAt",
+      localMilestones: "id, user_id, milestone_type, achieved_on, createdAt",
+      localSessions: "id, user_id, day_date, started_at",
+      localExercises: "id, session_id, sort_order, group_id",
+      localSets: "id, exercise_id, set_number",
+      localTemplates: "id, user_id, created_at",
+      localTemplateExercises: "id, template_id, sort_order, group_id",
+      dailyMetrics: "[user_id+day_date], user_id, day_date, updatedAt",
+      nutritionDaily: "[user_id+day_date], user_id, day_date, updatedAt",
+      zone2Daily: "[user_id+day_date], user_id, day_date, updatedAt",
+      exercisePrefMemory: "[user_id+exercise_library_id], user_id, exercise_library_id, updated_at",
+      exerciseControls: "[user_id+exercise_library_id], user_id, exercise_library_id, updated_at",
+      syncConflicts: "id, user_id, status, table, row_id, detectedAt",
+      injuries: "id, user_id, region, updatedAt",
+      customExercises: "id, user_id, key, updated_at",
+      localPhotos: "id, user_id, pose, taken_on, created_at"
+    });
+
+    // v14: local-first body measurements
+    this.version(14).stores({
+      pendingOps: "++id, createdAt, op, status",
+      localSettings: "[user_id+key], user_id, key, updatedAt",
+      localExerciseAliases: "[user_id+alias_norm], user_id, alias_norm, updatedAt",
+      localMilestones: "id, user_id, milestone_type, achieved_on, createdAt",
+      localSessions: "id, user_id, day_date, started_at",
+      localExercises: "id, session_id, sort_order, group_id",
+      localSets: "id, exercise_id, set_number",
+      localTemplates: "id, user_id, created_at",
+      localTemplateExercises: "id, template_id, sort_order, group_id",
+      dailyMetrics: "[user_id+day_date], user_id, day_date, updatedAt",
+      nutritionDaily: "[user_id+day_date], user_id, day_date, updatedAt",
+      zone2Daily: "[user_id+day_date], user_id, day_date, updatedAt",
+      exercisePrefMemory: "[user_id+exercise_library_id], user_id, exercise_library_id, updated_at",
+      exerciseControls: "[user_id+exercise_library_id], user_id, exercise_library_id, updated_at",
+      syncConflicts: "id, user_id, status, table, row_id, detectedAt",
+      injuries: "id, user_id, region, updatedAt",
+      customExercises: "id, user_id, key, updated_at",
+      localPhotos: "id, user_id, pose, taken_on, created_at",
+      bodyMeasurements: "[user_id+taken_on], user_id, taken_on, updatedAt"
+    });
+
 }
 }
 
@@ -0,0 +1,193 @@
+import { isMissingColumnError, isMissingTableError, supabase } from "./supabase";
+import { localdb, type LocalProgressPhoto, type PendingOp } from "./localdb";
+
+/**
+ * Local-first progress photos:
+ * - a new photo goes into localPhotos (compressed image + on-device thumbnail) with an
+ *   upload_progress_photo op behind it; the gallery reads localPhotos, so it works offline
+ * - the upload is resumable: the storage write is an upsert and stamps uploaded_at, so a
+ *   retry after a half-done pass goes straight to the row
+ * - every edit queues its own update_progress_photo, even behind a pending upload: either op
+ *   may already be mid-flight with the older row, so merging into it could lose the edit
+ *   (callers debounce, e.g. alignment nudges)
+ * - deleting a photo that never left the device just drops it and its ops; otherwise
+ *   delete_progress_photo removes its AI reviews, the row and the storage object
+ * - align_scale / align_rotation are only sent when set; a project without those columns still
+ *   gets the row and the translation, and the device keeps the rest of the transform
+ * - these are ordinary pendingOps, so retry, quarantine and the sync panel come from sync.ts
+ */
+
+export const PROGRESS_PHOTO_BUCKET = "progress-photos";
+
+export type ProgressPhotoFields = Omit<LocalProgressPhoto, "image" | "thumb" | "uploaded_at">;
+
+export type ProgressPhotoPatch = Partial<Omit<ProgressPhotoFields, "id" | "user_id" | "storage_path">>;
+
+const PHOTO_OPS: PendingOp["op"][] = ["upload_progress_photo", "update_progress_photo", "delete_progress_photo"];
+
+function rowFields(photo: LocalProgressPhoto): ProgressPhotoFields {
+  const { image: _image, thumb: _thumb, uploaded_at: _uploadedAt, ...row } = photo;
+  return row;
+}
+
+// Null scale / rotation reads as none, so there is nothing to send for them.
+function remoteFields<T extends Record<string, any>>(fields: T): Partial<T> {
+  const out: Partial<T> = { ...fields };
+  if (out.align_scale == null) delete out.align_scale;
+  if (out.align_rotation == null) delete out.align_rotation;
+  return out;
+}
+
+function withoutLateAlignment<T extends Record<string, any>>(fields: T): Partial<T> {
+  const { align_scale: _scale, align_rotation: _rotation, ...rest } = fields;
+  return rest as Partial<T>;
+}
+
+async function queueOp(op: PendingOp["op"], payload: any) {
+  await localdb.pendingOps.add({ createdAt: Date.now(), op, payload, status: "queued" });
+}
+
+async function pendingPhotoOps(): Promise<PendingOp[]> {
+  return localdb.pendingOps.where("op").anyOf(PHOTO_OPS).toArray();
+}
+
+function opPhotoId(item: PendingOp): string | null {
+  const id = item.op === "delete_progress_photo" ? item.payload?.photo_id : item.payload?.id;
+  return id ? String(id) : null;
+}
+
+export async function saveProgressPhoto(row: ProgressPhotoFields, image: Blob, thumb: Blob | null) {
+  await localdb.transaction("rw", localdb.localPhotos, localdb.pendingOps, async () => {
+    await localdb.localPhotos.put({ ...row, image, thumb, uploaded_at: null });
+    await queueOp("upload_progress_photo", { id: row.id });
+  });
+}
+
+export async function updateProgressPhoto(id: string, patch: ProgressPhotoPatch) {
+  await localdb.transaction("rw", localdb.localPhotos, localdb.pendingOps, async () => {
+    if (!(await localdb.localPhotos.update(id, patch))) return;
+    await queueOp("update_progress_photo", { ...patch, id });
+  });
+}
+
+export async function deleteProgressPhoto(photo: { id: string; storage_path: string }) {
+  await localdb.transaction("rw", localdb.localPhotos, localdb.pendingOps, async () => {
+    const local = await localdb.localPhotos.get(photo.id);
+    const ops = (await pendingPhotoOps()).filter((item) => opPhotoId(item) === photo.id);
+    const neverLeftDevice = ops.some((item) => item.op === "upload_progress_photo") && !local?.uploaded_at;
+    const ids = ops.map((item) => item.id).filter((id): id is number => id != null);
+    if (ids.length) await localdb.pendingOps.bulkDelete(ids);
+    await localdb.localPhotos.delete(photo.id);
+    if (!neverLeftDevice) await queueOp("delete_progress_photo", { photo_id: photo.id, storage_path: photo.storage_path });
+  });
+}
+
+/** Newest first, like the old remote query. */
+export async function listProgressPhotos(userId: string): Promise<LocalProgressPhoto[]> {
+  const rows = await localdb.localPhotos.where("user_id").equals(userId).toArray();
+  return rows.sort((a, b) =>
+    a.taken_on !== b.taken_on ? (a.taken_on > b.taken_on ? -1 : 1) : a.created_at > b.created_at ? -1 : a.created_at < b.created_at ? 1 : 0
+  );
+}
+
+/**
+ * Cloud -> localPhotos. Rows with a queued upload, edit or delete keep their local state;
+ * local rows the cloud no longer has (deleted on another device) are dropped.
+ */
+export async function pullProgressPhotos(userId: string) {
+  const { data, error } = await supabase
+    .from("progress_photos")
+    .select("*")
+    .eq("user_id", userId)
+    .order("taken_on", { ascending: false })
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  const pending = await pendingPhotoOps();
+  const heldIds = new Set(pending.map(opPhotoId).filter((id): id is string => !!id));
+  const remoteRows = ((data ?? []) as any[]).filter((row) => !heldIds.has(String(row.id)));
+  const remoteIds = new Set(((data ?? []) as any[]).map((row) => String(row.id)));
+
+  await localdb.transaction("rw", localdb.localPhotos, async () => {
+    const localRows = await localdb.localPhotos.where("user_id").equals(userId).toArray();
+    const localById = new Map(localRows.map((row) => [row.id, row]));
+    const stale = localRows.filter((row) => !remoteIds.has(row.id) && !heldIds.has(row.id)).map((row) => row.id);
+    if (stale.length) await localdb.localPhotos.bulkDelete(stale);
+    await localdb.localPhotos.bulkPut(
+      remoteRows.map((row) => {
+        const local = localById.get(String(row.id));
+        return { ...row, image: local?.image ?? null, thumb: local?.thumb ?? null, uploaded_at: local?.uploaded_at ?? null };
+      })
+    );
+  });
+}
+
+/** Keeps a thumbnail made on this device for a photo that arrived from the cloud. */
+export async function cacheProgressPhotoThumb(id: string, thumb: Blob) {
+  await localdb.localPhotos.update(id, { thumb });
+}
+
+export async function processProgressPhotoOp(op: PendingOp["op"], payload: any) {
+  switch (op) {
+    case "upload_progress_photo": {
+      const id = payload?.id;
+      if (!id) throw new Error("upload_progress_photo missing id");
+      const photo = await localdb.localPhotos.get(String(id));
+      if (!photo) throw new Error(`upload_progress_photo: photo ${id} is no longer on this device`);
+      if (!photo.uploaded_at) {
+        if (!photo.image) throw new Error(`upload_progress_photo: photo ${id} has no image to upload`);
+        const { error: upErr } = await supabase.storage
+          .from(PROGRESS_PHOTO_BUCKET)
+          .upload(photo.storage_path, photo.image, { contentType: "image/jpeg", upsert: true });
+        if (upErr) throw upErr;
+        await localdb.localPhotos.update(photo.id, { uploaded_at: Date.now() });
+      }
+      const row = remoteFields(rowFields(photo));
+      let { error: rowErr } = await supabase.from("progress_photos").upsert(row, { onConflict: "id" });
+      if (rowErr && isMissingColumnError(rowErr)) {
+        ({ error: rowErr } = await supabase.from("progress_photos").upsert(withoutLateAlignment(row), { onConflict: "id" }));
+      }
+      if (rowErr) throw rowErr;
+      // Deleted locally while this was in flight: the delete was dropped as local-only, so queue it now.
+      if (!(await localdb.localPhotos.update(photo.id, { image: null }))) {
+        await queueOp("delete_progress_photo", { photo_id: photo.id, storage_path: photo.storage_path });
+      }
+      return;
+    }
+
+    case "update_progress_photo": {
+      const { id, ...fields } = payload ?? {};
+      if (!id) throw new Error("update_progress_photo missing id");
+      const patch = remoteFields(fields);
+      if (!Object.keys(patch).length) return;
+      const { error } = await supabase.from("progress_photos").update(patch).eq("id", id);
+      if (error && isMissingColumnError(error)) {
+        const core = withoutLateAlignment(patch);
+        if (!Object.keys(core).length) return;
+        const { error: coreErr } = await supabase.from("progress_photos").update(core).eq("id", id);
+        if (coreErr) throw coreErr;
+        return;
+      }
+      if (error) throw error;
+      return;
+    }
+
+    case "delete_progress_photo": {
+      const photo_id = payload?.photo_id;
+      if (!photo_id) throw new Error("delete_progress_photo missing photo_id");
+      const { error: reviewErr } = await supabase.from("photo_ai_reviews").delete().eq("photo_id", photo_id);
+      // Missing optional tables (photo_ai_reviews on older projects) shouldn't quarantine a delete.
+      if (reviewErr && !isMissingTableError(reviewErr)) throw reviewErr;
+      const { error: rowErr } = await supabase.from("progress_photos").delete().eq("id", photo_id);
+      if (rowErr) throw rowErr;
+      if (payload?.storage_path) {
+        const { error: objErr } = await supabase.storage.from(PROGRESS_PHOTO_BUCKET).remove([String(payload.storage_path)]);
+        if (objErr) throw objErr;
+      }
+      return;
+    }
+
+    default:
+      throw new Error(`Not a progress photo op: ${op}`);
+  }
+}
@@ -1,5 +1,8 @@
-import { supabase } from "./supabase";
-import { localdb, type PendingOp } from "./localdb";
+import { isMissingTableError, supabase } from "./supabase";
+import { localdb, type PendingOp, type SyncConflictTable } from "./localdb";
+import { pullBodyMeasurements } from "./bodyMeasurements";
+import { pullProgressPhotos } from "./progressPhotos";
+import { collectDirtyRowIds, getOpenConflictRowIds, recordSyncConflict, syncFingerprint } from "./syncConflicts";
 
 /**
  * Cloud -> local hydration for multi-device sync.
@@ -7,6 +10,11 @@ import { localdb, type PendingOp } from "./localdb";
  * - pull a full user-scoped snapshot
  * - upsert into Dexie
  * - avoid updated_at assumptions until schema is standardized
+ * - workout rows with unsynced local edits are kept; if the server copy diverged
+ *   from their base version a sync conflict is recorded instead of overwriting
+ * - progress photo rows land in localPhotos; blobs are never pulled, signed URLs serve them
+ * - body measurements land in bodyMeasurements, except days with an unsynced save
+ * - custom_exercises is optional (supabase/migrations): a project without it pulls as empty
  */
 
 function collectSyncIntent(pending: PendingOp[]) {
@@ -17,6 +25,7 @@ function collectSyncIntent(pending: PendingOp[]) {
   const pendingDeleteSessionIds = new Set<string>();
   const pendingDeleteExerciseIds = new Set<string>();
   const pendingDeleteSetIds = new Set<string>();
+  const pendingCustomExerciseIds = new Set<string>();
 
   for (const item of pending) {
     const payload = item?.payload ?? {};
@@ -35,6 +44,11 @@ function collectSyncIntent(pending: PendingOp[]) {
       case "delete_template_exercise":
         if (payload?.template_exercise_id) pendingDeleteTemplateExerciseIds.add(String(payload.template_exercise_id));
         break;
+      case "set_template_exercise_group":
+        for (const id of Array.isArray(payload?.template_exercise_ids) ? payload.template_exercise_ids : []) {
+          pendingCreateOrUpdateTemplateExerciseIds.add(String(id));
+        }
+        break;
       case "delete_session":
         if (payload?.session_id) pendingDeleteSessionIds.add(String(payload.session_id));
         break;
@@ -44,6 +58,9 @@ function collectSyncIntent(pending: PendingOp[]) {
       case "delete_set":
         if (payload?.set_id) pendingDeleteSetIds.add(String(payload.set_id));
         break;
+      case "upsert_custom_exercise":
+        if (payload?.id) pendingCustomExerciseIds.add(String(payload.id));
+        break;
     }
   }
 
@@ -54,7 +71,8 @@ function collectSyncIntent(pending: PendingOp[]) {
     pendingCreateOrUpdateTemplateExerciseIds,
     pendingDeleteSessionIds,
     pendingDeleteExerciseIds,
-    pendingDeleteSetIds
+    pendingDeleteSetIds,
+    pendingCustomExerciseIds
   };
 }
 
@@ -75,6 +93,68 @@ function preserveExerciseIdentity<T extends { id?: string | null; exercise_libra
   });
 }
 
+// Fields the server may not have (older schema, or plain sets that never send them) fall back to the local copy.
+function preserveLocalSetFields<
+  T extends { id?: string | null; rest_secs_before?: number | null; set_type?: string | null; parent_set_id?: string | null }
+>(
+  remoteRows: T[],
+  localRows: T[]
+): T[] {
+  const localById = new Map(localRows.map((row) => [String(row.id ?? ""), row]));
+  return remoteRows.map((row) => {
+    const local = localById.get(String(row.id ?? ""));
+    if (!local) return row;
+    return {
+      ...row,
+      rest_secs_before: row.rest_secs_before ?? local.rest_secs_before ?? null,
+      set_type: row.set_type ?? local.set_type ?? null,
+      parent_set_id: row.parent_set_id ?? local.parent_set_id ?? null,
+    };
+  });
+}
+
+/**
+ * Splits remote workout rows into rows safe to apply and rows held back because
+ * the local copy has unsynced edits (or an open conflict). Applied rows keep the
+ * local revision counters and take the remote fingerprint as their new base; rows
+ * with no base yet are always applied so they pick one up.
+ */
+async function reconcileWorkoutRows<T extends { id?: string | null }>(
+  table: SyncConflictTable,
+  remoteRows: T[],
+  localRows: (any | undefined)[],
+  dirtyIds: Set<string>,
+  conflictIds: Set<string>,
+  userId: string
+): Promise<T[]> {
+  const apply: T[] = [];
+  for (let i = 0; i < remoteRows.length; i++) {
+    const remote = remoteRows[i];
+    const local = localRows[i];
+    const id = String(remote.id ?? "");
+    const remoteHash = syncFingerprint(table, remote);
+
+    // Rows stored before revisions were tracked have no base to compare against: take the server copy
+    // and start tracking from it rather than calling every remote edit a conflict.
+    const untracked = local && local.base_hash == null && !conflictIds.has(id);
+    if (local && !untracked && (dirtyIds.has(id) || conflictIds.has(id))) {
+      const diverged = remoteHash !== syncFingerprint(table, local) && remoteHash !== (local.base_hash ?? null);
+      if (diverged && !conflictIds.has(id)) {
+        await recordSyncConflict({ table, rowId: id, local, remote, source: "pull", userId });
+      }
+      continue;
+    }
+
+    apply.push({
+      ...remote,
+      rev: local?.rev ?? 0,
+      updatedAt: local?.updatedAt ?? null,
+      base_hash: remoteHash,
+    });
+  }
+  return apply;
+}
+
 function toMillis(value: any): number {
   const n = Date.parse(String(value ?? ""));
   return Number.isFinite(n) ? n : 0;
@@ -84,7 +164,14 @@ export async function pullSync(userId: string) {
   if (!userId) return;
 
   // Core user-scoped tables
-  const [{ data: sessions, error: sessionsErr }, { data: daily, error: dailyErr }, { data: nutrition, error: nutritionErr }, { data: zone2, error: zone2Err }, { data: templates, error: templatesErr }] =
+  const [
+    { data: sessions, error: sessionsErr },
+    { data: daily, error: dailyErr },
+    { data: nutrition, error: nutritionErr },
+    { data: zone2, error: zone2Err },
+    { data: templates, error: templatesErr },
+    { data: customExercises, error: customExercisesErr },
+  ] =
     await Promise.all([
       supabase
         .from("workout_sessions")
@@ -111,6 +198,10 @@ export async function pullSync(userId: string) {
         .select("*")
         .eq("user_id", userId)
         .order("created_at", { ascending: true }),
+      supabase
+        .from("custom_exercises")
+        .select("*")
+        .eq("user_id", userId),
     ]);
 
   if (sessionsErr) throw sessionsErr;
@@ -118,6 +209,7 @@ export async function pullSync(userId: string) {
   if (nutritionErr) throw nutritionErr;
   if (zone2Err) throw zone2Err;
   if (templatesErr) throw templatesErr;
+  if (customExercisesErr && !isMissingTableError(customExercisesErr)) throw customExercisesErr;
 
   const pending = await localdb.pendingOps.toArray();
   const {
@@ -127,7 +219,8 @@ export async function pullSync(userId: string) {
     pendingCreateOrUpdateTemplateExerciseIds,
     pendingDeleteSessionIds,
     pendingDeleteExerciseIds,
-    pendingDeleteSetIds
+    pendingDeleteSetIds,
+    pendingCustomExerciseIds
   } = collectSyncIntent(pending as PendingOp[]);
 
   const sessionRows = ((sessions ?? []) as any[]).filter((row) => !pendingDeleteSessionIds.has(String(row.id)));
@@ -197,15 +290,25 @@ export async function pullSync(userId: string) {
 
   await localdb.transaction(
     "rw",
-    localdb.localSessions,
-    localdb.localExercises,
-    localdb.localSets,
-    localdb.localTemplates,
-    localdb.localTemplateExercises,
-    localdb.dailyMetrics,
-    localdb.nutritionDaily,
-    localdb.zone2Daily,
+    [
+      localdb.localSessions,
+      localdb.localExercises,
+      localdb.localSets,
+      localdb.localTemplates,
+      localdb.localTemplateExercises,
+      localdb.dailyMetrics,
+      localdb.nutritionDaily,
+      localdb.zone2Daily,
+      localdb.syncConflicts,
+      localdb.customExercises,
+    ],
     async () => {
+      const dirtyRowIds = collectDirtyRowIds(pending as PendingOp[]);
+      const conflictRowIds = await getOpenConflictRowIds(userId);
+
+      const existingLocalSessions = sessionRows.length
+        ? await localdb.localSessions.bulkGet(sessionRows.map((row) => String(row.id)))
+        : [];
       const existingLocalExercises = exerciseRows.length
         ? await localdb.localExercises.bulkGet(exerciseRows.map((row) => String(row.id)))
         : [];
@@ -214,7 +317,7 @@ export async function pullSync(userId: string) {
         : [];
 
       const mergedExerciseRows = preserveExerciseIdentity(
-        exerciseRows as any[],
+        await reconcileWorkoutRows("localExercises", exerciseRows as any[], existingLocalExercises, dirtyRowIds.localExercises, conflictRowIds.localExercises, userId),
         (existingLocalExercises.filter(Boolean) as any[])
       );
       const mergedTemplateExerciseRows = preserveExerciseIdentity(
@@ -222,9 +325,25 @@ export async function pullSync(userId: string) {
         (existingLocalTemplateExercises.filter(Boolean) as any[])
       );
 
-      await localdb.localSessions.bulkPut(sessionRows as any);
+      const existingLocalSets = setRows.length
+        ? await localdb.localSets.bulkGet(setRows.map((row) => String(row.id)))
+        : [];
+      const mergedSetRows = preserveLocalSetFields(
+        await reconcileWorkoutRows("localSets", setRows as any[], existingLocalSets, dirtyRowIds.localSets, conflictRowIds.localSets, userId),
+        (existingLocalSets.filter(Boolean) as any[])
+      );
+      const mergedSessionRows = await reconcileWorkoutRows(
+        "localSessions",
+        sessionRows as any[],
+        existingLocalSessions,
+        dirtyRowIds.localSessions,
+        conflictRowIds.localSessions,
+        userId
+      );
+
+      await localdb.localSessions.bulkPut(mergedSessionRows as any);
       await localdb.localExercises.bulkPut(mergedExerciseRows as any);
-      await localdb.localSets.bulkPut(setRows as any);
+      await localdb.localSets.bulkPut(mergedSetRows as any);
 
       const remoteTemplateIdSet = new Set(templateRows.map((row) => String(row.id)));
       const remoteTemplateExerciseIdSet = new Set(mergedTemplateExerciseRows.map((row) => String(row.id)));
@@ -267,8 +386,20 @@ export async function pullSync(userId: string) {
       await localdb.dailyMetrics.bulkPut(((daily ?? []) as any[]) as any);
       await localdb.nutritionDaily.bulkPut(((nutrition ?? []) as any[]) as any);
       await localdb.zone2Daily.bulkPut(Array.from(zone2ByDay.values()) as any);
+
+      // Custom exercises: newest updated_at wins; rows with a queued local edit are left alone.
+      const customRows = ((customExercises ?? []) as any[]).filter((row) => !pendingCustomExerciseIds.has(String(row.id)));
+      const existingCustom = customRows.length ? await localdb.customExercises.bulkGet(customRows.map((row) => String(row.id))) : [];
+      const newerCustom = customRows.filter((row, i) => {
+        const local = existingCustom[i];
+        return !local || toMillis(row.updated_at) >= toMillis(local.updated_at);
+      });
+      await localdb.customExercises.bulkPut(newerCustom as any);
     }
   );
+
+  await pullProgressPhotos(userId);
+  await pullBodyMeasurements(userId);
 }
 
 
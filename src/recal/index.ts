@@ -0,0 +1,17 @@
+import { checkScenarioAssertions, phasePath, renderPhaseTimeline, renderScenarioReport, type AssertionResult, type ScenarioResult } from "./report";
+import { runRecalibrationScenario, type ScenarioRun, type ScenarioTick } from "./runner";
+import { parseRecalibrationScenario, type RecalibrationScenario, type ScenarioAssertion, type ScenarioSession } from "./scenario";
+
+export { checkScenarioAssertions, parseRecalibrationScenario, phasePath, renderPhaseTimeline, renderScenarioReport, runRecalibrationScenario };
+export type { AssertionResult, RecalibrationScenario, ScenarioAssertion, ScenarioResult, ScenarioRun, ScenarioSession, ScenarioTick };
+
+export type ScenarioSuite = {
+  results: ScenarioResult[];
+  report: string;
+};
+
+/** Entry point for `npm run scenarios`: validates each JSON scenario, replays it and checks its assertions. */
+export function runScenarioSuite(entries: Array<{ source: string; raw: unknown }>): ScenarioSuite {
+  const results = entries.map(({ source, raw }) => checkScenarioAssertions(runRecalibrationScenario(parseRecalibrationScenario(raw, source))));
+  return { results, report: renderScenarioReport(results) };
+}
@@ -0,0 +1,121 @@
+import type { RecalibrationPhase } from "../lib/adaptationWeights";
+import type { ScenarioRun } from "./runner";
+import { RECALIBRATION_PHASES, type ScenarioAssertion } from "./scenario";
+
+/**
+ * Assertion checks and the markdown report for scenario runs. The phase timeline is a lane chart
+ * with one row per phase and one column per tick:
+ * - ● the phase the tick ended in, ○ a phase it passed through on the way, ◆ a recalibration executing
+ * - score / accuracy / confidence rows show the policy score, prediction accuracy and the
+ *   confidence of the prediction that was showing after the tick
+ */
+
+export type AssertionResult = {
+  assertion: ScenarioAssertion;
+  passed: boolean;
+  detail: string;
+};
+
+export type ScenarioResult = {
+  run: ScenarioRun;
+  assertions: AssertionResult[];
+  passed: boolean;
+};
+
+function describeAssertion(assertion: ScenarioAssertion): string {
+  switch (assertion.kind) {
+    case "phase_at": return `tick ${assertion.tick} ends in ${assertion.phase}`;
+    case "final_phase": return `final phase is ${assertion.phase}`;
+    case "reaches": return `reaches ${assertion.phase}${assertion.by != null ? ` by tick ${assertion.by}` : ""}`;
+    case "never": return `never enters ${assertion.phase}`;
+    case "sequence": return `passes through ${assertion.phases.join(" → ")}`;
+    case "executes": return `executes ${assertion.count ?? "at least 1"} ${assertion.action ?? "recalibration"}${assertion.count === 1 ? "" : "s"}`;
+  }
+}
+
+/** Phases in the order they were visited, with consecutive repeats collapsed. */
+export function phasePath(run: ScenarioRun): RecalibrationPhase[] {
+  const path: RecalibrationPhase[] = [];
+  for (const phase of run.ticks.flatMap((tick) => tick.visited)) {
+    if (path[path.length - 1] !== phase) path.push(phase);
+  }
+  return path;
+}
+
+function checkAssertion(run: ScenarioRun, assertion: ScenarioAssertion): AssertionResult {
+  const last = run.ticks[run.ticks.length - 1];
+  const result = (passed: boolean, detail: string) => ({ assertion, passed, detail });
+  switch (assertion.kind) {
+    case "phase_at": {
+      const tick = run.ticks[assertion.tick];
+      return result(tick.phase === assertion.phase, `tick ${tick.tick} ended in ${tick.phase}`);
+    }
+    case "final_phase":
+      return result(last.phase === assertion.phase, `ended in ${last.phase}`);
+    case "reaches": {
+      const first = run.ticks.find((tick) => tick.visited.includes(assertion.phase));
+      if (!first) return result(false, `never reached ${assertion.phase}`);
+      return result(assertion.by == null || first.tick <= assertion.by, `first reached at tick ${first.tick}`);
+    }
+    case "never": {
+      const hits = run.ticks.filter((tick) => tick.visited.includes(assertion.phase)).map((tick) => tick.tick);
+      return result(!hits.length, hits.length ? `entered at tick${hits.length === 1 ? "" : "s"} ${hits.join(", ")}` : "never entered");
+    }
+    case "sequence": {
+      const path = phasePath(run);
+      let cursor = 0;
+      for (const phase of path) if (phase === assertion.phases[cursor]) cursor++;
+      return result(cursor >= assertion.phases.length, `path was ${path.join(" → ")}`);
+    }
+    case "executes": {
+      const matching = run.ticks.filter((tick) => tick.executed && (!assertion.action || tick.executed === assertion.action));
+      const passed = assertion.count == null ? matching.length > 0 : matching.length === assertion.count;
+      return result(passed, matching.length ? `executed at tick${matching.length === 1 ? "" : "s"} ${matching.map((tick) => `${tick.tick} (${tick.executed})`).join(", ")}` : "nothing executed");
+    }
+  }
+}
+
+export function checkScenarioAssertions(run: ScenarioRun): ScenarioResult {
+  const assertions = run.scenario.assertions.map((assertion) => checkAssertion(run, assertion));
+  return { run, assertions, passed: assertions.every((item) => item.passed) };
+}
+
+function cell(text: string | number | null): string {
+  return String(text ?? "—").padStart(3);
+}
+
+export function renderPhaseTimeline(run: ScenarioRun): string[] {
+  const width = Math.max(...RECALIBRATION_PHASES.map((phase) => phase.length), "confidence".length);
+  const row = (label: string, cells: string[]) => `${label.padEnd(width)} ${cells.join("")}`.trimEnd();
+  const lanes = RECALIBRATION_PHASES.map((phase) =>
+    row(
+      phase,
+      run.ticks.map((tick) => cell(tick.phase === phase ? "●" : phase === "recalibrating" && tick.executed ? "◆" : tick.visited.includes(phase) ? "○" : "·"))
+    )
+  );
+  return [
+    row("tick", run.ticks.map((tick) => cell(tick.tick))),
+    ...lanes,
+    row("score", run.ticks.map((tick) => cell(tick.score))),
+    row("accuracy", run.ticks.map((tick) => cell(tick.accuracyScore))),
+    row("confidence", run.ticks.map((tick) => cell(tick.predictionConfidence))),
+  ];
+}
+
+export function renderScenarioReport(results: ScenarioResult[]): string {
+  const failed = results.filter((result) => !result.passed).length;
+  const lines = ["# Recalibration scenarios", "", `${results.length - failed} pass, ${failed} fail.`, ""];
+  for (const { run, assertions, passed } of results) {
+    const { scenario } = run;
+    lines.push(`## ${scenario.name} — ${passed ? "pass" : "FAIL"}`, "");
+    if (scenario.description) lines.push(scenario.description, "");
+    lines.push(`Preset ${scenario.preset}, ${scenario.warmup} warmup sessions, ${scenario.ticks} ticks from ${scenario.startDate}.`, "");
+    lines.push("```", ...renderPhaseTimeline(run), "```", "", `Path: ${phasePath(run).join(" → ")}`);
+    for (const { tick, action } of run.actions) lines.push(`Tick ${tick}: executed ${action.type}. ${action.reason}`);
+    if (assertions.length) {
+      lines.push("", ...assertions.map((item) => `- ${item.passed ? "✓" : "✗"} ${describeAssertion(item.assertion)} (${item.detail})`));
+    }
+    lines.push("");
+  }
+  return lines.join("\n");
+}
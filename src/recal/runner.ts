@@ -0,0 +1,283 @@
+import { deriveAdaptationLayer, type AdaptationWeights, type MutationLedgerEntry, type RecalibrationPhase, type RecalibrationState } from "../lib/adaptationWeights";
+import { buildPredictionScaffold, deriveBehaviorFingerprint, type PredictionScaffold } from "../lib/behaviorFingerprint";
+import type { BrainSnapshot } from "../lib/brainEngine";
+import { buildPredictionReview, summarizePredictionReviews, type PredictionReviewEntry } from "../lib/predictionReview";
+import type { PreferenceHistoryEntry } from "../lib/preferenceLearning";
+import {
+  applyAdaptationRecalibrationToWeights,
+  applyPredictionRecalibrationToScaffold,
+  applyRecalibrationToHistory,
+  executePredictionRecalibration,
+  executeScopedRecalibration,
+  fingerprintHistoryFor,
+  recalibrationLedgerEntry,
+  shouldExecutePredictionRecalibration,
+  stepRecalibrationActionProbation,
+  type RecalibrationAction,
+  type RecalibrationActionType,
+} from "../lib/recalibrationActions";
+import { evaluateRecalibrationState } from "../lib/recalibrationPolicy";
+import type { RecalibrationSandboxSnapshot } from "../lib/recalibrationSandbox";
+import { buildSandboxScenarioPreset } from "../lib/recalibrationScenarioPresets";
+import { withFrozenClock } from "../golden/pipeline";
+import type { RecalibrationScenario, ScenarioSession } from "./scenario";
+
+/**
+ * Replays a recalibration scenario one closed session ("tick") at a time:
+ * - tick 0 is the seeded preset; every later tick logs one scripted session (preference entry plus
+ *   a prediction review scored against the prediction that was showing) and then refreshes the loop
+ * - the refresh mirrors the dashboard: step probation → rebuild fingerprint and adaptation →
+ *   evaluateRecalibrationState with the probation-aware previous state → execute the action for
+ *   the strongest suggested scope
+ * - each tick runs under a frozen clock one day after the last, so runs are repeatable
+ */
+
+export type ScenarioTick = {
+  tick: number;
+  day: string;
+  session: ScenarioSession | null;
+  evaluatedPhase: RecalibrationPhase;
+  phase: RecalibrationPhase;
+  /** Every phase the loop passed through this tick, in order. */
+  visited: RecalibrationPhase[];
+  score: number;
+  triggers: string[];
+  accuracyScore: number | null;
+  predictionConfidence: number | null;
+  executed: RecalibrationActionType | null;
+  probationCyclesRemaining: number;
+};
+
+export type ScenarioRun = {
+  scenario: RecalibrationScenario;
+  ticks: ScenarioTick[];
+  actions: Array<{ tick: number; action: RecalibrationAction }>;
+};
+
+const FOCUS_ROTATION = ["Push", "Pull", "Lower"];
+const EXERCISES: Record<string, Array<[string, string]>> = {
+  Push: [["bench_press", "dumbbell_bench_press"], ["overhead_press", "shoulder_press"], ["incline_bench_press", "chest_press"], ["dip", "push_up"], ["lateral_raise", "cable_lateral_raise"]],
+  Pull: [["barbell_row", "chest_supported_row"], ["pull_up", "lat_pulldown"], ["face_pull", "rear_delt_fly"], ["seated_cable_row", "t_bar_row"], ["barbell_curl", "hammer_curl"]],
+  Lower: [["squat", "leg_press"], ["romanian_deadlift", "hip_thrust"], ["split_squat", "leg_extension"], ["leg_curl", "nordic_curl"], ["calf_raise", "seated_calf_raise"]],
+};
+const ADHERENCE: Record<string, number> = { as_prescribed: 95, modified: 72, partial: 48, abandoned: 15 };
+
+const BASE_PREDICTION: Omit<PredictionScaffold, "generatedAt"> = {
+  confidence: 55,
+  predictedCompletion: "as_prescribed",
+  predictedDelayBucket: "same_day",
+  predictedFocusMatchProbability: 80,
+  predictedSubstitutionRisk: 15,
+  predictedAnchorReliability: 75,
+  reasons: ["Scenario baseline prediction."],
+};
+
+type LoopState = Omit<RecalibrationSandboxSnapshot, "scenarioName">;
+
+function addDays(ymd: string, days: number): string {
+  const date = new Date(`${ymd}T12:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function focusFor(session: ScenarioSession, tick: number): { recommendedFocus: string; actualFocus: string } {
+  const recommendedFocus = session.recommendedFocus ?? FOCUS_ROTATION[(((tick - 1) % 3) + 3) % 3];
+  return { recommendedFocus, actualFocus: session.actualFocus ?? recommendedFocus };
+}
+
+/** Only the recommended focus is read from the brain snapshot when the scaffold is rebuilt. */
+function scaffoldFor(history: PreferenceHistoryEntry[], state: LoopState, focus: string): PredictionScaffold | null {
+  return buildPredictionScaffold({
+    history,
+    fingerprint: state.behaviorFingerprint,
+    brainSnapshot: { recommendedSession: { focus } } as unknown as BrainSnapshot,
+  });
+}
+
+/** Logs one closed session: a preference entry plus its review against the prediction that was showing. */
+function closeSession(state: LoopState, session: ScenarioSession, tick: number, sessionId: string): LoopState {
+  const { recommendedFocus, actualFocus } = focusFor(session, tick);
+  const pool = EXERCISES[recommendedFocus] ?? EXERCISES.Push;
+  const substitutions = Math.min(session.substitutions ?? 0, pool.length);
+  const missed = Math.min(session.missed ?? 0, pool.length - substitutions);
+  const completion = session.completion ?? "as_prescribed";
+  const primaryOutcome = session.primaryOutcome ?? (completion === "as_prescribed" ? "progressed" : completion === "modified" ? "matched" : "regressed");
+  const adherence = Math.max(0, ADHERENCE[completion] - substitutions * 5 - missed * 8);
+
+  const entry: PreferenceHistoryEntry = {
+    sessionId,
+    timestamp: Date.now(),
+    recommendedFocus,
+    actualFocus,
+    adherenceScore: adherence,
+    substitutionKeys: pool.slice(0, substitutions).map(([recommendedKey, actualKey]) => ({ recommendedKey, actualKey })),
+    extrasKeys: pool.slice(0, session.extras ?? 0).map(([, actualKey]) => `${actualKey}_extra`),
+    missedKeys: pool.slice(substitutions, substitutions + missed).map(([key]) => key),
+    volumeDelta: -missed * 3,
+    loadDeltaAvg: 0,
+    sessionOutcome: completion,
+    daysSinceRecommendation: session.delayDays ?? 0,
+    daysSinceLastTrainingSession: 1 + (session.delayDays ?? 0),
+    exerciseFidelity: [],
+    primaryOutcome,
+    fidelityScore: adherence,
+  };
+  const review: PredictionReviewEntry | null = buildPredictionReview({
+    sessionId,
+    prediction: state.predictionScaffold,
+    recommendedFocus,
+    actualFocus,
+    actualCompletion: completion,
+    daysSinceRecommendation: session.delayDays ?? 0,
+    substitutionCount: substitutions,
+    totalRecommended: pool.length,
+    primaryOutcome,
+  });
+  const predictionReviewHistory = review ? [review, ...state.predictionReviewHistory].slice(0, 30) : state.predictionReviewHistory;
+  return {
+    ...state,
+    preferenceHistory: [entry, ...state.preferenceHistory].slice(0, 30),
+    predictionReviewHistory,
+    predictionAccuracySummary: review ? summarizePredictionReviews(predictionReviewHistory) : state.predictionAccuracySummary,
+  };
+}
+
+/** One dashboard refresh over the loop state, in the same order refreshDashboard runs it. */
+function refreshLoop(state: LoopState, nextFocus: string): { state: LoopState; evaluatedPhase: RecalibrationPhase; executed: RecalibrationAction | null } {
+  const latestClosedReviewSessionId = state.predictionReviewHistory[0]?.sessionId ?? null;
+  let action = stepRecalibrationActionProbation({ action: state.recalibrationAction, latestClosedReviewSessionId });
+  const history = applyRecalibrationToHistory(state.preferenceHistory, action);
+  const persisted = state.recalibrationState;
+  const previousState: RecalibrationState | null = !persisted
+    ? null
+    : action?.status === "active"
+      ? { ...persisted, phase: "probation", state: "Probation", probationCyclesRemaining: action.probationCyclesRemaining }
+      : persisted.phase === "probation"
+        ? { ...persisted, probationCyclesRemaining: 0 }
+        : persisted;
+
+  const canDerive = history.length > 0;
+  const behaviorFingerprint = canDerive ? deriveBehaviorFingerprint(fingerprintHistoryFor(history, action), null) : state.behaviorFingerprint;
+  const layer = deriveAdaptationLayer({
+    history,
+    fingerprint: behaviorFingerprint,
+    predictionAccuracySummary: state.predictionAccuracySummary,
+    predictionReviewHistory: state.predictionReviewHistory,
+  });
+  let adaptationWeights: AdaptationWeights | null = layer.weights.active ? layer.weights : (state.adaptationWeights ?? layer.weights);
+  let mutationLedger: MutationLedgerEntry[] = state.mutationLedger.slice();
+  if (action?.status === "active" && action.freezeAdaptation) {
+    adaptationWeights = applyAdaptationRecalibrationToWeights(state.adaptationWeights ?? layer.weights, action);
+  } else if (layer.ledgerEntry) {
+    if (mutationLedger[0]?.generatedAt !== layer.ledgerEntry.generatedAt && mutationLedger[0]?.summary !== layer.ledgerEntry.summary) {
+      mutationLedger = [layer.ledgerEntry, ...mutationLedger].slice(0, 12);
+    } else if (!mutationLedger.length) {
+      mutationLedger = [layer.ledgerEntry];
+    }
+  }
+
+  let recalibrationState = evaluateRecalibrationState({
+    behaviorFingerprint,
+    predictionAccuracySummary: state.predictionAccuracySummary,
+    predictionReviewHistory: state.predictionReviewHistory,
+    preferenceHistory: history,
+    adaptationWeights,
+    mutationLedger,
+    previousState,
+  });
+  const evaluatedPhase = recalibrationState.phase;
+
+  let predictionScaffold = canDerive ? scaffoldFor(history, { ...state, behaviorFingerprint }, nextFocus) : state.predictionScaffold;
+  let executed: RecalibrationAction | null = null;
+  const scoped = action?.status === "active"
+    ? null
+    : executeScopedRecalibration({ recalibrationState, adaptationWeights, preferenceHistory: history, latestClosedReviewSessionId });
+  if (action?.status === "active") {
+    if (predictionScaffold) predictionScaffold = applyPredictionRecalibrationToScaffold(predictionScaffold, action);
+  } else if (scoped) {
+    executed = scoped.action;
+    adaptationWeights = scoped.adaptationWeights ?? adaptationWeights;
+    recalibrationState = scoped.recalibrationState;
+  } else if (predictionScaffold && shouldExecutePredictionRecalibration({ recalibrationState, predictionScaffold })) {
+    const result = executePredictionRecalibration({ recalibrationState, predictionScaffold, latestClosedReviewSessionId });
+    if (result) {
+      executed = result.action;
+      predictionScaffold = result.predictionScaffold;
+      recalibrationState = result.recalibrationState;
+    }
+  }
+  if (executed) {
+    action = executed;
+    mutationLedger = [recalibrationLedgerEntry(executed, recalibrationState), ...mutationLedger].slice(0, 12);
+  }
+
+  return {
+    state: { ...state, behaviorFingerprint, adaptationWeights, mutationLedger, predictionScaffold, recalibrationState, recalibrationAction: action },
+    evaluatedPhase,
+    executed,
+  };
+}
+
+/** The preset applied over `warmup` on-plan sessions, as if the user had seeded the sandbox on tick 0's day. */
+function seedScenario(scenario: RecalibrationScenario): LoopState {
+  let state: LoopState = {
+    behaviorFingerprint: null,
+    predictionScaffold: null,
+    predictionReviewHistory: [],
+    predictionAccuracySummary: null,
+    preferenceHistory: [],
+    adaptationWeights: null,
+    mutationLedger: [],
+    recalibrationState: null,
+    recalibrationAction: null,
+  };
+  for (let i = scenario.warmup; i > 0; i--) {
+    state = withFrozenClock(`${addDays(scenario.startDate, -i)}T12:00:00.000Z`, () => {
+      const warm = { ...state, predictionScaffold: state.predictionScaffold ?? { ...BASE_PREDICTION, generatedAt: new Date().toISOString() } };
+      return refreshLoop(closeSession(warm, {}, -i, `${scenario.name}-warmup-${i}`), focusFor({}, 1 - i).recommendedFocus).state;
+    });
+  }
+  return withFrozenClock(`${scenario.startDate}T12:00:00.000Z`, () => {
+    const base: RecalibrationSandboxSnapshot = {
+      ...state,
+      behaviorFingerprint: state.behaviorFingerprint ?? deriveBehaviorFingerprint([], null),
+      predictionScaffold: { ...BASE_PREDICTION, generatedAt: new Date().toISOString() },
+      scenarioName: null,
+    };
+    const { scenarioName: _scenarioName, ...seeded } = buildSandboxScenarioPreset(scenario.preset, base);
+    return seeded;
+  });
+}
+
+export function runRecalibrationScenario(scenario: RecalibrationScenario): ScenarioRun {
+  let state = seedScenario(scenario);
+  const ticks: ScenarioTick[] = [];
+  const actions: ScenarioRun["actions"] = [];
+  for (let tick = 0; tick <= scenario.ticks; tick++) {
+    const day = addDays(scenario.startDate, tick);
+    const session = tick === 0 ? null : (scenario.sessions[(tick - 1) % Math.max(1, scenario.sessions.length)] ?? {});
+    withFrozenClock(`${day}T12:00:00.000Z`, () => {
+      if (session) state = closeSession(state, session, tick, `${scenario.name}-${tick}`);
+      const nextFocus = focusFor(scenario.sessions[tick % Math.max(1, scenario.sessions.length)] ?? {}, tick + 1).recommendedFocus;
+      const refreshed = refreshLoop(state, nextFocus);
+      state = refreshed.state;
+      if (refreshed.executed) actions.push({ tick, action: refreshed.executed });
+      const phase = state.recalibrationState?.phase ?? "stable";
+      ticks.push({
+        tick,
+        day,
+        session,
+        evaluatedPhase: refreshed.evaluatedPhase,
+        phase,
+        visited: refreshed.executed ? [refreshed.evaluatedPhase, "recalibrating", phase] : [phase],
+        score: state.recalibrationState?.score ?? 0,
+        triggers: state.recalibrationState?.triggers ?? [],
+        accuracyScore: state.predictionAccuracySummary?.score ?? null,
+        predictionConfidence: state.predictionScaffold?.confidence ?? null,
+        executed: refreshed.executed?.type ?? null,
+        probationCyclesRemaining: state.recalibrationState?.probationCyclesRemaining ?? 0,
+      });
+    });
+  }
+  return { scenario, ticks, actions };
+}
@@ -0,0 +1,156 @@
+import type { RecalibrationPhase } from "../lib/adaptationWeights";
+import type { RecalibrationActionType } from "../lib/recalibrationActions";
+import type { PrimaryOutcome, SessionOutcome } from "../lib/recommendationFeedback";
+import type { SandboxScenarioName } from "../lib/recalibrationScenarioPresets";
+
+/**
+ * JSON-authored recalibration scenarios:
+ * - `preset` seeds the loop with one of the sandbox presets, exactly as the dashboard's scenario
+ *   picker does; `warmup` on-plan sessions are logged first so the preset has a baseline to edit
+ *   (presets that script their own history replace the warmup history)
+ * - `sessions` is the script of closed sessions, one per tick, cycled when shorter than `ticks`;
+ *   every field is optional and defaults to an on-plan, same-day session
+ * - `assertions` are the outcomes the scenario is expected to produce; see ScenarioAssertion
+ */
+
+export type ScenarioSession = {
+  recommendedFocus?: string; // defaults to Push → Pull → Lower by tick
+  actualFocus?: string; // defaults to the recommended focus
+  completion?: SessionOutcome;
+  substitutions?: number;
+  missed?: number;
+  extras?: number;
+  delayDays?: number;
+  primaryOutcome?: PrimaryOutcome;
+};
+
+/**
+ * - phase_at / final_phase check the phase a tick ended in
+ * - reaches / never / sequence check every phase a tick passed through, so the tick that executes
+ *   a recalibration counts as suggested → recalibrating → probation
+ * - executes counts executed actions (optionally of one type); without `count` one is enough
+ */
+export type ScenarioAssertion =
+  | { kind: "phase_at"; tick: number; phase: RecalibrationPhase }
+  | { kind: "final_phase"; phase: RecalibrationPhase }
+  | { kind: "reaches"; phase: RecalibrationPhase; by?: number }
+  | { kind: "never"; phase: RecalibrationPhase }
+  | { kind: "sequence"; phases: RecalibrationPhase[] }
+  | { kind: "executes"; action?: RecalibrationActionType; count?: number };
+
+export type RecalibrationScenario = {
+  name: string;
+  description: string;
+  preset: SandboxScenarioName;
+  startDate: string; // YYYY-MM-DD of tick 0
+  warmup: number;
+  ticks: number;
+  sessions: ScenarioSession[];
+  assertions: ScenarioAssertion[];
+};
+
+export const RECALIBRATION_PHASES: RecalibrationPhase[] = ["stable", "watch", "suggested", "recalibrating", "probation"];
+
+const PRESETS: SandboxScenarioName[] = ["baseline", "prediction_drift", "exercise_identity_drift", "adaptation_failure", "false_alarm"];
+const COMPLETIONS: SessionOutcome[] = ["as_prescribed", "modified", "partial", "abandoned"];
+const PRIMARY_OUTCOMES: PrimaryOutcome[] = ["progressed", "matched", "regressed", "unknown"];
+const ACTION_TYPES: RecalibrationActionType[] = [
+  "prediction_confidence_damp",
+  "prediction_expectation_reset",
+  "adaptation_bias_reset",
+  "fingerprint_window_shorten",
+  "exercise_identity_remerge",
+];
+const SESSION_KEYS = ["recommendedFocus", "actualFocus", "completion", "substitutions", "missed", "extras", "delayDays", "primaryOutcome"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function oneOf<T extends string>(value: unknown, allowed: T[], where: string): T {
+  if (typeof value !== "string" || !allowed.includes(value as T)) {
+    throw new Error(`${where} must be one of ${allowed.join(", ")} (got ${JSON.stringify(value)}).`);
+  }
+  return value as T;
+}
+
+function count(value: unknown, where: string, fallback?: number): number {
+  if (value == null && fallback != null) return fallback;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) throw new Error(`${where} must be a whole number ≥ 0.`);
+  return value;
+}
+
+function parseSession(raw: unknown, where: string): ScenarioSession {
+  if (!isRecord(raw)) throw new Error(`${where} must be an object.`);
+  const unknown = Object.keys(raw).filter((key) => !SESSION_KEYS.includes(key));
+  if (unknown.length) throw new Error(`${where} has unknown field${unknown.length === 1 ? "" : "s"} ${unknown.join(", ")}.`);
+  const session: ScenarioSession = {};
+  if (raw.recommendedFocus != null) session.recommendedFocus = String(raw.recommendedFocus);
+  if (raw.actualFocus != null) session.actualFocus = String(raw.actualFocus);
+  if (raw.completion != null) session.completion = oneOf(raw.completion, COMPLETIONS, `${where}.completion`);
+  if (raw.primaryOutcome != null) session.primaryOutcome = oneOf(raw.primaryOutcome, PRIMARY_OUTCOMES, `${where}.primaryOutcome`);
+  for (const key of ["substitutions", "missed", "extras", "delayDays"] as const) {
+    if (raw[key] != null) session[key] = count(raw[key], `${where}.${key}`);
+  }
+  return session;
+}
+
+function parseAssertion(raw: unknown, where: string, ticks: number): ScenarioAssertion {
+  if (!isRecord(raw)) throw new Error(`${where} must be an object.`);
+  const phase = () => oneOf(raw.phase, RECALIBRATION_PHASES, `${where}.phase`);
+  const tick = (key: string) => {
+    const value = count(raw[key], `${where}.${key}`);
+    if (value > ticks) throw new Error(`${where}.${key} is past the last tick (${ticks}).`);
+    return value;
+  };
+  switch (raw.kind) {
+    case "phase_at":
+      return { kind: "phase_at", tick: tick("tick"), phase: phase() };
+    case "final_phase":
+      return { kind: "final_phase", phase: phase() };
+    case "reaches":
+      return raw.by == null ? { kind: "reaches", phase: phase() } : { kind: "reaches", phase: phase(), by: tick("by") };
+    case "never":
+      return { kind: "never", phase: phase() };
+    case "sequence": {
+      if (!Array.isArray(raw.phases) || !raw.phases.length) throw new Error(`${where}.phases must be a non-empty list.`);
+      return { kind: "sequence", phases: raw.phases.map((item, idx) => oneOf(item, RECALIBRATION_PHASES, `${where}.phases[${idx}]`)) };
+    }
+    case "executes": {
+      const assertion: ScenarioAssertion = { kind: "executes" };
+      if (raw.action != null) assertion.action = oneOf(raw.action, ACTION_TYPES, `${where}.action`);
+      if (raw.count != null) assertion.count = count(raw.count, `${where}.count`);
+      return assertion;
+    }
+    default:
+      throw new Error(`${where}.kind must be one of phase_at, final_phase, reaches, never, sequence, executes (got ${JSON.stringify(raw.kind)}).`);
+  }
+}
+
+/** Validates a scenario read from JSON; errors name the offending field so authors can fix the file. */
+export function parseRecalibrationScenario(raw: unknown, source: string): RecalibrationScenario {
+  if (!isRecord(raw)) throw new Error(`${source}: scenario must be a JSON object.`);
+  try {
+    if (typeof raw.name !== "string" || !raw.name.trim()) throw new Error("name is required.");
+    const startDate = raw.startDate ?? "2026-01-05";
+    if (typeof startDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(startDate)) throw new Error("startDate must be YYYY-MM-DD.");
+    const ticks = count(raw.ticks, "ticks");
+    if (ticks < 1) throw new Error("ticks must be at least 1.");
+    const sessions = raw.sessions == null ? [] : raw.sessions;
+    if (!Array.isArray(sessions)) throw new Error("sessions must be a list.");
+    const assertions = raw.assertions == null ? [] : raw.assertions;
+    if (!Array.isArray(assertions)) throw new Error("assertions must be a list.");
+    return {
+      name: raw.name,
+      description: typeof raw.description === "string" ? raw.description : "",
+      preset: oneOf(raw.preset ?? "baseline", PRESETS, "preset"),
+      startDate,
+      warmup: count(raw.warmup, "warmup", 6),
+      ticks,
+      sessions: sessions.map((session, idx) => parseSession(session, `sessions[${idx}]`)),
+      assertions: assertions.map((assertion, idx) => parseAssertion(assertion, `assertions[${idx}]`, ticks)),
+    };
+  } catch (err) {
+    throw new Error(`${source}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
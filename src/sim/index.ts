@@ -0,0 +1,20 @@
+import { renderSimulationReport, summarizeSimulation, type SimulationSummary } from "./report";
+import { DEFAULT_SIMULATION_OPTIONS, simulateUser, type SimulationOptions, type SimulationResult } from "./simulator";
+import { PERSONA_NAMES, SYNTHETIC_PERSONAS, type PersonaName } from "./syntheticUsers";
+
+export { PERSONA_NAMES, SYNTHETIC_PERSONAS, DEFAULT_SIMULATION_OPTIONS, simulateUser, summarizeSimulation, renderSimulationReport };
+export type { PersonaName, SimulationOptions, SimulationResult, SimulationSummary };
+
+export type SimulationRun = {
+  results: SimulationResult[];
+  summaries: SimulationSummary[];
+  report: string;
+};
+
+/** Entry point for `npm run simulate`: runs the requested personas in order and renders one report. */
+export function runSimulation(personas: PersonaName[] = PERSONA_NAMES, options: Partial<SimulationOptions> = {}): SimulationRun {
+  const unknown = personas.filter((name) => !SYNTHETIC_PERSONAS[name]);
+  if (unknown.length) throw new Error(`Unknown persona: ${unknown.join(", ")}. Known: ${PERSONA_NAMES.join(", ")}.`);
+  const results = personas.map((name) => simulateUser(SYNTHETIC_PERSONAS[name], options));
+  return { results, summaries: results.map(summarizeSimulation), report: renderSimulationReport(results) };
+}
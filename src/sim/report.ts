@@ -0,0 +1,199 @@
+import { ALL_SLOTS, type Slot } from "../lib/slotTypes";
+import type { SimSession, SimulationResult } from "./simulator";
+
+/**
+ * Turns simulator runs into a markdown report. Each persona gets the same four sections
+ * (focus rotation, slot coverage, movement debt, load progression) plus a short flag list,
+ * so two reports from different engine versions can be diffed section by section.
+ */
+
+export type SimulationSummary = {
+  persona: string;
+  sessions: number;
+  focusCounts: Record<string, number>;
+  longestFocusStreak: number;
+  uncoveredSlots: Slot[];
+  stalledExercises: string[];
+  topDebtLane: string | null;
+  flags: string[];
+};
+
+type LoadTrack = {
+  key: string;
+  name: string;
+  exposures: Array<{ day: string; topLoad: number; topReps: number; bestE1: number }>;
+};
+
+function oneRmEpley(weight: number, reps: number): number {
+  return Math.round(weight * (1 + reps / 30));
+}
+
+function pct(from: number, to: number): string {
+  if (!from) return "—";
+  const change = ((to - from) / from) * 100;
+  return `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`;
+}
+
+function longestStreak(sessions: SimSession[]): number {
+  let best = 0;
+  let run = 0;
+  sessions.forEach((session, idx) => {
+    run = idx > 0 && sessions[idx - 1].focus === session.focus ? run + 1 : 1;
+    best = Math.max(best, run);
+  });
+  return best;
+}
+
+function loadTracks(sessions: SimSession[]): LoadTrack[] {
+  const tracks = new Map<string, LoadTrack>();
+  for (const session of sessions) {
+    for (const ex of session.exercises) {
+      const top = ex.sets.reduce((best, st) => (st.load > best.load || (st.load === best.load && st.reps > best.reps) ? st : best), ex.sets[0]);
+      const track = tracks.get(ex.key) ?? { key: ex.key, name: ex.name, exposures: [] };
+      track.exposures.push({
+        day: session.day,
+        topLoad: top.load,
+        topReps: top.reps,
+        bestE1: Math.max(...ex.sets.map((st) => oneRmEpley(st.load, st.reps))),
+      });
+      tracks.set(ex.key, track);
+    }
+  }
+  return [...tracks.values()].sort((a, b) => b.exposures.length - a.exposures.length || a.name.localeCompare(b.name));
+}
+
+/** Stalled = four or more exposures whose last four never beat the load of the first of them. */
+function isStalled(track: LoadTrack): boolean {
+  if (track.exposures.length < 4) return false;
+  const last = track.exposures.slice(-4);
+  return last.every((exposure) => exposure.topLoad <= last[0].topLoad) && last[3].bestE1 <= last[0].bestE1;
+}
+
+export function summarizeSimulation(result: SimulationResult): SimulationSummary {
+  const focusCounts: Record<string, number> = { Push: 0, Pull: 0, Lower: 0 };
+  for (const session of result.sessions) focusCounts[session.focus] = (focusCounts[session.focus] ?? 0) + 1;
+
+  const filled = new Set(result.sessions.flatMap((session) => session.exercises.map((ex) => ex.slot)).filter(Boolean));
+  const uncoveredSlots = ALL_SLOTS.filter((slot) => !filled.has(slot));
+  const stalledExercises = loadTracks(result.sessions).filter(isStalled).map((track) => track.name);
+  const longestFocusStreak = longestStreak(result.sessions);
+
+  const flags: string[] = [];
+  if (!result.sessions.length) flags.push("No sessions were completed.");
+  const noCandidates = ALL_SLOTS.filter((slot) => result.eligibleCandidates[slot] === 0);
+  if (noCandidates.length) flags.push(`No eligible candidates for ${noCandidates.join(", ")}.`);
+  if (uncoveredSlots.length && result.sessions.length >= 9) flags.push(`Never filled: ${uncoveredSlots.join(", ")}.`);
+  if (longestFocusStreak >= 3) flags.push(`Same focus ${longestFocusStreak} sessions in a row.`);
+  const totalFocus = Object.values(focusCounts).reduce((acc, n) => acc + n, 0);
+  for (const [focus, count] of Object.entries(focusCounts)) {
+    if (totalFocus >= 9 && count / totalFocus < 0.2) flags.push(`${focus} is under-rotated (${count} of ${totalFocus} sessions).`);
+  }
+  if (stalledExercises.length) flags.push(`Stalled: ${stalledExercises.join(", ")}.`);
+
+  return {
+    persona: result.persona.name,
+    sessions: result.sessions.length,
+    focusCounts,
+    longestFocusStreak,
+    uncoveredSlots,
+    stalledExercises,
+    topDebtLane: result.finalDebt.ranked[0]?.key ?? null,
+    flags,
+  };
+}
+
+function focusSection(result: SimulationResult, summary: SimulationSummary): string[] {
+  const sequence = result.sessions.map((session) => session.focus[0] + (session.focus === "Pull" ? "u" : "")).join(" ");
+  const recommendedRest = result.recommendations.filter((rec) => !rec.trained);
+  return [
+    "### Focus rotation",
+    "",
+    `Sessions: ${summary.sessions} of ${result.recommendations.length} days (${recommendedRest.length} rest days).`,
+    `Counts: Push ${summary.focusCounts.Push ?? 0} • Pull ${summary.focusCounts.Pull ?? 0} • Lower ${summary.focusCounts.Lower ?? 0}. Longest same-focus streak: ${summary.longestFocusStreak}.`,
+    "",
+    `Sequence: ${sequence || "—"}`,
+    "",
+  ];
+}
+
+function slotSection(result: SimulationResult): string[] {
+  const lines = ["### Slot coverage", "", "| Slot | Eligible | Filled | Distinct | Most used |", "| --- | ---: | ---: | ---: | --- |"];
+  for (const slot of ALL_SLOTS) {
+    const uses = result.sessions.flatMap((session) => session.exercises.filter((ex) => ex.slot === slot));
+    const byName = new Map<string, number>();
+    for (const ex of uses) byName.set(ex.name, (byName.get(ex.name) ?? 0) + 1);
+    const top = [...byName.entries()].sort((a, b) => b[1] - a[1])[0];
+    lines.push(`| ${slot} | ${result.eligibleCandidates[slot]} | ${uses.length} | ${byName.size} | ${top ? `${top[0]} (${top[1]})` : "—"} |`);
+  }
+  const unslotted = result.sessions.flatMap((session) => session.exercises.filter((ex) => !ex.slot));
+  if (unslotted.length) lines.push("", `Outside the planned day's slots: ${[...new Set(unslotted.map((ex) => `${ex.name} (${ex.slotLabel})`))].join(", ")}.`);
+  lines.push("");
+  return lines;
+}
+
+function debtSection(result: SimulationResult): string[] {
+  const weekly = result.weeklyTopDebt.map((sample) => `${sample.weekStart} ${sample.lane} (${sample.debtScore.toFixed(1)})`);
+  const lines = ["### Movement debt", "", `Weekly top lane: ${weekly.join(" → ") || "—"}`, "", "| Lane | Debt | Days since hit | Recent sets |", "| --- | ---: | ---: | ---: |"];
+  for (const lane of result.finalDebt.ranked.slice(0, 6)) {
+    lines.push(`| ${lane.key} | ${lane.debtScore.toFixed(1)} | ${lane.daysSinceHit ?? "never"} | ${lane.recentSetVolume} |`);
+  }
+  lines.push("");
+  return lines;
+}
+
+function loadSection(result: SimulationResult): string[] {
+  const lines = [
+    "### Load progression",
+    "",
+    "| Exercise | Exposures | First | Last | Logged e1RM | Hidden e1RM | |",
+    "| --- | ---: | --- | --- | --- | --- | --- |",
+  ];
+  for (const track of loadTracks(result.sessions)) {
+    const first = track.exposures[0];
+    const last = track.exposures[track.exposures.length - 1];
+    const hidden = result.strength[track.key];
+    lines.push(
+      `| ${track.name} | ${track.exposures.length} | ${first.topLoad} x ${first.topReps} | ${last.topLoad} x ${last.topReps} | ${first.bestE1} → ${last.bestE1} (${pct(first.bestE1, last.bestE1)}) | ${
+        hidden ? `${hidden.start} → ${hidden.end}` : "—"
+      } | ${isStalled(track) ? "stalled" : ""} |`
+    );
+  }
+  const tags = new Map<string, number>();
+  for (const ex of result.sessions.flatMap((session) => session.exercises)) {
+    const tag = ex.eventTag ?? ex.progressionAction;
+    if (tag) tags.set(tag, (tags.get(tag) ?? 0) + 1);
+  }
+  if (tags.size) {
+    lines.push("", `Events: ${[...tags.entries()].sort((a, b) => b[1] - a[1]).map(([tag, n]) => `${tag} ${n}`).join(" • ")}`);
+  }
+  lines.push("");
+  return lines;
+}
+
+export function renderSimulationReport(results: SimulationResult[]): string {
+  const lines = ["# Brain engine simulation", ""];
+  const options = results[0]?.options;
+  if (options) lines.push(`${options.weeks} weeks from ${options.startDate}, seed ${options.seed}.`, "");
+
+  const summaries = results.map(summarizeSimulation);
+  lines.push("| Persona | Sessions | Push/Pull/Lower | Top debt | Flags |", "| --- | ---: | --- | --- | ---: |");
+  for (const summary of summaries) {
+    lines.push(
+      `| ${summary.persona} | ${summary.sessions} | ${summary.focusCounts.Push ?? 0}/${summary.focusCounts.Pull ?? 0}/${summary.focusCounts.Lower ?? 0} | ${
+        summary.topDebtLane ?? "—"
+      } | ${summary.flags.length} |`
+    );
+  }
+  lines.push("");
+
+  results.forEach((result, idx) => {
+    const summary = summaries[idx];
+    lines.push(`## ${result.persona.label}`, "");
+    if (summary.flags.length) {
+      lines.push(...summary.flags.map((flag) => `- ${flag}`), "");
+    }
+    lines.push(...focusSection(result, summary), ...slotSection(result), ...debtSection(result), ...loadSection(result));
+  });
+
+  return lines.join("\n");
+}
@@ -0,0 +1,454 @@
+import {
+  computeBrainSnapshot,
+  resolveTrainingSplit,
+  type BrainFocus,
+  type BrainInput,
+  type BrainSnapshot,
+  type ExerciseHistory,
+  type FocusCounts,
+} from "../lib/brainEngine";
+import { DEFAULT_EQUIPMENT_PROFILE } from "../lib/equipmentRegistry";
+import { resolveExerciseKey } from "../lib/exerciseCompat";
+import { focusFromExerciseKey } from "../lib/exerciseFocusMap";
+import { getExerciseByKey, setProgressionModelChoices } from "../lib/exerciseRegistry";
+import type { InjuryRecord } from "../lib/injuryLog";
+import { computeMovementDebtSnapshot, type MovementDebtSnapshot } from "../lib/movementDebt";
+import type { ProgressionAction } from "../lib/progressionModels";
+import {
+  candidatesForSlot,
+  setActiveEquipmentProfile,
+  setActiveExerciseControls,
+  setActiveInjuries,
+  setActivePreferenceMemory,
+} from "../lib/slotEngine";
+import { ALL_SLOTS, type Slot } from "../lib/slotTypes";
+import { createRng, personaSeed, type Rng, type SyntheticPersona } from "./syntheticUsers";
+
+/**
+ * Headless day-by-day simulation of the coaching engine:
+ * - every simulated day builds a BrainInput from the synthetic log the same way the dashboard
+ *   does (9-session focus window, newest-first exercise history, 7/14-day coach totals)
+ * - on training days the recommendation is "performed" against a hidden per-exercise e1RM:
+ *   reps fall out of Epley at the prescribed load, with sleep-driven day form and set fatigue
+ * - slot-engine module state (equipment, injuries, preferences, controls) is set per persona
+ *   and reset afterwards, so runs don't leak into each other
+ */
+
+export type SimSet = {
+  load: number;
+  reps: number;
+};
+
+export type SimExercise = {
+  key: string;
+  name: string;
+  slot: Slot | null;
+  slotLabel: string;
+  prescribedSets: string;
+  prescribedReps: string;
+  prescribedLoad: number | null;
+  progressionAction: ProgressionAction | null;
+  eventTag: string | null;
+  sets: SimSet[];
+};
+
+export type SimSession = {
+  day: string;
+  focus: Exclude<BrainFocus, "Mixed">;
+  title: string;
+  plannedDayId: string | null;
+  plannedDayName: string | null;
+  exercises: SimExercise[];
+};
+
+export type SimRecommendation = {
+  day: string;
+  trained: boolean;
+  focus: Exclude<BrainFocus, "Mixed">;
+  title: string;
+  readiness: number;
+  constrainingInjuries: number;
+  exerciseKeys: string[];
+};
+
+export type SimDebtSample = {
+  weekStart: string;
+  lane: string;
+  debtScore: number;
+};
+
+export type SimulationOptions = {
+  weeks: number;
+  seed: number;
+  startDate: string; // YYYY-MM-DD, ideally a Monday
+};
+
+export type SimulationResult = {
+  persona: SyntheticPersona;
+  options: SimulationOptions;
+  recommendations: SimRecommendation[];
+  sessions: SimSession[];
+  eligibleCandidates: Record<Slot, number>;
+  weeklyTopDebt: SimDebtSample[];
+  finalDebt: MovementDebtSnapshot;
+  strength: Record<string, { start: number; end: number }>;
+};
+
+/** Observes each simulated day before it is trained; used to record fixtures from a run. */
+export type SimulationDayHook = (day: { day: string; input: BrainInput; snapshot: BrainSnapshot; trained: boolean }) => void;
+
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+  weeks: 12,
+  seed: 60,
+  startDate: "2026-01-05",
+};
+
+const ROLE_BASELINE_E1RM: Record<string, number> = {
+  anchor: 225,
+  primary: 165,
+  secondary: 115,
+  accessory: 60,
+  pump: 35,
+};
+
+function addDays(ymd: string, days: number): string {
+  const d = new Date(`${ymd}T00:00:00`);
+  d.setDate(d.getDate() + days);
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+function daysBetween(fromYmd: string, toYmd: string): number {
+  const from = new Date(`${fromYmd}T00:00:00`).getTime();
+  const to = new Date(`${toYmd}T00:00:00`).getTime();
+  return Math.round((to - from) / 86400000);
+}
+
+function weekdayIndex(ymd: string): number {
+  return (new Date(`${ymd}T00:00:00`).getDay() + 6) % 7;
+}
+
+function oneRmEpley(weight: number, reps: number): number {
+  return Math.round(weight * (1 + reps / 30));
+}
+
+function dominantFocusFromCounts(counts: FocusCounts): BrainFocus {
+  const entries: Array<[BrainFocus, number]> = [
+    ["Push", counts.Push],
+    ["Pull", counts.Pull],
+    ["Lower", counts.Lower],
+    ["Mixed", counts.Mixed],
+  ];
+  entries.sort((a, b) => b[1] - a[1]);
+  if (entries[0][1] === 0) return "Mixed";
+  if (entries[1][1] === entries[0][1]) return "Mixed";
+  return entries[0][0];
+}
+
+function sessionFocus(session: SimSession): BrainFocus {
+  const counts: FocusCounts = { Push: 0, Pull: 0, Lower: 0, Mixed: 0 };
+  for (const ex of session.exercises) counts[focusFromExerciseKey(ex.key)] += 1;
+  return dominantFocusFromCounts(counts);
+}
+
+function parseRepRange(reps: string): { min: number; max: number } {
+  const numbers = (reps.match(/\d+/g) ?? []).map(Number);
+  if (!numbers.length) return { min: 8, max: 8 };
+  return { min: numbers[0], max: numbers[numbers.length - 1] };
+}
+
+function parseSetCount(sets: string): number {
+  const numbers = (sets.match(/\d+/g) ?? []).map(Number);
+  return numbers.length ? numbers[numbers.length - 1] : 3;
+}
+
+function parseLoad(load: string): number | null {
+  const match = /([\d.]+)\s*lb/.exec(load);
+  const value = match ? Number(match[1]) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function roundLoad(load: number): number {
+  const step = load >= 50 ? 5 : 2.5;
+  return Math.max(step, Math.round(load / step) * step);
+}
+
+function baselineE1rm(key: string, persona: SyntheticPersona): number {
+  const meta = getExerciseByKey(key);
+  const role = meta?.roleTags.find((tag) => ROLE_BASELINE_E1RM[tag] != null);
+  const base = role ? ROLE_BASELINE_E1RM[role] : 80;
+  return base * (meta?.unilateral ? 0.5 : 1) * persona.strength;
+}
+
+export function injuryRecordsFor(persona: SyntheticPersona, startDate: string): InjuryRecord[] {
+  return persona.injuries.map((episode, idx) => {
+    const startedOn = addDays(startDate, episode.startDay);
+    return {
+      id: `sim_injury_${idx + 1}`,
+      user_id: "sim",
+      region: episode.region,
+      side: null,
+      severity: episode.severity,
+      started_on: startedOn,
+      return_started_on: addDays(startedOn, episode.returnAfterDays),
+      resolved_on: addDays(startedOn, episode.resolveAfterDays),
+      notes: null,
+      updatedAt: 0,
+    };
+  });
+}
+
+function buildExerciseHistory(completed: SimSession[], today: string): ExerciseHistory[] {
+  const map = new Map<string, ExerciseHistory>();
+  for (const session of completed) {
+    for (const ex of session.exercises) {
+      if (map.has(ex.key)) continue;
+      let lastLoad: number | null = null;
+      let lastReps: number | null = null;
+      let bestE1: number | null = null;
+      for (const st of ex.sets) {
+        if (lastLoad == null || st.load > lastLoad) {
+          lastLoad = st.load;
+          lastReps = st.reps;
+        }
+        const e1 = oneRmEpley(st.load, st.reps);
+        if (bestE1 == null || e1 > bestE1) bestE1 = e1;
+      }
+
+      const recentTopSetE1RMs: number[] = [];
+      const recentAvgSetReps: number[] = [];
+      for (const scan of completed) {
+        const sets = scan.exercises.filter((scanEx) => scanEx.key === ex.key).flatMap((scanEx) => scanEx.sets);
+        if (!sets.length) continue;
+        recentTopSetE1RMs.push(Math.max(...sets.map((st) => oneRmEpley(st.load, st.reps))));
+        recentAvgSetReps.push(sets.reduce((acc, st) => acc + st.reps, 0) / sets.length);
+        if (recentTopSetE1RMs.length >= 3) break;
+      }
+      recentTopSetE1RMs.reverse();
+      recentAvgSetReps.reverse();
+
+      map.set(ex.key, {
+        key: ex.key,
+        name: ex.name,
+        focus: focusFromExerciseKey(ex.key),
+        lastLoad,
+        lastReps,
+        recentSets: ex.sets.length,
+        recentBestE1RM: bestE1,
+        lastPerformedDaysAgo: daysBetween(session.day, today),
+        recentTopSetE1RMs,
+        recentAvgSetReps,
+      });
+    }
+  }
+  return [...map.values()];
+}
+
+function buildBrainInput(sessions: SimSession[], sleepLog: number[], proteinLog: number[], today: string): BrainInput {
+  const completed = [...sessions].reverse();
+  const recentFocusCounts: FocusCounts = { Push: 0, Pull: 0, Lower: 0, Mixed: 0 };
+  const focusWindow = completed.slice(0, 9);
+  for (const session of focusWindow) recentFocusCounts[sessionFocus(session)] += 1;
+
+  const totals = (fromDaysAgo: number, toDaysAgo: number) => {
+    const inWindow = completed.filter((session) => {
+      const ago = daysBetween(session.day, today);
+      return ago >= fromDaysAgo && ago <= toDaysAgo;
+    });
+    const sets = inWindow.flatMap((session) => session.exercises.flatMap((ex) => ex.sets));
+    return {
+      sessions: inWindow.length,
+      tonnage: Math.round(sets.reduce((acc, st) => acc + st.load * st.reps, 0)),
+      sets: sets.length,
+    };
+  };
+  const thisWeek = totals(0, 6);
+  const prevWeek = totals(7, 13);
+  const average = (values: number[]) => (values.length ? values.reduce((acc, v) => acc + v, 0) / values.length : null);
+
+  return {
+    sleepAvg7: average(sleepLog.slice(-7)),
+    proteinAvg7: average(proteinLog.slice(-7)),
+    trainingDays28: new Set(completed.filter((session) => daysBetween(session.day, today) < 28).map((session) => session.day)).size,
+    weeklyCoach: {
+      sessionsThis: thisWeek.sessions,
+      sessionsPrev: prevWeek.sessions,
+      tonnageThis: thisWeek.tonnage,
+      tonnagePrev: prevWeek.tonnage,
+      setsThis: thisWeek.sets,
+      setsPrev: prevWeek.sets,
+    },
+    recentFocusCounts,
+    lastSessionFocus: focusWindow.length ? sessionFocus(focusWindow[0]) : null,
+    exerciseHistory: buildExerciseHistory(completed, today),
+    recentSessionTitles: completed.map((session) => session.title),
+    recentCompletedSplitDays: completed.map((session) => ({ dayId: session.plannedDayId, dayName: session.plannedDayName })),
+  };
+}
+
+function assignSlots(keys: string[], plannedDayId: string | null, focus: Exclude<BrainFocus, "Mixed">): Array<Slot | null> {
+  const split = resolveTrainingSplit(null);
+  const daySlots = split.days.find((day) => day.id === plannedDayId)?.slots ?? split.days.find((day) => day.name === focus)?.slots ?? [];
+  const open = [...daySlots];
+  return keys.map((key) => {
+    const allowed = getExerciseByKey(key)?.allowedSlots ?? [];
+    const idx = open.findIndex((slot) => allowed.includes(slot));
+    if (idx < 0) return null;
+    return open.splice(idx, 1)[0];
+  });
+}
+
+export function resetEngineState(): void {
+  setActivePreferenceMemory([]);
+  setActiveExerciseControls([]);
+  setProgressionModelChoices({});
+  setActiveInjuries([]);
+  setActiveEquipmentProfile(DEFAULT_EQUIPMENT_PROFILE);
+}
+
+function performExercise(
+  ex: Omit<SimExercise, "sets">,
+  truth: Map<string, { e1rm: number; lastDay: string | null }>,
+  persona: SyntheticPersona,
+  day: string,
+  form: number,
+  rng: Rng
+): SimSet[] {
+  const state = truth.get(ex.key) ?? { e1rm: baselineE1rm(ex.key, persona), lastDay: null };
+  if (state.lastDay && daysBetween(state.lastDay, day) > 14) state.e1rm *= 0.97;
+
+  const { min, max } = parseRepRange(ex.prescribedReps);
+  const capacity = state.e1rm * form;
+  // Unknown loads are picked the way a lifter would: roughly two reps shy of failure at the top of the range.
+  let load = ex.prescribedLoad ?? roundLoad(capacity / (1 + (max + 2) / 30));
+  if (30 * (capacity / load - 1) < 1) load = roundLoad(capacity / (1 + min / 30));
+
+  const sets: SimSet[] = [];
+  const setCount = parseSetCount(ex.prescribedSets);
+  for (let i = 0; i < setCount; i++) {
+    if (!rng.chance(persona.setAdherence)) continue;
+    const possible = Math.floor(30 * (capacity / load - 1) - i);
+    const reps = Math.min(max, possible);
+    if (reps < 1) break;
+    sets.push({ load, reps });
+  }
+
+  if (sets.length) {
+    const quality = sets.filter((st) => st.reps >= min).length / setCount;
+    state.e1rm *= 1 + persona.gainRate * quality;
+    state.lastDay = day;
+  }
+  truth.set(ex.key, state);
+  return sets;
+}
+
+export function simulateUser(
+  persona: SyntheticPersona,
+  overrides: Partial<SimulationOptions> = {},
+  onDay?: SimulationDayHook
+): SimulationResult {
+  const options: SimulationOptions = { ...DEFAULT_SIMULATION_OPTIONS, ...overrides };
+  const rng = createRng(personaSeed(options.seed, persona.name));
+  const injuries = injuryRecordsFor(persona, options.startDate);
+  const truth = new Map<string, { e1rm: number; lastDay: string | null }>();
+  const startingE1rm = new Map<string, number>();
+  const sessions: SimSession[] = [];
+  const recommendations: SimRecommendation[] = [];
+  const weeklyTopDebt: SimDebtSample[] = [];
+  const sleepLog: number[] = [];
+  const proteinLog: number[] = [];
+
+  resetEngineState();
+  setActiveEquipmentProfile(persona.equipment);
+  const eligibleCandidates = Object.fromEntries(ALL_SLOTS.map((slot) => [slot, candidatesForSlot(slot).length])) as Record<Slot, number>;
+
+  try {
+    let skipWeek = false;
+    for (let offset = 0; offset < options.weeks * 7; offset++) {
+      const day = addDays(options.startDate, offset);
+      const weekday = weekdayIndex(day);
+      if (weekday === 0 || offset === 0) skipWeek = rng.chance(persona.weekSkipOdds);
+
+      setActiveInjuries(injuries, day);
+      const input = buildBrainInput(sessions, sleepLog, proteinLog, day);
+      if (weekday === 0) {
+        const debt = computeMovementDebtSnapshot({ exerciseHistory: input.exerciseHistory });
+        const top = debt.ranked[0];
+        if (top) weeklyTopDebt.push({ weekStart: day, lane: top.key, debtScore: top.debtScore });
+      }
+
+      const snapshot = computeBrainSnapshot(input);
+      const session = snapshot.recommendedSession;
+      const trained = !skipWeek && rng.chance(persona.weekdayTrainingOdds[weekday]);
+      onDay?.({ day, input, snapshot, trained });
+      const keys = session.exercises.map((ex) => resolveExerciseKey(ex.name));
+      recommendations.push({
+        day,
+        trained,
+        focus: session.focus,
+        title: session.title,
+        readiness: snapshot.readiness.score,
+        constrainingInjuries: injuries.filter((injury) => injury.started_on <= day && !(injury.resolved_on && injury.resolved_on <= day)).length,
+        exerciseKeys: keys,
+      });
+
+      const sleep = Math.max(4, Math.min(10, rng.normal(persona.sleepMean, persona.sleepSpread)));
+      sleepLog.push(Math.round(sleep * 10) / 10);
+      proteinLog.push(Math.max(40, Math.round(rng.normal(persona.proteinMean, persona.proteinSpread))));
+      if (!trained) continue;
+
+      const form = 1 + (sleep - 7.5) * 0.015 + rng.normal(0, 0.025);
+      const slots = assignSlots(keys, session.plannedDayId, session.focus);
+      const exercises: SimExercise[] = [];
+      session.exercises.forEach((ex, idx) => {
+        const key = keys[idx];
+        if (!truth.has(key)) startingE1rm.set(key, baselineE1rm(key, persona));
+        const planned: Omit<SimExercise, "sets"> = {
+          key,
+          name: ex.name,
+          slot: slots[idx],
+          slotLabel: ex.slot,
+          prescribedSets: ex.sets,
+          prescribedReps: ex.reps,
+          prescribedLoad: parseLoad(ex.load),
+          progressionAction: ex.progressionAction ?? null,
+          eventTag: ex.eventTag ?? null,
+        };
+        const sets = performExercise(planned, truth, persona, day, form, rng);
+        if (sets.length) exercises.push({ ...planned, sets });
+      });
+      if (!exercises.length) continue;
+
+      sessions.push({
+        day,
+        focus: session.focus,
+        title: session.title,
+        plannedDayId: session.plannedDayId,
+        plannedDayName: session.plannedDayName,
+        exercises,
+      });
+    }
+
+    const endDay = addDays(options.startDate, options.weeks * 7);
+    const finalInput = buildBrainInput(sessions, sleepLog, proteinLog, endDay);
+    const strength: SimulationResult["strength"] = {};
+    for (const [key, state] of truth) {
+      strength[key] = { start: Math.round(startingE1rm.get(key) ?? state.e1rm), end: Math.round(state.e1rm) };
+    }
+
+    return {
+      persona,
+      options,
+      recommendations,
+      sessions,
+      eligibleCandidates,
+      weeklyTopDebt,
+      finalDebt: computeMovementDebtSnapshot({ exerciseHistory: finalInput.exerciseHistory }),
+      strength,
+    };
+  } finally {
+    resetEngineState();
+  }
+}
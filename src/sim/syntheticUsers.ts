@@ -0,0 +1,146 @@
+import type { EquipmentProfile } from "../lib/equipmentTypes";
+import { DEFAULT_EQUIPMENT_PROFILE } from "../lib/equipmentRegistry";
+import type { BodyRegion } from "../lib/exerciseTypes";
+import type { InjurySeverity } from "../lib/injuryLog";
+
+/**
+ * Synthetic users for the headless simulator:
+ * - a persona is a schedule (which days it tries to train), an adherence level, lifestyle
+ *   inputs (sleep, protein) and a strength curve; everything random draws from a seeded PRNG
+ *   so a persona + seed always replays the same history
+ * - injury episodes are offsets from the simulation start; they are turned into InjuryRecords
+ *   and pushed through the same slot-engine state the app uses
+ */
+
+export type PersonaName = "consistent" | "sporadic" | "injury_prone" | "band_only";
+
+export type InjuryEpisode = {
+  region: BodyRegion;
+  severity: InjurySeverity;
+  startDay: number; // days after the simulation start
+  returnAfterDays: number; // days active before the graded return starts
+  resolveAfterDays: number; // days after start when it is marked resolved
+};
+
+export type SyntheticPersona = {
+  name: PersonaName;
+  label: string;
+  /** Chance of training on each weekday, Monday first. */
+  weekdayTrainingOdds: [number, number, number, number, number, number, number];
+  /** Chance that a whole week is lost (travel, illness, motivation). */
+  weekSkipOdds: number;
+  /** Chance each prescribed set is actually performed. */
+  setAdherence: number;
+  sleepMean: number;
+  sleepSpread: number;
+  proteinMean: number;
+  proteinSpread: number;
+  /** Multiplier on the baseline e1RMs. */
+  strength: number;
+  /** Fractional e1RM gain per quality exposure. */
+  gainRate: number;
+  equipment: EquipmentProfile;
+  injuries: InjuryEpisode[];
+};
+
+export const SYNTHETIC_PERSONAS: Record<PersonaName, SyntheticPersona> = {
+  consistent: {
+    name: "consistent",
+    label: "Consistent lifter (5 days/week, good sleep)",
+    weekdayTrainingOdds: [0.95, 0.95, 0, 0.95, 0.95, 0.9, 0],
+    weekSkipOdds: 0,
+    setAdherence: 0.97,
+    sleepMean: 7.6,
+    sleepSpread: 0.5,
+    proteinMean: 170,
+    proteinSpread: 15,
+    strength: 1,
+    gainRate: 0.008,
+    equipment: DEFAULT_EQUIPMENT_PROFILE,
+    injuries: [],
+  },
+  sporadic: {
+    name: "sporadic",
+    label: "Sporadic lifter (random days, lost weeks)",
+    weekdayTrainingOdds: [0.4, 0.3, 0.35, 0.3, 0.25, 0.45, 0.2],
+    weekSkipOdds: 0.2,
+    setAdherence: 0.8,
+    sleepMean: 6.4,
+    sleepSpread: 1,
+    proteinMean: 110,
+    proteinSpread: 30,
+    strength: 0.85,
+    gainRate: 0.006,
+    equipment: DEFAULT_EQUIPMENT_PROFILE,
+    injuries: [],
+  },
+  injury_prone: {
+    name: "injury_prone",
+    label: "Injury-prone lifter (shoulder, then knee)",
+    weekdayTrainingOdds: [0.9, 0, 0.9, 0, 0.85, 0.6, 0],
+    weekSkipOdds: 0.05,
+    setAdherence: 0.9,
+    sleepMean: 7,
+    sleepSpread: 0.7,
+    proteinMean: 150,
+    proteinSpread: 20,
+    strength: 0.95,
+    gainRate: 0.007,
+    equipment: DEFAULT_EQUIPMENT_PROFILE,
+    injuries: [
+      { region: "shoulder", severity: 4, startDay: 10, returnAfterDays: 10, resolveAfterDays: 40 },
+      { region: "knee", severity: 3, startDay: 45, returnAfterDays: 7, resolveAfterDays: 30 },
+    ],
+  },
+  band_only: {
+    name: "band_only",
+    label: "Band-only home lifter (bands + bodyweight)",
+    weekdayTrainingOdds: [0.9, 0, 0.9, 0, 0.9, 0.5, 0],
+    weekSkipOdds: 0.05,
+    setAdherence: 0.92,
+    sleepMean: 7.2,
+    sleepSpread: 0.6,
+    proteinMean: 140,
+    proteinSpread: 20,
+    strength: 0.6,
+    gainRate: 0.006,
+    equipment: { version: 1, available: ["resistance_bands", "bodyweight_space"] },
+    injuries: [],
+  },
+};
+
+export const PERSONA_NAMES = Object.keys(SYNTHETIC_PERSONAS) as PersonaName[];
+
+export type Rng = {
+  next: () => number; // [0, 1)
+  chance: (odds: number) => boolean;
+  normal: (mean: number, spread: number) => number;
+};
+
+/** mulberry32: tiny, fast and good enough for reproducible noise. */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    chance: (odds) => next() < odds,
+    normal: (mean, spread) => {
+      const u = Math.max(next(), 1e-9);
+      const v = next();
+      return mean + spread * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    },
+  };
+}
+
+/** Derives a per-persona seed so personas in one run don't share a noise stream. */
+export function personaSeed(seed: number, name: PersonaName): number {
+  let hash = seed >>> 0;
+  for (const ch of name) hash = Math.imul(hash ^ ch.charCodeAt(0), 16777619) >>> 0;
+  return hash;
+}
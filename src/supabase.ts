@@ -4,3 +4,13 @@ const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Postgres / PostgREST codes for a table the project doesn't have yet (optional tables, pending migrations).
+export function isMissingTableError(error: any): boolean {
+  return error?.code === "42P01" || error?.code === "PGRST205";
+}
+
+// Same for a column added by a migration the project hasn't run.
+export function isMissingColumnError(error: any): boolean {
+  return error?.code === "42703" || error?.code === "PGRST204";
+}
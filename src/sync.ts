@@ -1,6 +1,18 @@
-import { supabase } from "./supabase";
+import { isMissingColumnError, isMissingTableError, supabase } from "./supabase";
 import { localdb, type PendingOp } from "./localdb";
 import { pullSync } from "./pullSync";
+import { processProgressPhotoOp } from "./progressPhotos";
+import {
+  SyncConflictError,
+  assertNoPushConflict,
+  getLocalBaseHash,
+  markRowSynced,
+  recordSyncConflict,
+  resolveSyncConflict,
+  stripLocalRevisionFields,
+  syncConflictId,
+  upsertOpTable
+} from "./syncConflicts";
 
 /**
  * Offline-first sync:
@@ -8,6 +20,10 @@ import { pullSync } from "./pullSync";
  * - autosync processes queued ops when online
  * - poison-pill safe: one bad op won't block the whole queue
  * - cloud pull runs after push so multiple devices converge
+ * - upserts that would overwrite a diverged server row are held as "conflict" (see syncConflicts.ts)
+ * - child ops wait (without burning retries) while their parent op is stuck
+ * - ops whose parent row was deleted are collapsed before each pass
+ * - progress photos queue here too; their blobs live in localPhotos (see progressPhotos.ts)
  */
 
 const MAX_RETRY_COUNT = 3;
@@ -17,7 +33,8 @@ export async function getPendingOpCounts() {
   const queued = items.filter((i) => i.status === "queued").length;
   const retrying = items.filter((i) => i.status === "retry").length;
   const quarantined = items.filter((i) => i.status === "quarantined").length;
-  return { queued, retrying, quarantined, total: items.length };
+  const conflicts = items.filter((i) => i.status === "conflict").length;
+  return { queued, retrying, quarantined, conflicts, total: items.length };
 }
 
 export async function listQuarantinedOps() {
@@ -59,6 +76,7 @@ export async function getSyncHealthReport() {
     queued: diagnostics.filter((i) => i.status === "queued").length,
     retrying: diagnostics.filter((i) => i.status === "retry").length,
     quarantined: diagnostics.filter((i) => i.status === "quarantined").length,
+    conflicts: diagnostics.filter((i) => i.status === "conflict").length,
     total: diagnostics.length,
   };
   const now = Date.now();
@@ -90,14 +108,352 @@ export async function clearQuarantinedOps() {
   return ids.length;
 }
 
-async function must<T>(promise: Promise<{ data: T | null; error: any } | { data?: T; error?: any }>) {
+type OpRowKind = "session" | "exercise" | "set" | "template" | "template_exercise" | "photo";
+
+export type OpRowRef = { kind: OpRowKind; id: string };
+
+export type OpParentState = "none" | "pending_op" | "local" | "deleted" | "missing_ref" | "unknown";
+
+export type PendingOpChainEntry = {
+  id: number | null;
+  op: PendingOp["op"];
+  status: PendingOp["status"];
+  createdAt: number;
+  retryCount: number;
+  lastError: string;
+  payload: any;
+  target: OpRowRef | null;
+  parent: OpRowRef | null;
+  parentState: OpParentState;
+  parentOpId: number | null;
+  childOpIds: number[];
+};
+
+function refKey(ref: OpRowRef) {
+  return `${ref.kind}:${ref.id}`;
+}
+
+function idRef(kind: OpRowKind, value: unknown): OpRowRef | null {
+  return value ? { kind, id: String(value) } : null;
+}
+
+function opTarget(item: PendingOp): OpRowRef | null {
+  const p = item.payload ?? {};
+  switch (item.op) {
+    case "create_workout":
+      return idRef("session", p.id);
+    case "delete_session":
+      return idRef("session", p.session_id);
+    case "insert_exercise":
+      return idRef("exercise", p.id);
+    case "delete_exercise":
+      return idRef("exercise", p.exercise_id);
+    case "insert_set":
+      return idRef("set", p.id);
+    case "delete_set":
+      return idRef("set", p.set_id);
+    case "create_template":
+    case "update_template":
+      return idRef("template", p.id);
+    case "delete_template":
+      return idRef("template", p.template_id);
+    case "insert_template_exercise":
+    case "update_template_exercise":
+      return idRef("template_exercise", p.id);
+    case "delete_template_exercise":
+      return idRef("template_exercise", p.template_exercise_id);
+    case "upload_progress_photo":
+    case "update_progress_photo":
+      return idRef("photo", p.id);
+    case "delete_progress_photo":
+      return idRef("photo", p.photo_id);
+    default:
+      return null;
+  }
+}
+
+// Row the op needs to exist first. Only creates/updates have parents; deletes never wait.
+const PARENT_FIELD: Partial<Record<PendingOp["op"], { kind: OpRowKind; field: string }>> = {
+  insert_exercise: { kind: "session", field: "session_id" },
+  insert_set: { kind: "exercise", field: "exercise_id" },
+  insert_template_exercise: { kind: "template", field: "template_id" },
+  update_template_exercise: { kind: "template", field: "template_id" },
+  update_progress_photo: { kind: "photo", field: "id" },
+};
+
+function opParent(item: PendingOp): OpRowRef | null | undefined {
+  const spec = PARENT_FIELD[item.op];
+  if (!spec) return undefined;
+  return idRef(spec.kind, item.payload?.[spec.field]);
+}
+
+const CREATE_OPS = new Set<PendingOp["op"]>([
+  "create_workout",
+  "insert_exercise",
+  "insert_set",
+  "create_template",
+  "insert_template_exercise",
+  "upload_progress_photo",
+]);
+const DELETE_OPS = new Set<PendingOp["op"]>([
+  "delete_session",
+  "delete_exercise",
+  "delete_set",
+  "delete_template",
+  "delete_template_exercise",
+  "delete_progress_photo",
+]);
+
+async function localRowExists(ref: OpRowRef): Promise<boolean> {
+  switch (ref.kind) {
+    case "session":
+      return !!(await localdb.localSessions.get(ref.id));
+    case "exercise":
+      return !!(await localdb.localExercises.get(ref.id));
+    case "set":
+      return !!(await localdb.localSets.get(ref.id));
+    case "template":
+      return !!(await localdb.localTemplates.get(ref.id));
+    case "template_exercise":
+      return !!(await localdb.localTemplateExercises.get(ref.id));
+    case "photo":
+      return !!(await localdb.localPhotos.get(ref.id));
+  }
+}
+
+async function loadDeletedSessionTombstones(): Promise<Set<string>> {
+  const out = new Set<string>();
+  const rows = await localdb.localSettings.where("key").equals("deleted_session_ids_v1").toArray();
+  for (const row of rows) {
+    try {
+      const ids = JSON.parse(row.value);
+      if (Array.isArray(ids)) for (const id of ids) out.add(String(id));
+    } catch {}
+  }
+  return out;
+}
+
+/**
+ * Links every pending op to the op (or local row) it depends on, e.g.
+ * insert_set -> insert_exercise -> create_workout.
+ */
+export async function buildPendingOpChains(items?: PendingOp[]): Promise<PendingOpChainEntry[]> {
+  const all = (items ?? (await localdb.pendingOps.toArray())).slice().sort((a, b) => a.createdAt - b.createdAt);
+  const tombstones = await loadDeletedSessionTombstones();
+
+  const createOpByTarget = new Map<string, PendingOp>();
+  const deletedTargets = new Set<string>();
+  for (const item of all) {
+    const target = opTarget(item);
+    if (!target) continue;
+    if (CREATE_OPS.has(item.op) && !createOpByTarget.has(refKey(target))) createOpByTarget.set(refKey(target), item);
+    if (DELETE_OPS.has(item.op)) deletedTargets.add(refKey(target));
+  }
+  for (const id of tombstones) deletedTargets.add(refKey({ kind: "session", id }));
+
+  // Where we can tell, an exercise inherits its session's deletion.
+  const isDeleted = async (ref: OpRowRef): Promise<boolean> => {
+    if (deletedTargets.has(refKey(ref))) return true;
+    if (ref.kind !== "exercise") return false;
+    const sessionId =
+      createOpByTarget.get(refKey(ref))?.payload?.session_id ?? (await localdb.localExercises.get(ref.id))?.session_id ?? null;
+    return !!sessionId && deletedTargets.has(refKey({ kind: "session", id: String(sessionId) }));
+  };
+
+  const entries: PendingOpChainEntry[] = [];
+  for (const item of all) {
+    const parent = opParent(item);
+    let parentState: OpParentState = "none";
+    let parentOpId: number | null = null;
+
+    if (parent === null) {
+      parentState = "missing_ref";
+    } else if (parent) {
+      const parentOp = createOpByTarget.get(refKey(parent));
+      if (await isDeleted(parent)) parentState = "deleted";
+      else if (parentOp && parentOp !== item) {
+        parentState = "pending_op";
+        parentOpId = parentOp.id ?? null;
+      } else if (await localRowExists(parent)) parentState = "local";
+      else parentState = "unknown";
+    }
+
+    entries.push({
+      id: item.id ?? null,
+      op: item.op,
+      status: item.status,
+      createdAt: item.createdAt,
+      retryCount: item.retryCount ?? 0,
+      lastError: item.lastError ?? "",
+      payload: item.payload,
+      target: opTarget(item),
+      parent: parent ?? null,
+      parentState,
+      parentOpId,
+      childOpIds: [],
+    });
+  }
+
+  const byId = new Map(entries.filter((e) => e.id != null).map((e) => [e.id as number, e]));
+  for (const entry of entries) {
+    if (entry.parentOpId != null && entry.id != null) byId.get(entry.parentOpId)?.childOpIds.push(entry.id);
+  }
+  return entries;
+}
+
+export function describePendingOpChain(entry: PendingOpChainEntry, entries: PendingOpChainEntry[]): string[] {
+  const byId = new Map(entries.filter((e) => e.id != null).map((e) => [e.id as number, e]));
+  const lines: string[] = [];
+  let current: PendingOpChainEntry | undefined = entry;
+  const seen = new Set<number>();
+  while (current) {
+    const label = `${current.op}${current.target ? ` ${current.target.id.slice(0, 8)}` : ""} (${current.status})`;
+    lines.push(label);
+    if (current.parentState === "deleted") lines.push(`parent ${current.parent?.kind ?? "row"} was deleted`);
+    else if (current.parentState === "missing_ref") lines.push(`missing ${PARENT_FIELD[current.op]?.field ?? "parent id"}`);
+    if (current.parentOpId == null || seen.has(current.parentOpId)) break;
+    seen.add(current.parentOpId);
+    current = byId.get(current.parentOpId);
+  }
+  return lines;
+}
+
+/**
+ * Drops ops whose parent row was deleted (and everything hanging off them).
+ * The parent's own delete op is left in place so the cloud still converges.
+ */
+export async function collapseOrphanedOps(): Promise<number> {
+  const entries = await buildPendingOpChains();
+  const byId = new Map(entries.filter((e) => e.id != null).map((e) => [e.id as number, e]));
+  const doomed = new Set<number>();
+
+  const collect = (entry: PendingOpChainEntry) => {
+    if (entry.id == null || doomed.has(entry.id)) return;
+    doomed.add(entry.id);
+    for (const childId of entry.childOpIds) {
+      const child = byId.get(childId);
+      if (child) collect(child);
+    }
+  };
+
+  for (const entry of entries) {
+    if (entry.parentState !== "deleted") continue;
+    if (entry.target && !DELETE_OPS.has(entry.op) && (await localRowExists(entry.target))) continue;
+    collect(entry);
+  }
+
+  const ids = Array.from(doomed);
+  if (ids.length) await localdb.pendingOps.bulkDelete(ids);
+  return ids.length;
+}
+
+// Fields an upsert op can recover from its local row when the payload lost them.
+const REPAIRABLE_FIELDS: Partial<Record<PendingOp["op"], { kind: OpRowKind; fields: string[] }>> = {
+  create_workout: { kind: "session", fields: ["user_id", "day_date", "started_at", "title"] },
+  insert_exercise: { kind: "exercise", fields: ["session_id", "name", "sort_order"] },
+  insert_set: { kind: "set", fields: ["exercise_id", "set_number", "load_type", "is_warmup"] },
+  insert_template_exercise: { kind: "template_exercise", fields: ["template_id", "name", "sort_order"] },
+  update_template_exercise: { kind: "template_exercise", fields: ["template_id", "name", "sort_order"] },
+};
+
+async function readLocalRow(ref: OpRowRef): Promise<any> {
+  switch (ref.kind) {
+    case "session":
+      return localdb.localSessions.get(ref.id);
+    case "exercise":
+      return localdb.localExercises.get(ref.id);
+    case "set":
+      return localdb.localSets.get(ref.id);
+    case "template":
+      return localdb.localTemplates.get(ref.id);
+    case "template_exercise":
+      return localdb.localTemplateExercises.get(ref.id);
+    case "photo":
+      return localdb.localPhotos.get(ref.id);
+  }
+}
+
+/** Suggests a repaired payload by filling blank fields from the op's local row. */
+export async function suggestPendingOpRepair(id: number): Promise<{ payload: any; changes: string[] } | null> {
+  const item = await localdb.pendingOps.get(id);
+  if (!item) return null;
+  const spec = REPAIRABLE_FIELDS[item.op];
+  const target = opTarget(item);
+  const payload = { ...(item.payload ?? {}) };
+  const changes: string[] = [];
+  if (!spec || !target) return { payload, changes };
+
+  const local = await readLocalRow({ kind: spec.kind, id: target.id });
+  if (!local) return { payload, changes };
+  for (const field of spec.fields) {
+    const current = payload[field];
+    if ((current === undefined || current === null || current === "") && local[field] != null) {
+      payload[field] = local[field];
+      changes.push(`${field} ← ${String(local[field])}`);
+    }
+  }
+  return { payload, changes };
+}
+
+/**
+ * Puts a quarantined/conflicted op back in the queue, optionally with an edited
+ * payload. Stuck ancestors are re-queued too so the chain can drain in order.
+ */
+export async function requeuePendingOp(id: number, payload?: any): Promise<number> {
+  if (payload !== undefined && (!payload || typeof payload !== "object" || Array.isArray(payload))) {
+    throw new Error("Payload must be a JSON object.");
+  }
+  const entries = await buildPendingOpChains();
+  const byId = new Map(entries.filter((e) => e.id != null).map((e) => [e.id as number, e]));
+  // Re-queued as is, it would hit the same diverged server row on the next pass.
+  if (byId.get(id)?.status === "conflict") {
+    throw new Error("This op is held by a sync conflict. Keep this device's or the other device's version instead.");
+  }
+  const reset = { status: "queued" as const, retryCount: 0, lastError: undefined, quarantinedAt: undefined };
+
+  let count = 0;
+  await localdb.transaction("rw", localdb.pendingOps, async () => {
+    await localdb.pendingOps.update(id, payload !== undefined ? { ...reset, payload } : reset);
+    count += 1;
+    let parentId = byId.get(id)?.parentOpId ?? null;
+    const seen = new Set<number>([id]);
+    while (parentId != null && !seen.has(parentId)) {
+      seen.add(parentId);
+      const parent = byId.get(parentId);
+      if (parent?.status === "quarantined") {
+        await localdb.pendingOps.update(parentId, reset);
+        count += 1;
+      }
+      parentId = parent?.parentOpId ?? null;
+    }
+  });
+  return count;
+}
+
+/** Settles a conflicted op through its conflict record, the same as the conflicts panel does. */
+export async function resolvePendingOpConflict(id: number, choice: "local" | "remote"): Promise<void> {
+  const item = await localdb.pendingOps.get(id);
+  const table = item ? upsertOpTable(item.op) : null;
+  const rowId = item?.payload?.id;
+  if (!item || item.status !== "conflict" || !table || !rowId) throw new Error(`Op #${id} is not held by a sync conflict.`);
+  const conflictId = syncConflictId(table, String(rowId));
+  const conflict = await localdb.syncConflicts.get(conflictId);
+  if (conflict?.status !== "open") throw new Error(`No open sync conflict for ${item.op} #${id}. Sync again or discard it.`);
+  await resolveSyncConflict(conflictId, choice);
+}
+
+export async function discardPendingOp(id: number): Promise<void> {
+  await localdb.pendingOps.delete(id);
+}
+
+async function must<T>(promise: PromiseLike<{ data: T | null; error: any } | { data?: T; error?: any }>) {
   const result: any = await promise;
   if (result?.error) throw result.error;
   return result?.data as T;
 }
 
 async function mustDeleteAffectRows(
-  promise: Promise<{ data: any[] | null; error: any } | { data?: any[] | null; error?: any }>,
+  promise: PromiseLike<{ data: any[] | null; error: any } | { data?: any[] | null; error?: any }>,
   context: string,
   options?: { allowMissing?: boolean; verify?: () => Promise<void> }
 ) {
@@ -150,6 +506,19 @@ function sanitizeRemoteWorkoutExercisePayload(payload: any) {
   return rest;
 }
 
+// set_type / parent_set_id / rest_secs_before are late workout_sets columns (supabase/migrations):
+// plain working and warmup sets (is_warmup already says which) leave them out so they sync on any schema.
+function sanitizeRemoteWorkoutSetPayload(payload: any) {
+  if (!payload || typeof payload !== "object") return payload;
+  const { set_type, parent_set_id, rest_secs_before, ...rest } = payload as Record<string, any>;
+  return {
+    ...rest,
+    ...(set_type && set_type !== "working" && set_type !== "warmup" ? { set_type } : {}),
+    ...(parent_set_id ? { parent_set_id } : {}),
+    ...(rest_secs_before != null ? { rest_secs_before } : {}),
+  };
+}
+
 function sanitizeRemoteTemplateExercisePayload(payload: any) {
   if (!payload || typeof payload !== "object") return payload;
   const { exercise_family_id, ...rest } = payload as Record<string, any>;
@@ -161,11 +530,20 @@ export async function enqueue(op: PendingOp["op"], payload: any) {
     createdAt: Date.now(),
     op,
     payload,
-    status: "queued"
+    status: "queued",
+    baseHash: await getLocalBaseHash(op, payload)
   });
 }
 
-async function processOp(op: PendingOp["op"], payload: any) {
+async function checkPushConflict(remoteTable: string, localTable: Parameters<typeof assertNoPushConflict>[0], payload: any, baseHash: string | null | undefined) {
+  const id = payload?.id;
+  if (!id) return;
+  const remote = await must(supabase.from(remoteTable).select("*").eq("id", id).maybeSingle());
+  assertNoPushConflict(localTable, payload, remote, baseHash);
+}
+
+async function processOp(op: PendingOp["op"], rawPayload: any, baseHash?: string | null) {
+  const payload = stripLocalRevisionFields(rawPayload);
   switch (op) {
     case "upsert_daily":
       await must(supabase.from("daily_logs").upsert(payload, { onConflict: "user_id,day_date" }));
@@ -175,21 +553,44 @@ async function processOp(op: PendingOp["op"], payload: any) {
       await must(supabase.from("nutrition_logs").upsert(payload, { onConflict: "user_id,day_date" }));
       return;
 
+    case "upsert_body_measurement":
+      try {
+        await must(supabase.from("body_measurements").upsert(payload, { onConflict: "user_id,taken_on" }));
+      } catch (e) {
+        if (!isMissingColumnError(e) || payload?.skinfolds_mm == null) throw e;
+        // Before the skinfolds migration the weight and tape still sync; the skinfolds stay on the device.
+        const { skinfolds_mm: _skinfolds, ...core } = payload;
+        await must(supabase.from("body_measurements").upsert(core, { onConflict: "user_id,taken_on" }));
+      }
+      return;
+
     case "insert_zone2":
       await must(supabase.from("zone2_sessions").upsert(payload, { onConflict: "user_id,day_date" }));
       return;
 
     case "create_workout":
+      await checkPushConflict("workout_sessions", "localSessions", payload, baseHash);
       await must(supabase.from("workout_sessions").upsert(payload, { onConflict: "id" }));
       return;
 
     case "insert_exercise":
+      await checkPushConflict("workout_exercises", "localExercises", payload, baseHash);
       await must(supabase.from("workout_exercises").upsert(sanitizeRemoteWorkoutExercisePayload(payload), { onConflict: "id" }));
       return;
 
-    case "insert_set":
-      await must(supabase.from("workout_sets").upsert(payload, { onConflict: "id" }));
+    case "insert_set": {
+      await checkPushConflict("workout_sets", "localSets", payload, baseHash);
+      const row = sanitizeRemoteWorkoutSetPayload(payload);
+      try {
+        await must(supabase.from("workout_sets").upsert(row, { onConflict: "id" }));
+      } catch (e) {
+        if (!isMissingColumnError(e)) throw e;
+        // Before the set columns migration the set itself still syncs; its type and rest stay on the device.
+        const { set_type: _setType, parent_set_id: _parentSetId, rest_secs_before: _rest, ...core } = row;
+        await must(supabase.from("workout_sets").upsert(core, { onConflict: "id" }));
+      }
       return;
+    }
 
     case "create_template":
       await must(supabase.from("workout_templates").upsert(payload, { onConflict: "id" }));
@@ -249,10 +650,11 @@ async function processOp(op: PendingOp["op"], payload: any) {
     }
 
     case "renumber_sets": {
-      const ordered_set_ids: string[] = payload?.ordered_set_ids ?? [];
+      const ordered_set_ids: (string | null)[] = payload?.ordered_set_ids ?? [];
       if (!Array.isArray(ordered_set_ids)) throw new Error("renumber_sets ordered_set_ids must be array");
       for (let i = 0; i < ordered_set_ids.length; i++) {
         const id = ordered_set_ids[i];
+        if (!id) continue; // resolved to the server copy in a sync conflict
         await must(supabase.from("workout_sets").update({ set_number: i + 1 }).eq("id", id));
       }
       return;
@@ -274,15 +676,39 @@ async function processOp(op: PendingOp["op"], payload: any) {
     }
 
     case "reorder_exercises": {
-      const ordered_exercise_ids: string[] = payload?.ordered_exercise_ids ?? [];
+      const ordered_exercise_ids: (string | null)[] = payload?.ordered_exercise_ids ?? [];
       if (!Array.isArray(ordered_exercise_ids)) throw new Error("reorder_exercises ordered_exercise_ids must be array");
       for (let i = 0; i < ordered_exercise_ids.length; i++) {
         const id = ordered_exercise_ids[i];
+        if (!id) continue; // resolved to the server copy in a sync conflict
         await must(supabase.from("workout_exercises").update({ sort_order: i }).eq("id", id));
       }
       return;
     }
 
+    case "set_exercise_group": {
+      const exercise_ids: (string | null)[] = payload?.exercise_ids ?? [];
+      if (!Array.isArray(exercise_ids)) throw new Error("set_exercise_group exercise_ids must be array");
+      const group_id: string | null = payload?.group_id ?? null;
+      for (let i = 0; i < exercise_ids.length; i++) {
+        if (!exercise_ids[i]) continue; // resolved to the server copy in a sync conflict
+        const fields = { group_id, group_type: group_id ? payload?.group_type ?? null : null, group_order: group_id ? i : null };
+        await must(supabase.from("workout_exercises").update(fields).eq("id", exercise_ids[i]));
+      }
+      return;
+    }
+
+    case "set_template_exercise_group": {
+      const template_exercise_ids: string[] = payload?.template_exercise_ids ?? [];
+      if (!Array.isArray(template_exercise_ids)) throw new Error("set_template_exercise_group template_exercise_ids must be array");
+      const group_id: string | null = payload?.group_id ?? null;
+      for (let i = 0; i < template_exercise_ids.length; i++) {
+        const fields = { group_id, group_type: group_id ? payload?.group_type ?? null : null, group_order: group_id ? i : null };
+        await must(supabase.from("workout_template_exercises").update(fields).eq("id", template_exercise_ids[i]));
+      }
+      return;
+    }
+
     case "delete_session": {
       const session_id = payload?.session_id;
       if (!session_id) throw new Error("delete_session missing session_id");
@@ -308,6 +734,16 @@ async function processOp(op: PendingOp["op"], payload: any) {
       return;
     }
 
+    case "upsert_custom_exercise":
+      await must(supabase.from("custom_exercises").upsert(payload, { onConflict: "id" }));
+      return;
+
+    case "upload_progress_photo":
+    case "update_progress_photo":
+    case "delete_progress_photo":
+      await processProgressPhotoOp(op, payload);
+      return;
+
     default:
       throw new Error(`Unknown op: ${op}`);
   }
@@ -325,19 +761,53 @@ export async function runSyncPass(
   try {
     setStatus("Syncing…");
 
+    await collapseOrphanedOps();
     const items = await localdb.pendingOps.orderBy("createdAt").toArray();
 
     if (items.length > 0) {
       setStatus("Local changes pending");
       let failed = 0;
 
+      // Targets whose op is stuck this pass; their children wait instead of failing.
+      const stuckTargets = new Set<string>();
+      for (const item of items) {
+        const target = opTarget(item);
+        if (target && (item.status === "quarantined" || item.status === "conflict")) stuckTargets.add(refKey(target));
+      }
+
       for (const item of items) {
-        if (item.status === "quarantined") continue;
+        if (item.status === "quarantined" || item.status === "conflict") continue;
+        const target = opTarget(item);
+        const parent = opParent(item);
+        if (parent && stuckTargets.has(refKey(parent))) {
+          if (target) stuckTargets.add(refKey(target));
+          if (item.id != null) {
+            await localdb.pendingOps.update(item.id, { lastError: `Waiting on ${parent.kind} ${parent.id}` });
+          }
+          continue;
+        }
         try {
-          await processOp(item.op, item.payload);
+          await processOp(item.op, item.payload, item.baseHash);
           if (item.id != null) await localdb.pendingOps.delete(item.id);
+          await markRowSynced(item.op, item.payload);
         } catch (e: any) {
+          if (target) stuckTargets.add(refKey(target));
+          // The op needs a migration the project hasn't run yet: retrying can't help, so wait without burning retries.
+          if (isMissingTableError(e) || isMissingColumnError(e)) {
+            if (item.id != null) {
+              await localdb.pendingOps.update(item.id, { lastError: `Waiting on the server schema: ${e?.message ?? "table missing"}` });
+            }
+            continue;
+          }
           failed++;
+          if (e instanceof SyncConflictError) {
+            const local = await (localdb[e.table] as any).get(e.rowId);
+            await recordSyncConflict({ table: e.table, rowId: e.rowId, local: local ?? item.payload, remote: e.remote, source: "push" });
+            if (item.id != null) {
+              await localdb.pendingOps.update(item.id, { status: "conflict", lastError: e.message });
+            }
+            continue;
+          }
           const nextRetryCount = (item.retryCount ?? 0) + 1;
           if (item.id != null) {
             if (nextRetryCount >= MAX_RETRY_COUNT) {
@@ -371,6 +841,8 @@ export async function runSyncPass(
       const counts = await getPendingOpCounts();
       if (counts.quarantined > 0) {
         setStatus(`Sync attention needed (${counts.quarantined} quarantined)`);
+      } else if (counts.conflicts > 0) {
+        setStatus(`Sync conflicts need review (${counts.conflicts})`);
       } else if (counts.retrying > 0 || failed > 0) {
         setStatus(`Sync issues (${Math.max(counts.retrying, failed)} retrying)`);
       } else {
@@ -392,11 +864,15 @@ export async function runSyncPass(
       setStatus(`Sync attention needed (${counts.quarantined} quarantined)`);
       return { completed: true, failed: counts.quarantined, hadQueuedOps: false };
     }
+    if (counts.conflicts > 0) {
+      setStatus(`Sync conflicts need review (${counts.conflicts})`);
+      return { completed: true, failed: counts.conflicts, hadQueuedOps: false };
+    }
     setStatus("Synced");
     return { completed: true, failed: 0, hadQueuedOps: false };
   } catch (e: any) {
     console.error(e);
-    const counts = await getPendingOpCounts().catch(() => ({ queued: 0, retrying: 0, quarantined: 0, total: 0 }));
+    const counts = await getPendingOpCounts().catch(() => ({ queued: 0, retrying: 0, quarantined: 0, conflicts: 0, total: 0 }));
     if (navigator.onLine && counts.quarantined > 0) {
       setStatus(`Sync attention needed (${counts.quarantined} quarantined)`);
     } else {
@@ -0,0 +1,322 @@
+import {
+  localdb,
+  type LocalRevisionFields,
+  type LocalSyncConflict,
+  type PendingOp,
+  type SyncConflictTable
+} from "./localdb";
+
+/**
+ * Conflict-aware sync for workout sessions / exercises / sets:
+ * - every local edit bumps `rev` + `updatedAt` on the row (local-only)
+ * - `base_hash` remembers which server version the local row was derived from
+ * - push: an upsert whose server row moved away from its base is held as "conflict"
+ * - pull: a server row that diverged from a row with unsynced local edits is not applied
+ * - either way a LocalSyncConflict is recorded and the user picks which version wins
+ *
+ * Position-only ops (renumber_sets / reorder_exercises / set_exercise_group) are not conflict-checked;
+ * they only protect the rows they touch from being clobbered by a pull. Resolving a row to the server
+ * copy blanks it out of them (null keeps the other rows at their index), so they can't push it back.
+ */
+
+export const SYNC_CONFLICT_TABLES: SyncConflictTable[] = ["localSessions", "localExercises", "localSets"];
+
+// Fields both sides share. Anything else on the row is local-only and ignored for comparison.
+const SYNC_FIELDS: Record<SyncConflictTable, string[]> = {
+  localSessions: ["user_id", "day_date", "started_at", "title", "notes"],
+  localExercises: ["session_id", "name", "sort_order"],
+  localSets: [
+    "exercise_id",
+    "set_number",
+    "load_type",
+    "weight_lbs",
+    "band_level",
+    "band_mode",
+    "band_config",
+    "band_est_lbs",
+    "reps",
+    "rpe",
+    "is_warmup",
+    "set_type",
+    "parent_set_id"
+  ],
+};
+
+// Added after fingerprints were first stored; left out of the hash while unset so those still match.
+// Working and warmup are never pushed as a set_type (is_warmup carries them), so they hash as unset too.
+const LATE_SET_FIELDS = ["set_type", "parent_set_id"];
+const UNPUSHED_SET_TYPES = ["working", "warmup"];
+
+const FIELD_LABELS: Record<string, string> = {
+  day_date: "Day",
+  started_at: "Started",
+  title: "Title",
+  notes: "Notes",
+  session_id: "Session",
+  name: "Exercise",
+  sort_order: "Order",
+  exercise_id: "Exercise",
+  set_number: "Set #",
+  load_type: "Load type",
+  weight_lbs: "Weight",
+  band_level: "Band",
+  band_mode: "Band mode",
+  band_config: "Band setup",
+  band_est_lbs: "Band est.",
+  reps: "Reps",
+  rpe: "RPE",
+  is_warmup: "Warmup",
+  set_type: "Set type",
+  parent_set_id: "Parent set",
+};
+
+const UPSERT_OP_TABLE: Partial<Record<PendingOp["op"], SyncConflictTable>> = {
+  create_workout: "localSessions",
+  insert_exercise: "localExercises",
+  insert_set: "localSets",
+};
+
+const POSITION_OP_IDS: Partial<Record<PendingOp["op"], { table: SyncConflictTable; key: string }>> = {
+  renumber_sets: { table: "localSets", key: "ordered_set_ids" },
+  reorder_exercises: { table: "localExercises", key: "ordered_exercise_ids" },
+  set_exercise_group: { table: "localExercises", key: "exercise_ids" },
+};
+
+export class SyncConflictError extends Error {
+  table: SyncConflictTable;
+  rowId: string;
+  remote: any;
+
+  constructor(table: SyncConflictTable, rowId: string, remote: any) {
+    super(`Sync conflict on ${table} ${rowId}: the server copy changed since this edit was made`);
+    this.name = "SyncConflictError";
+    this.table = table;
+    this.rowId = rowId;
+    this.remote = remote;
+  }
+}
+
+function normalizeValue(value: unknown): unknown {
+  if (value === undefined || value === "") return null;
+  if (typeof value === "number" && !Number.isFinite(value)) return null;
+  return value;
+}
+
+function pickSyncFields(table: SyncConflictTable, row: any): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const field of SYNC_FIELDS[table]) out[field] = normalizeValue(row?.[field]);
+  if (table === "localSets" && out.load_type == null) out.load_type = "weight";
+  if (table === "localSets") out.is_warmup = !!out.is_warmup;
+  if (table === "localSets" && UNPUSHED_SET_TYPES.includes(out.set_type as string)) out.set_type = null;
+  if (table === "localSets") for (const field of LATE_SET_FIELDS) if (out[field] == null) delete out[field];
+  return out;
+}
+
+export function syncFingerprint(table: SyncConflictTable, row: any): string {
+  const text = JSON.stringify(pickSyncFields(table, row));
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+export function upsertOpTable(op: PendingOp["op"]): SyncConflictTable | null {
+  return UPSERT_OP_TABLE[op] ?? null;
+}
+
+export function withLocalRevision<T extends LocalRevisionFields>(row: T, prev?: LocalRevisionFields | null): T {
+  return {
+    ...row,
+    rev: (prev?.rev ?? row.rev ?? 0) + 1,
+    updatedAt: Date.now(),
+    base_hash: row.base_hash ?? prev?.base_hash ?? null,
+  };
+}
+
+export function nextLocalRevision(prev: LocalRevisionFields | null | undefined): Pick<LocalRevisionFields, "rev" | "updatedAt"> {
+  return { rev: (prev?.rev ?? 0) + 1, updatedAt: Date.now() };
+}
+
+export function stripLocalRevisionFields(payload: any) {
+  if (!payload || typeof payload !== "object") return payload;
+  const { rev, updatedAt, base_hash, ...rest } = payload as Record<string, any>;
+  return rest;
+}
+
+export async function getLocalBaseHash(op: PendingOp["op"], payload: any): Promise<string | null> {
+  const table = upsertOpTable(op);
+  const id = payload?.id;
+  if (!table || !id) return null;
+  const row: any = await (localdb[table] as any).get(String(id));
+  return row?.base_hash ?? null;
+}
+
+/**
+ * Push-side check: throws SyncConflictError if the server row exists, differs from
+ * what we are about to write, and is not the version our edit was based on.
+ */
+export function assertNoPushConflict(table: SyncConflictTable, payload: any, remote: any, baseHash: string | null | undefined) {
+  if (!remote) return;
+  const remoteHash = syncFingerprint(table, remote);
+  if (remoteHash === syncFingerprint(table, payload)) return;
+  if (baseHash && remoteHash === baseHash) return;
+  throw new SyncConflictError(table, String(payload?.id ?? ""), remote);
+}
+
+export async function markRowSynced(op: PendingOp["op"], payload: any) {
+  const table = upsertOpTable(op);
+  const id = payload?.id;
+  if (!table || !id) return;
+  await (localdb[table] as any).update(String(id), { base_hash: syncFingerprint(table, payload) });
+}
+
+/** Row ids per table that still have unsynced local edits (any status). */
+export function collectDirtyRowIds(pending: PendingOp[]): Record<SyncConflictTable, Set<string>> {
+  const dirty: Record<SyncConflictTable, Set<string>> = {
+    localSessions: new Set(),
+    localExercises: new Set(),
+    localSets: new Set(),
+  };
+  for (const item of pending) {
+    const table = upsertOpTable(item.op);
+    if (table && item.payload?.id) dirty[table].add(String(item.payload.id));
+    const position = POSITION_OP_IDS[item.op];
+    const ids = position ? item.payload?.[position.key] : null;
+    if (position && Array.isArray(ids)) for (const id of ids) if (id) dirty[position.table].add(String(id));
+  }
+  return dirty;
+}
+
+async function resolveConflictContext(table: SyncConflictTable, row: any): Promise<{ userId: string | null; sessionId: string | null }> {
+  if (table === "localSessions") return { userId: row?.user_id ?? null, sessionId: row?.id ?? null };
+
+  let exercise: any = row;
+  if (table === "localSets") {
+    exercise = row?.exercise_id ? await localdb.localExercises.get(String(row.exercise_id)) : null;
+  }
+  const sessionId = exercise?.session_id ? String(exercise.session_id) : null;
+  const session = sessionId ? await localdb.localSessions.get(sessionId) : null;
+  return { userId: session?.user_id ?? null, sessionId };
+}
+
+export function syncConflictId(table: SyncConflictTable, rowId: string) {
+  return `${table}:${rowId}`;
+}
+
+export async function recordSyncConflict(args: {
+  table: SyncConflictTable;
+  rowId: string;
+  local: any;
+  remote: any;
+  source: LocalSyncConflict["source"];
+  userId?: string | null;
+}): Promise<LocalSyncConflict | null> {
+  const context = await resolveConflictContext(args.table, args.local ?? args.remote);
+  const userId = args.userId ?? context.userId;
+  if (!userId) return null;
+
+  const id = syncConflictId(args.table, args.rowId);
+  const prev = await localdb.syncConflicts.get(id);
+  const conflict: LocalSyncConflict = {
+    id,
+    user_id: userId,
+    table: args.table,
+    row_id: args.rowId,
+    session_id: context.sessionId,
+    source: args.source,
+    local: args.local ?? null,
+    remote: args.remote ?? null,
+    status: "open",
+    resolution: null,
+    detectedAt: prev?.status === "open" ? prev.detectedAt : Date.now(),
+    resolvedAt: null,
+  };
+  await localdb.syncConflicts.put(conflict);
+  return conflict;
+}
+
+export async function getOpenConflictRowIds(userId: string): Promise<Record<SyncConflictTable, Set<string>>> {
+  const open = await listOpenSyncConflicts(userId);
+  const out: Record<SyncConflictTable, Set<string>> = {
+    localSessions: new Set(),
+    localExercises: new Set(),
+    localSets: new Set(),
+  };
+  for (const c of open) out[c.table].add(c.row_id);
+  return out;
+}
+
+export async function listOpenSyncConflicts(userId: string): Promise<LocalSyncConflict[]> {
+  const rows = await localdb.syncConflicts.where({ user_id: userId }).toArray();
+  return rows.filter((c) => c.status === "open").sort((a, b) => a.detectedAt - b.detectedAt);
+}
+
+export type SyncConflictFieldDiff = { field: string; label: string; local: unknown; remote: unknown };
+
+export function describeSyncConflict(conflict: LocalSyncConflict): SyncConflictFieldDiff[] {
+  const local = pickSyncFields(conflict.table, conflict.local);
+  const remote = pickSyncFields(conflict.table, conflict.remote);
+  return SYNC_FIELDS[conflict.table]
+    .filter((field) => JSON.stringify(local[field]) !== JSON.stringify(remote[field]))
+    .map((field) => ({ field, label: FIELD_LABELS[field] ?? field, local: local[field], remote: remote[field] }));
+}
+
+async function pendingUpsertOpsForRow(table: SyncConflictTable, rowId: string): Promise<PendingOp[]> {
+  const items = await localdb.pendingOps.toArray();
+  return items.filter((item) => upsertOpTable(item.op) === table && String(item.payload?.id ?? "") === rowId);
+}
+
+async function releaseRowFromPositionOps(table: SyncConflictTable, rowId: string) {
+  const items = await localdb.pendingOps.toArray();
+  for (const item of items) {
+    const position = POSITION_OP_IDS[item.op];
+    const ids = position?.table === table ? item.payload?.[position.key] : null;
+    if (!position || !Array.isArray(ids) || item.id == null || !ids.some((id) => String(id) === rowId)) continue;
+    const kept = ids.map((id) => (String(id) === rowId ? null : id));
+    if (kept.some((id) => id)) await localdb.pendingOps.update(item.id, { payload: { ...item.payload, [position.key]: kept } });
+    else await localdb.pendingOps.delete(item.id);
+  }
+}
+
+/**
+ * "local": keep this device's version and push it over the server copy.
+ * "remote": take the server copy, drop this device's unsynced upserts for the row and release it
+ * from queued position ops.
+ */
+export async function resolveSyncConflict(conflictId: string, choice: "local" | "remote"): Promise<void> {
+  await localdb.transaction("rw", localdb.syncConflicts, localdb.pendingOps, localdb.localSessions, localdb.localExercises, localdb.localSets, async () => {
+    const conflict = await localdb.syncConflicts.get(conflictId);
+    if (!conflict || conflict.status !== "open") return;
+
+    const table = localdb[conflict.table] as any;
+    const remoteHash = conflict.remote ? syncFingerprint(conflict.table, conflict.remote) : null;
+    const ops = await pendingUpsertOpsForRow(conflict.table, conflict.row_id);
+    const current = await table.get(conflict.row_id);
+
+    if (choice === "local") {
+      if (current) await table.update(conflict.row_id, { base_hash: remoteHash, ...nextLocalRevision(current) });
+      if (ops.length) {
+        for (const op of ops) {
+          if (op.id != null) await localdb.pendingOps.update(op.id, { status: "queued", baseHash: remoteHash, retryCount: 0, lastError: undefined });
+        }
+      } else if (current) {
+        const opName = (Object.keys(UPSERT_OP_TABLE) as PendingOp["op"][]).find((op) => UPSERT_OP_TABLE[op] === conflict.table);
+        if (opName) {
+          const payload: Record<string, unknown> = { id: conflict.row_id, ...pickSyncFields(conflict.table, current) };
+          await localdb.pendingOps.add({ createdAt: Date.now(), op: opName, payload, status: "queued", baseHash: remoteHash });
+        }
+      }
+    } else {
+      const opIds = ops.map((op) => op.id).filter((id): id is number => id != null);
+      if (opIds.length) await localdb.pendingOps.bulkDelete(opIds);
+      await releaseRowFromPositionOps(conflict.table, conflict.row_id);
+      if (conflict.remote) {
+        await table.put({ ...(current ?? {}), ...conflict.remote, base_hash: remoteHash, ...nextLocalRevision(current) });
+      }
+    }
+
+    await localdb.syncConflicts.update(conflictId, { status: "resolved", resolution: choice, resolvedAt: Date.now() });
+  });
+}
@@ -5,17 +5,28 @@ import type Dexie from "dexie";
  *
  * Design goals:
  * - Single JSON file
- * - Versioned envelope
+ * - Versioned envelope, upgraded forward through BACKUP_MIGRATIONS
+ * - Per-table row counts + content hashes so truncated/edited files are caught
+ * - Optional user scoping (export only one account's rows; refuse to import them elsewhere)
  * - Safe default import: MERGE (non-destructive)
- * - Optional REPLACE mode: wipe local Dexie and restore from file
+ * - Optional REPLACE mode: wipe local Dexie (only the importing user's rows when
+ *   scoped) and restore from file
+ * - Dry-run planning: planBackupImport reports every row's action before anything is written
  *
  * Notes:
- * - MERGE uses primary keys and will only overwrite when BOTH records have an
- *   `updatedAt` number and the incoming record is newer.
- * - For tables without `updatedAt`, MERGE will NOT overwrite existing rows.
+ * - MERGE uses primary keys and only overwrites when BOTH records carry a
+ *   timestamp (`updatedAt` / `updated_at`) and the incoming record is newer.
+ * - For tables without timestamps (sessions, exercises, sets, templates), rows
+ *   are compared by content hash: identical rows are skipped, differing rows are
+ *   reported as conflicts and the caller picks which side wins.
+ * - Blob columns (progress photo images and thumbnails) are written as data URLs
+ *   and turned back into Blobs when the file is validated, so a restored photo can
+ *   still upload.
  */
 
-export type BackupMeta = {
+export const CURRENT_BACKUP_VERSION = 2;
+
+export type BackupMetaV1 = {
   app: "rebuild60";
   backupVersion: 1;
   createdAt: string; // ISO
@@ -23,17 +34,185 @@ export type BackupMeta = {
 };
 
 export type BackupEnvelopeV1 = {
+  meta: BackupMetaV1;
+  tables: Record<string, any[]>;
+};
+
+export type BackupTableChecksum = {
+  rowCount: number;
+  hash: string; // FNV-1a (hex) over stable-stringified rows
+};
+
+export type BackupMeta = {
+  app: "rebuild60";
+  backupVersion: 2;
+  createdAt: string; // ISO
+  dexieSchemaVersion: number; // localdb.verno
+  userId: string | null; // null = unscoped (all rows on the device)
+  migratedFrom?: number | null; // original backupVersion when upgraded on import
+};
+
+export type BackupEnvelopeV2 = {
   meta: BackupMeta;
   tables: Record<string, any[]>;
+  checksums: Record<string, BackupTableChecksum>;
 };
 
+export type BackupEnvelope = BackupEnvelopeV2;
+
 export type ImportMode = "MERGE" | "REPLACE";
 
+export type BackupRowAction = "insert" | "overwrite" | "skip" | "conflict";
+
+// Which copy wins for rows that differ but carry no timestamp to decide by.
+export type BackupConflictChoice = "keep_local" | "use_backup";
+
+export type BackupSkipReason =
+  | "identical"
+  | "local_newer"
+  | "kept_local"
+  | "missing_key"
+  | "unknown_table"
+  | "other_user";
+
+export type BackupRowPlan = {
+  key: unknown;
+  action: BackupRowAction;
+  reason?: BackupSkipReason;
+  localHash?: string; // conflicts only
+  backupHash?: string; // conflicts only
+};
+
+export type BackupTablePlan = {
+  table: string;
+  insert: number;
+  overwrite: number;
+  skip: number;
+  conflict: number;
+  cleared: number; // REPLACE only: local rows removed before restore
+  rows: BackupRowPlan[];
+};
+
+export type BackupImportPlan = {
+  mode: ImportMode;
+  backupVersion: number;
+  migratedFrom: number | null;
+  tables: BackupTablePlan[];
+  totals: { insert: number; overwrite: number; skip: number; conflict: number; cleared: number };
+};
+
+export type BackupImportResult = { inserted: number; updated: number; skipped: number; plan: BackupImportPlan };
+
+// Child tables with no user_id of their own, scoped through their parent row.
+const SCOPED_CHILD_TABLES: Record<string, { parent: string; foreignKey: string }> = {
+  localExercises: { parent: "localSessions", foreignKey: "session_id" },
+  localSets: { parent: "localExercises", foreignKey: "exercise_id" },
+  localTemplateExercises: { parent: "localTemplates", foreignKey: "template_id" },
+};
+
+// Columns holding Blobs, which JSON.stringify would otherwise write as {}.
+const BLOB_FIELDS: Record<string, string[]> = {
+  localPhotos: ["image", "thumb"],
+};
+
 function isObject(v: unknown): v is Record<string, any> {
   return typeof v === "object" && v !== null;
 }
 
-export function validateBackupEnvelope(raw: unknown): BackupEnvelopeV1 {
+function stableStringify(value: unknown): string {
+  if (value === undefined) return "null";
+  // Hash what the JSON file will contain (e.g. Dates become ISO strings).
+  if (isObject(value) && typeof value.toJSON === "function") return stableStringify(value.toJSON());
+  if (!isObject(value)) return JSON.stringify(value) ?? "null";
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  const keys = Object.keys(value)
+    .filter((k) => value[k] !== undefined)
+    .sort();
+  return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(",")}}`;
+}
+
+function fnv1a(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+export function computeTableChecksum(rows: any[]): BackupTableChecksum {
+  return { rowCount: rows.length, hash: fnv1a(stableStringify(rows)) };
+}
+
+export function computeBackupChecksums(tables: Record<string, any[]>): Record<string, BackupTableChecksum> {
+  const out: Record<string, BackupTableChecksum> = {};
+  for (const [name, rows] of Object.entries(tables)) {
+    if (Array.isArray(rows)) out[name] = computeTableChecksum(rows);
+  }
+  return out;
+}
+
+// Each step upgrades an envelope from `version` to `version + 1`.
+const BACKUP_MIGRATIONS: Record<number, (raw: Record<string, any>) => Record<string, any>> = {
+  1: (raw) => {
+    const v1 = raw as BackupEnvelopeV1;
+    const upgraded: BackupEnvelopeV2 = {
+      meta: {
+        app: "rebuild60",
+        backupVersion: 2,
+        createdAt: v1.meta.createdAt,
+        dexieSchemaVersion: v1.meta.dexieSchemaVersion ?? 0,
+        userId: null,
+        migratedFrom: 1,
+      },
+      tables: v1.tables,
+      checksums: computeBackupChecksums(v1.tables),
+    };
+    return upgraded;
+  },
+};
+
+export function migrateBackupEnvelope(raw: Record<string, any>): BackupEnvelope {
+  let current = raw;
+  let version = Number(current?.meta?.backupVersion);
+  const original = version;
+
+  while (version < CURRENT_BACKUP_VERSION) {
+    const step = BACKUP_MIGRATIONS[version];
+    if (!step) throw new Error(`No migration path from backupVersion ${version}.`);
+    current = step(current);
+    version = Number(current?.meta?.backupVersion);
+  }
+
+  const envelope = current as BackupEnvelope;
+  if (original !== CURRENT_BACKUP_VERSION) {
+    envelope.meta = { ...envelope.meta, migratedFrom: envelope.meta.migratedFrom ?? original };
+  }
+  return envelope;
+}
+
+export function verifyBackupChecksums(envelope: BackupEnvelope): string[] {
+  const problems: string[] = [];
+  for (const [name, rows] of Object.entries(envelope.tables)) {
+    const expected = envelope.checksums[name];
+    if (!expected) {
+      problems.push(`${name}: missing checksum`);
+      continue;
+    }
+    const actual = computeTableChecksum(Array.isArray(rows) ? rows : []);
+    if (actual.rowCount !== expected.rowCount) {
+      problems.push(`${name}: expected ${expected.rowCount} rows, found ${actual.rowCount}`);
+    } else if (actual.hash !== expected.hash) {
+      problems.push(`${name}: content hash mismatch`);
+    }
+  }
+  for (const name of Object.keys(envelope.checksums)) {
+    if (!(name in envelope.tables)) problems.push(`${name}: table missing from file`);
+  }
+  return problems;
+}
+
+export function validateBackupEnvelope(raw: unknown, currentSchemaVersion?: number): BackupEnvelope {
   if (!isObject(raw)) throw new Error("Backup JSON is not an object.");
   const meta = (raw as any).meta;
   const tables = (raw as any).tables;
@@ -41,18 +220,38 @@ export function validateBackupEnvelope(raw: unknown): BackupEnvelopeV1 {
   if (!isObject(meta) || meta.app !== "rebuild60") {
     throw new Error("That file doesn't look like a Rebuild @ 60 backup.");
   }
-  if (meta.backupVersion !== 1) {
-    throw new Error(`Unsupported backupVersion: ${String(meta.backupVersion)}`);
+  const version = meta.backupVersion;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1 || version > CURRENT_BACKUP_VERSION) {
+    throw new Error(`Unsupported backupVersion: ${String(version)}`);
   }
   if (!isObject(tables)) {
     throw new Error("Backup JSON is missing 'tables'.");
   }
-  return raw as BackupEnvelopeV1;
+  if (version >= 2 && !isObject((raw as any).checksums)) {
+    throw new Error("Backup JSON is missing 'checksums'.");
+  }
+  if (typeof currentSchemaVersion === "number" && Number(meta.dexieSchemaVersion) > currentSchemaVersion) {
+    throw new Error(
+      `This backup was made by a newer app (schema v${meta.dexieSchemaVersion}; this device is v${currentSchemaVersion}). Update the app first.`
+    );
+  }
+
+  const envelope = migrateBackupEnvelope(raw);
+  const problems = verifyBackupChecksums(envelope);
+  if (problems.length) {
+    throw new Error(`Backup failed integrity check:\n${problems.join("\n")}`);
+  }
+  return { ...envelope, tables: decodeBlobFields(envelope.tables) };
 }
 
 function getUpdatedAt(row: any): number | null {
-  const v = row?.updatedAt;
-  return typeof v === "number" && Number.isFinite(v) ? v : null;
+  const v = row?.updatedAt ?? row?.updated_at;
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string") {
+    const ms = Date.parse(v);
+    return Number.isFinite(ms) ? ms : null;
+  }
+  return null;
 }
 
 function getPrimaryKeyPath(table: any): string | string[] | null {
@@ -65,7 +264,8 @@ function getPrimaryKeyPath(table: any): string | string[] | null {
 function readKeyFromRow(row: any, keyPath: string | string[]): any {
   if (!row) return undefined;
   if (typeof keyPath === "string") return row[keyPath];
-  return keyPath.map((k) => row[k]);
+  const parts = keyPath.map((k) => row[k]);
+  return parts.some((p) => p === undefined) ? undefined : parts;
 }
 
 function chunk<T>(arr: T[], size: number): T[][] {
@@ -74,110 +274,354 @@ function chunk<T>(arr: T[], size: number): T[][] {
   return out;
 }
 
-export async function exportFullBackup(db: Dexie): Promise<BackupEnvelopeV1> {
+function rowBelongsToUser(tableName: string, row: any, userId: string): boolean {
+  if (typeof row?.user_id === "string") return row.user_id === userId;
+  if (tableName === "pendingOps") {
+    const owner = row?.payload?.user_id;
+    return typeof owner !== "string" || owner === userId;
+  }
+  return true;
+}
+
+/**
+ * Keeps only rows owned by `userId`. Tables with a user_id column are filtered
+ * directly; child tables follow their parent's surviving primary keys.
+ */
+export function scopeTablesToUser(tables: Record<string, any[]>, userId: string): Record<string, any[]> {
+  const out: Record<string, any[]> = {};
+  for (const [name, rows] of Object.entries(tables)) {
+    if (SCOPED_CHILD_TABLES[name]) continue;
+    out[name] = (rows ?? []).filter((row) => rowBelongsToUser(name, row, userId));
+  }
+
+  const pending = Object.keys(SCOPED_CHILD_TABLES).filter((name) => name in tables);
+  while (pending.length) {
+    const idx = pending.findIndex((name) => !pending.includes(SCOPED_CHILD_TABLES[name].parent));
+    const name = pending.splice(idx === -1 ? 0 : idx, 1)[0];
+    const { parent, foreignKey } = SCOPED_CHILD_TABLES[name];
+    const parentIds = new Set((out[parent] ?? []).map((row) => row?.id));
+    out[name] = (tables[name] ?? []).filter((row) => parentIds.has(row?.[foreignKey]));
+  }
+  return out;
+}
+
+async function blobToDataUrl(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return `data:${blob.type || "application/octet-stream"};base64,${btoa(binary)}`;
+}
+
+function dataUrlToBlob(value: unknown): Blob | null {
+  const match = typeof value === "string" ? /^data:([^;,]*);base64,(.*)$/.exec(value) : null;
+  if (!match) return null;
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: match[1] });
+}
+
+async function encodeBlobFields(tables: Record<string, any[]>): Promise<Record<string, any[]>> {
+  const out = { ...tables };
+  for (const [name, fields] of Object.entries(BLOB_FIELDS)) {
+    if (!Array.isArray(out[name])) continue;
+    out[name] = await Promise.all(
+      out[name].map(async (row) => {
+        const next = { ...row };
+        for (const field of fields) next[field] = next[field] instanceof Blob ? await blobToDataUrl(next[field]) : null;
+        return next;
+      })
+    );
+  }
+  return out;
+}
+
+// Anything but a data URL (e.g. the {} older files hold) comes back as null.
+function decodeBlobFields(tables: Record<string, any[]>): Record<string, any[]> {
+  const out = { ...tables };
+  for (const [name, fields] of Object.entries(BLOB_FIELDS)) {
+    if (!Array.isArray(out[name])) continue;
+    out[name] = out[name].map((row) => {
+      const next = { ...row };
+      for (const field of fields) next[field] = dataUrlToBlob(next[field]);
+      return next;
+    });
+  }
+  return out;
+}
+
+export async function exportFullBackup(db: Dexie, userId?: string | null): Promise<BackupEnvelopeV2> {
   const dexieAny = db as any;
   const tableList: any[] = dexieAny.tables ?? [];
 
-  const tables: Record<string, any[]> = {};
+  let tables: Record<string, any[]> = {};
   for (const t of tableList) {
     const name = t.name as string;
     tables[name] = await t.toArray();
   }
+  if (userId) tables = scopeTablesToUser(tables, userId);
+  tables = await encodeBlobFields(tables);
 
   return {
     meta: {
       app: "rebuild60",
-      backupVersion: 1,
+      backupVersion: 2,
       createdAt: new Date().toISOString(),
-      dexieSchemaVersion: (db as any).verno ?? 0
+      dexieSchemaVersion: (db as any).verno ?? 0,
+      userId: userId ?? null
     },
-    tables
+    tables,
+    checksums: computeBackupChecksums(tables)
   };
 }
 
-export async function importBackup(db: Dexie, envelope: BackupEnvelopeV1, mode: ImportMode): Promise<{ inserted: number; updated: number; skipped: number; }>{
-  const dexieAny = db as any;
-  const tableList: any[] = dexieAny.tables ?? [];
-  const byName = new Map<string, any>();
-  for (const t of tableList) byName.set(t.name, t);
+function assertBackupUser(envelope: BackupEnvelope, userId: string | null | undefined) {
+  const owner = envelope.meta.userId;
+  if (owner && userId && owner !== userId) {
+    throw new Error("This backup belongs to a different account. Sign in as that user to restore it.");
+  }
+}
+
+function emptyTablePlan(table: string): BackupTablePlan {
+  return { table, insert: 0, overwrite: 0, skip: 0, conflict: 0, cleared: 0, rows: [] };
+}
 
-  const allTables: any[] = (db as any).tables;
+function pushRow(plan: BackupTablePlan, row: BackupRowPlan) {
+  plan.rows.push(row);
+  if (row.action === "insert") plan.insert += 1;
+  else if (row.action === "overwrite") plan.overwrite += 1;
+  else if (row.action === "conflict") plan.conflict += 1;
+  else plan.skip += 1;
+}
 
-  let inserted = 0;
-  let updated = 0;
-  let skipped = 0;
+function decideMergeAction(key: unknown, incoming: any, existing: any): BackupRowPlan {
+  if (!existing) return { key, action: "insert" };
+  const backupHash = fnv1a(stableStringify(incoming));
+  const localHash = fnv1a(stableStringify(existing));
+  if (backupHash === localHash) return { key, action: "skip", reason: "identical" };
 
-  if (mode === "REPLACE") {
-    await (db as any).transaction("rw", allTables, async () => {
-      for (const t of tableList) await t.clear();
+  const inU = getUpdatedAt(incoming);
+  const exU = getUpdatedAt(existing);
+  if (inU !== null && exU !== null) {
+    return inU > exU ? { key, action: "overwrite" } : { key, action: "skip", reason: "local_newer" };
+  }
+  return { key, action: "conflict", localHash, backupHash };
+}
 
-      for (const [tableName, rows] of Object.entries(envelope.tables)) {
-        const t = byName.get(tableName);
-        if (!t) continue;
-        if (!Array.isArray(rows) || rows.length === 0) continue;
-        await t.bulkPut(rows);
-        inserted += rows.length;
-      }
+/**
+ * Local rows REPLACE removes, keyed by table. Scoped imports only clear the
+ * importing user's rows (child tables follow their parents) so other accounts
+ * on the device survive; unscoped imports clear everything.
+ */
+async function collectRowsToClear(tables: any[], userId: string | null | undefined): Promise<Map<string, any[]>> {
+  const out = new Map<string, any[]>();
+  if (!userId) {
+    for (const t of tables) out.set(t.name, await t.toCollection().primaryKeys());
+    return out;
+  }
+
+  const localRows: Record<string, any[]> = {};
+  const localKeys: Record<string, any[]> = {};
+  for (const t of tables) {
+    localRows[t.name] = await t.toArray();
+    localKeys[t.name] = await t.toCollection().primaryKeys();
+  }
+
+  const scoped = scopeTablesToUser(localRows, userId);
+  for (const t of tables) {
+    const owned = new Set(scoped[t.name] ?? []);
+    out.set(t.name, localKeys[t.name].filter((_, i) => owned.has(localRows[t.name][i])));
+  }
+  return out;
+}
+
+async function planTable(
+  t: any,
+  tableName: string,
+  rows: any[],
+  mode: ImportMode,
+  owned: Set<any> | null,
+  cleared: number
+): Promise<BackupTablePlan> {
+  const plan = emptyTablePlan(tableName);
+  const keyPath = t ? getPrimaryKeyPath(t) : null;
+  plan.cleared = cleared;
+
+  // Row plans stay in file order so importBackup can pair them with the rows.
+  const results: BackupRowPlan[] = new Array(rows.length);
+  const candidates: { index: number; key: any; row: any }[] = [];
+  rows.forEach((row, index) => {
+    const key = keyPath ? readKeyFromRow(row, keyPath) : undefined;
+    if (!t) {
+      results[index] = { key, action: "skip", reason: "unknown_table" };
+    } else if (owned && !owned.has(row)) {
+      results[index] = { key, action: "skip", reason: "other_user" };
+    } else if (key === undefined && !(typeof keyPath === "string" && t.schema?.primKey?.auto)) {
+      // If we can't determine PK, safest is: do not touch it.
+      results[index] = { key, action: "skip", reason: "missing_key" };
+    } else if (mode === "REPLACE" || key === undefined) {
+      results[index] = { key, action: "insert" };
+    } else {
+      candidates.push({ index, key, row });
+    }
+  });
+
+  // Fetch existing in chunks to avoid huge bulkGet arrays.
+  for (const batch of chunk(candidates, 500)) {
+    const existingRows = await t.bulkGet(batch.map((c) => c.key));
+    batch.forEach((c, i) => {
+      results[c.index] = decideMergeAction(c.key, c.row, existingRows[i]);
     });
+  }
 
-    return { inserted, updated, skipped };
+  for (const r of results) pushRow(plan, r);
+  return plan;
+}
+
+function planTotals(tables: BackupTablePlan[]): BackupImportPlan["totals"] {
+  const totals = { insert: 0, overwrite: 0, skip: 0, conflict: 0, cleared: 0 };
+  for (const p of tables) {
+    totals.insert += p.insert;
+    totals.overwrite += p.overwrite;
+    totals.skip += p.skip;
+    totals.conflict += p.conflict;
+    totals.cleared += p.cleared;
   }
+  return totals;
+}
 
-  // MERGE mode (safe default)
-  await (db as any).transaction("rw", allTables, async () => {
-    for (const [tableName, rows] of Object.entries(envelope.tables)) {
-      const t = byName.get(tableName);
-      if (!t) continue;
-      if (!Array.isArray(rows) || rows.length === 0) continue;
+function summarizePlan(mode: ImportMode, envelope: BackupEnvelope, tables: BackupTablePlan[]): BackupImportPlan {
+  return {
+    mode,
+    backupVersion: envelope.meta.backupVersion,
+    migratedFrom: envelope.meta.migratedFrom ?? null,
+    tables,
+    totals: planTotals(tables),
+  };
+}
 
-      const keyPath = getPrimaryKeyPath(t);
-      if (!keyPath) {
-        // If we can't determine PK, safest is: do not touch it.
-        skipped += rows.length;
-        continue;
-      }
+async function buildImportPlan(
+  tables: any[],
+  envelope: BackupEnvelope,
+  mode: ImportMode,
+  userId: string | null | undefined,
+  rowsToClear: Map<string, any[]> | null
+): Promise<BackupImportPlan> {
+  assertBackupUser(envelope, userId);
+  const byName = new Map<string, any>();
+  for (const t of tables) byName.set(t.name, t);
+
+  // Child rows follow their parents, so a file holding several accounts only restores this one's sets.
+  const fileTables = Object.fromEntries(Object.entries(envelope.tables).filter(([, rows]) => Array.isArray(rows)));
+  const scoped = userId ? scopeTablesToUser(fileTables, userId) : null;
 
-      const keys = rows.map((r) => readKeyFromRow(r, keyPath)).filter((k) => k !== undefined);
-      const keyToRow = new Map<any, any>();
-      for (let i = 0; i < rows.length; i++) {
-        const k = readKeyFromRow(rows[i], keyPath);
-        if (k !== undefined) keyToRow.set(k, rows[i]);
+  const tablePlans: BackupTablePlan[] = [];
+  for (const [tableName, rows] of Object.entries(envelope.tables)) {
+    if (!Array.isArray(rows)) continue;
+    const owned = scoped ? new Set(scoped[tableName] ?? []) : null;
+    const cleared = rowsToClear?.get(tableName)?.length ?? 0;
+    tablePlans.push(await planTable(byName.get(tableName), tableName, rows, mode, owned, cleared));
+  }
+  if (rowsToClear) {
+    for (const name of byName.keys()) {
+      if (!(name in envelope.tables)) {
+        const plan = emptyTablePlan(name);
+        plan.cleared = rowsToClear.get(name)?.length ?? 0;
+        tablePlans.push(plan);
       }
+    }
+  }
+  return summarizePlan(mode, envelope, tablePlans);
+}
 
-      // Fetch existing in chunks to avoid huge bulkGet arrays.
-      const batches = chunk(keys, 500);
-      for (const batch of batches) {
-        const existingRows = await t.bulkGet(batch);
-
-        const puts: any[] = [];
-        for (let i = 0; i < batch.length; i++) {
-          const key = batch[i];
-          const incoming = keyToRow.get(key);
-          const existing = existingRows[i];
-
-          if (!incoming) continue;
-
-          if (!existing) {
-            puts.push(incoming);
-            inserted += 1;
-            continue;
-          }
-
-          const inU = getUpdatedAt(incoming);
-          const exU = getUpdatedAt(existing);
-
-          if (inU !== null && exU !== null && inU > exU) {
-            puts.push(incoming);
-            updated += 1;
-          } else {
-            skipped += 1;
-          }
-        }
-
-        if (puts.length) await t.bulkPut(puts);
+/**
+ * Dry run: reports what importBackup would do for every row without writing.
+ * Conflict rows are left unresolved so the caller can ask which side wins.
+ */
+export async function planBackupImport(
+  db: Dexie,
+  envelope: BackupEnvelope,
+  mode: ImportMode,
+  userId?: string | null
+): Promise<BackupImportPlan> {
+  const tables = db.tables;
+  const rowsToClear = mode === "REPLACE" ? await collectRowsToClear(tables, userId) : null;
+  return buildImportPlan(tables, envelope, mode, userId, rowsToClear);
+}
+
+/** Settles every conflict row: the backup copy overwrites, or the local copy is kept. */
+export function resolveBackupConflicts(plan: BackupImportPlan, choice: BackupConflictChoice): BackupImportPlan {
+  const tables = plan.tables.map((t) => {
+    const resolved = emptyTablePlan(t.table);
+    resolved.cleared = t.cleared;
+    for (const row of t.rows) {
+      if (row.action !== "conflict") pushRow(resolved, row);
+      else if (choice === "use_backup") pushRow(resolved, { ...row, action: "overwrite" });
+      else pushRow(resolved, { ...row, action: "skip", reason: "kept_local" });
+    }
+    return resolved;
+  });
+  return { ...plan, tables, totals: planTotals(tables) };
+}
+
+export function formatBackupImportPlan(plan: BackupImportPlan): string {
+  const lines: string[] = [];
+  if (plan.migratedFrom) lines.push(`Backup upgraded from v${plan.migratedFrom} to v${plan.backupVersion}.`);
+  if (plan.mode === "REPLACE") lines.push(`Local rows to delete first: ${plan.totals.cleared}`);
+  lines.push(
+    `Insert: ${plan.totals.insert}  Overwrite: ${plan.totals.overwrite}  Skip: ${plan.totals.skip}  Conflict: ${plan.totals.conflict}`
+  );
+
+  for (const t of plan.tables) {
+    if (!t.insert && !t.overwrite && !t.skip && !t.conflict && !t.cleared) continue;
+    const reasons = new Map<string, number>();
+    for (const r of t.rows) if (r.reason) reasons.set(r.reason, (reasons.get(r.reason) ?? 0) + 1);
+    const reasonText = reasons.size
+      ? ` (${Array.from(reasons, ([reason, n]) => `${n} ${reason.replace(/_/g, " ")}`).join(", ")})`
+      : "";
+    const conflictText = t.conflict ? ` !${t.conflict}` : "";
+    lines.push(`• ${t.table}: +${t.insert} ~${t.overwrite} =${t.skip}${conflictText}${reasonText}`);
+  }
+  return lines.join("\n");
+}
+
+export async function importBackup(
+  db: Dexie,
+  envelope: BackupEnvelope,
+  mode: ImportMode,
+  userId?: string | null,
+  conflicts: BackupConflictChoice = "keep_local"
+): Promise<BackupImportResult> {
+  const tables = db.tables;
+  const byName = new Map<string, any>();
+  for (const t of tables) byName.set(t.name, t);
+
+  // Plan inside the transaction so the rows written are exactly the rows reported.
+  const plan = await db.transaction("rw", tables, async () => {
+    const rowsToClear = mode === "REPLACE" ? await collectRowsToClear(tables, userId) : null;
+    const resolved = resolveBackupConflicts(await buildImportPlan(tables, envelope, mode, userId, rowsToClear), conflicts);
+
+    if (rowsToClear) {
+      for (const [name, keys] of rowsToClear) {
+        for (const batch of chunk(keys, 500)) await byName.get(name).bulkDelete(batch);
       }
     }
+
+    for (const tablePlan of resolved.tables) {
+      const t = byName.get(tablePlan.table);
+      const rows = envelope.tables[tablePlan.table];
+      if (!t || !Array.isArray(rows)) continue;
+
+      const puts = rows.filter((_, i) => tablePlan.rows[i] && tablePlan.rows[i].action !== "skip");
+      for (const batch of chunk(puts, 500)) await t.bulkPut(batch);
+    }
+    return resolved;
   });
 
-  return { inserted, updated, skipped };
+  return {
+    inserted: plan.totals.insert,
+    updated: plan.totals.overwrite,
+    skipped: plan.totals.skip,
+    plan,
+  };
 }
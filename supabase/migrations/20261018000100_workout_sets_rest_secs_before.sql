@@ -0,0 +1,5 @@
+-- Measured rest before each set (user-001). The client only sends it when the rest
+-- timer saw the previous set in the session, so older rows stay null.
+alter table public.workout_sets
+  add column if not exists rest_secs_before integer
+    check (rest_secs_before is null or rest_secs_before >= 0);
@@ -0,0 +1,33 @@
+-- User-defined exercises (user-009). One row per exercise; deletes are soft
+-- (deleted = true) so the tombstone syncs. Until this runs, the app keeps custom
+-- exercises on the device: the pull reads the table as empty and
+-- upsert_custom_exercise ops wait in the queue instead of being quarantined.
+create table if not exists public.custom_exercises (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  key text not null,
+  canonical_name text not null,
+  aliases text[] not null default '{}',
+  movement_patterns text[] not null default '{}',
+  primary_muscles text[] not null default '{}',
+  secondary_muscles text[] not null default '{}',
+  equipment text[] not null default '{}',
+  role_tags text[] not null default '{}',
+  family text not null,
+  fatigue text not null,
+  compound boolean not null default false,
+  unilateral boolean not null default false,
+  allowed_slots text[],
+  requirements jsonb not null default '[]'::jsonb,
+  progression_model text,
+  cloned_from text,
+  deleted boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists custom_exercises_user_id_idx on public.custom_exercises (user_id);
+
+alter table public.custom_exercises enable row level security;
+
+create policy "custom_exercises_own_rows" on public.custom_exercises
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
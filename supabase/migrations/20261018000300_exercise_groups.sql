@@ -0,0 +1,13 @@
+-- Superset / tri-set / circuit / EMOM grouping (user-018). Written by the
+-- set_exercise_group and set_template_exercise_group ops; ungrouped rows stay null.
+alter table public.workout_exercises
+  add column if not exists group_id text,
+  add column if not exists group_type text
+    check (group_type is null or group_type in ('superset', 'triset', 'circuit', 'emom')),
+  add column if not exists group_order integer;
+
+alter table public.workout_template_exercises
+  add column if not exists group_id text,
+  add column if not exists group_type text
+    check (group_type is null or group_type in ('superset', 'triset', 'circuit', 'emom')),
+  add column if not exists group_order integer;
@@ -0,0 +1,7 @@
+-- Set types beyond warmup (user-019). Plain working and warmup sets leave both
+-- columns null (is_warmup still marks warmups); drop, rest-pause and myo-rep sets
+-- point at the set they continue through parent_set_id.
+alter table public.workout_sets
+  add column if not exists set_type text
+    check (set_type is null or set_type in ('warmup', 'working', 'drop', 'rest_pause', 'myo_reps', 'amrap', 'backoff')),
+  add column if not exists parent_set_id uuid;
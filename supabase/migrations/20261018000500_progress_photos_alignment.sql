@@ -0,0 +1,7 @@
+-- Full photo alignment (user-023). align_x / align_y already hold the translation;
+-- auto-align adds scale and rotation about the image centre. Null reads as none
+-- (scale 1, rotation 0), so existing rows need no backfill.
+alter table public.progress_photos
+  add column if not exists align_scale double precision
+    check (align_scale is null or align_scale > 0),
+  add column if not exists align_rotation double precision;
@@ -0,0 +1,4 @@
+-- Skinfold readings (user-025), millimetres keyed by site, e.g. {"chest": 8, "abdomen": 14}.
+-- Only days with skinfolds taken carry a value.
+alter table public.body_measurements
+  add column if not exists skinfolds_mm jsonb;